@@ -7,6 +7,7 @@ export async function createChannel(
 	workspaceId: string,
 	name: string,
 	description?: string,
+	isPrivate = false,
 ) {
 	const supabase = await createClient();
 
@@ -39,6 +40,7 @@ export async function createChannel(
 			name,
 			description,
 			created_by: user.id,
+			is_private: isPrivate,
 		})
 		.select()
 		.single();
@@ -74,3 +76,69 @@ export async function createChannel(
 
 	return channel;
 }
+
+/**
+ * addChannelMembers - add workspace members to a channel. Private channels
+ * are invite-only, so RLS only lets channel admins (or workspace admins) do
+ * this.
+ */
+export async function addChannelMembers(channelId: string, userIds: string[]) {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	if (!userIds.length) return;
+
+	const { error } = await supabase.from("channel_members").upsert(
+		userIds.map((userId) => ({
+			channel_id: channelId,
+			user_id: userId,
+			role: "member",
+		})),
+		{ onConflict: "channel_id,user_id", ignoreDuplicates: true },
+	);
+
+	if (error) {
+		console.error("[addChannelMembers] Failed to add members:", error);
+		throw new Error("Failed to add people to the channel");
+	}
+}
+
+/**
+ * removeChannelMember - remove someone from a channel, or leave it when
+ * removing yourself. Removing others requires channel admin rights.
+ */
+export async function removeChannelMember(channelId: string, userId: string) {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const { data: removed, error } = await supabase
+		.from("channel_members")
+		.delete()
+		.eq("channel_id", channelId)
+		.eq("user_id", userId)
+		.select("user_id");
+
+	if (error) {
+		console.error("[removeChannelMember] Failed to remove member:", error);
+		throw new Error("Failed to remove member");
+	}
+
+	// RLS silently skips rows the caller isn't allowed to delete
+	if (!removed?.length) {
+		throw new Error("You don't have permission to remove this member");
+	}
+}
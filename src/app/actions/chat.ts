@@ -1,20 +1,338 @@
 "use server";
 
-import OpenAI from "openai";
 import { searchMessages } from "./search";
+import { CHAT_TOOLS, runChatTool, type ChatToolContext } from "./chatTools";
+import { createChannel } from "./channel";
+import { createMessage } from "./message";
+import { createReminder } from "./reminders";
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { createClient } from "@/utils/supabase/server";
+import { getLlm, type LlmMessage, type LlmSelection } from "@/utils/llm";
+import { extractCitations } from "@/utils/citations";
+import { buildMessageHref } from "@/utils/messageLinks";
+import type {
+	ChatActionRecord,
+	ChatActionResult,
+	ChatCitation,
+	ChatSession,
+	ChatSource,
+	ChatStreamEvent,
+} from "@/types/chat";
 
-const openai = new OpenAI({
-	apiKey: process.env.OPENAI_API_KEY,
-});
+// Stop a model that keeps calling tools from looping forever
+const MAX_TOOL_ROUNDS = 5;
+
+// How much of a session's history is sent with each turn. Older messages
+// are left out once it's used up, so long sessions keep working.
+const HISTORY_TOKEN_BUDGET = 6000;
+
+// Longest title a new session gets from its first message
+const MAX_TITLE_LENGTH = 80;
 
 export interface Message {
 	id: string;
 	role: "user" | "assistant" | "system";
 	content: string;
+	sources?: ChatSource[];
+	citations?: ChatCitation[];
+	actions?: ChatActionRecord[];
+}
+
+// Roughly four characters to a token, close enough to budget with
+function estimateTokens(text: string) {
+	return Math.ceil(text.length / 4);
+}
+
+// Keep the most recent messages that fit the budget. The newest message is
+// always kept, however long it is.
+function truncateHistory<T extends { content: string }>(history: T[]) {
+	const kept: T[] = [];
+	let tokens = 0;
+
+	for (let i = history.length - 1; i >= 0; i--) {
+		tokens += estimateTokens(history[i].content);
+		if (kept.length > 0 && tokens > HISTORY_TOKEN_BUDGET) {
+			break;
+		}
+		kept.unshift(history[i]);
+	}
+
+	return { messages: kept, truncated: kept.length < history.length };
+}
+
+// Save the reply as it arrives so a resumed session shows what the user
+// saw. Actions are saved as soon as they're proposed, so they can be
+// confirmed before the reply has finished, and are added to what's saved
+// rather than overwriting it so an earlier one's outcome isn't lost.
+async function* savedReply(
+	supabase: SupabaseClient,
+	session: ChatSession,
+	messageId: string,
+	reply: AsyncIterable<ChatStreamEvent>,
+): AsyncIterable<ChatStreamEvent> {
+	yield { type: "session", session, messageId };
+
+	let content = "";
+	let sources: ChatSource[] = [];
+	let citations: ChatCitation[] = [];
+
+	try {
+		for await (const event of reply) {
+			if (event.type === "text") {
+				content += event.content;
+			} else if (event.type === "sources") {
+				sources = event.sources;
+			} else if (event.type === "citations") {
+				citations = event.citations;
+			} else if (event.type === "action") {
+				const { data: saved } = await supabase
+					.from("assistant_messages")
+					.select("actions")
+					.eq("id", messageId)
+					.single();
+				const actions: ChatActionRecord[] = [
+					...((saved?.actions ?? []) as ChatActionRecord[]),
+					{ ...event.action, status: "pending" },
+				];
+				await supabase
+					.from("assistant_messages")
+					.update({ actions })
+					.eq("id", messageId);
+			}
+			yield event;
+		}
+	} finally {
+		const { error } = await supabase
+			.from("assistant_messages")
+			.update({ content, sources, citations })
+			.eq("id", messageId);
+		if (error) {
+			console.error("[streamChat] Failed to save reply:", error);
+		}
+
+		await supabase
+			.from("assistant_sessions")
+			.update({ updated_at: new Date().toISOString() })
+			.eq("id", session.id);
+	}
+}
+
+// Start a session, or pick up one of the user's own in the same workspace
+async function openSession(
+	supabase: SupabaseClient,
+	userId: string,
+	workspaceId: string | null,
+	sessionId: string | null,
+	firstMessage: string,
+): Promise<ChatSession> {
+	if (sessionId) {
+		const { data: session } = await supabase
+			.from("assistant_sessions")
+			.select("*")
+			.eq("id", sessionId)
+			.eq("user_id", userId)
+			.maybeSingle();
+
+		if (!session || session.workspace_id !== workspaceId) {
+			throw new Error("Conversation not found");
+		}
+		return session as ChatSession;
+	}
+
+	const title =
+		firstMessage.trim().replace(/\s+/g, " ").slice(0, MAX_TITLE_LENGTH) ||
+		"New conversation";
+	const { data: session, error } = await supabase
+		.from("assistant_sessions")
+		.insert({ user_id: userId, workspace_id: workspaceId, title })
+		.select()
+		.single();
+
+	if (error || !session) {
+		console.error("[streamChat] Failed to create session:", error);
+		throw new Error("Failed to start conversation");
+	}
+	return session as ChatSession;
+}
+
+// Load an action from the reply that proposed it, with the rest of the
+// reply's actions so it can be saved back
+async function loadAction(
+	supabase: SupabaseClient,
+	messageId: string,
+	actionId: string,
+) {
+	const { data: message } = await supabase
+		.from("assistant_messages")
+		.select("actions")
+		.eq("id", messageId)
+		.maybeSingle();
+
+	const actions = (message?.actions ?? []) as ChatActionRecord[];
+	const action = actions.find((a) => a.id === actionId);
+	if (!action) {
+		throw new Error("Action not found");
+	}
+	if (action.status !== "pending") {
+		throw new Error(`This action was already ${action.status}`);
+	}
+
+	return { action, actions };
+}
+
+// Mark an action as running, but only while it's still pending, so two
+// confirmations racing each other can't both carry it out
+async function claimAction(
+	supabase: SupabaseClient,
+	messageId: string,
+	actions: ChatActionRecord[],
+	action: ChatActionRecord,
+) {
+	const { data, error } = await supabase
+		.from("assistant_messages")
+		.update({
+			actions: actions.map((a) =>
+				a.id === action.id ? { ...action, status: "running" } : a,
+			),
+		})
+		.eq("id", messageId)
+		.eq(`actions->${actions.indexOf(action)}->>status`, "pending")
+		.select("id");
+
+	if (error) {
+		console.error("[runChatAction] Failed to claim action:", error);
+		throw new Error("Failed to run action");
+	}
+	if (!data?.length) {
+		throw new Error("This action is already being handled");
+	}
+}
+
+async function saveAction(
+	supabase: SupabaseClient,
+	messageId: string,
+	actions: ChatActionRecord[],
+	updated: ChatActionRecord,
+) {
+	const { error } = await supabase
+		.from("assistant_messages")
+		.update({
+			actions: actions.map((a) => (a.id === updated.id ? updated : a)),
+		})
+		.eq("id", messageId);
+
+	if (error) {
+		console.error("[runChatAction] Failed to save action:", error);
+	}
+}
+
+async function* unavailableReply(): AsyncIterable<ChatStreamEvent> {
+	yield {
+		type: "text",
+		content:
+			"Sorry, I'm not available right now because no chat model is configured.",
+	};
+}
+
+async function* streamedReply(
+	llm: LlmSelection,
+	messages: LlmMessage[],
+): AsyncIterable<ChatStreamEvent> {
+	for await (const content of llm.provider.stream(llm.model, messages)) {
+		yield { type: "text", content };
+	}
+}
+
+// Let the model call tools until it answers. Read tools run straight away;
+// write tools come back as actions for the user to confirm.
+async function* toolReply(
+	llm: LlmSelection,
+	messages: LlmMessage[],
+	context: ChatToolContext,
+): AsyncIterable<ChatStreamEvent> {
+	const conversation = [...messages];
+
+	for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+		const reply = await llm.provider.completeWithTools(
+			llm.model,
+			conversation,
+			CHAT_TOOLS,
+		);
+
+		if (!reply.toolCalls.length) {
+			yield { type: "text", content: reply.content };
+			return;
+		}
+
+		conversation.push({
+			role: "assistant",
+			content: reply.content,
+			toolCalls: reply.toolCalls,
+		});
+
+		for (const call of reply.toolCalls) {
+			console.log("[streamChat] Tool call:", call.name, call.arguments);
+			const outcome = await runChatTool(call, context);
+
+			if (outcome.action) {
+				yield { type: "action", action: outcome.action };
+			}
+			if (outcome.sourcesChanged) {
+				yield { type: "sources", sources: [...context.sources] };
+			}
+			conversation.push({
+				role: "tool",
+				toolCallId: call.id,
+				name: call.name,
+				content: outcome.content,
+			});
+		}
+	}
+
+	yield {
+		type: "text",
+		content: "Sorry, I couldn't finish that. Could you try asking another way?",
+	};
 }
 
-export async function streamChat(messages: Message[]) {
+async function* citedReply(
+	sources: ChatSource[],
+	reply: AsyncIterable<ChatStreamEvent>,
+): AsyncIterable<ChatStreamEvent> {
+	yield { type: "sources", sources: [...sources] };
+
+	let text = "";
+	for await (const event of reply) {
+		if (event.type === "text") {
+			text += event.content;
+		}
+		yield event;
+	}
+
+	// Tools may have added sources since the first event
+	yield { type: "citations", citations: extractCitations(text, sources) };
+}
+
+/**
+ * streamChat - answer as Slucky, with context from the workspace the user is
+ * looking at. Without a workspace Slucky answers without any message context.
+ * Continues the given session, or starts a new one, and saves both the
+ * message and the reply to it; only as much history as fits the budget is
+ * sent to the model. Yields the session first, then the messages it was
+ * given as numbered sources, then the reply in chunks as they arrive, then
+ * the sources the reply cited with [n]. In a workspace Slucky can also use
+ * tools; changes it proposes are yielded as actions and only happen once
+ * the user confirms them with runChatAction.
+ */
+export async function streamChat({
+	content,
+	sessionId,
+	workspaceSlug,
+}: {
+	content: string;
+	sessionId: string | null;
+	workspaceSlug?: string;
+}): Promise<AsyncIterable<ChatStreamEvent>> {
 	try {
 		const supabase = await createClient();
 
@@ -37,8 +355,84 @@ export async function streamChat(messages: Message[]) {
 			throw new Error("User profile not found");
 		}
 
-		// Get the user's latest message
-		const userMessage = messages[messages.length - 1];
+		// Only search a workspace the user is actually a member of
+		let workspaceId: string | null = null;
+		if (workspaceSlug) {
+			const { data: membership } = await supabase
+				.from("workspace_members")
+				.select("workspace_id, workspaces!inner(slug)")
+				.eq("workspaces.slug", workspaceSlug)
+				.eq("user_id", user.id)
+				.maybeSingle();
+
+			workspaceId = membership?.workspace_id ?? null;
+		}
+
+		const session = await openSession(
+			supabase,
+			user.id,
+			workspaceId,
+			sessionId,
+			content,
+		);
+
+		const { error: insertError } = await supabase
+			.from("assistant_messages")
+			.insert({ session_id: session.id, role: "user", content });
+		if (insertError) {
+			console.error("[streamChat] Failed to save message:", insertError);
+			throw new Error("Failed to save message");
+		}
+
+		// Saved under its own row before it starts, so actions have an id to
+		// be confirmed against
+		const { data: replyRow, error: replyError } = await supabase
+			.from("assistant_messages")
+			.insert({ session_id: session.id, role: "assistant" })
+			.select("id")
+			.single();
+		if (replyError || !replyRow) {
+			console.error("[streamChat] Failed to save reply:", replyError);
+			throw new Error("Failed to save message");
+		}
+
+		const llm = getLlm("chat", "stream");
+		const canUseTools = !!(
+			workspaceId &&
+			workspaceSlug &&
+			llm?.provider.capabilities.includes("tools")
+		);
+		if (!llm) {
+			return savedReply(supabase, session, replyRow.id, unavailableReply());
+		}
+
+		// Everything said so far, ending with the message just saved. Replies
+		// that never arrived are left out.
+		const { data: rows } = await supabase
+			.from("assistant_messages")
+			.select("role, content")
+			.eq("session_id", session.id)
+			.neq("id", replyRow.id)
+			.order("created_at", { ascending: true });
+		const history = truncateHistory(
+			(rows ?? [])
+				.filter((row) => row.content)
+				.map((row) => ({
+					role: row.role as "user" | "assistant",
+					content: row.content as string,
+				})),
+		);
+		if (history.truncated) {
+			console.log(
+				`[streamChat] Sending ${history.messages.length} of ${rows?.length} messages`,
+			);
+		}
+
+		const userMessage: Message = {
+			id: crypto.randomUUID(),
+			role: "user",
+			content,
+		};
 
 		// Add current date and time context
 		const now = new Date();
@@ -59,11 +453,18 @@ export async function streamChat(messages: Message[]) {
 		const systemMessage: Message = {
 			id: crypto.randomUUID(),
 			role: "system",
-			content: `You are Slucky, a helpful AI assistant for the Sluck workspace chat application. You are chatting with ${profile.display_name || profile.full_name}. You should be friendly and conversational while remaining professional. You can help with questions about messages in the workspace, provide general assistance, or engage in casual conversation.`,
+			content: `You are Slucky, a helpful AI assistant for the Sluck workspace chat application. You are chatting with ${profile.display_name || profile.full_name}. You should be friendly and conversational while remaining professional. You can help with questions about messages in the workspace, provide general assistance, or engage in casual conversation.${
+				canUseTools
+					? " You can use tools to look things up in the workspace, and to draft messages, create channels and set reminders for the user. Those changes only happen once the user confirms them, so never claim they're done."
+					: ""
+			}`,
 		};
 
-		// Search for relevant context
-		const searchResults = await searchMessages(userMessage.content);
+		// Search for relevant context in the current workspace
+		const searchResults =
+			workspaceId && workspaceSlug
+				? await searchMessages(userMessage.content, { workspaceId })
+				: [];
 		console.log("[streamChat] Search results:", {
 			count: searchResults.length,
 			results: searchResults.map((r) => ({
@@ -74,10 +475,26 @@ export async function streamChat(messages: Message[]) {
 			})),
 		});
 
-		// Format search results
+		const sources: ChatSource[] = searchResults.map((result, i) => ({
+			index: i + 1,
+			id: result.id,
+			href: buildMessageHref(workspaceSlug ?? "", {
+				id: result.id,
+				parent_id: result.parent_id,
+				conversation_id: result.conversation_id,
+				channel: result.channel_slug ? { slug: result.channel_slug } : null,
+			}),
+			content: result.content,
+			created_at: result.created_at,
+			sender_name: result.sender_name,
+			channel_name: result.channel_name,
+			similarity: result.similarity,
+		}));
+
+		// Format search results, numbered so the reply can cite them
 		const searchResultsText = searchResults
-			.map((result) => {
-				const lines = [];
+			.map((result, i) => {
+				const lines = [`Source [${i + 1}]`];
 				if (result.context) {
 					lines.push(`Context: ${result.context}`);
 				}
@@ -98,37 +515,183 @@ export async function streamChat(messages: Message[]) {
 			contextMessage = {
 				id: crypto.randomUUID(),
 				role: "system",
-				content: `Here are some relevant messages from the workspace that might help with the response:\n\n${searchResultsText}\n\nPlease use this context to inform your response when relevant.`,
+				content: `Here are some relevant messages from the workspace that might help with the response:\n\n${searchResultsText}\n\nPlease use this context to inform your response when relevant. Whenever you use a source, cite it by its number in square brackets right after the statement, e.g. [2]. Only cite source numbers you've been given.`,
 			};
 		}
 
+		const truncationNote: Message | null = history.truncated
+			? {
+					id: crypto.randomUUID(),
+					role: "system",
+					content:
+						"This is a long conversation and its earliest messages have been left out. If the user refers to something you can't see, ask them to repeat it.",
+				}
+			: null;
+
 		// Add context to messages if available
 		const messagesWithContext = [
 			systemMessage,
-			...messages.slice(0, -1),
+			...(truncationNote ? [truncationNote] : []),
+			...history.messages.slice(0, -1),
 			dateTimeContext,
 			...(contextMessage ? [contextMessage] : []),
 			userMessage,
 		];
 
-		// Log the final messages being sent to OpenAI
+		// Log the final messages being sent to the model
 		console.log(
-			"[streamChat] Messages being sent to OpenAI:",
+			`[streamChat] Messages being sent to ${llm.provider.name}:`,
 			messagesWithContext,
 		);
 
-		const response = await openai.chat.completions.create({
-			model: "gpt-4o-mini",
-			messages: messagesWithContext.map((msg) => ({
-				role: msg.role,
-				content: msg.content,
-			})),
-			stream: true,
-		});
+		const llmMessages: LlmMessage[] = messagesWithContext.map((msg) => ({
+			role: msg.role,
+			content: msg.content,
+		}));
 
-		return response;
+		return savedReply(
+			supabase,
+			session,
+			replyRow.id,
+			citedReply(
+				sources,
+				canUseTools && workspaceId && workspaceSlug
+					? toolReply(llm, llmMessages, {
+							supabase,
+							userId: user.id,
+							workspaceId,
+							workspaceSlug,
+							sources,
+						})
+					: streamedReply(llm, llmMessages),
+			),
+		);
 	} catch (error) {
 		console.error("[streamChat] Error:", error);
 		throw error;
 	}
 }
+
+// Run an action through the same server actions the UI uses
+async function performAction(
+	supabase: SupabaseClient,
+	action: ChatActionRecord,
+	workspaceSlug: string,
+): Promise<ChatActionResult> {
+	switch (action.type) {
+		case "send_message": {
+			const message = await createMessage({
+				content: action.content,
+				channelId: action.channelId,
+				conversationId: action.conversationId,
+				parentId: action.parentId,
+			});
+
+			const { data: channel } = action.channelId
+				? await supabase
+						.from("channels")
+						.select("slug")
+						.eq("id", action.channelId)
+						.single()
+				: { data: null };
+
+			return {
+				summary: `Sent to ${action.destination}`,
+				href: buildMessageHref(workspaceSlug, {
+					id: message.id,
+					parent_id: message.parent_id,
+					conversation_id: message.conversation_id,
+					channel,
+				}),
+			};
+		}
+		case "create_channel": {
+			const channel = await createChannel(
+				action.workspaceId,
+				action.name,
+				action.description,
+				action.isPrivate,
+			);
+
+			return {
+				summary: `Created #${channel.name}`,
+				href: `/workspace/${workspaceSlug}/channel/${channel.slug}`,
+			};
+		}
+		case "set_reminder": {
+			await createReminder({
+				workspaceId: action.workspaceId,
+				note: action.note,
+				remindAt: action.remindAt,
+				messageId: action.messageId,
+			});
+
+			return { summary: "Reminder set" };
+		}
+	}
+}
+
+/**
+ * runChatAction - carry out a change Slucky proposed, once the user has
+ * confirmed it. The action is read from the saved reply rather than taken
+ * from the client, and is only ever run once. Runs as the user, through the
+ * same actions the UI uses, so it can't do anything they couldn't do
+ * themselves.
+ */
+export async function runChatAction(
+	messageId: string,
+	actionId: string,
+	workspaceSlug: string,
+): Promise<ChatActionResult> {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const { action, actions } = await loadAction(supabase, messageId, actionId);
+	await claimAction(supabase, messageId, actions, action);
+
+	let result: ChatActionResult;
+	try {
+		result = await performAction(supabase, action, workspaceSlug);
+	} catch (error) {
+		// Let the user try again
+		await saveAction(supabase, messageId, actions, action);
+		throw error;
+	}
+
+	await saveAction(supabase, messageId, actions, {
+		...action,
+		status: "done",
+		result,
+	});
+
+	return result;
+}
+
+/**
+ * cancelChatAction - turn down a change Slucky proposed, so it can't be
+ * confirmed later from a resumed session.
+ */
+export async function cancelChatAction(messageId: string, actionId: string) {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const { action, actions } = await loadAction(supabase, messageId, actionId);
+	await saveAction(supabase, messageId, actions, {
+		...action,
+		status: "cancelled",
+	});
+}
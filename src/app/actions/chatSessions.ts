@@ -0,0 +1,151 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import type { ChatSession, ChatSessionMessage } from "@/types/chat";
+
+// Longest title kept when renaming a session
+const MAX_TITLE_LENGTH = 80;
+
+/**
+ * listChatSessions - the current user's Slucky sessions for a workspace, or
+ * the ones started outside any workspace, most recently used first.
+ */
+export async function listChatSessions(
+	workspaceSlug?: string,
+): Promise<ChatSession[]> {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	let query = supabase
+		.from("assistant_sessions")
+		.select("*")
+		.eq("user_id", user.id)
+		.order("updated_at", { ascending: false })
+		.limit(50);
+
+	if (workspaceSlug) {
+		const { data: workspace } = await supabase
+			.from("workspaces")
+			.select("id")
+			.eq("slug", workspaceSlug)
+			.maybeSingle();
+
+		if (!workspace) {
+			return [];
+		}
+		query = query.eq("workspace_id", workspace.id);
+	} else {
+		query = query.is("workspace_id", null);
+	}
+
+	const { data, error } = await query;
+	if (error) {
+		console.error("[listChatSessions] Failed to load sessions:", error);
+		throw new Error("Failed to load conversations");
+	}
+
+	return data as ChatSession[];
+}
+
+/**
+ * getChatSessionMessages - everything said in a session, oldest first, with
+ * the sources, citations and actions each reply was saved with.
+ */
+export async function getChatSessionMessages(
+	sessionId: string,
+): Promise<ChatSessionMessage[]> {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const { data, error } = await supabase
+		.from("assistant_messages")
+		.select("id, role, content, sources, citations, actions, created_at")
+		.eq("session_id", sessionId)
+		.order("created_at", { ascending: true });
+
+	if (error) {
+		console.error("[getChatSessionMessages] Failed to load messages:", error);
+		throw new Error("Failed to load conversation");
+	}
+
+	return data as ChatSessionMessage[];
+}
+
+/**
+ * renameChatSession - give one of the current user's sessions a new title.
+ */
+export async function renameChatSession(
+	sessionId: string,
+	title: string,
+): Promise<ChatSession> {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const trimmed = title.trim().slice(0, MAX_TITLE_LENGTH);
+	if (!trimmed) {
+		throw new Error("Title can't be empty");
+	}
+
+	const { data, error } = await supabase
+		.from("assistant_sessions")
+		.update({ title: trimmed })
+		.eq("id", sessionId)
+		.eq("user_id", user.id)
+		.select()
+		.single();
+
+	if (error || !data) {
+		console.error("[renameChatSession] Failed to rename session:", error);
+		throw new Error("Failed to rename conversation");
+	}
+
+	return data as ChatSession;
+}
+
+/**
+ * deleteChatSession - delete one of the current user's sessions and
+ * everything said in it.
+ */
+export async function deleteChatSession(sessionId: string) {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const { error } = await supabase
+		.from("assistant_sessions")
+		.delete()
+		.eq("id", sessionId)
+		.eq("user_id", user.id);
+
+	if (error) {
+		console.error("[deleteChatSession] Failed to delete session:", error);
+		throw new Error("Failed to delete conversation");
+	}
+}
@@ -0,0 +1,500 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { searchMessages, type SearchFilters } from "./search";
+import { buildMessageHref } from "@/utils/messageLinks";
+import { THREAD_MESSAGE_SELECT } from "@/utils/messageQueries";
+import type { LlmTool, LlmToolCall } from "@/utils/llm";
+import type { ChatAction, ChatSource } from "@/types/chat";
+
+/**
+ * chatTools:
+ *  - Tools Slucky can call while answering, run with the user's own
+ *    Supabase client so RLS decides what it can see.
+ *  - Read tools (list_channels, get_thread, search_messages) run straight
+ *    away and their results go back to the model.
+ *  - Write tools (draft_message, create_channel, set_reminder) only check
+ *    their arguments and return a ChatAction; the user has to confirm it in
+ *    the chat window before runChatAction in chat.ts carries it out.
+ */
+
+export interface ChatToolContext {
+	supabase: SupabaseClient;
+	userId: string;
+	workspaceId: string;
+	workspaceSlug: string;
+	// Messages found by search_messages are added here so they can be cited
+	sources: ChatSource[];
+}
+
+export interface ChatToolOutcome {
+	// What the model is told
+	content: string;
+	action?: ChatAction;
+	sourcesChanged?: boolean;
+}
+
+export const CHAT_TOOLS: LlmTool[] = [
+	{
+		name: "list_channels",
+		description:
+			"List the channels in this workspace that the user can see, with whether they're a member.",
+		parameters: { type: "object", properties: {} },
+	},
+	{
+		name: "get_thread",
+		description:
+			"Read a message and every reply in its thread. Works with the id of the parent or of any reply.",
+		parameters: {
+			type: "object",
+			properties: {
+				message_id: { type: "string", description: "A message id" },
+			},
+			required: ["message_id"],
+		},
+	},
+	{
+		name: "search_messages",
+		description:
+			"Semantic search over workspace messages. Results are added to the numbered sources you can cite.",
+		parameters: {
+			type: "object",
+			properties: {
+				query: { type: "string", description: "What to look for" },
+				channel: {
+					type: "string",
+					description: "Only search this channel, by name",
+				},
+				from: {
+					type: "string",
+					description: "Only messages by this person, by name",
+				},
+				after: {
+					type: "string",
+					description: "Only messages on or after this ISO 8601 date",
+				},
+				before: {
+					type: "string",
+					description: "Only messages before this ISO 8601 date",
+				},
+			},
+			required: ["query"],
+		},
+	},
+	{
+		name: "draft_message",
+		description:
+			"Draft a message for the user to send, either to a channel or as a reply in a thread. The user reviews it and sends it themselves.",
+		parameters: {
+			type: "object",
+			properties: {
+				content: { type: "string", description: "The message text" },
+				channel: {
+					type: "string",
+					description: "Channel name to post in",
+				},
+				thread_message_id: {
+					type: "string",
+					description: "Id of a message to reply to in its thread instead",
+				},
+			},
+			required: ["content"],
+		},
+	},
+	{
+		name: "create_channel",
+		description:
+			"Propose a new channel. The user has to confirm it before it's created.",
+		parameters: {
+			type: "object",
+			properties: {
+				name: { type: "string" },
+				description: { type: "string" },
+				is_private: {
+					type: "boolean",
+					description: "Invite-only channel; defaults to false",
+				},
+			},
+			required: ["name"],
+		},
+	},
+	{
+		name: "set_reminder",
+		description:
+			"Propose a reminder for the user. The user has to confirm it before it's set.",
+		parameters: {
+			type: "object",
+			properties: {
+				note: { type: "string", description: "What to remind them about" },
+				remind_at: {
+					type: "string",
+					description: "When, as an ISO 8601 date and time with offset",
+				},
+				message_id: {
+					type: "string",
+					description: "Optional id of the message it's about",
+				},
+			},
+			required: ["note", "remind_at"],
+		},
+	},
+];
+
+const AWAITING_CONFIRMATION =
+	"Shown to the user to confirm. It has NOT happened yet; tell them to confirm it in the card below your reply.";
+
+function stringArg(args: Record<string, unknown>, name: string) {
+	const value = args[name];
+	return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function isoDateArg(args: Record<string, unknown>, name: string) {
+	const value = stringArg(args, name);
+	if (!value) return undefined;
+
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		throw new Error(`${name} must be an ISO 8601 date`);
+	}
+	return date.toISOString();
+}
+
+function stripHash(name: string) {
+	return name.replace(/^#/, "").toLowerCase();
+}
+
+async function findChannel(context: ChatToolContext, name: string) {
+	const { data: channels } = await context.supabase
+		.from("channels")
+		.select("id, name, slug")
+		.eq("workspace_id", context.workspaceId);
+
+	const wanted = stripHash(name);
+	const channel = channels?.find(
+		(c) => c.slug === wanted || c.name.toLowerCase() === wanted,
+	);
+	if (!channel) {
+		throw new Error(`No channel called ${name} in this workspace`);
+	}
+	return channel as { id: string; name: string; slug: string };
+}
+
+async function findMember(context: ChatToolContext, name: string) {
+	const { data: members } = await context.supabase
+		.from("workspace_members")
+		.select("user_id, profiles!inner(full_name, display_name)")
+		.eq("workspace_id", context.workspaceId);
+
+	const wanted = name.replace(/^@/, "").toLowerCase();
+	const member = (
+		(members ?? []) as unknown as {
+			user_id: string;
+			profiles: { full_name: string; display_name: string | null };
+		}[]
+	).find(
+		(m) =>
+			m.profiles.display_name?.toLowerCase() === wanted ||
+			m.profiles.full_name.toLowerCase() === wanted,
+	);
+	if (!member) {
+		throw new Error(`Nobody called ${name} in this workspace`);
+	}
+	return member.user_id;
+}
+
+// A message the user can read, with where it lives. Messages in another
+// workspace or hidden from them are reported as missing.
+async function findMessage(context: ChatToolContext, messageId: string) {
+	const { data: message } = await context.supabase
+		.from("messages")
+		.select(`
+			id,
+			parent_id,
+			channel_id,
+			conversation_id,
+			channel:channels (
+				name,
+				workspace_id
+			),
+			conversation:conversations (
+				workspace_id
+			)
+		`)
+		.eq("id", messageId)
+		.maybeSingle();
+
+	const location = message as unknown as {
+		id: string;
+		parent_id: string | null;
+		channel_id: string | null;
+		conversation_id: string | null;
+		channel: { name: string; workspace_id: string } | null;
+		conversation: { workspace_id: string } | null;
+	} | null;
+
+	const workspaceId =
+		location?.channel?.workspace_id ?? location?.conversation?.workspace_id;
+	if (!location || workspaceId !== context.workspaceId) {
+		throw new Error(`No message ${messageId} in this workspace`);
+	}
+	return location;
+}
+
+async function listChannels(context: ChatToolContext): Promise<string> {
+	const [{ data: channels }, { data: memberships }] = await Promise.all([
+		context.supabase
+			.from("channels")
+			.select("id, name, description, is_private")
+			.eq("workspace_id", context.workspaceId)
+			.order("name"),
+		context.supabase
+			.from("channel_members")
+			.select("channel_id")
+			.eq("user_id", context.userId),
+	]);
+
+	const memberOf = new Set(memberships?.map((m) => m.channel_id));
+
+	return JSON.stringify(
+		(channels ?? []).map((channel) => ({
+			name: channel.name,
+			description: channel.description,
+			is_private: channel.is_private,
+			is_member: memberOf.has(channel.id),
+		})),
+	);
+}
+
+type ThreadMessage = {
+	id: string;
+	content: string;
+	created_at: string;
+	deleted_at: string | null;
+	profile: { full_name: string; display_name: string | null } | null;
+};
+
+function formatThreadMessage(message: ThreadMessage) {
+	const sender =
+		message.profile?.display_name || message.profile?.full_name || "Unknown";
+	const content = message.deleted_at ? "(deleted)" : message.content;
+	return `[${message.id}] ${sender} at ${message.created_at}: ${content}`;
+}
+
+async function getThread(
+	context: ChatToolContext,
+	args: Record<string, unknown>,
+): Promise<string> {
+	const messageId = stringArg(args, "message_id");
+	if (!messageId) throw new Error("message_id is required");
+
+	const location = await findMessage(context, messageId);
+	const parentId = location.parent_id ?? location.id;
+
+	const [{ data: parent }, { data: replies }] = await Promise.all([
+		context.supabase
+			.from("messages")
+			.select(THREAD_MESSAGE_SELECT)
+			.eq("id", parentId)
+			.single(),
+		context.supabase
+			.from("messages")
+			.select(THREAD_MESSAGE_SELECT)
+			.eq("parent_id", parentId)
+			.order("created_at", { ascending: true }),
+	]);
+
+	if (!parent) {
+		throw new Error(`No message ${messageId} in this workspace`);
+	}
+
+	const where = location.channel
+		? `#${location.channel.name}`
+		: "a direct message";
+	const lines = [
+		`Thread in ${where}:`,
+		formatThreadMessage(parent as unknown as ThreadMessage),
+		...((replies ?? []) as unknown as ThreadMessage[]).map(formatThreadMessage),
+	];
+	return lines.join("\n");
+}
+
+async function searchWorkspace(
+	context: ChatToolContext,
+	args: Record<string, unknown>,
+): Promise<string> {
+	const query = stringArg(args, "query");
+	if (!query) throw new Error("query is required");
+
+	const channelName = stringArg(args, "channel");
+	const fromName = stringArg(args, "from");
+	const filters: SearchFilters = {
+		workspaceId: context.workspaceId,
+		channelId: channelName
+			? (await findChannel(context, channelName)).id
+			: undefined,
+		userId: fromName ? await findMember(context, fromName) : undefined,
+		after: isoDateArg(args, "after"),
+		before: isoDateArg(args, "before"),
+	};
+
+	const results = await searchMessages(query, filters);
+	if (!results.length) {
+		return "No matching messages.";
+	}
+
+	return results
+		.map((result) => {
+			let source = context.sources.find((s) => s.id === result.id);
+			if (!source) {
+				source = {
+					index: context.sources.length + 1,
+					id: result.id,
+					href: buildMessageHref(context.workspaceSlug, {
+						id: result.id,
+						parent_id: result.parent_id,
+						conversation_id: result.conversation_id,
+						channel: result.channel_slug ? { slug: result.channel_slug } : null,
+					}),
+					content: result.content,
+					created_at: result.created_at,
+					sender_name: result.sender_name,
+					channel_name: result.channel_name,
+					similarity: result.similarity,
+				};
+				context.sources.push(source);
+			}
+
+			const where = result.channel_name
+				? `#${result.channel_name}`
+				: "a direct message";
+			return `Source [${source.index}] (message ${result.id}) ${result.sender_name} in ${where} at ${result.created_at}: ${result.content}`;
+		})
+		.join("\n");
+}
+
+async function draftMessage(
+	context: ChatToolContext,
+	args: Record<string, unknown>,
+): Promise<ChatAction> {
+	const content = stringArg(args, "content");
+	if (!content) throw new Error("content is required");
+
+	const threadMessageId = stringArg(args, "thread_message_id");
+	if (threadMessageId) {
+		const location = await findMessage(context, threadMessageId);
+		return {
+			id: crypto.randomUUID(),
+			type: "send_message",
+			content,
+			channelId: location.channel_id ?? undefined,
+			conversationId: location.conversation_id ?? undefined,
+			parentId: location.parent_id ?? location.id,
+			destination: location.channel
+				? `a thread in #${location.channel.name}`
+				: "a thread in a direct message",
+		};
+	}
+
+	const channelName = stringArg(args, "channel");
+	if (!channelName) {
+		throw new Error("Give a channel or a thread_message_id");
+	}
+	const channel = await findChannel(context, channelName);
+
+	return {
+		id: crypto.randomUUID(),
+		type: "send_message",
+		content,
+		channelId: channel.id,
+		destination: `#${channel.name}`,
+	};
+}
+
+function proposeChannel(
+	context: ChatToolContext,
+	args: Record<string, unknown>,
+): ChatAction {
+	const name = stringArg(args, "name");
+	if (!name) throw new Error("name is required");
+
+	return {
+		id: crypto.randomUUID(),
+		type: "create_channel",
+		workspaceId: context.workspaceId,
+		name: name.replace(/^#/, ""),
+		description: stringArg(args, "description"),
+		isPrivate: args.is_private === true,
+	};
+}
+
+async function proposeReminder(
+	context: ChatToolContext,
+	args: Record<string, unknown>,
+): Promise<ChatAction> {
+	const note = stringArg(args, "note");
+	if (!note) throw new Error("note is required");
+
+	const remindAt = isoDateArg(args, "remind_at");
+	if (!remindAt) throw new Error("remind_at is required");
+	if (new Date(remindAt).getTime() <= Date.now()) {
+		throw new Error("remind_at must be in the future");
+	}
+
+	const messageId = stringArg(args, "message_id");
+	if (messageId) {
+		await findMessage(context, messageId);
+	}
+
+	return {
+		id: crypto.randomUUID(),
+		type: "set_reminder",
+		workspaceId: context.workspaceId,
+		note,
+		remindAt,
+		messageId,
+	};
+}
+
+/**
+ * runChatTool - carry out one tool call from the model. Failures are
+ * reported back to the model as the tool's result so it can recover or
+ * explain, rather than ending the reply.
+ */
+export async function runChatTool(
+	call: LlmToolCall,
+	context: ChatToolContext,
+): Promise<ChatToolOutcome> {
+	try {
+		switch (call.name) {
+			case "list_channels":
+				return { content: await listChannels(context) };
+			case "get_thread":
+				return { content: await getThread(context, call.arguments) };
+			case "search_messages":
+				return {
+					content: await searchWorkspace(context, call.arguments),
+					sourcesChanged: true,
+				};
+			case "draft_message":
+				return {
+					content: AWAITING_CONFIRMATION,
+					action: await draftMessage(context, call.arguments),
+				};
+			case "create_channel":
+				return {
+					content: AWAITING_CONFIRMATION,
+					action: proposeChannel(context, call.arguments),
+				};
+			case "set_reminder":
+				return {
+					content: AWAITING_CONFIRMATION,
+					action: await proposeReminder(context, call.arguments),
+				};
+			default:
+				return { content: `Error: there is no tool called ${call.name}` };
+		}
+	} catch (error) {
+		console.error(`[runChatTool] ${call.name} failed:`, error);
+		return {
+			content: `Error: ${error instanceof Error ? error.message : "the tool failed"}`,
+		};
+	}
+}
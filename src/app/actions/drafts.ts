@@ -0,0 +1,213 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getConversationName } from "@/utils/conversation";
+import { getDraftKey, type DraftLocation } from "@/utils/drafts";
+import type { DraftWithLocation, MessageDraft } from "@/types/draft";
+import type { ConversationParticipant } from "@/types/conversation";
+import type { MessageMention } from "@/types/mention";
+
+/**
+ * getDraft - the current user's draft for a channel, conversation or thread,
+ * or null if they haven't started one.
+ */
+export async function getDraft(
+	location: DraftLocation,
+): Promise<MessageDraft | null> {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const draftKey = getDraftKey(location);
+	if (!draftKey) {
+		throw new Error("Either channelId or conversationId must be provided");
+	}
+
+	const { data, error } = await supabase
+		.from("message_drafts")
+		.select("*")
+		.eq("user_id", user.id)
+		.eq("draft_key", draftKey)
+		.maybeSingle();
+
+	if (error) {
+		console.error("[getDraft] Failed to load draft:", error);
+		throw new Error("Failed to load draft");
+	}
+
+	return data as MessageDraft | null;
+}
+
+/**
+ * saveDraft - keep what the current user has typed so far. Saving an empty
+ * draft deletes it.
+ */
+export async function saveDraft({
+	channelId,
+	conversationId,
+	parentId,
+	content,
+	mentions,
+}: DraftLocation & {
+	content: string;
+	mentions: MessageMention[];
+}) {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const draftKey = getDraftKey({ channelId, conversationId, parentId });
+	if (!draftKey) {
+		throw new Error("Either channelId or conversationId must be provided");
+	}
+
+	if (!content.trim()) {
+		const { error } = await supabase
+			.from("message_drafts")
+			.delete()
+			.eq("user_id", user.id)
+			.eq("draft_key", draftKey);
+
+		if (error) {
+			console.error("[saveDraft] Failed to delete draft:", error);
+			throw new Error("Failed to save draft");
+		}
+		return;
+	}
+
+	const { data: container, error: containerError } = await (channelId
+		? supabase
+				.from("channels")
+				.select("workspace_id")
+				.eq("id", channelId)
+				.single()
+		: supabase
+				.from("conversations")
+				.select("workspace_id")
+				.eq("id", conversationId)
+				.single());
+
+	if (containerError || !container) {
+		console.error("[saveDraft] Failed to find workspace:", containerError);
+		throw new Error("Failed to save draft");
+	}
+
+	const { error } = await supabase.from("message_drafts").upsert(
+		{
+			user_id: user.id,
+			workspace_id: container.workspace_id,
+			channel_id: channelId ?? null,
+			conversation_id: conversationId ?? null,
+			parent_id: parentId ?? null,
+			draft_key: draftKey,
+			content,
+			mentions,
+			updated_at: new Date().toISOString(),
+		},
+		{ onConflict: "user_id,draft_key" },
+	);
+
+	if (error) {
+		console.error("[saveDraft] Failed to save draft:", error);
+		throw new Error("Failed to save draft");
+	}
+}
+
+/**
+ * listDrafts - every draft the current user has in a workspace, most
+ * recently edited first.
+ */
+export async function listDrafts(
+	workspaceId: string,
+): Promise<DraftWithLocation[]> {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const { data, error } = await supabase
+		.from("message_drafts")
+		.select(`
+			*,
+			channel:channels (
+				id,
+				name,
+				slug
+			),
+			conversation:conversations (
+				conversation_participants (
+					user_id,
+					profiles (
+						full_name,
+						display_name,
+						avatar_url,
+						avatar_color,
+						avatar_cache
+					)
+				)
+			)
+		`)
+		.eq("user_id", user.id)
+		.eq("workspace_id", workspaceId)
+		.order("updated_at", { ascending: false });
+
+	if (error) {
+		console.error("[listDrafts] Failed to load drafts:", error);
+		throw new Error("Failed to load drafts");
+	}
+
+	return (data ?? []).map(({ conversation, ...draft }) => {
+		const participants = (
+			(conversation?.conversation_participants ??
+				[]) as ConversationParticipant[]
+		).filter((p) => p.user_id !== user.id);
+
+		return {
+			...draft,
+			conversationName: conversation ? getConversationName(participants) : null,
+		} as DraftWithLocation;
+	});
+}
+
+/**
+ * deleteDraft - throw away one of the current user's drafts.
+ */
+export async function deleteDraft(draftId: string) {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const { error } = await supabase
+		.from("message_drafts")
+		.delete()
+		.eq("id", draftId)
+		.eq("user_id", user.id);
+
+	if (error) {
+		console.error("[deleteDraft] Failed to delete draft:", error);
+		throw new Error("Failed to delete draft");
+	}
+}
@@ -0,0 +1,161 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { DatabaseFile } from "@/types/message";
+import { processImageFile } from "./images";
+import { processAudioFile } from "./audio";
+import { processVideoFile } from "./video";
+
+interface DatabaseMessageResponse {
+	channel_id: string | null;
+	conversation_id: string | null;
+	profile: {
+		id: string;
+		display_name: string | null;
+		full_name: string | null;
+	};
+	channels?: {
+		id: string;
+		name: string;
+	};
+}
+
+/**
+ * Record an uploaded file against a message and run the image, audio or
+ * video processing that describes and embeds it. Used by
+ * attachFileToMessage, and by the scheduler with the service role client.
+ */
+export async function insertMessageFile({
+	messageId,
+	fileKey,
+	fileName,
+	fileType,
+	fileSize,
+	client: supabase,
+}: {
+	messageId: string;
+	fileKey: string;
+	fileName: string;
+	fileType: string;
+	fileSize: number;
+	client: SupabaseClient;
+}): Promise<DatabaseFile> {
+	// Get message details to format the description
+	const { data: message, error } = await supabase
+		.from("messages")
+		.select(`
+			channel_id,
+			conversation_id,
+			profile:profiles(id, display_name, full_name),
+			channels(id, name)
+		`)
+		.eq("id", messageId)
+		.single();
+
+	if (error || !message) {
+		throw new Error("Message not found");
+	}
+
+	const typedMessage = message as unknown as DatabaseMessageResponse;
+
+	// A message can only carry its author's own uploads
+	if (!fileKey.startsWith(`uploads/${typedMessage.profile?.id}/`)) {
+		throw new Error("File doesn't belong to the message's author");
+	}
+	console.log("[insertMessageFile] Typed message:", typedMessage);
+	// 	[insertMessageFile] Typed message: {
+	//   channel_id: 'a027d5ff-eb58-410b-baf6-6eb30888e531',
+	//   conversation_id: null,
+	//   profile: {
+	//     id: '74be0c05-798f-4ed3-b7a5-9e02d5b52420',
+	//     full_name: 'Matt Stanbrell',
+	//     display_name: 'Matt Stanbrell'
+	//   },
+	//   channels: { id: 'a027d5ff-eb58-410b-baf6-6eb30888e531', name: 'another-test' }
+	// }
+	const senderName =
+		typedMessage.profile?.display_name ||
+		typedMessage.profile?.full_name ||
+		"Unknown User";
+	const channelInfo = typedMessage.channels?.name
+		? `${typedMessage.channels.name} channel`
+		: "a direct message";
+	const timestamp = new Date().toLocaleDateString("en-GB", {
+		weekday: "long",
+		day: "numeric",
+		month: "long",
+		year: "numeric",
+	});
+
+	// Insert file record immediately without caption/description
+	console.log("[insertMessageFile] Inserting initial file record...");
+	const { data: inserted, error: insertError } = await supabase
+		.from("files")
+		.insert({
+			message_id: messageId,
+			file_name: fileName,
+			file_type: fileType,
+			file_size: fileSize,
+			file_url: fileKey,
+		})
+		.select()
+		.single();
+
+	if (insertError) {
+		console.error(
+			"[insertMessageFile] Database insertion failed:",
+			insertError,
+		);
+		throw new Error(insertError.message);
+	}
+
+	console.log(
+		"[insertMessageFile] Initial file record inserted successfully:",
+		inserted.id,
+	);
+
+	// Process file based on type
+	if (fileType.startsWith("image/")) {
+		try {
+			await processImageFile(
+				inserted.id,
+				fileKey,
+				fileName,
+				senderName,
+				channelInfo,
+				timestamp,
+				supabase,
+			);
+		} catch (error) {
+			console.error("[insertMessageFile] Image processing failed:", error);
+		}
+	} else if (fileType.startsWith("audio/")) {
+		try {
+			await processAudioFile(
+				inserted.id,
+				fileKey,
+				fileName,
+				senderName,
+				channelInfo,
+				timestamp,
+				supabase,
+			);
+		} catch (error) {
+			console.error("[insertMessageFile] Audio processing failed:", error);
+		}
+	} else if (fileType.startsWith("video/")) {
+		try {
+			await processVideoFile(
+				inserted.id,
+				fileKey,
+				fileName,
+				senderName,
+				channelInfo,
+				timestamp,
+				supabase,
+			);
+		} catch (error) {
+			console.error("[insertMessageFile] Video processing failed:", error);
+		}
+	}
+
+	return inserted;
+}
@@ -1,41 +1,27 @@
 "use server";
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { S3Client, GetObjectCommand } from "@aws-sdk/client-s3";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { createClient } from "@/utils/supabase/server";
-import { generateEmbeddings } from "@/utils/embeddings";
-
-if (!process.env.GOOGLE_API_KEY) {
-	throw new Error("Missing GOOGLE_API_KEY");
-}
-
-// Validate required AWS environment variables
-const region = process.env.AWS_S3_REGION;
-const accessKeyId = process.env.AWS_S3_ACCESS_KEY_ID;
-const secretAccessKey = process.env.AWS_S3_SECRET_ACCESS_KEY;
-const bucketName = process.env.AWS_S3_BUCKET_NAME;
-
-if (!region || !accessKeyId || !secretAccessKey || !bucketName) {
-	throw new Error("Missing required AWS configuration");
-}
-
-const s3Client = new S3Client({
-	region,
-	credentials: {
-		accessKeyId,
-		secretAccessKey,
-	},
-});
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY);
-
+import { getS3DownloadUrl } from "@/utils/s3";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { generateEmbeddings, getEmbeddingMetadata } from "@/utils/embeddings";
+import { getLlm } from "@/utils/llm";
+
+/**
+ * generateImageCaptionAndDescription - caption and search description for an
+ * image. Both are empty when no vision model is configured.
+ */
 export async function generateImageCaptionAndDescription(
 	imageUrl: string,
+	fileName = "image",
 ): Promise<{ caption: string; description: string }> {
 	console.log(
 		"[generateImageCaptionAndDescription] Starting image analysis...",
 	);
+	const llm = getLlm("media", "vision");
+	if (!llm) {
+		return { caption: "", description: "" };
+	}
+
 	try {
 		// Fetch the image data
 		console.log(
@@ -44,7 +30,6 @@ export async function generateImageCaptionAndDescription(
 		);
 		const imageResponse = await fetch(imageUrl);
 		const imageBuffer = await imageResponse.arrayBuffer();
-		const base64Image = Buffer.from(imageBuffer).toString("base64");
 		const mimeType = imageResponse.headers.get("content-type") || "image/jpeg";
 		console.log(
 			"[generateImageCaptionAndDescription] Image fetched successfully:",
@@ -54,50 +39,39 @@ export async function generateImageCaptionAndDescription(
 			},
 		);
 
-		const model = genAI.getGenerativeModel({
-			model: "gemini-2.0-flash-exp", // This model came out late 2024, don't change!!
+		const image = await llm.provider.openMedia(llm.model, {
+			data: Buffer.from(imageBuffer),
+			mimeType,
+			name: fileName,
 		});
-		console.log(
-			"[generateImageCaptionAndDescription] Initialized Gemini model",
-		);
 
-		// Get a caption (short, focused description)
-		console.log("[generateImageCaptionAndDescription] Generating caption...");
-		const captionResult = await model.generateContent([
-			{
-				inlineData: {
-					data: base64Image,
-					mimeType,
-				},
-			},
-			"Generate a concise caption (1 sentence) for this image that captures its key content. Keep it under 100 characters.",
-		]);
-		const caption = captionResult.response.text().trim();
-		console.log(
-			"[generateImageCaptionAndDescription] Caption generated:",
-			caption,
-		);
+		try {
+			// Get a caption (short, focused description)
+			console.log("[generateImageCaptionAndDescription] Generating caption...");
+			const caption = await image.ask(
+				"Generate a concise caption (1 sentence) for this image that captures its key content. Keep it under 100 characters.",
+			);
+			console.log(
+				"[generateImageCaptionAndDescription] Caption generated:",
+				caption,
+			);
 
-		// Get a detailed description (more comprehensive)
-		console.log(
-			"[generateImageCaptionAndDescription] Generating detailed description...",
-		);
-		const descriptionResult = await model.generateContent([
-			{
-				inlineData: {
-					data: base64Image,
-					mimeType,
-				},
-			},
-			"Describe this image in a way that would be useful for semantic search. Be concise (under 50 words) and focus on what people might search for. Include key objects, actions, colors, and notable details. Do not include technical analysis or compositional details. Do not include any other text.",
-		]);
-		const description = descriptionResult.response.text().trim();
-		console.log(
-			"[generateImageCaptionAndDescription] Description generated:",
-			description,
-		);
+			// Get a detailed description (more comprehensive)
+			console.log(
+				"[generateImageCaptionAndDescription] Generating detailed description...",
+			);
+			const description = await image.ask(
+				"Describe this image in a way that would be useful for semantic search. Be concise (under 50 words) and focus on what people might search for. Include key objects, actions, colors, and notable details. Do not include technical analysis or compositional details. Do not include any other text.",
+			);
+			console.log(
+				"[generateImageCaptionAndDescription] Description generated:",
+				description,
+			);
 
-		return { caption, description };
+			return { caption, description };
+		} finally {
+			await image.dispose();
+		}
 	} catch (error) {
 		console.error("[generateImageCaptionAndDescription] Error:", error);
 		throw error;
@@ -111,26 +85,22 @@ export async function processImageFile(
 	senderName: string,
 	channelInfo: string,
 	timestamp: string,
+	client?: SupabaseClient,
 ): Promise<void> {
 	console.log("[processImageFile] Starting image processing...");
-	const supabase = await createClient();
+	const supabase = client ?? (await createClient());
 
 	try {
 		console.log("[processImageFile] Starting image processing for:", fileId);
 
 		// Get presigned URL for the image
-		const command = new GetObjectCommand({
-			Bucket: bucketName,
-			Key: fileKey,
-		});
-
-		const downloadURL = await getSignedUrl(s3Client, command, {
-			expiresIn: 60,
-		});
+		const downloadURL = await getS3DownloadUrl(fileKey);
 
 		// Generate caption and description
-		const { caption, description } =
-			await generateImageCaptionAndDescription(downloadURL);
+		const { caption, description } = await generateImageCaptionAndDescription(
+			downloadURL,
+			fileName,
+		);
 
 		// Update the file record with just the caption first
 		console.log("[processImageFile] Updating file with caption:", {
@@ -174,6 +144,7 @@ export async function processImageFile(
 			.update({
 				description,
 				embedding,
+				...getEmbeddingMetadata(),
 			})
 			.eq("id", fileId)
 			.select()
@@ -0,0 +1,87 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import type { MentionWithMessage } from "@/types/mention";
+
+const MENTIONS_PAGE_SIZE = 50;
+
+/**
+ * getMentions - the current user's mention inbox for a workspace, newest first.
+ */
+export async function getMentions(
+	workspaceId: string,
+): Promise<MentionWithMessage[]> {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const { data, error } = await supabase
+		.from("mentions")
+		.select(`
+			*,
+			message:messages (
+				id,
+				content,
+				parent_id,
+				mentions,
+				profile:profiles!user_id (
+					id,
+					full_name,
+					display_name,
+					avatar_url,
+					avatar_color,
+					avatar_cache
+				)
+			),
+			channel:channels (
+				id,
+				name,
+				slug
+			)
+		`)
+		.eq("user_id", user.id)
+		.eq("workspace_id", workspaceId)
+		.order("created_at", { ascending: false })
+		.limit(MENTIONS_PAGE_SIZE);
+
+	if (error) {
+		console.error("[getMentions] Failed to load mentions:", error);
+		throw new Error("Failed to load mentions");
+	}
+
+	return (data ?? []) as unknown as MentionWithMessage[];
+}
+
+/**
+ * markMentionsRead - mark all of the current user's unread mentions in a
+ * workspace as read.
+ */
+export async function markMentionsRead(workspaceId: string) {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const { error } = await supabase
+		.from("mentions")
+		.update({ read_at: new Date().toISOString() })
+		.eq("user_id", user.id)
+		.eq("workspace_id", workspaceId)
+		.is("read_at", null);
+
+	if (error) {
+		console.error("[markMentionsRead] Failed to mark mentions read:", error);
+		throw new Error("Failed to mark mentions as read");
+	}
+}
@@ -2,28 +2,45 @@
 
 import { createClient } from "@/utils/supabase/server";
 import type { Database } from "@/lib/database.types";
+import type { MessageMention } from "@/types/mention";
+import { normalizeMentions } from "@/utils/mentions";
 /* import type { MessageChainContext } from "@/types/message"; */
 
-import { insertMessage, canUserPostInChannel } from "@/app/actions/messageData";
-import { embedLatestChainMessage } from "@/app/actions/messageEmbeddings";
+import {
+	publishMessage,
+	canUserPostInChannel,
+} from "@/app/actions/messageData";
+import {
+	findChainAnchorId,
+	findPrecedingChainMessageId,
+	queueChainEmbedding,
+} from "@/app/actions/messageEmbeddings";
+import { deleteS3Objects } from "@/utils/s3";
 
 type DatabaseMessage = Database["public"]["Tables"]["messages"]["Row"];
+type DatabaseMessageEdit = Database["public"]["Tables"]["message_edits"]["Row"];
 
 /**
- * createMessage - replicates the logic to insert a new message,
- * wait 0.8 minutes, and call embedLatestChainMessage.
+ * createMessage - inserts a new message and queues its chain to be embedded
+ * once the author has had time to send any follow-ups. Clients may choose
+ * the id themselves, to show the message before it's saved; sending the
+ * same id again returns the message that was already saved.
  */
 export async function createMessage({
+	id,
 	content,
 	channelId,
 	conversationId,
 	parentId,
+	mentions,
 	/* messageContext */
 }: {
+	id?: string;
 	content: string;
 	channelId?: string;
 	conversationId?: string;
 	parentId?: string;
+	mentions?: MessageMention[];
 	/* messageContext: MessageChainContext */
 }): Promise<DatabaseMessage> {
 	const supabase = await createClient();
@@ -38,36 +55,247 @@ export async function createMessage({
 		throw new Error("Unauthorized");
 	}
 
-	// 2) Insert message
-	const message = await insertMessage({
+	// 2) Insert the message, queue its embedding and bump the DM
+	return publishMessage({
+		id,
 		content,
 		channelId,
 		conversationId,
 		parentId,
 		userId: user.id,
+		mentions,
 	});
+}
+
+/**
+ * editMessage - lets the author change a message's content. The previous
+ * content is kept in message_edits, and the chain the message belongs to
+ * is re-embedded so search and Slucky don't answer from the stale text.
+ */
+export async function editMessage({
+	messageId,
+	content,
+}: {
+	messageId: string;
+	content: string;
+}): Promise<DatabaseMessage> {
+	const supabase = await createClient();
+
+	// 1) Get current user
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const newContent = content.trim();
+	if (!newContent) {
+		throw new Error("Message content cannot be empty");
+	}
+
+	// 2) Load the current version and check ownership
+	const { data: existing, error: fetchError } = await supabase
+		.from("messages")
+		.select("*")
+		.eq("id", messageId)
+		.single();
+
+	if (fetchError || !existing) {
+		throw new Error("Message not found");
+	}
+
+	if (existing.user_id !== user.id) {
+		throw new Error("You can only edit your own messages");
+	}
+
+	if (existing.deleted_at) {
+		throw new Error("Deleted messages can't be edited");
+	}
+
+	if (existing.content === newContent) {
+		return existing;
+	}
+
+	// 3) Record the previous version
+	const { error: historyError } = await supabase.from("message_edits").insert({
+		message_id: messageId,
+		user_id: user.id,
+		previous_content: existing.content,
+	});
+
+	if (historyError) {
+		console.error("[editMessage] Failed to record edit history:", historyError);
+		throw new Error("Failed to edit message");
+	}
+
+	// 4) Update the message itself (realtime UPDATE propagates it to clients)
+	const { data: updated, error: updateError } = await supabase
+		.from("messages")
+		.update({
+			content: newContent,
+			edited_at: new Date().toISOString(),
+			// Drop mentions whose text was edited out (the inbox follows via trigger)
+			mentions: normalizeMentions(newContent, existing.mentions),
+		})
+		.eq("id", messageId)
+		.select()
+		.single();
+
+	if (updateError || !updated) {
+		console.error("[editMessage] Failed to update message:", updateError);
+		throw new Error("Failed to edit message");
+	}
+
+	// 5) Re-embed the chain this message belongs to
+	const anchorId = await findChainAnchorId(messageId);
+	if (anchorId) {
+		await queueChainEmbedding(anchorId);
+	}
+
+	return updated;
+}
 
-	// 3) Schedule embedding in 0.8 minutes (48 seconds)
-	setTimeout(
-		async () => {
-			try {
-				await embedLatestChainMessage(message.id);
-			} catch (err) {
-				console.error("[createMessage] Embedding error:", err);
+/**
+ * deleteMessage - removes a message for its author, or for a channel/workspace
+ * admin. Messages with thread replies are kept as a "message deleted"
+ * tombstone so the thread still has somewhere to hang; everything else is
+ * removed outright. Attachments go with it, and the author's chain is
+ * re-embedded without it.
+ */
+export async function deleteMessage(
+	messageId: string,
+): Promise<{ tombstoned: boolean }> {
+	const supabase = await createClient();
+
+	// 1) Get current user
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	// 2) Load the message with its attachments and check permissions
+	const { data: message, error: fetchError } = await supabase
+		.from("messages")
+		.select("*, files (id, file_url)")
+		.eq("id", messageId)
+		.single();
+
+	if (fetchError || !message) {
+		throw new Error("Message not found");
+	}
+
+	if (message.deleted_at) {
+		return { tombstoned: true };
+	}
+
+	if (message.user_id !== user.id) {
+		const { data: canModerate } = message.channel_id
+			? await supabase.rpc("can_moderate_channel", {
+					p_channel_id: message.channel_id,
+				})
+			: { data: false };
+
+		if (!canModerate) {
+			throw new Error("You can only delete your own messages");
+		}
+	}
+
+	// 3) Work out which message will anchor the chain once this one is gone
+	const anchorId = await findChainAnchorId(messageId);
+	const reembedId =
+		anchorId && anchorId !== messageId
+			? anchorId
+			: await findPrecedingChainMessageId(messageId);
+
+	// 4) Tombstone the message, clearing what it said and its files rows.
+	// Clients hear of it through the channel's realtime updates, which
+	// can't include deletes. Moderators can't update others' messages
+	// directly, only tombstone them.
+	const { error: tombstoneError } = await supabase.rpc("tombstone_message", {
+		p_message_id: messageId,
+	});
+
+	if (tombstoneError) {
+		console.error(
+			"[deleteMessage] Failed to tombstone message:",
+			tombstoneError,
+		);
+		throw new Error("Failed to delete message");
+	}
+
+	// Without thread replies to hold up it goes altogether. Deleting a reply
+	// updates the parent's reply_count/reply_user_ids via
+	// update_thread_info_on_delete_trigger.
+	const tombstoned = message.reply_count > 0;
+	if (!tombstoned) {
+		const { error: deleteError } = await supabase
+			.from("messages")
+			.delete()
+			.eq("id", messageId);
+
+		if (deleteError) {
+			console.error("[deleteMessage] Failed to delete message:", deleteError);
+			throw new Error("Failed to delete message");
+		}
+	}
+
+	// 5) Remove attachments from storage. Only the author's own uploads are
+	// removed, and only once nothing else refers to them.
+	const ownKeys = ((message.files ?? []) as { file_url: string }[])
+		.map((file) => file.file_url)
+		.filter((key) => key.startsWith(`uploads/${message.user_id}/`));
+	if (ownKeys.length > 0) {
+		try {
+			const { data: unusedKeys, error: unusedError } = await supabase.rpc(
+				"unused_upload_keys",
+				{ p_keys: ownKeys },
+			);
+			if (unusedError) throw unusedError;
+
+			if (unusedKeys?.length) {
+				await deleteS3Objects(unusedKeys);
 			}
-		},
-		0.8 * 60 * 1000,
-	); // 48 seconds
+		} catch (err) {
+			// The message is already gone; an orphaned object is the lesser harm
+			console.error("[deleteMessage] Failed to delete S3 objects:", err);
+		}
+	}
+
+	// 6) Re-embed what's left of the chain
+	if (reembedId) {
+		await queueChainEmbedding(reembedId);
+	}
+
+	return { tombstoned };
+}
+
+/**
+ * getMessageEdits - previous versions of a message, newest first.
+ */
+export async function getMessageEdits(
+	messageId: string,
+): Promise<DatabaseMessageEdit[]> {
+	const supabase = await createClient();
+
+	const { data, error } = await supabase
+		.from("message_edits")
+		.select("*")
+		.eq("message_id", messageId)
+		.order("edited_at", { ascending: false });
 
-	// 4) If this is a DM, update conversations.last_message_at
-	if (conversationId) {
-		await supabase
-			.from("conversations")
-			.update({ last_message_at: new Date().toISOString() })
-			.eq("id", conversationId);
+	if (error) {
+		console.error("[getMessageEdits] Failed to load edit history:", error);
+		throw new Error("Failed to load edit history");
 	}
 
-	return message;
+	return data ?? [];
 }
 
 /**
@@ -1,35 +1,50 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { createClient } from "@/utils/supabase/server";
+import { queueChainEmbedding } from "@/app/actions/messageEmbeddings";
+import { normalizeMentions } from "@/utils/mentions";
 import type { Database } from "@/lib/database.types";
+import type { MessageMention } from "@/types/mention";
 
 // "messages" table row from your Database
 export type DatabaseMessage = Database["public"]["Tables"]["messages"]["Row"];
 
+// Give the author time to finish a burst of messages before embedding the chain
+const EMBEDDING_DELAY_SECONDS = 48;
+
 /**
  * Insert a new message in the DB, mirroring the logic from the original giant file.
  */
 export async function insertMessage({
+	id,
 	content,
 	channelId,
 	conversationId,
 	parentId,
 	userId,
+	mentions = [],
+	client,
 }: {
+	id?: string;
 	content: string;
 	channelId?: string;
 	conversationId?: string;
 	parentId?: string;
 	userId: string;
+	mentions?: MessageMention[];
+	client?: SupabaseClient;
 }): Promise<DatabaseMessage> {
-	const supabase = await createClient();
+	const supabase = client ?? (await createClient());
 
 	const { data, error } = await supabase
 		.from("messages")
 		.insert({
+			...(id ? { id } : {}),
 			content: content.trim(),
 			channel_id: channelId ?? null,
 			conversation_id: conversationId ?? null,
 			parent_id: parentId ?? null,
 			user_id: userId,
+			mentions,
 		})
 		.select()
 		.single();
@@ -48,8 +63,9 @@ export async function insertMessage({
 export async function canUserPostInChannel(
 	userId: string,
 	channelId: string,
+	client?: SupabaseClient,
 ): Promise<boolean> {
-	const supabase = await createClient();
+	const supabase = client ?? (await createClient());
 	const { data, error } = await supabase
 		.from("channel_members")
 		.select("*")
@@ -64,3 +80,76 @@ export async function canUserPostInChannel(
 	}
 	return !!data;
 }
+
+/**
+ * Post a message as userId: insert it, queue its chain to be embedded once
+ * the author has had time to send any follow-ups, and bump the DM's
+ * last_message_at. Used by createMessage, and by the scheduler with the
+ * service role client. Posting the same id again returns the message that
+ * was already saved, finishing what the first try may not have.
+ */
+export async function publishMessage({
+	id,
+	content,
+	channelId,
+	conversationId,
+	parentId,
+	userId,
+	mentions,
+	client,
+}: {
+	id?: string;
+	content: string;
+	channelId?: string;
+	conversationId?: string;
+	parentId?: string;
+	userId: string;
+	mentions?: MessageMention[];
+	client?: SupabaseClient;
+}): Promise<DatabaseMessage> {
+	const supabase = client ?? (await createClient());
+
+	let message: DatabaseMessage;
+	try {
+		message = await insertMessage({
+			id,
+			content,
+			channelId,
+			conversationId,
+			parentId,
+			userId,
+			mentions: normalizeMentions(content, mentions),
+			client: supabase,
+		});
+	} catch (error) {
+		// A retry of a send that got through, but whose reply was lost
+		if (!id || (error as { code?: string } | null)?.code !== "23505") {
+			throw error;
+		}
+
+		const { data: existing } = await supabase
+			.from("messages")
+			.select("*")
+			.eq("id", id)
+			.eq("user_id", userId)
+			.maybeSingle();
+		if (!existing) {
+			throw error;
+		}
+		// Queued and bumped again below, in case the first try stopped short
+		// of it; queueing the same chain twice leaves one job
+		message = existing;
+	}
+
+	// The worker runs it after the delay
+	await queueChainEmbedding(message.id, EMBEDDING_DELAY_SECONDS, supabase);
+
+	if (conversationId) {
+		await supabase
+			.from("conversations")
+			.update({ last_message_at: new Date().toISOString() })
+			.eq("id", conversationId);
+	}
+
+	return message;
+}
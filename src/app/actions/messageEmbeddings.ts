@@ -1,9 +1,11 @@
 import { createClient } from "@/utils/supabase/server";
-import { generateEmbeddings } from "@/utils/embeddings";
+import { createAdminClient } from "@/utils/supabase/admin";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { generateEmbeddings, getEmbeddingMetadata } from "@/utils/embeddings";
 import {
 	ONE_HOUR_MS,
 	formatTimestamp,
-	getFormattedMessageHistory,
+	getRollingContext,
 	getContextualInformation,
 } from "@/utils/messageUtils";
 
@@ -26,6 +28,7 @@ interface MessageWithProfile {
 	parent_id: string | null;
 	context: string | null;
 	embedding: number[] | null;
+	deleted_at: string | null;
 	profile?: ProfileResponse | null;
 	files?: {
 		id: string;
@@ -35,20 +38,99 @@ interface MessageWithProfile {
 	}[];
 }
 
+interface EmbeddingJob {
+	id: string;
+	message_id: string;
+	attempts: number;
+	max_attempts: number;
+}
+
+/**
+ * queueChainEmbedding:
+ *  - Persists a job to (re-)embed the chain anchored at messageId once
+ *    delaySeconds have passed; the embedding worker runs it
+ *  - Jobs for the same chain collapse into one for its newest message
+ *  - Failing to queue never fails the caller, the message is already saved
+ */
+export async function queueChainEmbedding(
+	messageId: string,
+	delaySeconds = 0,
+	client?: SupabaseClient,
+): Promise<void> {
+	const supabaseClient = client ?? (await createClient());
+
+	const { error } = await supabaseClient.rpc("enqueue_embedding_job", {
+		p_message_id: messageId,
+		p_delay_seconds: delaySeconds,
+	});
+
+	if (error) {
+		console.error("Error queueing embedding job:", error);
+	}
+}
+
+/**
+ * processEmbeddingJobs:
+ *  - Claims up to `limit` due jobs and embeds each one's chain
+ *  - Failures are handed back to the queue, which retries them with
+ *    backoff and dead-letters them after their last attempt
+ */
+export async function processEmbeddingJobs(
+	limit = 10,
+): Promise<{ claimed: number; succeeded: number; failed: number }> {
+	const supabaseClient = createAdminClient();
+
+	const { data: jobs, error: claimError } = await supabaseClient.rpc(
+		"claim_embedding_jobs",
+		{ p_limit: limit },
+	);
+
+	if (claimError) {
+		console.error("Error claiming embedding jobs:", claimError);
+		throw new Error("Failed to claim embedding jobs");
+	}
+
+	let succeeded = 0;
+	let failed = 0;
+
+	for (const job of (jobs ?? []) as EmbeddingJob[]) {
+		try {
+			await embedLatestChainMessage(job.message_id, supabaseClient);
+			await supabaseClient.rpc("complete_embedding_job", { p_job_id: job.id });
+			succeeded++;
+		} catch (err) {
+			console.error(
+				`Embedding job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}):`,
+				err,
+			);
+			await supabaseClient.rpc("fail_embedding_job", {
+				p_job_id: job.id,
+				p_error: err instanceof Error ? err.message : String(err),
+			});
+			failed++;
+		}
+	}
+
+	return { claimed: jobs?.length ?? 0, succeeded, failed };
+}
+
 /**
  * embedLatestChainMessage:
  *  - Fetches the new message
  *  - Fetches chain messages from the same channel/convo, same user
- *  - Builds a chunk for GPT-4o-mini context
+ *  - Builds a chunk and gets context for it from the recent history and the
+ *    channel's rolling summary
  *  - Generates embeddings
  *  - Updates the DB with the new embedding
  *  - Clears older embeddings in the chain
+ *
+ * Runs from the embedding worker with the service role client. Throws on
+ * failure so the job is retried; a message that's gone has nothing to embed.
  */
 export async function embedLatestChainMessage(
 	messageId: string,
+	supabaseClient: SupabaseClient,
 ): Promise<void> {
-	const supabaseClient = await createClient();
-
 	// 1) Fetch the original (new) message
 	const { data: originalMessage, error: originalError } = await supabaseClient
 		.from("messages")
@@ -69,17 +151,23 @@ export async function embedLatestChainMessage(
     `,
 		)
 		.eq("id", messageId)
-		.single();
+		.maybeSingle();
 
-	if (originalError || !originalMessage) {
+	if (originalError) {
 		console.error("Error fetching original message:", originalError);
-		return;
+		throw new Error("Failed to fetch message");
 	}
 
+	if (!originalMessage) return;
+
 	// Type the message and extract profile info
 	const typedMessage = originalMessage as unknown as MessageWithProfile;
 
-	// 2) Fetch chain messages (all messages from same channel or convo, same user)
+	// Tombstones have no content left to embed
+	if (typedMessage.deleted_at) return;
+
+	// 2) Fetch chain messages (all messages from same channel or convo, same user,
+	// up to and including this one so older chains can be re-embedded after edits)
 	const { data: chainMessages, error: chainError } = await supabaseClient
 		.from("messages")
 		.select(
@@ -103,11 +191,13 @@ export async function embedLatestChainMessage(
 			typedMessage.channel_id ? "channel_id" : "conversation_id",
 			typedMessage.channel_id || typedMessage.conversation_id,
 		)
+		.lte("created_at", typedMessage.created_at)
+		.is("deleted_at", null)
 		.order("created_at", { ascending: false });
 
 	if (chainError) {
 		console.error("Error fetching chain messages:", chainError);
-		return;
+		throw new Error("Failed to fetch chain messages");
 	}
 
 	if (!chainMessages?.length) return;
@@ -196,14 +286,21 @@ export async function embedLatestChainMessage(
 	const chunkToEmbed = chunkLines.join("\n");
 	const promptChunk = promptChunkLines.join("\n");
 
-	// 5) Retrieve the full conversation history for context building
-	const completeHistory = await getFormattedMessageHistory(
+	// 5) Retrieve the recent history and the rolling summary of what came
+	// before it for context building
+	const { summary, recentHistory } = await getRollingContext(
 		latestMessage.channel_id,
 		latestMessage.conversation_id,
+		latestMessage.created_at,
+		supabaseClient,
 	);
 
-	// 6) Use GPT-4o-mini to get an additional context snippet
-	const context = await getContextualInformation(completeHistory, promptChunk);
+	// 6) Use the context model to get an additional context snippet
+	const context = await getContextualInformation(
+		recentHistory,
+		promptChunk,
+		summary,
+	);
 	const contextualizedChunk = context
 		? `Context: ${context}\n${chunkToEmbed}`
 		: chunkToEmbed;
@@ -221,6 +318,7 @@ export async function embedLatestChainMessage(
 			.from("messages")
 			.update({
 				embedding,
+				...getEmbeddingMetadata(),
 				context: context || null,
 				formatted_chain: promptChunk,
 			})
@@ -228,7 +326,7 @@ export async function embedLatestChainMessage(
 
 		if (updateError) {
 			console.error("Error updating message with embedding:", updateError);
-			return;
+			throw new Error("Failed to store embedding");
 		}
 
 		// Clear older chain messages' embeddings/context
@@ -239,6 +337,9 @@ export async function embedLatestChainMessage(
 				.from("messages")
 				.update({
 					embedding: null,
+					embedding_provider: null,
+					embedding_model: null,
+					embedding_version: null,
 					context: null,
 					formatted_chain: null,
 				})
@@ -250,3 +351,106 @@ export async function embedLatestChainMessage(
 		}
 	}
 }
+
+/**
+ * findChainAnchorId:
+ *  - A chain's embedding lives on its newest message, so changing an older
+ *    message means re-embedding whichever message currently anchors its chain
+ *  - That's the author's latest message in the same channel/convo sent
+ *    within an hour after the changed one (possibly the message itself)
+ */
+export async function findChainAnchorId(
+	messageId: string,
+): Promise<string | null> {
+	const supabaseClient = await createClient();
+
+	const { data: message, error: messageError } = await supabaseClient
+		.from("messages")
+		.select("id, user_id, channel_id, conversation_id, created_at")
+		.eq("id", messageId)
+		.single();
+
+	if (messageError || !message) {
+		console.error("Error fetching message for chain anchor:", messageError);
+		return null;
+	}
+
+	const windowEnd = new Date(
+		new Date(message.created_at).getTime() + ONE_HOUR_MS,
+	).toISOString();
+
+	const { data: anchor, error: anchorError } = await supabaseClient
+		.from("messages")
+		.select("id")
+		.eq("user_id", message.user_id)
+		.eq(
+			message.channel_id ? "channel_id" : "conversation_id",
+			message.channel_id || message.conversation_id,
+		)
+		.gte("created_at", message.created_at)
+		.lte("created_at", windowEnd)
+		.is("deleted_at", null)
+		.order("created_at", { ascending: false })
+		.limit(1)
+		.maybeSingle();
+
+	if (anchorError) {
+		console.error("Error fetching chain anchor:", anchorError);
+		return null;
+	}
+
+	return anchor?.id ?? message.id;
+}
+
+/**
+ * findPrecedingChainMessageId:
+ *  - When a chain's anchor is removed, the author's previous message (if sent
+ *    within the hour before it) becomes the newest message of what's left
+ *  - Must be called before the message is deleted
+ */
+export async function findPrecedingChainMessageId(
+	messageId: string,
+): Promise<string | null> {
+	const supabaseClient = await createClient();
+
+	const { data: message, error: messageError } = await supabaseClient
+		.from("messages")
+		.select("id, user_id, channel_id, conversation_id, created_at")
+		.eq("id", messageId)
+		.single();
+
+	if (messageError || !message) {
+		console.error(
+			"Error fetching message for preceding chain message:",
+			messageError,
+		);
+		return null;
+	}
+
+	const windowStart = new Date(
+		new Date(message.created_at).getTime() - ONE_HOUR_MS,
+	).toISOString();
+
+	const { data: preceding, error: precedingError } = await supabaseClient
+		.from("messages")
+		.select("id")
+		.eq("user_id", message.user_id)
+		.eq(
+			message.channel_id ? "channel_id" : "conversation_id",
+			message.channel_id || message.conversation_id,
+		)
+		.neq("id", message.id)
+		.gte("created_at", windowStart)
+		.lte("created_at", message.created_at)
+		.is("deleted_at", null)
+		.order("created_at", { ascending: false })
+		.limit(1)
+		.maybeSingle();
+
+	if (precedingError) {
+		console.error("Error fetching preceding chain message:", precedingError);
+		return null;
+	}
+
+	return preceding?.id ?? null;
+}
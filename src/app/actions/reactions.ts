@@ -0,0 +1,64 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+
+const MAX_EMOJI_LENGTH = 32;
+
+/**
+ * addReaction - react to a message as the current user. Reacting twice with
+ * the same emoji is a no-op.
+ */
+export async function addReaction(messageId: string, emoji: string) {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const trimmed = emoji.trim();
+	if (!trimmed || trimmed.length > MAX_EMOJI_LENGTH) {
+		throw new Error("Invalid reaction");
+	}
+
+	const { error } = await supabase.from("message_reactions").insert({
+		message_id: messageId,
+		user_id: user.id,
+		emoji: trimmed,
+	});
+
+	if (error && error.code !== "23505") {
+		console.error("[addReaction] Failed to add reaction:", error);
+		throw new Error("Failed to add reaction");
+	}
+}
+
+/**
+ * removeReaction - remove the current user's reaction with the given emoji.
+ */
+export async function removeReaction(messageId: string, emoji: string) {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const { error } = await supabase
+		.from("message_reactions")
+		.delete()
+		.eq("message_id", messageId)
+		.eq("user_id", user.id)
+		.eq("emoji", emoji);
+
+	if (error) {
+		console.error("[removeReaction] Failed to remove reaction:", error);
+		throw new Error("Failed to remove reaction");
+	}
+}
@@ -0,0 +1,41 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { EMBEDDING_VERSION, getEmbeddingProvider } from "@/utils/embeddings";
+import type { ReindexRun } from "@/types/workspace";
+
+/**
+ * startWorkspaceReindex - queue a rebuild of every message and file
+ * embedding in a workspace that isn't on the current provider, model and
+ * version.
+ * Only workspace admins can start one; if a run is already in progress
+ * that run is returned.
+ */
+export async function startWorkspaceReindex(
+	workspaceId: string,
+): Promise<ReindexRun> {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const provider = getEmbeddingProvider();
+	const { data, error } = await supabase.rpc("start_workspace_reindex", {
+		p_workspace_id: workspaceId,
+		p_embedding_provider: provider.name,
+		p_embedding_model: provider.model,
+		p_embedding_version: EMBEDDING_VERSION,
+	});
+
+	if (error || !data) {
+		console.error("[startWorkspaceReindex] Failed to start reindex:", error);
+		throw new Error(error?.message || "Failed to start reindex");
+	}
+
+	return data as ReindexRun;
+}
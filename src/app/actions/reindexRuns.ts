@@ -0,0 +1,201 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { embedLatestChainMessage } from "@/app/actions/messageEmbeddings";
+import { processImageFile } from "@/app/actions/images";
+import { processAudioFile } from "@/app/actions/audio";
+import { processVideoFile } from "@/app/actions/video";
+import type { ReindexRun } from "@/types/workspace";
+
+// Each worker call advances a run by one batch. Media processing is much
+// slower than re-embedding a message chain, so file batches are smaller.
+const MESSAGE_BATCH_SIZE = 20;
+const FILE_BATCH_SIZE = 3;
+
+interface BatchRow {
+	id: string;
+	created_at: string;
+}
+
+interface FileBatchRow extends BatchRow {
+	message_id: string;
+	file_name: string;
+	file_type: string;
+	file_url: string;
+}
+
+interface FileMessageResponse {
+	created_at: string;
+	profile: {
+		display_name: string | null;
+		full_name: string | null;
+	} | null;
+	channels: {
+		name: string;
+	} | null;
+}
+
+/**
+ * reprocessFile:
+ *  - Re-runs the image/audio/video processor for an attachment, with the
+ *    same sender and channel details attachFileToMessage gives it
+ */
+async function reprocessFile(
+	supabaseClient: SupabaseClient,
+	file: FileBatchRow,
+) {
+	const { data: message, error } = await supabaseClient
+		.from("messages")
+		.select(`
+			created_at,
+			profile:profiles(display_name, full_name),
+			channels(name)
+		`)
+		.eq("id", file.message_id)
+		.single();
+
+	if (error || !message) {
+		throw new Error("Message not found");
+	}
+
+	const typedMessage = message as unknown as FileMessageResponse;
+	const senderName =
+		typedMessage.profile?.display_name ||
+		typedMessage.profile?.full_name ||
+		"Unknown User";
+	const channelInfo = typedMessage.channels?.name
+		? `${typedMessage.channels.name} channel`
+		: "a direct message";
+	const timestamp = new Date(typedMessage.created_at).toLocaleDateString(
+		"en-GB",
+		{
+			weekday: "long",
+			day: "numeric",
+			month: "long",
+			year: "numeric",
+		},
+	);
+
+	const args = [
+		file.id,
+		file.file_url,
+		file.file_name,
+		senderName,
+		channelInfo,
+		timestamp,
+		supabaseClient,
+	] as const;
+
+	if (file.file_type.startsWith("image/")) {
+		await processImageFile(...args);
+	} else if (file.file_type.startsWith("audio/")) {
+		await processAudioFile(...args);
+	} else if (file.file_type.startsWith("video/")) {
+		await processVideoFile(...args);
+	}
+}
+
+/**
+ * processReindexRun:
+ *  - Claims the oldest unfinished reindex run and processes one batch of it:
+ *    message chains first, then attachments
+ *  - Saves the cursor and progress after the batch, so the next call (or a
+ *    new worker after a crash) carries on from there
+ *  - Rows that fail are counted and skipped
+ */
+export async function processReindexRun(): Promise<ReindexRun | null> {
+	const supabaseClient = createAdminClient();
+
+	const { data: claimed, error: claimError } =
+		await supabaseClient.rpc("claim_reindex_run");
+
+	if (claimError) {
+		console.error("Error claiming reindex run:", claimError);
+		throw new Error("Failed to claim reindex run");
+	}
+
+	const run = (claimed as ReindexRun[] | null)?.[0];
+	if (!run) return null;
+
+	const isMessagePhase = run.phase === "messages";
+	const { data: batch, error: batchError } = await supabaseClient.rpc(
+		isMessagePhase ? "reindex_message_batch" : "reindex_file_batch",
+		{
+			p_workspace_id: run.workspace_id,
+			p_embedding_provider: run.embedding_provider,
+			p_embedding_model: run.embedding_model,
+			p_embedding_version: run.embedding_version,
+			p_after_created_at: run.cursor_created_at,
+			p_after_id: run.cursor_id,
+			p_limit: isMessagePhase ? MESSAGE_BATCH_SIZE : FILE_BATCH_SIZE,
+		},
+	);
+
+	if (batchError) {
+		console.error("Error fetching reindex batch:", batchError);
+		await supabaseClient
+			.from("reindex_runs")
+			.update({ locked_at: null, updated_at: new Date().toISOString() })
+			.eq("id", run.id);
+		throw new Error("Failed to fetch reindex batch");
+	}
+
+	const rows = (batch ?? []) as (BatchRow | FileBatchRow)[];
+	let errorCount = 0;
+	let lastError = run.last_error;
+
+	for (const row of rows) {
+		try {
+			if (isMessagePhase) {
+				await embedLatestChainMessage(row.id, supabaseClient);
+			} else {
+				await reprocessFile(supabaseClient, row as FileBatchRow);
+			}
+		} catch (err) {
+			console.error(`Reindex of ${run.phase} row ${row.id} failed:`, err);
+			errorCount++;
+			lastError = err instanceof Error ? err.message : String(err);
+		}
+	}
+
+	const lastRow = rows[rows.length - 1];
+	const now = new Date().toISOString();
+	const update: Partial<ReindexRun> = {
+		error_count: run.error_count + errorCount,
+		last_error: lastError,
+		locked_at: null,
+		updated_at: now,
+	};
+
+	if (isMessagePhase) {
+		update.messages_done = run.messages_done + rows.length;
+	} else {
+		update.files_done = run.files_done + rows.length;
+	}
+
+	if (lastRow) {
+		update.cursor_created_at = lastRow.created_at;
+		update.cursor_id = lastRow.id;
+	} else if (isMessagePhase) {
+		// Messages are done, start on files from the beginning
+		update.phase = "files";
+		update.cursor_created_at = null;
+		update.cursor_id = null;
+	} else {
+		update.status = "completed";
+		update.finished_at = now;
+	}
+
+	const { data: updated, error: updateError } = await supabaseClient
+		.from("reindex_runs")
+		.update(update)
+		.eq("id", run.id)
+		.select()
+		.single();
+
+	if (updateError) {
+		console.error("Error saving reindex progress:", updateError);
+		throw new Error("Failed to save reindex progress");
+	}
+
+	return updated as ReindexRun;
+}
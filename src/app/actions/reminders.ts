@@ -0,0 +1,85 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import type { Reminder } from "@/types/reminder";
+
+/**
+ * createReminder - remind the current user about something in a workspace,
+ * optionally pointing at a message.
+ */
+export async function createReminder({
+	workspaceId,
+	note,
+	remindAt,
+	messageId,
+}: {
+	workspaceId: string;
+	note: string;
+	remindAt: string;
+	messageId?: string;
+}): Promise<Reminder> {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const time = new Date(remindAt);
+	if (Number.isNaN(time.getTime())) {
+		throw new Error("Invalid reminder time");
+	}
+	if (time.getTime() <= Date.now()) {
+		throw new Error("Reminders must be set for the future");
+	}
+
+	const { data, error } = await supabase
+		.from("reminders")
+		.insert({
+			user_id: user.id,
+			workspace_id: workspaceId,
+			message_id: messageId ?? null,
+			note,
+			remind_at: time.toISOString(),
+		})
+		.select()
+		.single();
+
+	if (error || !data) {
+		console.error("[createReminder] Failed to create reminder:", error);
+		throw new Error("Failed to set reminder");
+	}
+
+	return data as Reminder;
+}
+
+/**
+ * markReminderDelivered - record that the user has been shown a reminder so
+ * other tabs don't show it again.
+ */
+export async function markReminderDelivered(reminderId: string) {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const { error } = await supabase
+		.from("reminders")
+		.update({ delivered_at: new Date().toISOString() })
+		.eq("id", reminderId)
+		.eq("user_id", user.id)
+		.is("delivered_at", null);
+
+	if (error) {
+		console.error("[markReminderDelivered] Failed to update reminder:", error);
+		throw new Error("Failed to update reminder");
+	}
+}
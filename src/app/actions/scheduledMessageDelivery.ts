@@ -0,0 +1,181 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createAdminClient } from "@/utils/supabase/admin";
+import {
+	canUserPostInChannel,
+	publishMessage,
+} from "@/app/actions/messageData";
+import { insertMessageFile } from "@/app/actions/fileData";
+import type { ScheduledMessage } from "@/types/scheduledMessage";
+
+async function canUserPostInConversation(
+	supabaseClient: SupabaseClient,
+	userId: string,
+	conversationId: string,
+): Promise<boolean> {
+	const { data, error } = await supabaseClient
+		.from("conversation_participants")
+		.select("user_id")
+		.eq("user_id", userId)
+		.eq("conversation_id", conversationId)
+		.maybeSingle();
+
+	if (error) {
+		console.error(
+			"[canUserPostInConversation] Error checking participation:",
+			error,
+		);
+		return false;
+	}
+	return !!data;
+}
+
+/**
+ * sendScheduledMessage:
+ *  - Posts a claimed message as its author, through the same path as
+ *    createMessage, under the scheduled message's id so a retry after a
+ *    crash doesn't post it twice, and records that it's been posted
+ *  - Attaches its files one at a time, dropping each from the row once it's
+ *    attached so a retry doesn't attach it again
+ */
+async function sendScheduledMessage(
+	supabaseClient: SupabaseClient,
+	scheduled: ScheduledMessage,
+) {
+	// The service role skips RLS, so check what it would have
+	const canPost = scheduled.channel_id
+		? await canUserPostInChannel(
+				scheduled.user_id,
+				scheduled.channel_id,
+				supabaseClient,
+			)
+		: await canUserPostInConversation(
+				supabaseClient,
+				scheduled.user_id,
+				scheduled.conversation_id!,
+			);
+	if (!canPost) {
+		throw new Error("You can no longer post there");
+	}
+	if (
+		scheduled.files.some(
+			(file) => !file.key.startsWith(`uploads/${scheduled.user_id}/`),
+		)
+	) {
+		throw new Error("Attachments must be your own uploads");
+	}
+
+	await publishMessage({
+		id: scheduled.id,
+		content: scheduled.content,
+		channelId: scheduled.channel_id ?? undefined,
+		conversationId: scheduled.conversation_id ?? undefined,
+		parentId: scheduled.parent_id ?? undefined,
+		userId: scheduled.user_id,
+		mentions: scheduled.mentions,
+		client: supabaseClient,
+	});
+
+	// It's visible now, so its author can no longer edit or cancel it
+	if (!scheduled.published_at) {
+		const { error: publishedError } = await supabaseClient
+			.from("scheduled_messages")
+			.update({
+				published_at: new Date().toISOString(),
+				updated_at: new Date().toISOString(),
+			})
+			.eq("id", scheduled.id);
+
+		if (publishedError) {
+			console.error(
+				"[sendScheduledMessage] Failed to mark as published:",
+				publishedError,
+			);
+			throw new Error("Failed to send scheduled message");
+		}
+	}
+
+	let remaining = scheduled.files;
+	for (const file of scheduled.files) {
+		await insertMessageFile({
+			messageId: scheduled.id,
+			fileKey: file.key,
+			fileName: file.name,
+			fileType: file.type,
+			fileSize: file.size,
+			client: supabaseClient,
+		});
+
+		remaining = remaining.filter((f) => f.key !== file.key);
+		await supabaseClient
+			.from("scheduled_messages")
+			.update({ files: remaining, updated_at: new Date().toISOString() })
+			.eq("id", scheduled.id);
+	}
+
+	const { error } = await supabaseClient
+		.from("scheduled_messages")
+		.update({
+			status: "sent",
+			sent_at: new Date().toISOString(),
+			locked_at: null,
+			last_error: null,
+			updated_at: new Date().toISOString(),
+		})
+		.eq("id", scheduled.id);
+
+	if (error) {
+		console.error("[sendScheduledMessage] Failed to mark as sent:", error);
+	}
+}
+
+/**
+ * processScheduledMessages:
+ *  - Claims up to `limit` messages whose time has come and sends each one
+ *  - A failed send is retried on the next run until it's out of attempts,
+ *    then left as 'failed' with its error for the author to see
+ */
+export async function processScheduledMessages(
+	limit = 20,
+): Promise<{ claimed: number; sent: number; failed: number }> {
+	const supabaseClient = createAdminClient();
+
+	const { data: claimed, error: claimError } = await supabaseClient.rpc(
+		"claim_scheduled_messages",
+		{ p_limit: limit },
+	);
+
+	if (claimError) {
+		console.error("Error claiming scheduled messages:", claimError);
+		throw new Error("Failed to claim scheduled messages");
+	}
+
+	let sent = 0;
+	let failed = 0;
+
+	for (const scheduled of (claimed ?? []) as ScheduledMessage[]) {
+		try {
+			await sendScheduledMessage(supabaseClient, scheduled);
+			sent++;
+		} catch (err) {
+			console.error(
+				`Scheduled message ${scheduled.id} failed (attempt ${scheduled.attempts}/${scheduled.max_attempts}):`,
+				err,
+			);
+			await supabaseClient
+				.from("scheduled_messages")
+				.update({
+					status:
+						scheduled.attempts >= scheduled.max_attempts
+							? "failed"
+							: "scheduled",
+					locked_at: null,
+					last_error: err instanceof Error ? err.message : String(err),
+					updated_at: new Date().toISOString(),
+				})
+				.eq("id", scheduled.id);
+			failed++;
+		}
+	}
+
+	return { claimed: claimed?.length ?? 0, sent, failed };
+}
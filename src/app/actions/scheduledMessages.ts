@@ -0,0 +1,288 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getConversationName } from "@/utils/conversation";
+import { deleteS3Objects } from "@/utils/s3";
+import type {
+	ScheduledFile,
+	ScheduledMessage,
+	ScheduledMessageWithLocation,
+} from "@/types/scheduledMessage";
+import type { ConversationParticipant } from "@/types/conversation";
+import type { MessageMention } from "@/types/mention";
+
+function parseSendAt(sendAt: string) {
+	const time = new Date(sendAt);
+	if (Number.isNaN(time.getTime())) {
+		throw new Error("Invalid send time");
+	}
+	if (time.getTime() <= Date.now()) {
+		throw new Error("Messages must be scheduled for the future");
+	}
+	return time.toISOString();
+}
+
+/**
+ * scheduleMessage - keep a message to be sent as the current user at sendAt.
+ * Its files must already be uploaded; they're attached once it's sent.
+ */
+export async function scheduleMessage({
+	content,
+	channelId,
+	conversationId,
+	parentId,
+	mentions,
+	files,
+	sendAt,
+}: {
+	content: string;
+	channelId?: string;
+	conversationId?: string;
+	parentId?: string;
+	mentions: MessageMention[];
+	files: ScheduledFile[];
+	sendAt: string;
+}): Promise<ScheduledMessage> {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	if (!content.trim() && files.length === 0) {
+		throw new Error("Scheduled messages can't be empty");
+	}
+	// Only the user's own uploads can be attached
+	if (files.some((file) => !file.key.startsWith(`uploads/${user.id}/`))) {
+		throw new Error("Invalid attachment");
+	}
+
+	const { data: container, error: containerError } = await (channelId
+		? supabase
+				.from("channels")
+				.select("workspace_id")
+				.eq("id", channelId)
+				.single()
+		: supabase
+				.from("conversations")
+				.select("workspace_id")
+				.eq("id", conversationId)
+				.single());
+
+	if (containerError || !container) {
+		console.error(
+			"[scheduleMessage] Failed to find workspace:",
+			containerError,
+		);
+		throw new Error("Failed to schedule message");
+	}
+
+	const { data, error } = await supabase
+		.from("scheduled_messages")
+		.insert({
+			user_id: user.id,
+			workspace_id: container.workspace_id,
+			channel_id: channelId ?? null,
+			conversation_id: conversationId ?? null,
+			parent_id: parentId ?? null,
+			content: content.trim(),
+			mentions,
+			files,
+			send_at: parseSendAt(sendAt),
+		})
+		.select()
+		.single();
+
+	if (error || !data) {
+		console.error("[scheduleMessage] Failed to schedule message:", error);
+		throw new Error("Failed to schedule message");
+	}
+
+	return data as ScheduledMessage;
+}
+
+/**
+ * listScheduledMessages - the current user's messages in a workspace that
+ * haven't been sent yet, including ones that failed, soonest first.
+ */
+export async function listScheduledMessages(
+	workspaceId: string,
+): Promise<ScheduledMessageWithLocation[]> {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const { data, error } = await supabase
+		.from("scheduled_messages")
+		.select(`
+			*,
+			channel:channels (
+				id,
+				name,
+				slug
+			),
+			conversation:conversations (
+				conversation_participants (
+					user_id,
+					profiles (
+						full_name,
+						display_name,
+						avatar_url,
+						avatar_color,
+						avatar_cache
+					)
+				)
+			)
+		`)
+		.eq("user_id", user.id)
+		.eq("workspace_id", workspaceId)
+		.neq("status", "sent")
+		.order("send_at", { ascending: true });
+
+	if (error) {
+		console.error(
+			"[listScheduledMessages] Failed to load scheduled messages:",
+			error,
+		);
+		throw new Error("Failed to load scheduled messages");
+	}
+
+	return (data ?? []).map(({ conversation, ...scheduled }) => {
+		const participants = (
+			(conversation?.conversation_participants ??
+				[]) as ConversationParticipant[]
+		).filter((p) => p.user_id !== user.id);
+
+		return {
+			...scheduled,
+			conversationName: conversation ? getConversationName(participants) : null,
+		} as ScheduledMessageWithLocation;
+	});
+}
+
+/**
+ * updateScheduledMessage - change what a scheduled message says or when it's
+ * sent. A failed message is scheduled again with fresh attempts, by the
+ * reset_rescheduled_message trigger.
+ */
+export async function updateScheduledMessage({
+	id,
+	content,
+	sendAt,
+}: {
+	id: string;
+	content: string;
+	sendAt: string;
+}): Promise<ScheduledMessage> {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	// Text can only be cleared from a message that has attachments
+	if (!content.trim()) {
+		const { data: existing } = await supabase
+			.from("scheduled_messages")
+			.select("files")
+			.eq("id", id)
+			.eq("user_id", user.id)
+			.maybeSingle();
+		if (!existing?.files?.length) {
+			throw new Error("Scheduled messages can't be empty");
+		}
+	}
+
+	const { data, error } = await supabase
+		.from("scheduled_messages")
+		.update({
+			content: content.trim(),
+			send_at: parseSendAt(sendAt),
+			updated_at: new Date().toISOString(),
+		})
+		.eq("id", id)
+		.eq("user_id", user.id)
+		.in("status", ["scheduled", "failed"])
+		.is("published_at", null)
+		.select()
+		.maybeSingle();
+
+	if (error) {
+		console.error(
+			"[updateScheduledMessage] Failed to update scheduled message:",
+			error,
+		);
+		throw new Error("Failed to update scheduled message");
+	}
+	if (!data) {
+		throw new Error("This message is already being sent");
+	}
+
+	return data as ScheduledMessage;
+}
+
+/**
+ * cancelScheduledMessage - delete a message that hasn't been sent, along
+ * with the attachments uploaded for it.
+ */
+export async function cancelScheduledMessage(id: string) {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const { data, error } = await supabase
+		.from("scheduled_messages")
+		.delete()
+		.eq("id", id)
+		.eq("user_id", user.id)
+		.in("status", ["scheduled", "failed"])
+		.is("published_at", null)
+		.select("files")
+		.maybeSingle();
+
+	if (error) {
+		console.error(
+			"[cancelScheduledMessage] Failed to cancel scheduled message:",
+			error,
+		);
+		throw new Error("Failed to cancel scheduled message");
+	}
+	if (!data) {
+		throw new Error("This message is already being sent");
+	}
+
+	// Never another user's upload, whatever ended up in the row
+	const keys = ((data.files ?? []) as ScheduledFile[])
+		.map((file) => file.key)
+		.filter((key) => key.startsWith(`uploads/${user.id}/`));
+	if (keys.length > 0) {
+		try {
+			await deleteS3Objects(keys);
+		} catch (err) {
+			console.error(
+				"[cancelScheduledMessage] Failed to delete S3 objects:",
+				err,
+			);
+		}
+	}
+}
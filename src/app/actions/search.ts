@@ -1,5 +1,8 @@
 import { createClient } from "@/utils/supabase/server";
-import { generateEmbeddings } from "@/utils/embeddings";
+import { generateEmbeddings, getEmbeddingProvider } from "@/utils/embeddings";
+import type { Database } from "@/lib/database.types";
+import type { ParsedSearchQuery } from "@/utils/searchQuery";
+import type { MessageSearchResult } from "@/types/search";
 
 type MatchResult = {
 	id: string;
@@ -9,9 +12,22 @@ type MatchResult = {
 	content: string;
 	context: string | null;
 	formatted_chain: string | null;
+	parent_id: string | null;
+	created_at: string;
 	similarity: number;
 };
 
+// Narrow a search. The workspace is required so results never cross
+// workspaces; dates are ISO strings, `after` inclusive and `before` exclusive.
+export interface SearchFilters {
+	workspaceId: string;
+	channelId?: string;
+	conversationId?: string;
+	userId?: string;
+	after?: string;
+	before?: string;
+}
+
 interface ChainMessage {
 	id: string;
 	content: string;
@@ -31,12 +47,16 @@ export interface SearchResult {
 	formatted_chain: string | null;
 	sender_name: string;
 	channel_name: string | null;
+	channel_slug: string | null;
 	similarity: number;
 	chain_messages?: ChainMessage[];
 }
 
-export async function searchMessages(query: string): Promise<SearchResult[]> {
-	console.log("\n[searchMessages] Starting search with query:", query);
+export async function searchMessages(
+	query: string,
+	filters: SearchFilters,
+): Promise<SearchResult[]> {
+	console.log("\n[searchMessages] Starting search with query:", query, filters);
 
 	const supabase = await createClient();
 
@@ -54,18 +74,30 @@ export async function searchMessages(query: string): Promise<SearchResult[]> {
 		embedding.length,
 	);
 
-	// Search messages using the embedding
-	console.log("[searchMessages] Calling match_messages RPC with parameters:", {
+	// Search messages using the embedding, against rows from the same model
+	const provider = getEmbeddingProvider();
+	const matchParams = {
 		match_threshold: 0.3,
 		match_count: 10,
-	});
+		p_embedding_provider: provider.name,
+		p_embedding_model: provider.model,
+		p_workspace_id: filters.workspaceId,
+		p_channel_id: filters.channelId ?? null,
+		p_conversation_id: filters.conversationId ?? null,
+		p_user_id: filters.userId ?? null,
+		p_after: filters.after ?? null,
+		p_before: filters.before ?? null,
+	};
+	console.log(
+		"[searchMessages] Calling match_messages RPC with parameters:",
+		matchParams,
+	);
 
 	const { data: matchResults, error: searchError } = await supabase.rpc(
 		"match_messages",
 		{
 			query_embedding: embedding,
-			match_threshold: 0.3,
-			match_count: 10,
+			...matchParams,
 		},
 	);
 
@@ -92,7 +124,7 @@ export async function searchMessages(query: string): Promise<SearchResult[]> {
 
 	const { data: channels } = await supabase
 		.from("channels")
-		.select("id, name")
+		.select("id, name, slug")
 		.in(
 			"id",
 			matchResults.map((r: MatchResult) => r.channel_id).filter(Boolean),
@@ -107,11 +139,11 @@ export async function searchMessages(query: string): Promise<SearchResult[]> {
 			const transformedResult: SearchResult = {
 				id: result.id,
 				content: result.content,
-				created_at: new Date().toISOString(), // match_messages doesn't return created_at
+				created_at: result.created_at,
 				channel_id: result.channel_id,
 				conversation_id: result.conversation_id,
 				user_id: result.user_id,
-				parent_id: null, // match_messages doesn't return parent_id
+				parent_id: result.parent_id,
 				context: result.context,
 				embedding: null, // We don't need to return the embedding
 				formatted_chain: result.formatted_chain,
@@ -119,6 +151,7 @@ export async function searchMessages(query: string): Promise<SearchResult[]> {
 				sender_name:
 					profile?.display_name || profile?.full_name || "Unknown User",
 				channel_name: channel?.name || null,
+				channel_slug: channel?.slug || null,
 			};
 
 			console.log("[searchMessages] Transformed result:", {
@@ -139,3 +172,141 @@ export async function searchMessages(query: string): Promise<SearchResult[]> {
 	);
 	return searchResults;
 }
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * searchWorkspaceMessages - hybrid keyword and semantic search for the
+ * search page. `from:` and `in:` are resolved against the workspace's
+ * members and channels; if either names nobody/nothing there are no results.
+ * `before:`/`after:` days are exclusive, like Slack.
+ */
+export async function searchWorkspaceMessages(
+	workspaceId: string,
+	query: ParsedSearchQuery,
+): Promise<MessageSearchResult[]> {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	let userId: string | null = null;
+	if (query.from) {
+		const { data: members } = await supabase
+			.from("workspace_members")
+			.select("user_id, profile:profiles (full_name, display_name)")
+			.eq("workspace_id", workspaceId);
+
+		const name = query.from.toLowerCase();
+		const names = (members || []).map((member) => {
+			const profile = member.profile as unknown as {
+				full_name: string;
+				display_name: string | null;
+			} | null;
+			return {
+				userId: member.user_id as string,
+				names: [profile?.display_name, profile?.full_name]
+					.filter((value): value is string => !!value)
+					.map((value) => value.toLowerCase()),
+			};
+		});
+		const match =
+			names.find((member) => member.names.includes(name)) ||
+			names.find((member) => member.names.some((n) => n.startsWith(name)));
+
+		if (!match) return [];
+		userId = match.userId;
+	}
+
+	let channelId: string | null = null;
+	if (query.in) {
+		const { data: channels } = await supabase
+			.from("channels")
+			.select("id, name, slug")
+			.eq("workspace_id", workspaceId);
+
+		const name = query.in.toLowerCase();
+		const channel = channels?.find(
+			(c) => c.slug === name || c.name.toLowerCase() === name,
+		);
+
+		if (!channel) return [];
+		channelId = channel.id;
+	}
+
+	// Fall back to keyword-only search if the embedding service is down
+	let embedding: number[] | null = null;
+	if (query.text) {
+		try {
+			const embeddings = await generateEmbeddings([query.text], "query");
+			embedding = embeddings[0] ?? null;
+		} catch (error) {
+			console.error("[searchWorkspaceMessages] Embedding failed:", error);
+		}
+	}
+
+	const provider = getEmbeddingProvider();
+	const { data: matches, error } = await supabase.rpc("search_messages", {
+		p_workspace_id: workspaceId,
+		p_query: query.text || null,
+		p_query_embedding: embedding,
+		p_embedding_provider: provider.name,
+		p_embedding_model: provider.model,
+		p_user_id: userId,
+		p_channel_id: channelId,
+		p_after: query.after
+			? new Date(
+					new Date(`${query.after}T00:00:00Z`).getTime() + DAY_MS,
+				).toISOString()
+			: null,
+		p_before: query.before
+			? new Date(`${query.before}T00:00:00Z`).toISOString()
+			: null,
+		p_has_file: query.hasFile,
+		p_match_count: 30,
+	});
+
+	if (error) {
+		console.error("[searchWorkspaceMessages] Search RPC error:", error);
+		throw new Error("Search failed");
+	}
+
+	if (!matches?.length) return [];
+
+	const rows =
+		matches as Database["public"]["Functions"]["search_messages"]["Returns"];
+
+	const { data: profiles } = await supabase
+		.from("profiles")
+		.select(
+			"id, full_name, display_name, avatar_url, avatar_color, avatar_cache",
+		)
+		.in("id", [...new Set(rows.map((row) => row.user_id))]);
+
+	const channelIds = [
+		...new Set(rows.map((row) => row.channel_id).filter(Boolean)),
+	];
+	const { data: channels } = channelIds.length
+		? await supabase
+				.from("channels")
+				.select("id, name, slug")
+				.in("id", channelIds)
+		: { data: [] };
+
+	return rows.map((row) => ({
+		id: row.id,
+		content: row.content,
+		created_at: row.created_at,
+		channel_id: row.channel_id,
+		conversation_id: row.conversation_id,
+		parent_id: row.parent_id,
+		score: row.score,
+		profile: profiles?.find((p) => p.id === row.user_id) ?? null,
+		channel: channels?.find((c) => c.id === row.channel_id) ?? null,
+	}));
+}
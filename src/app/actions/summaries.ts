@@ -0,0 +1,285 @@
+"use server";
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/utils/supabase/server";
+import { getLlm, type LlmSelection } from "@/utils/llm";
+import {
+	getMessageHistory,
+	type MessageHistoryOptions,
+} from "@/utils/messageUtils";
+import { extractCitations } from "@/utils/citations";
+import { buildMessageHref } from "@/utils/messageLinks";
+import type { ChatSource } from "@/types/chat";
+import type { MessageSummary } from "@/types/summary";
+
+// Histories longer than this are summarised in parts, and the notes on each
+// part combined, so a long absence doesn't overflow the model's context
+const CHUNK_CHARS = 12000;
+
+const SYSTEM_PROMPT =
+	"You summarise workplace chat for someone catching up on what they missed. Messages are numbered like [3]. Refer to the messages that matter most by their number in square brackets, e.g. [3], and only use numbers that appear in what you're given.";
+
+const SUMMARY_INSTRUCTIONS =
+	"Write a catch-up summary: a sentence or two on what happened overall, then short bullet points for the key discussions, decisions, and anything that still needs an answer or action. Cite the key messages for each point.";
+
+// Split a history on line boundaries, repeating its heading and the current
+// date at the start of each part so every part reads on its own
+function chunkHistory(history: string): string[] {
+	const [heading, ...lines] = history.split("\n");
+	const chunks: string[] = [];
+	let current: string[] = [];
+	let size = 0;
+	let currentDate: string | null = null;
+
+	for (const line of lines) {
+		const isDate = line.startsWith("Date: ");
+		if (current.length > 0 && size + line.length > CHUNK_CHARS) {
+			chunks.push([heading, ...current].join("\n"));
+			current = currentDate && !isDate ? [currentDate] : [];
+			size = 0;
+		}
+		if (isDate) {
+			currentDate = line;
+		}
+		current.push(line);
+		size += line.length + 1;
+	}
+	if (current.length > 0) {
+		chunks.push([heading, ...current].join("\n"));
+	}
+
+	return chunks;
+}
+
+// Group notes into batches that each fit in one request
+function batchNotes(notes: string[]): string[] {
+	const batches: string[] = [];
+	let current = "";
+
+	for (const note of notes) {
+		if (current && current.length + note.length > CHUNK_CHARS) {
+			batches.push(current);
+			current = "";
+		}
+		current = current ? `${current}\n\n---\n\n${note}` : note;
+	}
+	if (current) {
+		batches.push(current);
+	}
+
+	return batches;
+}
+
+async function ask(llm: LlmSelection, prompt: string) {
+	return llm.provider.complete(
+		llm.model,
+		[
+			{ role: "system", content: SYSTEM_PROMPT },
+			{ role: "user", content: prompt },
+		],
+		{ temperature: 0.3, maxTokens: 800 },
+	);
+}
+
+// Summarise each part, then combine the notes until they fit in one last
+// request. Short histories are summarised in one go.
+async function summarizeHistory(llm: LlmSelection, history: string) {
+	const chunks = chunkHistory(history);
+	if (chunks.length === 1) {
+		return ask(
+			llm,
+			`Here is the conversation:\n\n${history}\n\n${SUMMARY_INSTRUCTIONS}`,
+		);
+	}
+
+	console.log(`[summarizeHistory] Summarising ${chunks.length} parts`);
+	let notes: string[] = [];
+	for (const chunk of chunks) {
+		notes.push(
+			await ask(
+				llm,
+				`Here is part of a conversation:\n\n${chunk}\n\nNote its main points, decisions, questions and action items as short bullet points, each followed by the numbers of the messages it comes from.`,
+			),
+		);
+	}
+
+	let batches = batchNotes(notes);
+	while (batches.length > 1) {
+		notes = [];
+		for (const batch of batches) {
+			notes.push(
+				await ask(
+					llm,
+					`Here are notes on consecutive parts of a conversation:\n\n${batch}\n\nMerge them into one list of bullet points, keeping the message numbers.`,
+				),
+			);
+		}
+		batches = batchNotes(notes);
+	}
+
+	return ask(
+		llm,
+		`Here are notes on a conversation, in order:\n\n${batches[0]}\n\n${SUMMARY_INSTRUCTIONS}`,
+	);
+}
+
+async function summarize(
+	supabase: SupabaseClient,
+	workspaceSlug: string,
+	channel: { id: string; name: string; slug: string } | null,
+	conversationId: string | null,
+	options: MessageHistoryOptions,
+): Promise<MessageSummary> {
+	const llm = getLlm("summary", "chat");
+	if (!llm) {
+		throw new Error("Summaries aren't available because no model is set up");
+	}
+
+	const { history, messages } = await getMessageHistory(
+		channel?.id ?? null,
+		conversationId,
+		supabase,
+		{ ...options, numbered: true },
+	);
+
+	const summary: MessageSummary = {
+		content: "Nothing was said in that time.",
+		sources: [],
+		citations: [],
+		messageCount: messages.length,
+		since: options.since ?? null,
+		until: options.until ?? null,
+	};
+	if (!messages.length) {
+		return summary;
+	}
+
+	const sources: ChatSource[] = messages.map((message, i) => ({
+		index: i + 1,
+		id: message.id,
+		href: buildMessageHref(workspaceSlug, {
+			id: message.id,
+			parent_id: message.parent_id,
+			conversation_id: message.conversation_id,
+			channel: channel ? { slug: channel.slug } : null,
+		}),
+		content: message.content,
+		created_at: message.created_at,
+		sender_name: message.sender_name,
+		channel_name: channel?.name ?? null,
+	}));
+
+	summary.content = await summarizeHistory(llm, history);
+	summary.citations = extractCitations(summary.content, sources);
+	// Only the messages the summary points to are sent back
+	summary.sources = sources.filter((source) =>
+		summary.citations.some((c) => c.index === source.index),
+	);
+
+	return summary;
+}
+
+function parseDate(value: string | undefined, name: string) {
+	if (!value) return undefined;
+
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		throw new Error(`Invalid ${name} date`);
+	}
+	return date.toISOString();
+}
+
+/**
+ * summarizeChannel - catch-up summary of a channel between two times. With
+ * no start it covers the whole channel; pass the time the user last read up
+ * to for everything they missed.
+ */
+export async function summarizeChannel({
+	channelId,
+	workspaceSlug,
+	since,
+	until,
+}: {
+	channelId: string;
+	workspaceSlug: string;
+	since?: string;
+	until?: string;
+}): Promise<MessageSummary> {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const { data: channel } = await supabase
+		.from("channels")
+		.select("id, name, slug")
+		.eq("id", channelId)
+		.single();
+	if (!channel) {
+		throw new Error("Channel not found");
+	}
+
+	try {
+		return await summarize(supabase, workspaceSlug, channel, null, {
+			since: parseDate(since, "start"),
+			until: parseDate(until, "end"),
+		});
+	} catch (error) {
+		console.error("[summarizeChannel] Error:", error);
+		throw error;
+	}
+}
+
+/**
+ * summarizeThread - catch-up summary of a message and its replies.
+ */
+export async function summarizeThread({
+	parentId,
+	workspaceSlug,
+}: {
+	parentId: string;
+	workspaceSlug: string;
+}): Promise<MessageSummary> {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const { data: parent } = await supabase
+		.from("messages")
+		.select("conversation_id, channel:channels(id, name, slug)")
+		.eq("id", parentId)
+		.single();
+	if (!parent) {
+		throw new Error("Message not found");
+	}
+
+	const channel = parent.channel as unknown as {
+		id: string;
+		name: string;
+		slug: string;
+	} | null;
+
+	try {
+		return await summarize(
+			supabase,
+			workspaceSlug,
+			channel,
+			channel ? null : parent.conversation_id,
+			{ parentId },
+		);
+	} catch (error) {
+		console.error("[summarizeThread] Error:", error);
+		throw error;
+	}
+}
@@ -0,0 +1,67 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+
+/**
+ * markAsRead - mark a channel or conversation read up to now for the current
+ * user. Returns where they had read up to before, or null if they aren't a
+ * member.
+ */
+export async function markAsRead({
+	channelId,
+	conversationId,
+}: {
+	channelId?: string;
+	conversationId?: string;
+}): Promise<string | null> {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	if (!channelId && !conversationId) {
+		throw new Error("A channel or conversation is required");
+	}
+
+	const { data, error } = await supabase.rpc("mark_container_read", {
+		p_channel_id: channelId ?? null,
+		p_conversation_id: channelId ? null : (conversationId ?? null),
+	});
+
+	if (error) {
+		console.error("[markAsRead] Failed to update read state:", error);
+		throw new Error("Failed to mark as read");
+	}
+
+	return (data as string | null) ?? null;
+}
+
+/**
+ * markAllAsRead - mark every channel and conversation in a workspace read for
+ * the current user.
+ */
+export async function markAllAsRead(workspaceId: string) {
+	const supabase = await createClient();
+
+	const {
+		data: { user },
+		error: userError,
+	} = await supabase.auth.getUser();
+	if (userError || !user) {
+		throw new Error("Unauthorized");
+	}
+
+	const { error } = await supabase.rpc("mark_workspace_read", {
+		p_workspace_id: workspaceId,
+	});
+
+	if (error) {
+		console.error("[markAllAsRead] Failed to update read state:", error);
+		throw new Error("Failed to mark all as read");
+	}
+}
@@ -1,164 +1,73 @@
 "use server";
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { GoogleAIFileManager, FileState } from "@google/generative-ai/server";
-import { S3Client, GetObjectCommand } from "@aws-sdk/client-s3";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { createClient } from "@/utils/supabase/server";
-import { generateEmbeddings } from "@/utils/embeddings";
-import { writeFile, unlink } from "node:fs/promises";
-import { join } from "node:path";
-import { tmpdir } from "node:os";
+import { getS3DownloadUrl } from "@/utils/s3";
+import { generateEmbeddings, getEmbeddingMetadata } from "@/utils/embeddings";
+import { getLlm } from "@/utils/llm";
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "@/lib/database.types";
 
-if (!process.env.GOOGLE_API_KEY) {
-	throw new Error("Missing GOOGLE_API_KEY");
-}
-
-// Initialize file manager
-const fileManager = new GoogleAIFileManager(process.env.GOOGLE_API_KEY);
-
-// Validate required AWS environment variables
-const region = process.env.AWS_S3_REGION;
-const accessKeyId = process.env.AWS_S3_ACCESS_KEY_ID;
-const secretAccessKey = process.env.AWS_S3_SECRET_ACCESS_KEY;
-const bucketName = process.env.AWS_S3_BUCKET_NAME;
-
-if (!region || !accessKeyId || !secretAccessKey || !bucketName) {
-	throw new Error("Missing required AWS configuration");
-}
-
-const s3Client = new S3Client({
-	region,
-	credentials: {
-		accessKeyId,
-		secretAccessKey,
-	},
-});
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY);
-
-async function processVideoWithGemini(
+/**
+ * describeVideo - caption and describe a video with the media model, saving
+ * the caption as soon as it's ready. Returns an empty description when no
+ * model that understands video is configured.
+ */
+async function describeVideo(
 	videoUrl: string,
 	fileName: string,
 	fileId: string,
 	supabaseClient: SupabaseClient<Database>,
-): Promise<{ description: string; fileUri: string; mimeType: string }> {
-	console.log("[processVideoWithGemini] Starting video analysis...");
-	let tempFilePath: string | null = null;
-
-	try {
-		// Fetch the video data
-		console.log(
-			"[processVideoWithGemini] Fetching video data from URL:",
-			videoUrl,
-		);
-		const videoResponse = await fetch(videoUrl);
-		const videoBuffer = await videoResponse.arrayBuffer();
-		const mimeType = videoResponse.headers.get("content-type") || "video/mp4";
-
-		// Create a temporary file
-		tempFilePath = join(tmpdir(), fileName);
-		await writeFile(tempFilePath, Buffer.from(videoBuffer));
-		console.log(
-			"[processVideoWithGemini] Created temporary file:",
-			tempFilePath,
-		);
-
-		// Upload the video file
-		console.log("[processVideoWithGemini] Uploading video to Gemini...");
-		const uploadResult = await fileManager.uploadFile(tempFilePath, {
-			mimeType,
-			displayName: fileName,
-		});
-
-		// Wait for processing
-		let file = await fileManager.getFile(uploadResult.file.name);
-		while (file.state === FileState.PROCESSING) {
-			process.stdout.write(".");
-			await new Promise((resolve) => setTimeout(resolve, 10_000));
-			file = await fileManager.getFile(uploadResult.file.name);
-		}
-
-		if (file.state === FileState.FAILED) {
-			throw new Error("Video processing failed.");
-		}
+): Promise<string> {
+	console.log("[describeVideo] Starting video analysis...");
+	const llm = getLlm("media", "video");
+	if (!llm) {
+		return "";
+	}
 
-		console.log(
-			`[processVideoWithGemini] Video processed successfully: ${uploadResult.file.uri}`,
-		);
+	// Fetch the video data
+	console.log("[describeVideo] Fetching video data from URL:", videoUrl);
+	const videoResponse = await fetch(videoUrl);
+	const videoBuffer = await videoResponse.arrayBuffer();
+	const mimeType = videoResponse.headers.get("content-type") || "video/mp4";
 
-		// Generate caption and update immediately
-		const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
+	console.log(`[describeVideo] Uploading video to ${llm.provider.name}...`);
+	const video = await llm.provider.openMedia(llm.model, {
+		data: Buffer.from(videoBuffer),
+		mimeType,
+		name: fileName,
+	});
+	console.log("[describeVideo] Video processed successfully");
 
+	try {
 		// Generate concise caption
-		console.log("[processVideoWithGemini] Generating caption...");
-		const captionResult = await model.generateContent([
-			{
-				text: "Generate a single short sentence summarizing what this video shows. Be direct and factual. This will be displayed under the video as a quick preview. Include no other text in your response.",
-			},
-			{
-				fileData: {
-					fileUri: uploadResult.file.uri,
-					mimeType: uploadResult.file.mimeType,
-				},
-			},
-		]);
-
-		const caption = captionResult.response.text().trim();
-		console.log("[processVideoWithGemini] Caption generated:", caption);
+		console.log("[describeVideo] Generating caption...");
+		const caption = await video.ask(
+			"Generate a single short sentence summarizing what this video shows. Be direct and factual. This will be displayed under the video as a quick preview. Include no other text in your response.",
+		);
+		console.log("[describeVideo] Caption generated:", caption);
 
 		// Update caption immediately
-		console.log("[processVideoWithGemini] Updating file with caption...");
+		console.log("[describeVideo] Updating file with caption...");
 		const { error: captionError } = await supabaseClient
 			.from("files")
 			.update({ caption })
 			.eq("id", fileId);
 
 		if (captionError) {
-			console.error(
-				"[processVideoWithGemini] Failed to update caption:",
-				captionError,
-			);
+			console.error("[describeVideo] Failed to update caption:", captionError);
 			// Continue processing despite caption update error
 		}
 
 		// Generate detailed description
-		console.log("[processVideoWithGemini] Generating detailed description...");
-		const descriptionResult = await model.generateContent([
-			{
-				text: "Provide a detailed description of this video in 2-3 paragraphs. Focus on the key events, visual content, and any dialogue or text shown. Be specific but concise. Include no other text in your response.",
-			},
-			{
-				fileData: {
-					fileUri: uploadResult.file.uri,
-					mimeType: uploadResult.file.mimeType,
-				},
-			},
-		]);
-
-		const description = descriptionResult.response.text().trim();
-		console.log("[processVideoWithGemini] Description generated");
+		console.log("[describeVideo] Generating detailed description...");
+		const description = await video.ask(
+			"Provide a detailed description of this video in 2-3 paragraphs. Focus on the key events, visual content, and any dialogue or text shown. Be specific but concise. Include no other text in your response.",
+		);
+		console.log("[describeVideo] Description generated");
 
-		return {
-			description,
-			fileUri: uploadResult.file.uri,
-			mimeType: uploadResult.file.mimeType,
-		};
+		return description;
 	} finally {
-		// Clean up temporary file if it exists
-		if (tempFilePath) {
-			try {
-				await unlink(tempFilePath);
-				console.log("[processVideoWithGemini] Cleaned up temp file");
-			} catch (cleanupError) {
-				console.error(
-					"[processVideoWithGemini] Error cleaning up temp file:",
-					cleanupError,
-				);
-			}
-		}
+		await video.dispose();
 	}
 }
 
@@ -169,23 +78,17 @@ export async function processVideoFile(
 	senderName: string,
 	channelInfo: string,
 	timestamp: string,
+	client?: SupabaseClient<Database>,
 ): Promise<void> {
 	console.log("[processVideoFile] Starting video processing...");
-	const supabaseClient = await createClient();
+	const supabaseClient = client ?? (await createClient());
 
 	try {
 		// Get presigned URL for the video
-		const command = new GetObjectCommand({
-			Bucket: bucketName,
-			Key: fileKey,
-		});
-
-		const downloadURL = await getSignedUrl(s3Client, command, {
-			expiresIn: 60,
-		});
+		const downloadURL = await getS3DownloadUrl(fileKey);
 
 		// Process video and get description
-		const { description } = await processVideoWithGemini(
+		const description = await describeVideo(
 			downloadURL,
 			fileName,
 			fileId,
@@ -214,6 +117,7 @@ export async function processVideoFile(
 			.update({
 				description,
 				embedding,
+				...getEmbeddingMetadata(),
 			})
 			.eq("id", fileId)
 			.select()
@@ -236,20 +140,6 @@ export async function processVideoFile(
 			hasUpdatedEmbedding: !!updated?.embedding,
 		});
 
-		// Clean up the Gemini file now that we're done with it
-		try {
-			const fileNameParts = downloadURL.split("/");
-			const geminiFileName = fileNameParts[fileNameParts.length - 1];
-			await fileManager.deleteFile(geminiFileName);
-			console.log("[processVideoFile] Cleaned up Gemini file");
-		} catch (deleteError) {
-			console.error(
-				"[processVideoFile] Error deleting Gemini file:",
-				deleteError,
-			);
-			// Non-fatal error, continue
-		}
-
 		console.log("[processVideoFile] Video processing complete for:", fileId);
 	} catch (error) {
 		console.error("[processVideoFile] Video processing failed:", error);
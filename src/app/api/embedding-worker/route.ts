@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { processEmbeddingJobs } from "@/app/actions/messageEmbeddings";
+import { processReindexRun } from "@/app/actions/reindexRuns";
+
+// Media reprocessing during a reindex can take a while
+export const maxDuration = 300;
+
+// Called by a cron (e.g. every minute) to run due embedding jobs and advance
+// any workspace reindex by one batch
+export async function GET(request: Request) {
+	const authHeader = request.headers.get("authorization");
+	if (
+		!process.env.CRON_SECRET ||
+		authHeader !== `Bearer ${process.env.CRON_SECRET}`
+	) {
+		return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+	}
+
+	try {
+		const jobs = await processEmbeddingJobs();
+		const reindex = await processReindexRun();
+		return NextResponse.json({
+			jobs,
+			reindex: reindex && {
+				id: reindex.id,
+				status: reindex.status,
+				phase: reindex.phase,
+			},
+		});
+	} catch (error) {
+		console.error("Error processing embedding jobs:", error);
+		return NextResponse.json(
+			{ error: error instanceof Error ? error.message : "Unknown error" },
+			{ status: 500 },
+		);
+	}
+}
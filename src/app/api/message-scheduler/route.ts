@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { processScheduledMessages } from "@/app/actions/scheduledMessageDelivery";
+
+// Attachments are processed as they're attached, which can take a while
+export const maxDuration = 300;
+
+// Called by a cron (e.g. every minute) to send scheduled messages whose time
+// has come
+export async function GET(request: Request) {
+	const authHeader = request.headers.get("authorization");
+	if (
+		!process.env.CRON_SECRET ||
+		authHeader !== `Bearer ${process.env.CRON_SECRET}`
+	) {
+		return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+	}
+
+	try {
+		const result = await processScheduledMessages();
+		return NextResponse.json(result);
+	} catch (error) {
+		console.error("Error sending scheduled messages:", error);
+		return NextResponse.json(
+			{ error: error instanceof Error ? error.message : "Unknown error" },
+			{ status: 500 },
+		);
+	}
+}
@@ -2,7 +2,6 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { Toaster } from "@/components/ui/toaster";
-import { MessageCacheProvider } from "@/components/messages/MessageCache";
 import { ChatDialog } from "@/components/ChatDialog";
 
 const geistSans = Geist({
@@ -30,11 +29,9 @@ export default function RootLayout({
 			<body
 				className={`${geistSans.variable} ${geistMono.variable} antialiased`}
 			>
-				<MessageCacheProvider>
-					{children}
-					<Toaster />
-					<ChatDialog />
-				</MessageCacheProvider>
+				{children}
+				<Toaster />
+				<ChatDialog />
 			</body>
 		</html>
 	);
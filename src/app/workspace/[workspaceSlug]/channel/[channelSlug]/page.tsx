@@ -11,6 +11,7 @@ interface ChannelData {
 	id: string;
 	name: string;
 	description: string | null;
+	is_private?: boolean;
 }
 
 export default function ChannelPage() {
@@ -65,7 +66,7 @@ export default function ChannelPage() {
 					// Get channel data
 					const { data: fetchedChannel } = await supabase
 						.from("channels")
-						.select("id, name, description")
+						.select("id, name, description, is_private")
 						.eq("workspace_id", workspace.id)
 						.eq("slug", channelSlug)
 						.single();
@@ -80,11 +81,18 @@ export default function ChannelPage() {
 				// Always check membership status from database
 				const { data: membership } = await supabase
 					.from("channel_members")
-					.select("role")
+					.select("role, channel:channels (is_private)")
 					.eq("channel_id", channelData.id)
 					.eq("user_id", user.id)
 					.single();
 
+				const memberChannel = membership?.channel as unknown as {
+					is_private: boolean;
+				} | null;
+				if (memberChannel) {
+					channelData.is_private = memberChannel.is_private;
+				}
+
 				setChannel(channelData);
 				setIsMember(!!membership);
 				setIsLoading(false);
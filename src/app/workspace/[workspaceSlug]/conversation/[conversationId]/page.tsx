@@ -1,7 +1,9 @@
 import { createClient } from "@/utils/supabase/server";
 import { notFound } from "next/navigation";
 import { MessageContainer } from "@/components/messages/MessageContainer";
-import { UserAvatar } from "@/components/ui/UserAvatar";
+import { GroupAvatar } from "@/components/ui/GroupAvatar";
+import { ConversationParticipantsDialog } from "@/components/conversation/ConversationParticipantsDialog";
+import { getConversationName } from "@/utils/conversation";
 import type { ConversationWithParticipants } from "@/types/conversation";
 
 type DatabaseConversation = ConversationWithParticipants;
@@ -54,28 +56,28 @@ export default async function ConversationPage({
 	console.log("[ConversationPage] Query params =>", {
 		conversationId,
 		workspaceId: workspace.id,
-		type: "direct",
 	});
 
-	// Get conversation and other participant's profile
+	// Get conversation and participants' profiles
 	console.log("[ConversationPage] Getting conversation =>", conversationId);
 	const { data: conversation, error: conversationError } = await supabase
 		.from("conversations")
 		.select(`
 			id,
+			type,
 			conversation_participants!inner (
 				user_id,
 				profiles!inner (
 					full_name,
 					display_name,
 					avatar_url,
+					avatar_color,
 					avatar_cache
 				)
 			)
 		`)
 		.eq("id", conversationId)
 		.eq("workspace_id", workspace.id)
-		.eq("type", "direct")
 		.single();
 
 	if (conversationError) {
@@ -88,34 +90,42 @@ export default async function ConversationPage({
 		notFound();
 	}
 
-	// Get the other participant (not the current user)
-	const otherParticipant = (
-		conversation as unknown as DatabaseConversation
-	).conversation_participants.find((p) => p.user_id !== user?.id)?.profiles;
+	// Get the other participants (not the current user)
+	const { type, conversation_participants: participants } =
+		conversation as unknown as DatabaseConversation;
+	const otherParticipants = participants.filter((p) => p.user_id !== user?.id);
 
-	console.log("[ConversationPage] Other participant =>", otherParticipant);
+	console.log("[ConversationPage] Other participants =>", otherParticipants);
 
-	if (!otherParticipant) {
+	if (!otherParticipants.length && type === "direct") {
 		console.log("[ConversationPage] Other participant not found");
 		notFound();
 	}
 
-	const displayName =
-		otherParticipant.display_name || otherParticipant.full_name;
+	const displayName = getConversationName(otherParticipants);
 
 	return (
 		<div className="flex flex-col h-full">
 			{/* Conversation Header */}
 			<div className="shrink-0">
 				<div className="px-4 py-[18px] flex items-center gap-3">
-					<UserAvatar
-						fullName={otherParticipant.full_name}
-						displayName={otherParticipant.display_name}
-						avatarUrl={otherParticipant.avatar_url}
-						avatarCache={otherParticipant.avatar_cache}
+					<GroupAvatar
+						profiles={otherParticipants.map((p) => p.profiles)}
 						size="xs"
 					/>
-					<h1 className="font-semibold">{displayName}</h1>
+					<h1 className="font-semibold truncate">{displayName}</h1>
+					{user && (
+						<div className="ml-auto -my-2">
+							<ConversationParticipantsDialog
+								conversationId={conversation.id}
+								workspaceId={workspace.id}
+								workspaceSlug={workspaceSlug}
+								type={type}
+								participants={participants}
+								currentUserId={user.id}
+							/>
+						</div>
+					)}
 				</div>
 				<div className="border-t border-custom-ui-medium" />
 			</div>
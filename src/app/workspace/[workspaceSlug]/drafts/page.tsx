@@ -0,0 +1,41 @@
+import { createClient } from "@/utils/supabase/server";
+import { notFound } from "next/navigation";
+import { listDrafts } from "@/app/actions/drafts";
+import { DraftsList } from "@/components/workspace/DraftsList";
+
+export default async function DraftsPage({
+	params,
+}: {
+	params: Promise<{ workspaceSlug: string }>;
+}) {
+	const { workspaceSlug } = await params;
+	const supabase = await createClient();
+
+	const { data: workspace } = await supabase
+		.from("workspaces")
+		.select("id")
+		.eq("slug", workspaceSlug)
+		.single();
+
+	if (!workspace) {
+		notFound();
+	}
+
+	const drafts = await listDrafts(workspace.id);
+
+	return (
+		<div className="flex flex-col h-full">
+			{/* Header */}
+			<div className="shrink-0">
+				<div className="px-4 py-[18px] flex items-center gap-3">
+					<h1 className="font-semibold">Drafts</h1>
+				</div>
+				<div className="border-t border-custom-ui-medium" />
+			</div>
+
+			<div className="flex-1 min-h-0 overflow-y-auto">
+				<DraftsList workspaceSlug={workspaceSlug} drafts={drafts} />
+			</div>
+		</div>
+	);
+}
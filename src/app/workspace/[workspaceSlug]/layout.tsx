@@ -1,5 +1,10 @@
 import { createClient } from "@/utils/supabase/server";
 import { Sidebar } from "@/components/workspace/Sidebar";
+import { WorkspaceSearchBar } from "@/components/workspace/WorkspaceSearchBar";
+import { ReminderNotifier } from "@/components/workspace/ReminderNotifier";
+import { WorkspaceRealtimeProvider } from "@/components/workspace/WorkspaceRealtime";
+import { MessageCacheProvider } from "@/components/messages/MessageCache";
+import { MessageOutboxProvider } from "@/components/messages/MessageOutbox";
 import { notFound } from "next/navigation";
 
 export default async function WorkspaceLayout({
@@ -23,10 +28,24 @@ export default async function WorkspaceLayout({
 		notFound();
 	}
 
+	// Messages are cached per workspace, kept current by its realtime channel,
+	// and sent through the outbox so they show before they're saved
 	return (
-		<div className="flex h-screen">
-			<Sidebar workspaceId={workspace.id} />
-			<main className="flex-1 overflow-auto">{children}</main>
-		</div>
+		<WorkspaceRealtimeProvider workspaceId={workspace.id}>
+			<MessageCacheProvider>
+				<MessageOutboxProvider>
+					<div className="flex h-screen">
+						<Sidebar workspaceId={workspace.id} />
+						<ReminderNotifier workspaceId={workspace.id} />
+						<div className="flex-1 flex flex-col min-w-0">
+							<div className="shrink-0 px-4 py-2 flex justify-center border-b border-custom-ui-medium">
+								<WorkspaceSearchBar />
+							</div>
+							<main className="flex-1 min-h-0 overflow-auto">{children}</main>
+						</div>
+					</div>
+				</MessageOutboxProvider>
+			</MessageCacheProvider>
+		</WorkspaceRealtimeProvider>
 	);
 }
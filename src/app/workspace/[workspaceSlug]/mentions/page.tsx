@@ -0,0 +1,45 @@
+import { createClient } from "@/utils/supabase/server";
+import { notFound } from "next/navigation";
+import { getMentions } from "@/app/actions/mentions";
+import { MentionsInbox } from "@/components/workspace/MentionsInbox";
+
+export default async function MentionsPage({
+	params,
+}: {
+	params: Promise<{ workspaceSlug: string }>;
+}) {
+	const { workspaceSlug } = await params;
+	const supabase = await createClient();
+
+	const { data: workspace } = await supabase
+		.from("workspaces")
+		.select("id")
+		.eq("slug", workspaceSlug)
+		.single();
+
+	if (!workspace) {
+		notFound();
+	}
+
+	const mentions = await getMentions(workspace.id);
+
+	return (
+		<div className="flex flex-col h-full">
+			{/* Header */}
+			<div className="shrink-0">
+				<div className="px-4 py-[18px] flex items-center gap-3">
+					<h1 className="font-semibold">Mentions</h1>
+				</div>
+				<div className="border-t border-custom-ui-medium" />
+			</div>
+
+			<div className="flex-1 min-h-0 overflow-y-auto">
+				<MentionsInbox
+					workspaceId={workspace.id}
+					workspaceSlug={workspaceSlug}
+					mentions={mentions}
+				/>
+			</div>
+		</div>
+	);
+}
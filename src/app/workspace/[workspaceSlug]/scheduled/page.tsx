@@ -0,0 +1,44 @@
+import { createClient } from "@/utils/supabase/server";
+import { notFound } from "next/navigation";
+import { listScheduledMessages } from "@/app/actions/scheduledMessages";
+import { ScheduledMessagesList } from "@/components/workspace/ScheduledMessagesList";
+
+export default async function ScheduledMessagesPage({
+	params,
+}: {
+	params: Promise<{ workspaceSlug: string }>;
+}) {
+	const { workspaceSlug } = await params;
+	const supabase = await createClient();
+
+	const { data: workspace } = await supabase
+		.from("workspaces")
+		.select("id")
+		.eq("slug", workspaceSlug)
+		.single();
+
+	if (!workspace) {
+		notFound();
+	}
+
+	const scheduledMessages = await listScheduledMessages(workspace.id);
+
+	return (
+		<div className="flex flex-col h-full">
+			{/* Header */}
+			<div className="shrink-0">
+				<div className="px-4 py-[18px] flex items-center gap-3">
+					<h1 className="font-semibold">Scheduled messages</h1>
+				</div>
+				<div className="border-t border-custom-ui-medium" />
+			</div>
+
+			<div className="flex-1 min-h-0 overflow-y-auto">
+				<ScheduledMessagesList
+					workspaceSlug={workspaceSlug}
+					scheduledMessages={scheduledMessages}
+				/>
+			</div>
+		</div>
+	);
+}
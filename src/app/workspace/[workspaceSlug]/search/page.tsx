@@ -0,0 +1,59 @@
+import { createClient } from "@/utils/supabase/server";
+import { notFound } from "next/navigation";
+import { searchWorkspaceMessages } from "@/app/actions/search";
+import { SearchResults } from "@/components/workspace/SearchResults";
+import { parseSearchQuery } from "@/utils/searchQuery";
+
+export default async function SearchPage({
+	params,
+	searchParams,
+}: {
+	params: Promise<{ workspaceSlug: string }>;
+	searchParams: Promise<{ q?: string }>;
+}) {
+	const { workspaceSlug } = await params;
+	const { q = "" } = await searchParams;
+	const supabase = await createClient();
+
+	const { data: workspace } = await supabase
+		.from("workspaces")
+		.select("id")
+		.eq("slug", workspaceSlug)
+		.single();
+
+	if (!workspace) {
+		notFound();
+	}
+
+	const query = parseSearchQuery(q);
+	const results = q.trim()
+		? await searchWorkspaceMessages(workspace.id, query)
+		: [];
+
+	return (
+		<div className="flex flex-col h-full">
+			{/* Header */}
+			<div className="shrink-0">
+				<div className="px-4 py-[18px] flex items-center gap-3">
+					<h1 className="font-semibold">Search</h1>
+					{q.trim() && (
+						<span className="text-sm text-custom-text-secondary truncate">
+							{results.length} {results.length === 1 ? "result" : "results"} for
+							“{q.trim()}”
+						</span>
+					)}
+				</div>
+				<div className="border-t border-custom-ui-medium" />
+			</div>
+
+			<div className="flex-1 min-h-0 overflow-y-auto">
+				<SearchResults
+					workspaceSlug={workspaceSlug}
+					query={query}
+					results={results}
+					hasQuery={!!q.trim()}
+				/>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { AlarmClock, Hash, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { cancelChatAction, runChatAction } from "@/app/actions/chat";
+import type {
+	ChatAction,
+	ChatActionRecord,
+	ChatActionResult,
+} from "@/types/chat";
+
+interface ChatActionCardProps {
+	action: ChatActionRecord;
+	// The saved reply that proposed the action
+	messageId: string;
+	workspaceSlug: string;
+	onNavigate?: () => void;
+}
+
+type ActionStatus = "pending" | "running" | "done" | "cancelled" | "failed";
+
+function describeAction(action: ChatAction) {
+	switch (action.type) {
+		case "send_message":
+			return {
+				icon: Send,
+				title: `Send to ${action.destination}`,
+				detail: action.content,
+			};
+		case "create_channel":
+			return {
+				icon: Hash,
+				title: `Create ${action.isPrivate ? "private " : ""}channel #${action.name}`,
+				detail: action.description,
+			};
+		case "set_reminder":
+			return {
+				icon: AlarmClock,
+				title: `Remind you ${format(new Date(action.remindAt), "EEE d MMM, HH:mm")}`,
+				detail: action.note,
+			};
+	}
+}
+
+/**
+ * Confirmation card for a change Slucky proposed. Nothing happens until the
+ * user confirms, and it then runs with their own permissions. Shows how it
+ * was settled when a saved session is resumed.
+ */
+export function ChatActionCard({
+	action,
+	messageId,
+	workspaceSlug,
+	onNavigate,
+}: ChatActionCardProps) {
+	const [status, setStatus] = useState<ActionStatus>(action.status);
+	const [result, setResult] = useState<ChatActionResult | null>(
+		action.result ?? null,
+	);
+	const { toast } = useToast();
+	const { icon: Icon, title, detail } = describeAction(action);
+
+	const showError = (error: unknown) => {
+		toast({
+			title: "Error",
+			description:
+				error instanceof Error ? error.message : "Something went wrong",
+			variant: "destructive",
+		});
+	};
+
+	const handleConfirm = async () => {
+		setStatus("running");
+		try {
+			setResult(await runChatAction(messageId, action.id, workspaceSlug));
+			setStatus("done");
+		} catch (error) {
+			showError(error);
+			setStatus("failed");
+		}
+	};
+
+	const handleCancel = async () => {
+		const previous = status;
+		setStatus("running");
+		try {
+			await cancelChatAction(messageId, action.id);
+			setStatus("cancelled");
+		} catch (error) {
+			showError(error);
+			setStatus(previous);
+		}
+	};
+
+	return (
+		<div className="mt-3 rounded-md border border-custom-ui-strong bg-custom-background p-3 text-sm">
+			<div className="flex items-center gap-2 font-medium text-custom-text">
+				<Icon className="h-4 w-4 shrink-0 text-custom-text-secondary" />
+				<span className="truncate">{title}</span>
+			</div>
+			{detail && (
+				<p className="mt-2 text-custom-text whitespace-pre-wrap break-words">
+					{detail}
+				</p>
+			)}
+
+			{status === "done" && result ? (
+				<p className="mt-3 text-custom-text-secondary">
+					{result.summary}
+					{result.href && (
+						<>
+							{" · "}
+							<Link
+								href={result.href}
+								onClick={onNavigate}
+								className="text-custom-accent hover:underline"
+							>
+								View
+							</Link>
+						</>
+					)}
+				</p>
+			) : status === "cancelled" ? (
+				<p className="mt-3 text-custom-text-tertiary">Cancelled</p>
+			) : (
+				<div className="mt-3 flex justify-end gap-2">
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={handleCancel}
+						disabled={status === "running"}
+						className="border-custom-ui-medium hover:bg-custom-ui-faint text-custom-text"
+					>
+						Cancel
+					</Button>
+					<Button
+						size="sm"
+						onClick={handleConfirm}
+						disabled={status === "running"}
+						className="bg-custom-accent text-white hover:bg-custom-accent/90"
+					>
+						{status === "failed" ? "Try again" : "Confirm"}
+					</Button>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -4,16 +4,50 @@ import * as React from "react";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Eraser, Info } from "lucide-react";
+import { History, Info, Pencil, SquarePen, Trash2 } from "lucide-react";
+import { useParams } from "next/navigation";
+import { format } from "date-fns";
 import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
 import { streamChat, type Message } from "@/app/actions/chat";
+import {
+	deleteChatSession,
+	getChatSessionMessages,
+	listChatSessions,
+	renameChatSession,
+} from "@/app/actions/chatSessions";
+import { ChatReply } from "@/components/ChatReply";
+import { ChatActionCard } from "@/components/ChatActionCard";
+import type { ChatSession } from "@/types/chat";
 
 export function ChatDialog() {
 	const [open, setOpen] = React.useState(false);
 	const [messages, setMessages] = React.useState<Message[]>([]);
 	const [input, setInput] = React.useState("");
 	const [isLoading, setIsLoading] = React.useState(false);
+	const [session, setSession] = React.useState<ChatSession | null>(null);
+	const [sessions, setSessions] = React.useState<ChatSession[]>([]);
+	const [showHistory, setShowHistory] = React.useState(false);
+	const [renaming, setRenaming] = React.useState<{
+		id: string;
+		title: string;
+	} | null>(null);
 	const messagesEndRef = React.useRef<HTMLDivElement>(null);
+	const { toast } = useToast();
+	// Slucky searches the workspace being viewed, if any
+	const { workspaceSlug } = useParams<{ workspaceSlug?: string }>();
+
+	const showError = React.useCallback(
+		(error: unknown) => {
+			toast({
+				title: "Error",
+				description:
+					error instanceof Error ? error.message : "Something went wrong",
+				variant: "destructive",
+			});
+		},
+		[toast],
+	);
 
 	React.useEffect(() => {
 		const down = (e: KeyboardEvent) => {
@@ -35,10 +69,72 @@ export function ChatDialog() {
 		scrollToBottom();
 	}, [scrollToBottom]);
 
-	const handleClear = React.useCallback(() => {
+	// Sessions belong to a workspace, so start afresh when it changes
+	React.useEffect(() => {
+		setSession(null);
 		setMessages([]);
+		setShowHistory(false);
+	}, [workspaceSlug]);
+
+	React.useEffect(() => {
+		if (!open || !showHistory) return;
+
+		let isMounted = true;
+		listChatSessions(workspaceSlug)
+			.then((data) => {
+				if (isMounted) setSessions(data);
+			})
+			.catch(showError);
+
+		return () => {
+			isMounted = false;
+		};
+	}, [open, showHistory, workspaceSlug, showError]);
+
+	const handleNewChat = React.useCallback(() => {
+		setSession(null);
+		setMessages([]);
+		setShowHistory(false);
 	}, []);
 
+	const handleResume = async (resumed: ChatSession) => {
+		try {
+			const saved = await getChatSessionMessages(resumed.id);
+			setSession(resumed);
+			setMessages(saved);
+			setShowHistory(false);
+		} catch (error) {
+			showError(error);
+		}
+	};
+
+	const handleRename = async () => {
+		if (!renaming) return;
+		try {
+			const renamed = await renameChatSession(renaming.id, renaming.title);
+			setSessions((prev) =>
+				prev.map((s) => (s.id === renamed.id ? renamed : s)),
+			);
+			setSession((prev) => (prev?.id === renamed.id ? renamed : prev));
+			setRenaming(null);
+		} catch (error) {
+			showError(error);
+		}
+	};
+
+	const handleDelete = async (sessionId: string) => {
+		try {
+			await deleteChatSession(sessionId);
+			setSessions((prev) => prev.filter((s) => s.id !== sessionId));
+			if (session?.id === sessionId) {
+				setSession(null);
+				setMessages([]);
+			}
+		} catch (error) {
+			showError(error);
+		}
+	};
+
 	const handleSubmit = async (e: React.FormEvent) => {
 		e.preventDefault();
 		if (!input.trim() || isLoading) return;
@@ -53,8 +149,9 @@ export function ChatDialog() {
 		setInput("");
 		setIsLoading(true);
 
-		// Create a placeholder message for the assistant's response
-		const assistantMessageId = crypto.randomUUID();
+		// Create a placeholder message for the assistant's response. It takes
+		// the id the reply is saved under once the server sends it.
+		let assistantMessageId = crypto.randomUUID();
 		setMessages((prev) => [
 			...prev,
 			{
@@ -65,24 +162,47 @@ export function ChatDialog() {
 		]);
 
 		try {
-			const stream = await streamChat(messages.concat(userMessage));
+			// The server keeps the history; only the new message is sent
+			const stream = await streamChat({
+				content: userMessage.content,
+				sessionId: session?.id ?? null,
+				workspaceSlug,
+			});
 
 			let accumulatedContent = "";
-			for await (const chunk of stream) {
-				const content = chunk.choices[0]?.delta?.content || "";
-				accumulatedContent += content;
+			for await (const event of stream) {
+				let update: (msg: Message) => Message;
+				if (event.type === "session") {
+					const messageId = event.messageId;
+					setSession(event.session);
+					update = (msg) => ({ ...msg, id: messageId });
+				} else if (event.type === "sources") {
+					update = (msg) => ({ ...msg, sources: event.sources });
+				} else if (event.type === "citations") {
+					update = (msg) => ({ ...msg, citations: event.citations });
+				} else if (event.type === "action") {
+					const action = event.action;
+					update = (msg) => ({
+						...msg,
+						actions: [...(msg.actions ?? []), { ...action, status: "pending" }],
+					});
+				} else {
+					accumulatedContent += event.content;
+					const content = accumulatedContent;
+					update = (msg) => ({ ...msg, content });
+				}
 
-				// Update the assistant's message with the accumulated content
+				// Update the assistant's message with what's arrived so far
+				const placeholderId = assistantMessageId;
 				setMessages((prev) =>
-					prev.map((msg) =>
-						msg.id === assistantMessageId
-							? { ...msg, content: accumulatedContent }
-							: msg,
-					),
+					prev.map((msg) => (msg.id === placeholderId ? update(msg) : msg)),
 				);
+				if (event.type === "session") {
+					assistantMessageId = event.messageId;
+				}
 			}
 		} catch (error) {
-			console.error("Error calling OpenAI:", error);
+			console.error("Error calling Slucky:", error);
 			// Update the assistant's message to show the error
 			setMessages((prev) =>
 				prev.map((msg) =>
@@ -109,20 +229,110 @@ export function ChatDialog() {
 					"bg-custom-background-secondary",
 				)}
 			>
-				<div className="flex justify-between items-center p-4 border-b border-custom-ui-medium">
-					<h2 className="text-custom-text font-medium">Ask Slucky</h2>
-					<Button
-						variant="ghost"
-						size="icon"
-						onClick={handleClear}
-						className="text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
-						disabled={messages.length === 0 || isLoading}
-					>
-						<Eraser className="h-4 w-4" />
-					</Button>
+				<div className="flex justify-between items-center gap-2 p-4 border-b border-custom-ui-medium">
+					<h2 className="text-custom-text font-medium truncate">
+						{session?.title ?? "Ask Slucky"}
+					</h2>
+					<div className="flex shrink-0 gap-1">
+						<Button
+							variant="ghost"
+							size="icon"
+							title="Conversations"
+							onClick={() => setShowHistory((show) => !show)}
+							className={cn(
+								"text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint",
+								showHistory && "bg-custom-ui-faint text-custom-text",
+							)}
+							disabled={isLoading}
+						>
+							<History className="h-4 w-4" />
+						</Button>
+						<Button
+							variant="ghost"
+							size="icon"
+							title="New conversation"
+							onClick={handleNewChat}
+							className="text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+							disabled={(!session && messages.length === 0) || isLoading}
+						>
+							<SquarePen className="h-4 w-4" />
+						</Button>
+					</div>
 				</div>
 				<div className="flex-1 overflow-y-auto p-4 space-y-4">
-					{messages.length === 0 ? (
+					{showHistory ? (
+						sessions.length === 0 ? (
+							<div className="flex items-center justify-center h-full text-custom-text-secondary">
+								No conversations yet
+							</div>
+						) : (
+							<ul className="space-y-1">
+								{sessions.map((s) => (
+									<li
+										key={s.id}
+										className={cn(
+											"group flex items-center gap-2 rounded-md px-3 py-2 hover:bg-custom-ui-faint",
+											s.id === session?.id && "bg-custom-ui-faint",
+										)}
+									>
+										{renaming?.id === s.id ? (
+											<Input
+												autoFocus
+												value={renaming.title}
+												onChange={(e) =>
+													setRenaming({ id: s.id, title: e.target.value })
+												}
+												onKeyDown={(e) => {
+													if (e.key === "Enter") {
+														e.preventDefault();
+														handleRename();
+													} else if (e.key === "Escape") {
+														e.preventDefault();
+														e.stopPropagation();
+														setRenaming(null);
+													}
+												}}
+												onBlur={() => setRenaming(null)}
+												className="h-8 bg-custom-background border-custom-ui-medium text-custom-text"
+											/>
+										) : (
+											<button
+												type="button"
+												onClick={() => handleResume(s)}
+												className="flex-1 min-w-0 text-left"
+											>
+												<span className="block truncate text-custom-text">
+													{s.title}
+												</span>
+												<span className="block text-xs text-custom-text-tertiary">
+													{format(new Date(s.updated_at), "d MMM, HH:mm")}
+												</span>
+											</button>
+										)}
+										<Button
+											variant="ghost"
+											size="icon"
+											title="Rename"
+											onMouseDown={(e) => e.preventDefault()}
+											onClick={() => setRenaming({ id: s.id, title: s.title })}
+											className="h-8 w-8 shrink-0 text-custom-text-secondary hover:text-custom-text opacity-0 group-hover:opacity-100"
+										>
+											<Pencil className="h-4 w-4" />
+										</Button>
+										<Button
+											variant="ghost"
+											size="icon"
+											title="Delete"
+											onClick={() => handleDelete(s.id)}
+											className="h-8 w-8 shrink-0 text-custom-text-secondary hover:text-custom-text opacity-0 group-hover:opacity-100"
+										>
+											<Trash2 className="h-4 w-4" />
+										</Button>
+									</li>
+								))}
+							</ul>
+						)
+					) : messages.length === 0 ? (
 						<div className="flex items-center justify-center h-full text-custom-text-secondary">
 							Ask me anything...
 						</div>
@@ -148,9 +358,30 @@ export function ChatDialog() {
 										<span>Using context from previous messages</span>
 									</div>
 								)}
-								<p className="text-custom-text whitespace-pre-wrap">
-									{message.content || "..."}
-								</p>
+								{message.role === "assistant" ? (
+									<>
+										<ChatReply
+											content={message.content}
+											sources={message.sources}
+											citations={message.citations}
+											onNavigate={() => setOpen(false)}
+										/>
+										{workspaceSlug &&
+											message.actions?.map((action) => (
+												<ChatActionCard
+													key={action.id}
+													action={action}
+													messageId={message.id}
+													workspaceSlug={workspaceSlug}
+													onNavigate={() => setOpen(false)}
+												/>
+											))}
+									</>
+								) : (
+									<p className="text-custom-text whitespace-pre-wrap">
+										{message.content || "..."}
+									</p>
+								)}
 							</div>
 						))
 					)}
@@ -0,0 +1,111 @@
+"use client";
+
+import Link from "next/link";
+import { MessageTimestamp } from "@/components/messages/MessageTimestamp";
+import { cn } from "@/lib/utils";
+import { splitCitations } from "@/utils/citations";
+import type { ChatCitation, ChatSource } from "@/types/chat";
+
+interface ChatReplyProps {
+	content: string;
+	sources?: ChatSource[];
+	citations?: ChatCitation[];
+	// Called when a link to a source is followed, e.g. to close the dialog
+	onNavigate?: () => void;
+}
+
+/**
+ * A Slucky reply with its [n] citations as footnote links to the cited
+ * messages, and the messages it was given listed underneath.
+ */
+export function ChatReply({
+	content,
+	sources = [],
+	citations,
+	onNavigate,
+}: ChatReplyProps) {
+	return (
+		<>
+			<p className="text-custom-text whitespace-pre-wrap">
+				{content
+					? splitCitations(content).map((part, i) => {
+							if (part.type === "text") return part.text;
+
+							const source = sources.find((s) => s.index === part.index);
+							if (!source) return `[${part.index}]`;
+
+							return (
+								<Link
+									key={i}
+									href={source.href}
+									onClick={onNavigate}
+									title={`${source.sender_name}: ${source.content.slice(0, 80)}`}
+									className="text-custom-accent hover:underline"
+								>
+									<sup>[{part.index}]</sup>
+								</Link>
+							);
+						})
+					: "..."}
+			</p>
+
+			{sources.length > 0 && (
+				<details className="mt-3 text-sm">
+					<summary className="cursor-pointer text-custom-text-secondary hover:text-custom-text">
+						Sources ({sources.length})
+					</summary>
+					<ol className="mt-2 space-y-1">
+						{sources.map((source) => {
+							const isCited = citations?.some((c) => c.index === source.index);
+
+							return (
+								<li key={source.id}>
+									<Link
+										href={source.href}
+										onClick={onNavigate}
+										className="block rounded-md px-2 py-1.5 hover:bg-custom-ui-faint"
+									>
+										<div className="flex items-baseline gap-2 text-xs text-custom-text-secondary">
+											<span
+												className={cn(
+													"tabular-nums",
+													isCited && "font-semibold text-custom-accent",
+												)}
+											>
+												[{source.index}]
+											</span>
+											<span className="font-medium text-custom-text">
+												{source.sender_name}
+											</span>
+											<span>
+												in{" "}
+												{source.channel_name
+													? `#${source.channel_name}`
+													: "a direct message"}
+											</span>
+											<MessageTimestamp
+												timestamp={source.created_at}
+												className="text-custom-text-tertiary"
+											/>
+											{source.similarity !== undefined && (
+												<span
+													className="ml-auto tabular-nums text-custom-text-tertiary"
+													title="Similarity"
+												>
+													{source.similarity.toFixed(2)}
+												</span>
+											)}
+										</div>
+										<p className="text-custom-text line-clamp-2 break-words">
+											{source.content}
+										</p>
+									</Link>
+								</li>
+							);
+						})}
+					</ol>
+				</details>
+			)}
+		</>
+	);
+}
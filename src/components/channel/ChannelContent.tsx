@@ -1,37 +1,101 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
+import { useParams } from "next/navigation";
 import { MessageContainer } from "@/components/messages/MessageContainer";
+import { SummaryCard } from "@/components/messages/SummaryCard";
 import { Button } from "@/components/ui/button";
-import { Files } from "lucide-react";
+import { Files, Lock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { summarizeChannel } from "@/app/actions/summaries";
+import type { MessageSummary } from "@/types/summary";
+import { ChannelMembersDialog } from "./ChannelMembersDialog";
+import {
+	ChannelSummaryButton,
+	type SummaryRange,
+} from "./ChannelSummaryButton";
 
 interface ChannelContentProps {
 	channel: {
 		id: string;
 		name: string;
 		description: string | null;
+		is_private?: boolean;
 	};
 }
 
 export function ChannelContent({ channel }: ChannelContentProps) {
 	const [showFiles, setShowFiles] = useState(false);
+	const [lastReadAt, setLastReadAt] = useState<string | null>();
+	const [showSummary, setShowSummary] = useState(false);
+	const [summary, setSummary] = useState<MessageSummary | null>(null);
+	// Only the latest request's summary is shown
+	const summaryRequestRef = useRef(0);
+	const { workspaceSlug } = useParams<{ workspaceSlug: string }>();
+	const { toast } = useToast();
+
+	const handleSummarize = async (range: SummaryRange) => {
+		const request = ++summaryRequestRef.current;
+		setSummary(null);
+		setShowSummary(true);
+
+		try {
+			const result = await summarizeChannel({
+				channelId: channel.id,
+				workspaceSlug,
+				...range,
+			});
+			if (request === summaryRequestRef.current) {
+				setSummary(result);
+			}
+		} catch (error) {
+			if (request !== summaryRequestRef.current) return;
+			setShowSummary(false);
+			toast({
+				title: "Error",
+				description:
+					error instanceof Error ? error.message : "Failed to summarize",
+				variant: "destructive",
+			});
+		}
+	};
+
+	const handleCloseSummary = () => {
+		summaryRequestRef.current++;
+		setShowSummary(false);
+	};
 
 	return (
 		<div className="flex flex-col h-full">
 			{/* Channel Header */}
 			<div className="shrink-0">
 				<div className="px-4 py-3 flex items-center justify-between">
-					<h1 className="font-semibold">
-						<span className="text-custom-text-secondary">#</span> {channel.name}
+					<h1 className="font-semibold flex items-center gap-1">
+						{channel.is_private ? (
+							<Lock className="h-4 w-4 text-custom-text-secondary" />
+						) : (
+							<span className="text-custom-text-secondary">#</span>
+						)}{" "}
+						{channel.name}
 					</h1>
-					<Button
-						variant="ghost"
-						size="icon"
-						onClick={() => setShowFiles(true)}
-						className="text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
-					>
-						<Files className="h-4 w-4" />
-					</Button>
+					<div className="flex items-center">
+						<ChannelSummaryButton
+							lastReadAt={lastReadAt}
+							onSummarize={handleSummarize}
+						/>
+						<ChannelMembersDialog
+							channelId={channel.id}
+							isPrivate={channel.is_private}
+						/>
+						<Button
+							variant="ghost"
+							size="icon"
+							onClick={() => setShowFiles(true)}
+							className="text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+						>
+							<Files className="h-4 w-4" />
+						</Button>
+					</div>
 				</div>
 				<div className="border-t border-custom-ui-medium" />
 			</div>
@@ -42,7 +106,12 @@ export function ChannelContent({ channel }: ChannelContentProps) {
 					channelId={channel.id}
 					showFiles={showFiles}
 					onCloseFiles={() => setShowFiles(false)}
-				/>
+					onLastReadAtLoad={setLastReadAt}
+				>
+					{showSummary && (
+						<SummaryCard summary={summary} onClose={handleCloseSummary} />
+					)}
+				</MessageContainer>
 			</div>
 		</div>
 	);
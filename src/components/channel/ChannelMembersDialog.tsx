@@ -0,0 +1,267 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { Check, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { UserAvatar } from "@/components/ui/UserAvatar";
+import { useToast } from "@/hooks/use-toast";
+import { useCanModerateChannel } from "@/hooks/useCanModerateChannel";
+import { useCurrentUserId } from "@/hooks/useCurrentUserId";
+import { useWorkspaceMembers } from "@/hooks/useWorkspaceMembers";
+import { addChannelMembers, removeChannelMember } from "@/app/actions/channel";
+import { createClient } from "@/utils/supabase/client";
+import type { ChannelWithMembers } from "@/types/channel";
+import type { ProfileWithId } from "@/types/profile";
+
+const supabase = createClient();
+
+type ChannelMemberRow = ChannelWithMembers["members"][number] & {
+	profile: ProfileWithId;
+};
+
+interface ChannelMembersDialogProps {
+	channelId: string;
+	isPrivate?: boolean;
+}
+
+/**
+ * Channel member list. Channel admins can add and remove people, which is
+ * the only way into a private channel; anyone can leave.
+ */
+export function ChannelMembersDialog({
+	channelId,
+	isPrivate,
+}: ChannelMembersDialogProps) {
+	const [open, setOpen] = useState(false);
+	const [channelMembers, setChannelMembers] = useState<ChannelMemberRow[]>([]);
+	const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+	const [isSaving, setIsSaving] = useState(false);
+	const canModerate = useCanModerateChannel(channelId);
+	const currentUserId = useCurrentUserId();
+	const workspaceMembers = useWorkspaceMembers();
+	const router = useRouter();
+	const { workspaceSlug } = useParams<{ workspaceSlug: string }>();
+	const { toast } = useToast();
+
+	const loadMembers = useCallback(async () => {
+		const { data, error } = await supabase
+			.from("channel_members")
+			.select(`
+				user_id,
+				role,
+				profile:profiles (
+					id,
+					full_name,
+					display_name,
+					avatar_url,
+					avatar_color,
+					avatar_cache
+				)
+			`)
+			.eq("channel_id", channelId);
+
+		if (error) {
+			console.error("[ChannelMembersDialog] Failed to load members:", error);
+			return;
+		}
+
+		setChannelMembers(
+			((data || []) as unknown as ChannelMemberRow[])
+				.filter((member) => member.profile)
+				.sort((a, b) =>
+					(a.profile.display_name || a.profile.full_name).localeCompare(
+						b.profile.display_name || b.profile.full_name,
+					),
+				),
+		);
+	}, [channelId]);
+
+	useEffect(() => {
+		if (open) {
+			setSelectedUserIds([]);
+			loadMembers();
+		}
+	}, [open, loadMembers]);
+
+	const memberIds = new Set(channelMembers.map((member) => member.user_id));
+	const addableMembers = workspaceMembers.filter(
+		(member) => !memberIds.has(member.id),
+	);
+
+	const toggleUser = (userId: string) => {
+		setSelectedUserIds((current) =>
+			current.includes(userId)
+				? current.filter((id) => id !== userId)
+				: [...current, userId],
+		);
+	};
+
+	const handleAdd = async () => {
+		setIsSaving(true);
+		try {
+			await addChannelMembers(channelId, selectedUserIds);
+			setSelectedUserIds([]);
+			await loadMembers();
+		} catch (error) {
+			toast({
+				title: "Error",
+				description:
+					error instanceof Error ? error.message : "Failed to add people",
+				variant: "destructive",
+			});
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const handleRemove = async (userId: string) => {
+		setIsSaving(true);
+		try {
+			await removeChannelMember(channelId, userId);
+			if (userId === currentUserId) {
+				setOpen(false);
+				router.push(`/workspace/${workspaceSlug}`);
+			} else {
+				await loadMembers();
+			}
+		} catch (error) {
+			toast({
+				title: "Error",
+				description:
+					error instanceof Error ? error.message : "Failed to remove member",
+				variant: "destructive",
+			});
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={setOpen}>
+			<DialogTrigger asChild>
+				<Button
+					variant="ghost"
+					size="icon"
+					title="Members"
+					className="text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+				>
+					<Users className="h-4 w-4" />
+				</Button>
+			</DialogTrigger>
+			<DialogContent className="sm:max-w-[425px] bg-custom-background border-custom-ui-medium">
+				<DialogHeader>
+					<DialogTitle className="text-custom-text">Members</DialogTitle>
+					<DialogDescription className="text-custom-text-secondary">
+						{isPrivate
+							? "This channel is private. Only the people below can see it."
+							: "Anyone in the workspace can join this channel."}
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-1 max-h-[240px] overflow-y-auto">
+					{channelMembers.map((member) => {
+						const isSelf = member.user_id === currentUserId;
+
+						return (
+							<div
+								key={member.user_id}
+								className="flex items-center gap-3 px-3 py-2"
+							>
+								<UserAvatar
+									fullName={member.profile.full_name}
+									displayName={member.profile.display_name}
+									avatarUrl={member.profile.avatar_url}
+									avatarCache={member.profile.avatar_cache}
+									avatarColor={member.profile.avatar_color}
+									size="sm"
+								/>
+								<span className="text-sm text-custom-text truncate">
+									{member.profile.display_name || member.profile.full_name}
+									{isSelf && (
+										<span className="text-custom-text-tertiary"> (you)</span>
+									)}
+								</span>
+								{member.role === "admin" && (
+									<span className="text-xs text-custom-text-tertiary">
+										admin
+									</span>
+								)}
+								{(isSelf || canModerate) && (
+									<Button
+										variant="ghost"
+										size="sm"
+										onClick={() => handleRemove(member.user_id)}
+										disabled={isSaving}
+										className="ml-auto text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+									>
+										{isSelf ? "Leave" : "Remove"}
+									</Button>
+								)}
+							</div>
+						);
+					})}
+				</div>
+
+				{canModerate && addableMembers.length > 0 && (
+					<>
+						<div className="border-t border-custom-ui-medium" />
+						<h3 className="text-sm font-medium text-custom-text-secondary">
+							Add people
+						</h3>
+						<div className="space-y-1 max-h-[200px] overflow-y-auto">
+							{addableMembers.map((member) => {
+								const isSelected = selectedUserIds.includes(member.id);
+
+								return (
+									<button
+										key={member.id}
+										type="button"
+										onClick={() => toggleUser(member.id)}
+										aria-pressed={isSelected}
+										className={`w-full flex items-center gap-3 px-3 py-2 rounded-md hover:bg-custom-ui-faint text-left ${
+											isSelected ? "bg-custom-ui-faint" : ""
+										}`}
+									>
+										<UserAvatar
+											fullName={member.full_name}
+											displayName={member.display_name}
+											avatarUrl={member.avatar_url}
+											avatarCache={member.avatar_cache}
+											avatarColor={member.avatar_color}
+											size="sm"
+										/>
+										<span className="text-sm text-custom-text truncate">
+											{member.display_name || member.full_name}
+										</span>
+										{isSelected && (
+											<Check className="ml-auto h-4 w-4 text-custom-accent" />
+										)}
+									</button>
+								);
+							})}
+						</div>
+						<DialogFooter>
+							<Button
+								onClick={handleAdd}
+								className="bg-custom-accent text-white hover:bg-custom-accent/90"
+								disabled={!selectedUserIds.length || isSaving}
+							>
+								Add
+							</Button>
+						</DialogFooter>
+					</>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
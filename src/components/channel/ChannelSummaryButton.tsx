@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SummaryRange {
+	since?: string;
+	until?: string;
+}
+
+interface ChannelSummaryButtonProps {
+	// Where the user had read up to before opening the channel; undefined
+	// until it's loaded, null if they'd never read it
+	lastReadAt: string | null | undefined;
+	onSummarize: (range: SummaryRange) => void;
+}
+
+/**
+ * The "Summarize" button in a channel header. Picks what to catch up on:
+ * everything since the user last read the channel, a recent stretch, or a
+ * range of days.
+ */
+export function ChannelSummaryButton({
+	lastReadAt,
+	onSummarize,
+}: ChannelSummaryButtonProps) {
+	const [open, setOpen] = useState(false);
+	const [from, setFrom] = useState("");
+	const [to, setTo] = useState("");
+
+	const summarize = (range: SummaryRange) => {
+		setOpen(false);
+		onSummarize(range);
+	};
+
+	const handleRangeSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		summarize({
+			// Date inputs are local days; cover the whole of the last one
+			since: from ? new Date(`${from}T00:00`).toISOString() : undefined,
+			until: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+		});
+	};
+
+	const optionClassName =
+		"w-full rounded-md px-2 py-1.5 text-left text-sm text-custom-text hover:bg-custom-ui-faint disabled:opacity-50 disabled:hover:bg-transparent";
+
+	return (
+		<Popover open={open} onOpenChange={setOpen}>
+			<PopoverTrigger asChild>
+				<Button
+					variant="ghost"
+					size="icon"
+					title="Summarize"
+					className="text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+				>
+					<Sparkles className="h-4 w-4" />
+				</Button>
+			</PopoverTrigger>
+			<PopoverContent
+				className="w-72 p-2 bg-custom-background border border-custom-ui-medium rounded-md shadow-sm"
+				align="end"
+			>
+				<h4 className="px-2 py-1 text-xs font-medium text-custom-text-secondary">
+					Summarize
+				</h4>
+				<button
+					type="button"
+					className={optionClassName}
+					disabled={lastReadAt === undefined}
+					onClick={() => summarize({ since: lastReadAt ?? undefined })}
+				>
+					Since I last read
+				</button>
+				<button
+					type="button"
+					className={optionClassName}
+					onClick={() =>
+						summarize({
+							since: new Date(Date.now() - ONE_DAY_MS).toISOString(),
+						})
+					}
+				>
+					Last 24 hours
+				</button>
+				<button
+					type="button"
+					className={optionClassName}
+					onClick={() =>
+						summarize({
+							since: new Date(Date.now() - 7 * ONE_DAY_MS).toISOString(),
+						})
+					}
+				>
+					Last 7 days
+				</button>
+
+				<form
+					onSubmit={handleRangeSubmit}
+					className="mt-2 space-y-2 border-t border-custom-ui-medium px-2 pt-3"
+				>
+					<div className="grid grid-cols-2 gap-2">
+						<div className="space-y-1">
+							<Label
+								htmlFor="summary-from"
+								className="text-xs text-custom-text-secondary"
+							>
+								From
+							</Label>
+							<Input
+								id="summary-from"
+								type="date"
+								value={from}
+								max={to || undefined}
+								onChange={(e) => setFrom(e.target.value)}
+								className="bg-custom-background border-custom-ui-medium text-custom-text"
+							/>
+						</div>
+						<div className="space-y-1">
+							<Label
+								htmlFor="summary-to"
+								className="text-xs text-custom-text-secondary"
+							>
+								To
+							</Label>
+							<Input
+								id="summary-to"
+								type="date"
+								value={to}
+								min={from || undefined}
+								onChange={(e) => setTo(e.target.value)}
+								className="bg-custom-background border-custom-ui-medium text-custom-text"
+							/>
+						</div>
+					</div>
+					<Button
+						type="submit"
+						size="sm"
+						disabled={!from && !to}
+						className="w-full bg-custom-accent text-white hover:bg-custom-accent/90"
+					>
+						Summarize range
+					</Button>
+				</form>
+			</PopoverContent>
+		</Popover>
+	);
+}
@@ -0,0 +1,268 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Check, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { UserAvatar } from "@/components/ui/UserAvatar";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspaceMembers } from "@/hooks/useWorkspaceMembers";
+import { createClient } from "@/utils/supabase/client";
+import type {
+	ConversationParticipant,
+	DatabaseConversation,
+} from "@/types/conversation";
+
+interface ConversationParticipantsDialogProps {
+	conversationId: string;
+	workspaceId: string;
+	workspaceSlug: string;
+	type: DatabaseConversation["type"];
+	participants: ConversationParticipant[];
+	currentUserId: string;
+}
+
+/**
+ * Who's in a DM or group DM. Group participants can add or remove people
+ * (or leave); adding people to a one-to-one DM starts a new group instead.
+ */
+export function ConversationParticipantsDialog({
+	conversationId,
+	workspaceId,
+	workspaceSlug,
+	type,
+	participants,
+	currentUserId,
+}: ConversationParticipantsDialogProps) {
+	const [open, setOpen] = useState(false);
+	const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+	const [isSaving, setIsSaving] = useState(false);
+	const members = useWorkspaceMembers();
+	const router = useRouter();
+	const { toast } = useToast();
+	const supabase = createClient();
+
+	const isGroup = type === "group";
+	const participantIds = new Set(participants.map((p) => p.user_id));
+	const addableMembers = members.filter(
+		(member) => !participantIds.has(member.id),
+	);
+
+	const toggleUser = (userId: string) => {
+		setSelectedUserIds((current) =>
+			current.includes(userId)
+				? current.filter((id) => id !== userId)
+				: [...current, userId],
+		);
+	};
+
+	const addParticipants = async () => {
+		if (!selectedUserIds.length) return;
+
+		setIsSaving(true);
+		try {
+			if (isGroup) {
+				const { error } = await supabase.rpc("add_conversation_participants", {
+					p_conversation_id: conversationId,
+					p_user_ids: selectedUserIds,
+				});
+				if (error) throw error;
+
+				setSelectedUserIds([]);
+				router.refresh();
+			} else {
+				const { data: groupId, error } = await supabase.rpc(
+					"create_group_conversation",
+					{
+						p_workspace_id: workspaceId,
+						p_user_ids: [
+							...participants
+								.map((p) => p.user_id)
+								.filter((id) => id !== currentUserId),
+							...selectedUserIds,
+						],
+					},
+				);
+				if (error) throw error;
+
+				setOpen(false);
+				router.push(`/workspace/${workspaceSlug}/conversation/${groupId}`);
+			}
+		} catch (error) {
+			console.error(
+				"[ConversationParticipantsDialog] Failed to add people:",
+				error,
+			);
+			toast({
+				title: "Error",
+				description: "Failed to add people to the conversation",
+				variant: "destructive",
+			});
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const removeParticipant = async (userId: string) => {
+		setIsSaving(true);
+		try {
+			const { error } = await supabase.rpc("remove_conversation_participant", {
+				p_conversation_id: conversationId,
+				p_user_id: userId,
+			});
+			if (error) throw error;
+
+			if (userId === currentUserId) {
+				setOpen(false);
+				router.push(`/workspace/${workspaceSlug}`);
+			} else {
+				router.refresh();
+			}
+		} catch (error) {
+			console.error(
+				"[ConversationParticipantsDialog] Failed to remove participant:",
+				error,
+			);
+			toast({
+				title: "Error",
+				description: "Failed to remove participant",
+				variant: "destructive",
+			});
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<Dialog
+			open={open}
+			onOpenChange={(next) => {
+				setOpen(next);
+				if (!next) setSelectedUserIds([]);
+			}}
+		>
+			<DialogTrigger asChild>
+				<Button
+					variant="ghost"
+					size="sm"
+					title="People in this conversation"
+					className="text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+				>
+					<Users className="h-4 w-4 mr-1" />
+					{participants.length}
+				</Button>
+			</DialogTrigger>
+			<DialogContent className="sm:max-w-[425px] bg-custom-background border-custom-ui-medium">
+				<DialogHeader>
+					<DialogTitle className="text-custom-text">People</DialogTitle>
+					<DialogDescription className="text-custom-text-secondary">
+						{isGroup
+							? "Everyone here can read the whole conversation, including messages sent before they joined."
+							: "Adding people starts a new group conversation; this one stays private."}
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-1">
+					{participants.map((participant) => {
+						const isSelf = participant.user_id === currentUserId;
+						const displayName =
+							participant.profiles.display_name ||
+							participant.profiles.full_name;
+
+						return (
+							<div
+								key={participant.user_id}
+								className="flex items-center gap-3 px-3 py-2"
+							>
+								<UserAvatar
+									fullName={participant.profiles.full_name}
+									displayName={participant.profiles.display_name}
+									avatarUrl={participant.profiles.avatar_url}
+									avatarCache={participant.profiles.avatar_cache}
+									avatarColor={participant.profiles.avatar_color}
+									size="sm"
+								/>
+								<span className="text-sm text-custom-text truncate">
+									{displayName}
+									{isSelf && (
+										<span className="text-custom-text-tertiary"> (you)</span>
+									)}
+								</span>
+								{isGroup && (
+									<Button
+										variant="ghost"
+										size="sm"
+										onClick={() => removeParticipant(participant.user_id)}
+										disabled={isSaving}
+										className="ml-auto text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+									>
+										{isSelf ? "Leave" : "Remove"}
+									</Button>
+								)}
+							</div>
+						);
+					})}
+				</div>
+
+				{addableMembers.length > 0 && (
+					<>
+						<div className="border-t border-custom-ui-medium" />
+						<h3 className="text-sm font-medium text-custom-text-secondary">
+							Add people
+						</h3>
+						<div className="space-y-1 max-h-[240px] overflow-y-auto">
+							{addableMembers.map((member) => {
+								const isSelected = selectedUserIds.includes(member.id);
+
+								return (
+									<button
+										key={member.id}
+										type="button"
+										onClick={() => toggleUser(member.id)}
+										aria-pressed={isSelected}
+										className={`w-full flex items-center gap-3 px-3 py-2 rounded-md hover:bg-custom-ui-faint text-left ${
+											isSelected ? "bg-custom-ui-faint" : ""
+										}`}
+									>
+										<UserAvatar
+											fullName={member.full_name}
+											displayName={member.display_name}
+											avatarUrl={member.avatar_url}
+											avatarCache={member.avatar_cache}
+											avatarColor={member.avatar_color}
+											size="sm"
+										/>
+										<span className="text-sm text-custom-text truncate">
+											{member.display_name || member.full_name}
+										</span>
+										{isSelected && (
+											<Check className="ml-auto h-4 w-4 text-custom-accent" />
+										)}
+									</button>
+								);
+							})}
+						</div>
+						<DialogFooter>
+							<Button
+								onClick={addParticipants}
+								className="bg-custom-accent text-white hover:bg-custom-accent/90"
+								disabled={!selectedUserIds.length || isSaving}
+							>
+								{isGroup ? "Add" : "Start group"}
+							</Button>
+						</DialogFooter>
+					</>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useRef } from "react";
+import { useCallback, useEffect, useState, useRef } from "react";
 import { createClient } from "@/utils/supabase/client";
 import { Button } from "@/components/ui/button";
 import {
@@ -13,6 +13,7 @@ import {
 	File,
 } from "lucide-react";
 import type { FileWithMessage } from "@/types/file";
+import { useRealtimeEvents } from "@/components/workspace/WorkspaceRealtime";
 
 interface FilesPanelProps {
 	channelId: string;
@@ -29,76 +30,67 @@ export function FilesPanel({ channelId, onClose }: FilesPanelProps) {
 	const startWidthRef = useRef(0);
 	const containerRef = useRef<HTMLDivElement>(null);
 
-	useEffect(() => {
-		async function fetchFiles() {
-			console.log("[FilesPanel] Fetching files for channel:", channelId);
-
-			const { data, error } = await supabase
-				.from("files")
-				.select(`
-					*,
-					message:messages!inner (
-						profile:profiles (
-							full_name,
-							display_name
-						)
+	const fetchFiles = useCallback(async () => {
+		console.log("[FilesPanel] Fetching files for channel:", channelId);
+
+		const { data, error } = await supabase
+			.from("files")
+			.select(`
+				*,
+				message:messages!inner (
+					profile:profiles (
+						full_name,
+						display_name
 					)
-				`)
-				.eq("messages.channel_id", channelId)
-				.order("created_at", { ascending: false });
-
-			if (error) {
-				console.error("[FilesPanel] Error fetching files:", error);
-				return;
-			}
-
-			console.log("[FilesPanel] Files data:", data);
-
-			if (data) {
-				const transformedData = data
-					.filter((file) => file.message?.profile) // Only include files with valid message and profile
-					.map((file) => ({
-						id: file.id,
-						message_id: file.message_id,
-						file_name: file.file_name,
-						file_type: file.file_type,
-						file_size: file.file_size,
-						file_url: file.file_url,
-						created_at: file.created_at,
-						message: {
-							profile: file.message.profile,
-						},
-					}));
-				console.log("[FilesPanel] Transformed files:", transformedData);
-				setFiles(transformedData);
-			}
+				)
+			`)
+			.eq("message.channel_id", channelId)
+			.order("created_at", { ascending: false });
+
+		if (error) {
+			console.error("[FilesPanel] Error fetching files:", error);
+			return;
 		}
 
-		fetchFiles();
-
-		// Subscribe to file changes
-		const channel = supabase
-			.channel(`files:${channelId}`)
-			.on(
-				"postgres_changes",
-				{
-					event: "*",
-					schema: "public",
-					table: "files",
-					filter: `message.channel_id=eq.${channelId}`,
-				},
-				(payload) => {
-					console.log("[FilesPanel] File change detected:", payload);
-					fetchFiles();
-				},
-			)
-			.subscribe();
-
-		return () => {
-			channel.unsubscribe();
-		};
+		console.log("[FilesPanel] Files data:", data);
+
+		if (data) {
+			const transformedData = data
+				.filter((file) => file.message?.profile) // Only include files with valid message and profile
+				.map((file) => ({
+					id: file.id,
+					message_id: file.message_id,
+					file_name: file.file_name,
+					file_type: file.file_type,
+					file_size: file.file_size,
+					file_url: file.file_url,
+					created_at: file.created_at,
+					message: {
+						profile: file.message.profile,
+					},
+				}));
+			console.log("[FilesPanel] Transformed files:", transformedData);
+			setFiles(transformedData);
+		}
 	}, [channelId, supabase]);
 
+	useEffect(() => {
+		fetchFiles();
+	}, [fetchFiles]);
+
+	// Files aren't published themselves; a change to them updates their
+	// message. New messages have no files yet, so only updates count.
+	useRealtimeEvents<{ channel_id: string | null }>("messages", (events) => {
+		const changed = events.filter(
+			(event) =>
+				event.eventType === "UPDATE" && event.new.channel_id === channelId,
+		);
+		if (changed.length === 0) return;
+
+		console.log("[FilesPanel] Message changes detected:", changed.length);
+		fetchFiles();
+	});
+
 	useEffect(() => {
 		const handleMouseMove = (e: MouseEvent) => {
 			if (!isResizingRef.current) return;
@@ -0,0 +1,217 @@
+"use client";
+
+import { memo, useMemo } from "react";
+import Markdown, { type Components, type ExtraProps } from "react-markdown";
+import SyntaxHighlighter from "react-syntax-highlighter/dist/esm/light";
+import bash from "react-syntax-highlighter/dist/esm/languages/hljs/bash";
+import css from "react-syntax-highlighter/dist/esm/languages/hljs/css";
+import diff from "react-syntax-highlighter/dist/esm/languages/hljs/diff";
+import go from "react-syntax-highlighter/dist/esm/languages/hljs/go";
+import java from "react-syntax-highlighter/dist/esm/languages/hljs/java";
+import javascript from "react-syntax-highlighter/dist/esm/languages/hljs/javascript";
+import json from "react-syntax-highlighter/dist/esm/languages/hljs/json";
+import markdown from "react-syntax-highlighter/dist/esm/languages/hljs/markdown";
+import python from "react-syntax-highlighter/dist/esm/languages/hljs/python";
+import rust from "react-syntax-highlighter/dist/esm/languages/hljs/rust";
+import sql from "react-syntax-highlighter/dist/esm/languages/hljs/sql";
+import typescript from "react-syntax-highlighter/dist/esm/languages/hljs/typescript";
+import xml from "react-syntax-highlighter/dist/esm/languages/hljs/xml";
+import yaml from "react-syntax-highlighter/dist/esm/languages/hljs/yaml";
+import { atomOneLight } from "react-syntax-highlighter/dist/esm/styles/hljs";
+import { splitByMentions } from "@/utils/mentions";
+import type { MessageMention } from "@/types/mention";
+import { MENTION_CHIP_CLASS_NAME } from "./MentionText";
+
+// Only the languages people actually paste, to keep highlight.js out of the
+// bundle. Fences without a (known) language are auto-detected among these.
+const LANGUAGES = {
+	bash,
+	css,
+	diff,
+	go,
+	java,
+	javascript,
+	json,
+	markdown,
+	python,
+	rust,
+	sql,
+	typescript,
+	xml,
+	yaml,
+};
+for (const [name, language] of Object.entries(LANGUAGES)) {
+	SyntaxHighlighter.registerLanguage(name, language);
+}
+
+const SAFE_PROTOCOLS = new Set(["http:", "https:", "mailto:"]);
+
+/**
+ * Drop every link target that isn't an absolute http(s) or mailto URL, so
+ * messages can't smuggle in javascript:, data: or relative links.
+ */
+function safeUrlTransform(url: string) {
+	try {
+		return SAFE_PROTOCOLS.has(new URL(url).protocol) ? url : "";
+	} catch {
+		return "";
+	}
+}
+
+interface MarkdownNode {
+	type: string;
+	value?: string;
+	children?: MarkdownNode[];
+	data?: { hName?: string; hProperties?: Record<string, unknown> };
+}
+
+/**
+ * Turn "@Name" in the parsed text into mention chips. Runs on the syntax
+ * tree, so mentions inside code and link text are left alone.
+ */
+function highlightMentions(node: MarkdownNode, mentions: MessageMention[]) {
+	if (!node.children || node.type === "link") return;
+
+	node.children = node.children.flatMap((child): MarkdownNode[] => {
+		if (child.type !== "text" || !child.value) {
+			highlightMentions(child, mentions);
+			return [child];
+		}
+
+		return splitByMentions(child.value, mentions).map((segment) =>
+			segment.type === "mention"
+				? {
+						type: "mention",
+						children: [{ type: "text", value: segment.text }],
+						data: {
+							hName: "span",
+							hProperties: { className: MENTION_CHIP_CLASS_NAME },
+						},
+					}
+				: { type: "text", value: segment.text },
+		);
+	});
+}
+
+type HastNode = NonNullable<ExtraProps["node"]>["children"][number];
+
+function getText(node: HastNode): string {
+	if (node.type === "text") return node.value;
+	if (node.type === "element") return node.children.map(getText).join("");
+	return "";
+}
+
+/**
+ * Fenced code block, highlighted with the fence's language or, failing that,
+ * whichever registered language highlight.js thinks it is.
+ */
+function CodeBlock({ node }: ExtraProps) {
+	const code = node?.children.find((child) => child.type === "element");
+	const className =
+		code?.type === "element" ? code.properties.className : undefined;
+	const language = Array.isArray(className)
+		? className
+				.map(String)
+				.find((name) => name.startsWith("language-"))
+				?.slice("language-".length)
+		: undefined;
+	const text = code ? getText(code).replace(/\n$/, "") : "";
+
+	return (
+		<SyntaxHighlighter
+			language={language}
+			style={atomOneLight}
+			customStyle={{ margin: 0, padding: "0.5rem 0.75rem" }}
+			className="my-1 rounded border border-custom-ui-medium text-sm"
+		>
+			{text}
+		</SyntaxHighlighter>
+	);
+}
+
+const components: Components = {
+	p: ({ children }) => <p className="whitespace-pre-wrap">{children}</p>,
+	a: ({ href, children }) =>
+		href ? (
+			<a
+				href={href}
+				target="_blank"
+				rel="noopener noreferrer"
+				className="text-custom-accent hover:underline"
+			>
+				{children}
+			</a>
+		) : (
+			<span>{children}</span>
+		),
+	// Don't load arbitrary remote images inline; link to them instead
+	img: ({ src, alt }) =>
+		src ? (
+			<a
+				href={src}
+				target="_blank"
+				rel="noopener noreferrer"
+				className="text-custom-accent hover:underline"
+			>
+				{alt || src}
+			</a>
+		) : null,
+	pre: CodeBlock,
+	code: ({ children }) => (
+		<code className="rounded px-1 py-0.5 bg-custom-ui-faint border border-custom-ui-medium text-[0.85em] font-mono text-custom-text">
+			{children}
+		</code>
+	),
+	ul: ({ children }) => <ul className="my-1 pl-6 list-disc">{children}</ul>,
+	ol: ({ children }) => <ol className="my-1 pl-6 list-decimal">{children}</ol>,
+	li: ({ children }) => <li className="whitespace-pre-wrap">{children}</li>,
+	blockquote: ({ children }) => (
+		<blockquote className="my-1 pl-3 border-l-4 border-custom-ui-strong text-custom-text-secondary">
+			{children}
+		</blockquote>
+	),
+	h1: ({ children }) => <p className="font-bold text-lg">{children}</p>,
+	h2: ({ children }) => <p className="font-bold">{children}</p>,
+	h3: ({ children }) => <p className="font-semibold">{children}</p>,
+	h4: ({ children }) => <p className="font-semibold">{children}</p>,
+	h5: ({ children }) => <p className="font-semibold">{children}</p>,
+	h6: ({ children }) => <p className="font-semibold">{children}</p>,
+	hr: () => <hr className="my-2 border-custom-ui-medium" />,
+};
+
+interface MarkdownContentProps {
+	content: string;
+	mentions?: MessageMention[] | null;
+}
+
+/**
+ * Message text rendered as Markdown. Raw HTML in the source is dropped and
+ * only http(s)/mailto links survive.
+ */
+export const MarkdownContent = memo(function MarkdownContent({
+	content,
+	mentions,
+}: MarkdownContentProps) {
+	const remarkPlugins = useMemo(
+		() =>
+			mentions?.length
+				? [
+						() => (tree: MarkdownNode) => {
+							highlightMentions(tree, mentions);
+						},
+					]
+				: [],
+		[mentions],
+	);
+
+	return (
+		<Markdown
+			skipHtml
+			urlTransform={safeUrlTransform}
+			remarkPlugins={remarkPlugins}
+			components={components}
+		>
+			{content}
+		</Markdown>
+	);
+});
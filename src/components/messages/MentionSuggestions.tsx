@@ -0,0 +1,73 @@
+"use client";
+
+import { AtSign } from "lucide-react";
+import { UserAvatar } from "@/components/ui/UserAvatar";
+import type { MessageMention } from "@/types/mention";
+import type { ProfileWithId } from "@/types/profile";
+
+export interface MentionSuggestion {
+	mention: MessageMention;
+	label: string;
+	description?: string;
+	profile?: ProfileWithId;
+}
+
+interface MentionSuggestionsProps {
+	suggestions: MentionSuggestion[];
+	activeIndex: number;
+	onSelect: (suggestion: MentionSuggestion) => void;
+	onActiveIndexChange: (index: number) => void;
+}
+
+/**
+ * The @mention autocomplete list shown above the message input.
+ */
+export function MentionSuggestions({
+	suggestions,
+	activeIndex,
+	onSelect,
+	onActiveIndexChange,
+}: MentionSuggestionsProps) {
+	if (!suggestions.length) return null;
+
+	return (
+		<div className="absolute bottom-full left-4 mb-1 z-30 w-72 max-h-64 overflow-y-auto rounded-md border border-custom-ui-medium bg-custom-background shadow-sm py-1">
+			{suggestions.map((suggestion, index) => (
+				<button
+					key={
+						suggestion.mention.type === "user"
+							? suggestion.mention.userId
+							: suggestion.mention.type
+					}
+					type="button"
+					// Keep focus in the textarea
+					onMouseDown={(e) => e.preventDefault()}
+					onClick={() => onSelect(suggestion)}
+					onMouseEnter={() => onActiveIndexChange(index)}
+					className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm ${
+						index === activeIndex ? "bg-custom-ui-faint" : ""
+					}`}
+				>
+					{suggestion.profile ? (
+						<UserAvatar
+							fullName={suggestion.profile.full_name}
+							displayName={suggestion.profile.display_name}
+							avatarUrl={suggestion.profile.avatar_url}
+							avatarCache={suggestion.profile.avatar_cache}
+							avatarColor={suggestion.profile.avatar_color}
+							size="xs"
+						/>
+					) : (
+						<AtSign className="h-4 w-4 text-custom-text-secondary" />
+					)}
+					<span className="text-custom-text truncate">{suggestion.label}</span>
+					{suggestion.description && (
+						<span className="ml-auto text-xs text-custom-text-tertiary truncate">
+							{suggestion.description}
+						</span>
+					)}
+				</button>
+			))}
+		</div>
+	);
+}
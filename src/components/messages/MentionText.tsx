@@ -0,0 +1,29 @@
+import { splitByMentions } from "@/utils/mentions";
+import type { MessageMention } from "@/types/mention";
+
+export const MENTION_CHIP_CLASS_NAME =
+	"rounded px-0.5 bg-custom-accent/10 text-custom-accent font-medium";
+
+interface MentionTextProps {
+	content: string;
+	mentions: MessageMention[] | null | undefined;
+}
+
+/**
+ * Message text with its @mentions rendered as highlighted chips.
+ */
+export function MentionText({ content, mentions }: MentionTextProps) {
+	return (
+		<>
+			{splitByMentions(content, mentions).map((segment, index) =>
+				segment.type === "mention" ? (
+					<span key={index} className={MENTION_CHIP_CLASS_NAME}>
+						{segment.text}
+					</span>
+				) : (
+					segment.text
+				),
+			)}
+		</>
+	);
+}
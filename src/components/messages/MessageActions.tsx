@@ -0,0 +1,62 @@
+"use client";
+
+import { Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ReactionPicker } from "./ReactionPicker";
+
+interface MessageActionsProps {
+	onReact?: (emoji: string) => void;
+	isPickerOpen?: boolean;
+	onPickerOpenChange?: (open: boolean) => void;
+	onEdit?: () => void;
+	onDelete?: () => void;
+}
+
+/**
+ * Hover toolbar shown in the top-right corner of a message row.
+ */
+export function MessageActions({
+	onReact,
+	isPickerOpen = false,
+	onPickerOpenChange,
+	onEdit,
+	onDelete,
+}: MessageActionsProps) {
+	if (!onReact && !onEdit && !onDelete) return null;
+
+	return (
+		<div className="absolute right-4 -top-3 z-20 flex items-center rounded-md border border-custom-ui-medium bg-custom-background-secondary shadow-sm">
+			{onReact && onPickerOpenChange && (
+				<ReactionPicker
+					onSelect={onReact}
+					open={isPickerOpen}
+					onOpenChange={onPickerOpenChange}
+				/>
+			)}
+			{onEdit && (
+				<Button
+					type="button"
+					variant="ghost"
+					size="icon"
+					onClick={onEdit}
+					title="Edit message"
+					className="h-7 w-7 text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+				>
+					<Pencil className="h-3.5 w-3.5" />
+				</Button>
+			)}
+			{onDelete && (
+				<Button
+					type="button"
+					variant="ghost"
+					size="icon"
+					onClick={onDelete}
+					title="Delete message"
+					className="h-7 w-7 text-custom-text-secondary hover:text-red-500 hover:bg-custom-ui-faint"
+				>
+					<Trash2 className="h-3.5 w-3.5" />
+				</Button>
+			)}
+		</div>
+	);
+}
@@ -3,29 +3,81 @@
 import {
 	createContext,
 	useContext,
-	useEffect,
+	useRef,
 	useState,
 	useCallback,
 } from "react";
 import { createClient } from "@/utils/supabase/client";
+import {
+	MESSAGE_LIST_SELECT,
+	MESSAGE_PAGE_SIZE,
+	fetchMessagePage,
+} from "@/utils/messageQueries";
 import type { Message } from "@/types/message";
-import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { useRealtimeEvents } from "@/components/workspace/WorkspaceRealtime";
+
+// Channels and conversations kept in memory at once. The least recently
+// used are dropped beyond this, and loaded again when they're next opened.
+export const MAX_CACHED_CONTAINERS = 20;
+
+// The keys a channel's and a conversation's messages are cached under
+export function channelKey(channelId: string) {
+	return `channel:${channelId}`;
+}
+
+export function conversationKey(conversationId: string) {
+	return `conversation:${conversationId}`;
+}
+
+/**
+ * The cache key for whichever of a channel or a conversation is given, or
+ * null if neither is.
+ */
+export function getContainerKey({
+	channelId,
+	conversationId,
+}: {
+	channelId?: string | null;
+	conversationId?: string | null;
+}): string | null {
+	if (channelId) return channelKey(channelId);
+	if (conversationId) return conversationKey(conversationId);
+	return null;
+}
+
+// The channel or conversation a key stands for, to query its messages by
+function parseContainerKey(key: string) {
+	const [type, id] = key.split(":");
+	return type === "conversation" ? { conversationId: id } : { channelId: id };
+}
+
+interface ContainerCache {
+	mainView: Message[];
+	threads: Record<string, Message[]>;
+	// Whether there are older main view messages than those loaded
+	hasOlder: boolean;
+	// When the container was last loaded or viewed, for eviction
+	lastUsed: number;
+}
 
 interface MessageCache {
-	[channelId: string]: {
-		mainView: Message[];
-		threads: Record<string, Message[]>;
-	};
+	[containerKey: string]: ContainerCache;
 }
 
 interface MessageCacheContextType {
 	messages: MessageCache;
-	getChannelMessages: (channelId: string, parentId?: string) => Message[];
-	updateChannelMessages: (
-		channelId: string,
+	getMessages: (containerKey: string, parentId?: string) => Message[];
+	hasOlderMessages: (containerKey: string) => boolean;
+	updateMessages: (
+		containerKey: string,
 		messages: Message[],
 		parentId?: string,
 	) => void;
+	loadContainer: (containerKey: string) => Promise<void>;
+	loadOlderMessages: (containerKey: string) => Promise<void>;
+	prefetchContainer: (containerKey: string) => Promise<void>;
+	releaseContainer: (containerKey: string) => void;
+	addSentMessage: (message: Message) => void;
 }
 
 const MessageCacheContext = createContext<MessageCacheContextType | null>(null);
@@ -40,15 +92,129 @@ export function useMessageCache() {
 	return context;
 }
 
-interface MessagePayload {
+type MessagePayload = {
 	id: string;
-	channel_id: string;
+	channel_id: string | null;
+	conversation_id: string | null;
 	parent_id: string | null;
+	deleted_at: string | null;
+	reply_count: number;
+};
+
+// Messages are tombstoned on their way to being deleted. One with no replies
+// left to hold up is as good as gone.
+function isRemoved(
+	message: Pick<MessagePayload, "deleted_at" | "reply_count">,
+) {
+	return !!message.deleted_at && !message.reply_count;
 }
 
-interface FilePayload {
-	id: string;
-	message_id: string;
+/**
+ * Remove a message from every container's main view and threads, wherever
+ * it lived.
+ */
+function removeMessageFromCache(
+	cache: MessageCache,
+	messageId: string,
+): MessageCache {
+	let changed = false;
+	const next: MessageCache = {};
+
+	for (const [containerKey, containerCache] of Object.entries(cache)) {
+		const mainView = containerCache.mainView.filter((m) => m.id !== messageId);
+		const threads: Record<string, Message[]> = {};
+		let threadsChanged = messageId in containerCache.threads;
+
+		for (const [parentId, threadMessages] of Object.entries(
+			containerCache.threads,
+		)) {
+			if (parentId === messageId) continue;
+			const filtered = threadMessages.filter((m) => m.id !== messageId);
+			if (filtered.length !== threadMessages.length) threadsChanged = true;
+			threads[parentId] = filtered;
+		}
+
+		if (mainView.length !== containerCache.mainView.length || threadsChanged) {
+			changed = true;
+			next[containerKey] = { ...containerCache, mainView, threads };
+		} else {
+			next[containerKey] = containerCache;
+		}
+	}
+
+	return changed ? next : cache;
+}
+
+/**
+ * Put a freshly fetched message into the cache. A new message is added to
+ * the end of its loaded main view or thread; otherwise only a copy that's
+ * already loaded is replaced, so an edit to an older, unloaded message
+ * doesn't appear out of place.
+ */
+function upsertMessageInCache(
+	cache: MessageCache,
+	message: Message,
+	isNew: boolean,
+): MessageCache {
+	// Containers that aren't loaded pick the message up when they are
+	const containerKey = getContainerKey({
+		channelId: message.channel_id,
+		conversationId: message.conversation_id,
+	});
+	const containerCache = containerKey ? cache[containerKey] : null;
+	if (!containerKey || !containerCache) return cache;
+
+	const upsert = (messages: Message[]) => {
+		if (messages.some((m) => m.id === message.id)) {
+			return messages.map((m) => (m.id === message.id ? message : m));
+		}
+		return isNew ? [...messages, message] : messages;
+	};
+
+	if (message.parent_id) {
+		// Unopened threads load whole when they're opened
+		const threadMessages = containerCache.threads[message.parent_id];
+		if (!threadMessages) return cache;
+
+		return {
+			...cache,
+			[containerKey]: {
+				...containerCache,
+				threads: {
+					...containerCache.threads,
+					[message.parent_id]: upsert(threadMessages),
+				},
+			},
+		};
+	}
+
+	return {
+		...cache,
+		[containerKey]: {
+			...containerCache,
+			mainView: upsert(containerCache.mainView),
+		},
+	};
+}
+
+/**
+ * Drop the least recently used containers beyond MAX_CACHED_CONTAINERS, never
+ * the one just used.
+ */
+function evictContainers(cache: MessageCache, keepKey: string): MessageCache {
+	const keys = Object.keys(cache);
+	if (keys.length <= MAX_CACHED_CONTAINERS) return cache;
+
+	const next = { ...cache };
+	const evicted = keys
+		.filter((key) => key !== keepKey)
+		.sort((a, b) => cache[a].lastUsed - cache[b].lastUsed)
+		.slice(0, keys.length - MAX_CACHED_CONTAINERS);
+	for (const key of evicted) {
+		delete next[key];
+	}
+
+	return next;
 }
 
 export function MessageCacheProvider({
@@ -56,35 +222,50 @@ export function MessageCacheProvider({
 }: { children: React.ReactNode }) {
 	const [messages, setMessages] = useState<MessageCache>({});
 	const supabase = createClient();
+	// Mirrors the cache for loaders, which shouldn't change identity on
+	// every update
+	const messagesRef = useRef(messages);
+	messagesRef.current = messages;
+	const loadingOlderRef = useRef(new Set<string>());
 
-	const getChannelMessages = useCallback(
-		(channelId: string, parentId?: string) => {
-			if (!messages[channelId]) return [];
+	const getMessages = useCallback(
+		(containerKey: string, parentId?: string) => {
+			if (!messages[containerKey]) return [];
 
 			// If parentId is provided, return thread messages
 			if (parentId) {
-				return messages[channelId].threads[parentId] || [];
+				return messages[containerKey].threads[parentId] || [];
 			}
 
 			// Otherwise return main view messages
-			return messages[channelId].mainView || [];
+			return messages[containerKey].mainView || [];
 		},
 		[messages],
 	);
 
-	const updateChannelMessages = useCallback(
-		(channelId: string, newMessages: Message[], parentId?: string) => {
+	const hasOlderMessages = useCallback(
+		(containerKey: string) => !!messages[containerKey]?.hasOlder,
+		[messages],
+	);
+
+	const updateMessages = useCallback(
+		(containerKey: string, newMessages: Message[], parentId?: string) => {
 			setMessages((prev) => {
-				const channelCache = prev[channelId] || { mainView: [], threads: {} };
+				const containerCache = prev[containerKey] || {
+					mainView: [],
+					threads: {},
+					hasOlder: false,
+					lastUsed: Date.now(),
+				};
 
 				if (parentId) {
 					// Update thread messages
 					return {
 						...prev,
-						[channelId]: {
-							...channelCache,
+						[containerKey]: {
+							...containerCache,
 							threads: {
-								...channelCache.threads,
+								...containerCache.threads,
 								[parentId]: newMessages,
 							},
 						},
@@ -92,314 +273,243 @@ export function MessageCacheProvider({
 				}
 
 				// Update main view messages
-				return {
-					...prev,
-					[channelId]: {
-						...channelCache,
-						mainView: newMessages,
+				return evictContainers(
+					{
+						...prev,
+						[containerKey]: {
+							...containerCache,
+							mainView: newMessages,
+							lastUsed: Date.now(),
+						},
 					},
-				};
+					containerKey,
+				);
 			});
 		},
 		[],
 	);
 
-	// Set up global subscription for message updates
-	useEffect(() => {
-		const channel = supabase
-			.channel("global-message-changes")
-			.on(
-				"postgres_changes",
-				{
-					event: "*",
-					schema: "public",
-					table: "messages",
-				},
-				async (payload: RealtimePostgresChangesPayload<MessagePayload>) => {
-					const newMessage = payload.new as MessagePayload;
-					const oldMessage = payload.old as MessagePayload;
-					if (!newMessage?.id) return;
-
-					console.log("[MessageCache] Received message event:", {
-						type: payload.eventType,
-						id: newMessage.id,
-						old: oldMessage ? { id: oldMessage.id } : null,
-						new: { id: newMessage.id },
-					});
-
-					// Fetch the complete message data with profile and files
-					console.log("[MessageCache] Fetching complete message data...");
-					const { data: message, error } = await supabase
-						.from("messages")
-						.select(
-							`*,
-							profile:profiles (
-								id,
-								full_name,
-								display_name,
-								avatar_url,
-								avatar_color,
-								avatar_cache
-							),
-							files (
-								id,
-								file_type,
-								file_name,
-								file_size,
-								file_url,
-								caption,
-								description
-							),
-							reply_count,
-							reply_user_ids`,
-						)
-						.eq("id", newMessage.id)
-						.single();
-
-					if (error) {
-						console.error("[MessageCache] Error fetching message:", error);
-						return;
-					}
-
-					console.log("[MessageCache] Fetched message data:", {
-						id: message.id,
-						type: payload.eventType,
-						hasEmbedding: !!message.embedding,
-						embedding: message.embedding ? "present" : "null",
-						channelId: message.channel_id,
-						parentId: message.parent_id,
-					});
-
-					if (message?.channel_id) {
-						if (payload.eventType === "INSERT") {
-							console.log("[MessageCache] Message added to database:", {
-								id: message.id,
-								channel: message.channel_id,
-								content:
-									message.content.substring(0, 50) +
-									(message.content.length > 50 ? "..." : ""),
-							});
-						}
-						if (payload.eventType === "UPDATE") {
-							console.log("[MessageCache] Message updated in database:", {
-								id: message.id,
-								channel: message.channel_id,
-								content:
-									message.content.substring(0, 50) +
-									(message.content.length > 50 ? "..." : ""),
-								hasEmbedding: !!message.embedding,
-								embedding: message.embedding ? "present" : "null",
-							});
-						}
-
-						console.log("[MessageCache] Updating messages state...");
-
-						setMessages((prev) => {
-							const channelCache = prev[message.channel_id] || {
-								mainView: [],
-								threads: {},
-							};
-
-							if (message.parent_id) {
-								// Update thread messages
-								const threadMessages =
-									channelCache.threads[message.parent_id] || [];
-
-								if (payload.eventType === "INSERT") {
-									return {
-										...prev,
-										[message.channel_id]: {
-											...channelCache,
-											threads: {
-												...channelCache.threads,
-												[message.parent_id]: [...threadMessages, message],
-											},
-										},
-									};
-								}
-
-								if (payload.eventType === "UPDATE") {
-									return {
-										...prev,
-										[message.channel_id]: {
-											...channelCache,
-											threads: {
-												...channelCache.threads,
-												[message.parent_id]: threadMessages.map((m) =>
-													m.id === message.id ? message : m,
-												),
-											},
-										},
-									};
-								}
-
-								if (payload.eventType === "DELETE") {
-									return {
-										...prev,
-										[message.channel_id]: {
-											...channelCache,
-											threads: {
-												...channelCache.threads,
-												[message.parent_id]: threadMessages.filter(
-													(m) => m.id !== message.id,
-												),
-											},
-										},
-									};
-								}
-							} else {
-								// Update main view messages
-								if (payload.eventType === "INSERT") {
-									return {
-										...prev,
-										[message.channel_id]: {
-											...channelCache,
-											mainView: [...channelCache.mainView, message],
-										},
-									};
-								}
-
-								if (payload.eventType === "UPDATE") {
-									return {
-										...prev,
-										[message.channel_id]: {
-											...channelCache,
-											mainView: channelCache.mainView.map((m) =>
-												m.id === message.id ? message : m,
-											),
-										},
-									};
-								}
-
-								if (payload.eventType === "DELETE") {
-									return {
-										...prev,
-										[message.channel_id]: {
-											...channelCache,
-											mainView: channelCache.mainView.filter(
-												(m) => m.id !== message.id,
-											),
-										},
-									};
-								}
-							}
-
-							return prev;
-						});
-					}
-				},
-			)
-			.on(
-				"postgres_changes",
-				{
-					event: "*",
-					schema: "public",
-					table: "files",
-				},
-				async (payload: RealtimePostgresChangesPayload<FilePayload>) => {
-					const file = payload.new as FilePayload | null;
-					if (!file) return;
-
-					console.log("[MessageCache] Received file event:", {
-						type: payload.eventType,
-						messageId: file.message_id,
-						file: payload.new,
-						old: payload.old,
-					});
-
-					// Fetch the complete message data with profile and files
-					console.log("[MessageCache] Fetching updated message data...");
-					const { data: message, error } = await supabase
-						.from("messages")
-						.select(
-							`*,
-							profile:profiles (
-								id,
-								full_name,
-								display_name,
-								avatar_url,
-								avatar_color,
-								avatar_cache
-							),
-							files (
-								id,
-								file_type,
-								file_name,
-								file_size,
-								file_url,
-								caption,
-								description
-							),
-							reply_count,
-							reply_user_ids`,
-						)
-						.eq("id", file.message_id)
-						.single();
-
-					if (error) {
-						console.error("[MessageCache] Error fetching message:", error);
-						return;
-					}
-
-					console.log("[MessageCache] Fetched message data:", {
-						id: message.id,
-						type: payload.eventType,
-						files: message.files?.length || 0,
-					});
-
-					if (!message?.channel_id) return;
-
-					console.log("[MessageCache] Updating messages state...");
-
-					setMessages((prev) => {
-						const channelCache = prev[message.channel_id] || {
-							mainView: [],
+	// Replace a container's main view with its newest page
+	const storeNewestPage = useCallback(
+		(containerKey: string, page: Message[], hasOlder: boolean) => {
+			setMessages((prev) =>
+				evictContainers(
+					{
+						...prev,
+						[containerKey]: {
+							threads: prev[containerKey]?.threads ?? {},
+							mainView: page,
+							hasOlder,
+							lastUsed: Date.now(),
+						},
+					},
+					containerKey,
+				),
+			);
+		},
+		[],
+	);
+
+	const loadContainer = useCallback(
+		async (containerKey: string) => {
+			const page = await fetchMessagePage(
+				supabase,
+				parseContainerKey(containerKey),
+			);
+			storeNewestPage(containerKey, page.messages, page.hasOlder);
+		},
+		[supabase, storeNewestPage],
+	);
+
+	// Load the newest page of a channel or conversation that isn't cached yet
+	const prefetchContainer = useCallback(
+		async (containerKey: string) => {
+			if (messagesRef.current[containerKey]) return;
+
+			const page = await fetchMessagePage(
+				supabase,
+				parseContainerKey(containerKey),
+			);
+			setMessages((prev) => {
+				// Opened or updated while the page was loading
+				if (prev[containerKey]) return prev;
+				return evictContainers(
+					{
+						...prev,
+						[containerKey]: {
+							mainView: page.messages,
 							threads: {},
-						};
-
-						if (message.parent_id) {
-							// Update thread messages
-							const threadMessages =
-								channelCache.threads[message.parent_id] || [];
-
-							return {
-								...prev,
-								[message.channel_id]: {
-									...channelCache,
-									threads: {
-										...channelCache.threads,
-										[message.parent_id]: threadMessages.map((m) =>
-											m.id === message.id ? message : m,
-										),
-									},
-								},
-							};
-						}
-
-						// Update main view messages
-						return {
-							...prev,
-							[message.channel_id]: {
-								...channelCache,
-								mainView: channelCache.mainView.map((m) =>
-									m.id === message.id ? message : m,
-								),
-							},
-						};
-					});
+							hasOlder: page.hasOlder,
+							lastUsed: Date.now(),
+						},
+					},
+					containerKey,
+				);
+			});
+		},
+		[supabase],
+	);
+
+	const loadOlderMessages = useCallback(
+		async (containerKey: string) => {
+			const containerCache = messagesRef.current[containerKey];
+			const oldest = containerCache?.mainView[0];
+			if (
+				!containerCache?.hasOlder ||
+				!oldest ||
+				loadingOlderRef.current.has(containerKey)
+			) {
+				return;
+			}
+
+			loadingOlderRef.current.add(containerKey);
+			try {
+				const page = await fetchMessagePage(supabase, {
+					...parseContainerKey(containerKey),
+					before: oldest,
+				});
+				setMessages((prev) => {
+					const current = prev[containerKey];
+					// Evicted or reloaded from the newest page meanwhile
+					if (current?.mainView[0]?.id !== oldest.id) return prev;
+
+					const loadedIds = new Set(current.mainView.map((m) => m.id));
+					return {
+						...prev,
+						[containerKey]: {
+							...current,
+							mainView: [
+								...page.messages.filter((m) => !loadedIds.has(m.id)),
+								...current.mainView,
+							],
+							hasOlder: page.hasOlder,
+							lastUsed: Date.now(),
+						},
+					};
+				});
+			} finally {
+				loadingOlderRef.current.delete(containerKey);
+			}
+		},
+		[supabase],
+	);
+
+	// A channel or conversation that's left the screen keeps just its newest
+	// page, ready for the next visit, and drops its threads
+	const releaseContainer = useCallback((containerKey: string) => {
+		setMessages((prev) => {
+			const containerCache = prev[containerKey];
+			if (!containerCache) return prev;
+
+			const trimmed = containerCache.mainView.length > MESSAGE_PAGE_SIZE;
+			return {
+				...prev,
+				[containerKey]: {
+					mainView: trimmed
+						? containerCache.mainView.slice(-MESSAGE_PAGE_SIZE)
+						: containerCache.mainView,
+					threads: {},
+					hasOlder: containerCache.hasOlder || trimmed,
+					lastUsed: Date.now(),
 				},
-			)
-			.subscribe();
+			};
+		});
+	}, []);
+
+	// Refetch messages that changed, all at once, and put them where they
+	// belong. New ones are added to loaded lists; changed ones are only
+	// replaced where they're already loaded.
+	const applyChangedMessages = useCallback(
+		async (messageIds: string[], insertedIds: Set<string>) => {
+			const { data, error } = await supabase
+				.from("messages")
+				.select(MESSAGE_LIST_SELECT)
+				.in("id", messageIds);
+
+			if (error) {
+				console.error("[MessageCache] Error fetching messages:", error);
+				return;
+			}
 
-		return () => {
-			channel.unsubscribe();
-		};
-	}, [supabase]);
+			setMessages((prev) =>
+				(data as Message[]).reduce(
+					(cache, message) =>
+						isRemoved(message)
+							? removeMessageFromCache(cache, message.id)
+							: upsertMessageInCache(
+									cache,
+									message,
+									insertedIds.has(message.id),
+								),
+					prev,
+				),
+			);
+		},
+		[supabase],
+	);
+
+	// Changes to a message's files and reactions arrive as updates to it too
+	useRealtimeEvents<MessagePayload>("messages", (events) => {
+		const removedIds = new Set<string>();
+		const changedIds = new Set<string>();
+		const insertedIds = new Set<string>();
+
+		for (const payload of events) {
+			const message = payload.new as Partial<MessagePayload>;
+			if (!message?.id) continue;
+
+			if (isRemoved(message as MessagePayload)) {
+				removedIds.add(message.id);
+				changedIds.delete(message.id);
+				continue;
+			}
+			changedIds.add(message.id);
+			if (payload.eventType === "INSERT") insertedIds.add(message.id);
+		}
+
+		console.log("[MessageCache] Received message events:", {
+			changed: changedIds.size,
+			removed: removedIds.size,
+		});
+
+		if (removedIds.size > 0) {
+			setMessages((prev) =>
+				Array.from(removedIds).reduce(removeMessageFromCache, prev),
+			);
+		}
+		if (changedIds.size > 0) {
+			applyChangedMessages(Array.from(changedIds), insertedIds);
+		}
+	});
+
+	// Show a message the user has just sent until its realtime insert
+	// arrives, without replacing the saved copy if that came first
+	const addSentMessage = useCallback((message: Message) => {
+		setMessages((prev) => {
+			const containerKey = getContainerKey({
+				channelId: message.channel_id,
+				conversationId: message.conversation_id,
+			});
+			const containerCache = containerKey ? prev[containerKey] : null;
+			const list = message.parent_id
+				? containerCache?.threads[message.parent_id]
+				: containerCache?.mainView;
+			if (!list || list.some((m) => m.id === message.id)) return prev;
+
+			return upsertMessageInCache(prev, message, true);
+		});
+	}, []);
 
 	const value = {
 		messages,
-		getChannelMessages,
-		updateChannelMessages,
+		getMessages,
+		hasOlderMessages,
+		updateMessages,
+		loadContainer,
+		loadOlderMessages,
+		prefetchContainer,
+		releaseContainer,
+		addSentMessage,
 	};
 
 	return (
@@ -1,6 +1,7 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
 import { MessageList } from "@/components/messages/MessageList";
 import { MessageInput } from "@/components/messages/MessageInput";
 import { ThreadPanel } from "@/components/messages/ThreadPanel";
@@ -11,25 +12,48 @@ export function MessageContainer({
 	conversationId,
 	showFiles,
 	onCloseFiles,
+	onLastReadAtLoad,
+	children,
 }: {
 	channelId?: string;
 	conversationId?: string;
 	showFiles?: boolean;
 	onCloseFiles?: () => void;
+	onLastReadAtLoad?: (lastReadAt: string | null) => void;
+	// Shown above the messages, e.g. a summary
+	children?: React.ReactNode;
 }) {
-	const [selectedThreadId, setSelectedThreadId] = useState<string | null>(null);
+	// Message links (e.g. from search) carry ?message=<id>, plus &reply=<id>
+	// when the message is a reply in that message's thread
+	const searchParams = useSearchParams();
+	const linkedMessageId = searchParams.get("message");
+	const linkedReplyId = searchParams.get("reply");
+	const [selectedThreadId, setSelectedThreadId] = useState<string | null>(
+		linkedReplyId ? linkedMessageId : null,
+	);
+
+	useEffect(() => {
+		if (linkedMessageId && linkedReplyId) {
+			setSelectedThreadId(linkedMessageId);
+		}
+	}, [linkedMessageId, linkedReplyId]);
 
 	return (
 		<div className="flex h-full">
 			{/* Main message list - always rendered */}
 			<div className="flex flex-col flex-1 min-w-0">
-				<div className="flex-1 overflow-y-auto min-h-0">
+				{children}
+				{/* The list scrolls itself so it can render only what's in view */}
+				<div className="flex-1 min-h-0">
 					<MessageList
 						channelId={channelId}
 						conversationId={conversationId}
 						onThreadClick={setSelectedThreadId}
+						onLastReadAtLoad={onLastReadAtLoad}
 						isMainView={true}
-						highlightedMessageId={selectedThreadId || undefined}
+						highlightedMessageId={
+							selectedThreadId || linkedMessageId || undefined
+						}
 					/>
 				</div>
 				<div className="shrink-0">
@@ -41,6 +65,11 @@ export function MessageContainer({
 			{selectedThreadId && (
 				<ThreadPanel
 					selectedMessageId={selectedThreadId}
+					highlightedMessageId={
+						selectedThreadId === linkedMessageId
+							? linkedReplyId || undefined
+							: undefined
+					}
 					channelId={channelId}
 					conversationId={conversationId}
 					onClose={() => setSelectedThreadId(null)}
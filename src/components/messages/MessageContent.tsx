@@ -1,16 +1,51 @@
 import { FileAttachment } from "./FileAttachment";
+import { MessageEditForm } from "./MessageEditForm";
+import { MessageEditHistory } from "./MessageEditHistory";
 import type { Message } from "@/types/message";
+import { MarkdownContent } from "./MarkdownContent";
 
 interface MessageContentProps {
 	message: Message;
+	isEditing?: boolean;
+	onEditEnd?: () => void;
+	// For a message that failed to send
+	onRetry?: () => void;
+	onDiscard?: () => void;
 }
 
-export function MessageContent({ message }: MessageContentProps) {
+export function MessageContent({
+	message,
+	isEditing,
+	onEditEnd,
+	onRetry,
+	onDiscard,
+}: MessageContentProps) {
+	if (message?.deleted_at) {
+		return (
+			<div className="text-custom-text-tertiary italic">
+				This message was deleted.
+			</div>
+		);
+	}
+
 	return (
 		<div className="relative group">
-			<div className="text-custom-text whitespace-pre-wrap break-words">
-				{message?.content || ""}
-			</div>
+			{isEditing && onEditEnd ? (
+				<MessageEditForm message={message} onDone={onEditEnd} />
+			) : (
+				<div className="text-custom-text break-words space-y-1">
+					<MarkdownContent
+						content={message?.content || ""}
+						mentions={message?.mentions}
+					/>
+					{message?.edited_at && (
+						<MessageEditHistory
+							messageId={message.id}
+							editedAt={message.edited_at}
+						/>
+					)}
+				</div>
+			)}
 			{message?.status && (
 				<div className="absolute -right-6 top-0 text-xs">
 					{message.status === "sending" && (
@@ -31,6 +66,31 @@ export function MessageContent({ message }: MessageContentProps) {
 					)}
 				</div>
 			)}
+			{message?.status === "failed" && (onRetry || onDiscard) && (
+				<div className="mt-1 flex items-center gap-2 text-xs">
+					<span className="text-red-500">
+						{message.error || "Failed to send"}
+					</span>
+					{onRetry && (
+						<button
+							type="button"
+							onClick={onRetry}
+							className="font-medium text-custom-text-secondary hover:text-custom-text hover:underline"
+						>
+							Retry
+						</button>
+					)}
+					{onDiscard && (
+						<button
+							type="button"
+							onClick={onDiscard}
+							className="font-medium text-custom-text-secondary hover:text-custom-text hover:underline"
+						>
+							Delete
+						</button>
+					)}
+				</div>
+			)}
 			{message?.files && message.files.length > 0 && (
 				<div className="mt-2 space-y-2">
 					{message.files.map((file) => (
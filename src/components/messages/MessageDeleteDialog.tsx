@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { deleteMessage } from "@/app/actions/message";
+import { useToast } from "@/hooks/use-toast";
+import type { Message } from "@/types/message";
+
+interface MessageDeleteDialogProps {
+	message: Message | null;
+	onOpenChange: (open: boolean) => void;
+}
+
+export function MessageDeleteDialog({
+	message,
+	onOpenChange,
+}: MessageDeleteDialogProps) {
+	const [isDeleting, setIsDeleting] = useState(false);
+	const { toast } = useToast();
+
+	const handleDelete = async () => {
+		if (!message) return;
+
+		setIsDeleting(true);
+		try {
+			await deleteMessage(message.id);
+			onOpenChange(false);
+		} catch (error: unknown) {
+			toast({
+				title: "Error",
+				description:
+					error instanceof Error ? error.message : "Failed to delete message",
+				variant: "destructive",
+			});
+		} finally {
+			setIsDeleting(false);
+		}
+	};
+
+	return (
+		<Dialog open={!!message} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[425px] bg-custom-background border-custom-ui-medium">
+				<DialogHeader>
+					<DialogTitle className="text-custom-text">Delete message</DialogTitle>
+					<DialogDescription className="text-custom-text-secondary">
+						{message?.reply_count
+							? 'This message has replies, so it will be replaced with a "message deleted" note and the thread will stay.'
+							: "This message and its attachments will be permanently deleted."}
+					</DialogDescription>
+				</DialogHeader>
+				{message?.content && (
+					<div className="max-h-40 overflow-y-auto rounded-md border border-custom-ui-medium bg-custom-ui-faint p-2 text-sm text-custom-text-secondary whitespace-pre-wrap break-words">
+						{message.content}
+					</div>
+				)}
+				<DialogFooter>
+					<Button
+						type="button"
+						variant="ghost"
+						onClick={() => onOpenChange(false)}
+						disabled={isDeleting}
+						className="text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+					>
+						Cancel
+					</Button>
+					<Button
+						type="button"
+						variant="destructive"
+						onClick={handleDelete}
+						disabled={isDeleting}
+					>
+						{isDeleting ? "Deleting..." : "Delete"}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { editMessage } from "@/app/actions/message";
+import type { Message } from "@/types/message";
+
+interface MessageEditFormProps {
+	message: Message;
+	onDone: () => void;
+}
+
+export function MessageEditForm({ message, onDone }: MessageEditFormProps) {
+	const [content, setContent] = useState(message.content);
+	const [isSaving, setIsSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+	// Focus with the cursor at the end of the existing text
+	useEffect(() => {
+		const textarea = textareaRef.current;
+		if (!textarea) return;
+		textarea.focus();
+		textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+	}, []);
+
+	const handleSave = async () => {
+		if (isSaving) return;
+
+		const trimmed = content.trim();
+		if (trimmed === message.content) {
+			onDone();
+			return;
+		}
+		if (!trimmed) {
+			setError("Message content cannot be empty");
+			return;
+		}
+
+		setIsSaving(true);
+		setError(null);
+		try {
+			await editMessage({ messageId: message.id, content: trimmed });
+			onDone();
+		} catch (error) {
+			console.error("[MessageEditForm] Failed to edit message:", error);
+			setError(
+				error instanceof Error ? error.message : "Failed to edit message",
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+		if (e.key === "Enter" && !e.shiftKey) {
+			e.preventDefault();
+			handleSave();
+		} else if (e.key === "Escape") {
+			e.preventDefault();
+			onDone();
+		}
+	};
+
+	return (
+		<div className="space-y-2">
+			<Textarea
+				ref={textareaRef}
+				value={content}
+				onChange={(e) => setContent(e.target.value)}
+				onKeyDown={handleKeyDown}
+				disabled={isSaving}
+				className="min-h-[60px] resize-none bg-custom-background border border-custom-ui-faint p-2 focus:border-2 focus:border-custom-ui-strong outline-none ring-0 focus:ring-0 focus-visible:ring-0 focus-visible:ring-offset-0 text-custom-text rounded-md"
+			/>
+			{error && <p className="text-xs text-red-500">{error}</p>}
+			<div className="flex items-center justify-between">
+				<span className="text-xs text-custom-text-tertiary">
+					Enter to save, Esc to cancel
+				</span>
+				<div className="flex gap-2">
+					<Button
+						type="button"
+						variant="ghost"
+						size="sm"
+						onClick={onDone}
+						disabled={isSaving}
+						className="text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+					>
+						Cancel
+					</Button>
+					<Button
+						type="button"
+						size="sm"
+						onClick={handleSave}
+						disabled={isSaving}
+						className="bg-custom-accent text-white hover:bg-custom-accent/90"
+					>
+						{isSaving ? "Saving..." : "Save"}
+					</Button>
+				</div>
+			</div>
+		</div>
+	);
+}
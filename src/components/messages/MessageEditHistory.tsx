@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { RefreshCw } from "lucide-react";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+import { getMessageEdits } from "@/app/actions/message";
+import type { DatabaseMessageEdit } from "@/types/message";
+import { MessageTimestamp } from "./MessageTimestamp";
+
+interface MessageEditHistoryProps {
+	messageId: string;
+	editedAt: string;
+}
+
+/**
+ * The "(edited)" marker. Clicking it shows the previous versions of the message.
+ */
+export function MessageEditHistory({
+	messageId,
+	editedAt,
+}: MessageEditHistoryProps) {
+	const [edits, setEdits] = useState<DatabaseMessageEdit[] | null>(null);
+	const [isLoading, setIsLoading] = useState(false);
+
+	const handleOpenChange = async (open: boolean) => {
+		if (!open) return;
+
+		setIsLoading(true);
+		try {
+			setEdits(await getMessageEdits(messageId));
+		} catch (error) {
+			console.error("[MessageEditHistory] Failed to load edits:", error);
+			setEdits([]);
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	return (
+		<Popover onOpenChange={handleOpenChange}>
+			<PopoverTrigger asChild>
+				<button
+					type="button"
+					className="ml-1 text-xs text-custom-text-tertiary hover:text-custom-text-secondary"
+					title={`Edited ${new Date(editedAt).toLocaleString("en-GB")}`}
+				>
+					(edited)
+				</button>
+			</PopoverTrigger>
+			<PopoverContent
+				className="w-80 p-3 bg-custom-background border border-custom-ui-medium rounded-md shadow-sm"
+				align="start"
+			>
+				<h4 className="text-xs font-medium text-custom-text-secondary mb-2">
+					Edit history
+				</h4>
+				{isLoading ? (
+					<div className="flex justify-center py-2">
+						<RefreshCw className="w-4 h-4 animate-spin text-custom-text-secondary" />
+					</div>
+				) : edits && edits.length > 0 ? (
+					<ul className="space-y-2 max-h-60 overflow-y-auto">
+						{edits.map((edit) => (
+							<li key={edit.id} className="text-sm">
+								<MessageTimestamp
+									timestamp={edit.edited_at}
+									className="text-custom-text-tertiary"
+								/>
+								<p className="text-custom-text-secondary whitespace-pre-wrap break-words">
+									{edit.previous_content}
+								</p>
+							</li>
+						))}
+					</ul>
+				) : (
+					<p className="text-sm text-custom-text-tertiary">
+						No previous versions
+					</p>
+				)}
+			</PopoverContent>
+		</Popover>
+	);
+}
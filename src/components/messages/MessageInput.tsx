@@ -1,7 +1,6 @@
 "use client";
 
-import { useState, useRef, useEffect, useCallback } from "react";
-import { createClient } from "@/utils/supabase/client";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import {
@@ -15,7 +14,6 @@ import {
 	X,
 	MoreHorizontal,
 } from "lucide-react";
-import { useFileUpload } from "@/hooks/useFileUpload";
 import { useDropzone } from "react-dropzone";
 import { Alert } from "@/components/ui/Alert";
 import {
@@ -23,7 +21,34 @@ import {
 	PopoverContent,
 	PopoverTrigger,
 } from "@/components/ui/popover";
-import { createMessage } from "@/app/actions/message";
+import { format } from "date-fns";
+import { useMessageOutbox } from "./MessageOutbox";
+import { ScheduleSendButton } from "./ScheduleSendButton";
+import { useWorkspaceMembers } from "@/hooks/useWorkspaceMembers";
+import { useCurrentUserId } from "@/hooks/useCurrentUserId";
+import { useFileUpload } from "@/hooks/useFileUpload";
+import { useToast } from "@/hooks/use-toast";
+import { getDraft, saveDraft } from "@/app/actions/drafts";
+import { scheduleMessage } from "@/app/actions/scheduledMessages";
+import { getDraftKey, loadDraftFiles, saveDraftFiles } from "@/utils/drafts";
+import { getMentionQuery, MENTION_KEYWORDS } from "@/utils/mentions";
+import type { MessageMention } from "@/types/mention";
+import type { ScheduledFile } from "@/types/scheduledMessage";
+import {
+	MentionSuggestions,
+	type MentionSuggestion,
+} from "./MentionSuggestions";
+
+const MAX_MENTION_SUGGESTIONS = 8;
+
+// How long typing has to pause before the draft is saved
+const DRAFT_SAVE_DELAY_MS = 1000;
+
+const KEYWORD_DESCRIPTIONS: Record<(typeof MENTION_KEYWORDS)[number], string> =
+	{
+		channel: "Notify everyone here",
+		here: "Notify everyone online",
+	};
 
 // Add a helper function to generate a unique key for files
 const generateFileKey = (file: File, index: number) => {
@@ -42,22 +67,169 @@ export function MessageInput({
 	parentId,
 }: MessageInputProps) {
 	const [content, setContent] = useState("");
-	const [isSubmitting, setIsSubmitting] = useState(false);
 	const [isResizing, setIsResizing] = useState(false);
 	const [pendingFiles, setPendingFiles] = useState<File[]>([]);
 	const [error, setError] = useState<string | null>(null);
-	const supabase = createClient();
 	const textareaRef = useRef<HTMLTextAreaElement>(null);
 	const containerRef = useRef<HTMLDivElement>(null);
 	const isResizingRef = useRef(false);
 	const startHeightRef = useRef(0);
 	const startYRef = useRef(0);
 	const fileInputRef = useRef<HTMLInputElement>(null);
-
-	const { uploadFile } = useFileUpload({
+	const members = useWorkspaceMembers();
+	const [mentions, setMentions] = useState<MessageMention[]>([]);
+	const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+	const [activeSuggestion, setActiveSuggestion] = useState(0);
+
+	const mentionSuggestions = useMemo<MentionSuggestion[]>(() => {
+		if (mentionQuery === null) return [];
+		const query = mentionQuery.toLowerCase();
+
+		const userSuggestions = members
+			.filter((member) =>
+				[member.display_name, member.full_name].some((name) =>
+					name?.toLowerCase().includes(query),
+				),
+			)
+			.slice(0, MAX_MENTION_SUGGESTIONS)
+			.map((member) => ({
+				mention: {
+					type: "user" as const,
+					userId: member.id,
+					name: member.display_name || member.full_name,
+				},
+				label: member.display_name || member.full_name,
+				description:
+					member.display_name && member.display_name !== member.full_name
+						? member.full_name
+						: undefined,
+				profile: member,
+			}));
+
+		const keywordSuggestions = MENTION_KEYWORDS.filter((keyword) =>
+			keyword.startsWith(query),
+		).map((keyword) => ({
+			mention: { type: keyword },
+			label: keyword,
+			description: KEYWORD_DESCRIPTIONS[keyword],
+		}));
+
+		return [...userSuggestions, ...keywordSuggestions];
+	}, [members, mentionQuery]);
+
+	const { send } = useMessageOutbox();
+	const [isScheduling, setIsScheduling] = useState(false);
+	const { toast } = useToast();
+	const { stageFile } = useFileUpload({
 		maxSizeMB: 50,
 		allowedTypes: ["image/*", "video/*", "audio/*", "application/pdf"],
 	});
+	const userId = useCurrentUserId();
+	const draftKey = getDraftKey({ channelId, conversationId, parentId });
+	const contentRef = useRef(content);
+	contentRef.current = content;
+	// Whether the draft for where we're writing has been loaded yet, so it
+	// isn't overwritten with an empty input in the meantime
+	const draftReadyRef = useRef(false);
+	const draftFilesReadyRef = useRef(false);
+	// What the server already has, so unchanged drafts aren't saved again
+	const savedDraftRef = useRef("");
+	// Saves the draft now rather than after the delay, if one is waiting
+	const flushDraftRef = useRef<(() => void) | null>(null);
+
+	// Switching channel, conversation or thread swaps in the draft written
+	// there, after saving the one being left
+	useEffect(() => {
+		let isMounted = true;
+		draftReadyRef.current = false;
+		savedDraftRef.current = "";
+		setContent("");
+		setMentions([]);
+		setMentionQuery(null);
+		setPendingFiles([]);
+
+		getDraft({ channelId, conversationId, parentId })
+			.then((draft) => {
+				if (!isMounted) return;
+				savedDraftRef.current = draft?.content ?? "";
+				// Anything typed while it loaded wins
+				if (draft && !contentRef.current) {
+					setContent(draft.content);
+					setMentions(draft.mentions);
+				}
+			})
+			.catch((error) => {
+				console.error("[MessageInput] Failed to load draft:", error);
+			})
+			.finally(() => {
+				if (isMounted) {
+					draftReadyRef.current = true;
+				}
+			});
+
+		return () => {
+			isMounted = false;
+			flushDraftRef.current?.();
+		};
+	}, [channelId, conversationId, parentId]);
+
+	useEffect(() => {
+		if (!draftReadyRef.current || content === savedDraftRef.current) return;
+
+		const save = () => {
+			flushDraftRef.current = null;
+			savedDraftRef.current = content;
+			saveDraft({
+				channelId,
+				conversationId,
+				parentId,
+				content,
+				mentions,
+			}).catch((error) => {
+				console.error("[MessageInput] Failed to save draft:", error);
+			});
+		};
+		flushDraftRef.current = save;
+
+		const timer = setTimeout(save, DRAFT_SAVE_DELAY_MS);
+		return () => clearTimeout(timer);
+	}, [content, mentions, channelId, conversationId, parentId]);
+
+	// Attachments aren't uploaded until sending, so they're kept with the
+	// draft in this browser only
+	useEffect(() => {
+		if (!userId || !draftKey) return;
+
+		let isMounted = true;
+		draftFilesReadyRef.current = false;
+
+		loadDraftFiles(userId, draftKey)
+			.then((files) => {
+				if (isMounted && files.length) {
+					setPendingFiles((prev) => [...files, ...prev]);
+				}
+			})
+			.catch((error) => {
+				console.error("[MessageInput] Failed to load draft files:", error);
+			})
+			.finally(() => {
+				if (isMounted) {
+					draftFilesReadyRef.current = true;
+				}
+			});
+
+		return () => {
+			isMounted = false;
+		};
+	}, [userId, draftKey]);
+
+	useEffect(() => {
+		if (!userId || !draftKey || !draftFilesReadyRef.current) return;
+
+		saveDraftFiles(userId, draftKey, pendingFiles).catch((error) => {
+			console.error("[MessageInput] Failed to save draft files:", error);
+		});
+	}, [userId, draftKey, pendingFiles]);
 
 	const onDrop = useCallback((acceptedFiles: File[]) => {
 		setPendingFiles((prev) => [...prev, ...acceptedFiles]);
@@ -165,160 +337,142 @@ export function MessageInput({
 		}, 0);
 	};
 
-	const handleSubmit = async (e: React.FormEvent) => {
-		e.preventDefault();
-		if ((!content.trim() && pendingFiles.length === 0) || isSubmitting) return;
+	const updateMentionQuery = (textarea: HTMLTextAreaElement) => {
+		const query = getMentionQuery(
+			textarea.value.slice(0, textarea.selectionStart),
+		);
+		setMentionQuery(query);
+		setActiveSuggestion(0);
+	};
 
-		setIsSubmitting(true);
-		setError(null);
+	const selectMention = (suggestion: MentionSuggestion) => {
+		const textarea = textareaRef.current;
+		if (!textarea || mentionQuery === null) return;
 
-		try {
-			console.log("[MessageInput] Getting user profile...");
-			const {
-				data: { user },
-			} = await supabase.auth.getUser();
-			if (!user) {
-				throw new Error("Not authenticated");
-			}
+		// Replace the "@query" before the caret with the full "@Name "
+		const caret = textarea.selectionStart;
+		const start = caret - mentionQuery.length - 1;
+		const inserted = `@${suggestion.label} `;
+		const newText =
+			content.substring(0, start) + inserted + content.substring(caret);
 
-			const { data: profile, error: profileError } = await supabase
-				.from("profiles")
-				.select("id, full_name, display_name")
-				.eq("id", user.id)
-				.single();
+		setContent(newText);
+		setMentions((prev) =>
+			prev.some(
+				(m) =>
+					m.type === suggestion.mention.type &&
+					(m.type !== "user" ||
+						(suggestion.mention.type === "user" &&
+							m.userId === suggestion.mention.userId)),
+			)
+				? prev
+				: [...prev, suggestion.mention],
+		);
+		setMentionQuery(null);
 
-			if (profileError) {
-				console.error("[MessageInput] Profile query error:", profileError);
-				throw new Error("Failed to get user profile");
-			}
+		setTimeout(() => {
+			textarea.focus();
+			const newCursorPos = start + inserted.length;
+			textarea.setSelectionRange(newCursorPos, newCursorPos);
+		}, 0);
+	};
 
-			if (!profile) {
-				console.error("[MessageInput] No profile found");
-				throw new Error("Failed to get user profile");
-			}
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!content.trim() && pendingFiles.length === 0) return;
+
+		// The message shows straight away and is sent from the outbox, which
+		// keeps it, files and all, until it's been saved
+		const draft = {
+			content: content.trim(),
+			channelId,
+			conversationId,
+			parentId,
+			mentions,
+			files: pendingFiles,
+		};
+		setContent("");
+		setMentions([]);
+		setMentionQuery(null);
+		setPendingFiles([]);
 
-			// Clear input immediately
-			const contentToSend = content.trim();
-			setContent("");
+		try {
+			await send(draft);
+		} catch (error) {
+			console.error("[MessageInput] Error sending message:", error);
+			setContent(draft.content); // Restore content on error
+			setMentions(draft.mentions);
+			setPendingFiles(draft.files);
+			setError(
+				error instanceof Error ? error.message : "Failed to send message",
+			);
+		}
+	};
 
-			/* Commenting out unused message context construction
-			// Get message context in background
-			console.log("[MessageInput] Getting latest message...");
-			const { data: latestMessage } = await supabase
-				.from("messages")
-				.select("user_id, created_at")
-				.eq(
-					channelId ? "channel_id" : "conversation_id",
-					channelId || conversationId,
-				)
-				.order("created_at", { ascending: false })
-				.limit(1)
-				.single();
-
-			// Get channel name if in a channel
-			let channelName = null;
-			if (channelId) {
-				const { data: channel } = await supabase
-					.from("channels")
-					.select("name")
-					.eq("id", channelId)
-					.single();
-				channelName = channel?.name || null;
-			}
+	// Scheduled messages aren't shown until they're sent, so their files are
+	// uploaded now and the input is only cleared once it's all saved
+	const handleSchedule = async (sendAt: Date) => {
+		if (!content.trim() && pendingFiles.length === 0) return;
 
-			// Get recipient name if in a DM
-			let recipientName = null;
-			if (conversationId) {
-				const { data: participants } = await supabase
-					.from("conversation_participants")
-					.select(`
-						profiles:user_id (
-							id,
-							display_name,
-							full_name
-						)
-					`)
-					.eq("conversation_id", conversationId)
-					.neq("user_id", profile.id);
-
-				const recipient = participants?.[0]?.profiles?.[0];
-				if (recipient) {
-					recipientName = recipient.display_name || recipient.full_name || null;
-				}
+		setIsScheduling(true);
+		try {
+			const files: ScheduledFile[] = [];
+			for (const file of pendingFiles) {
+				files.push(await stageFile(file));
 			}
 
-			// Create message context
-			const messageContext = {
-				currentMessage: {
-					content: contentToSend,
-					timestamp: new Date(Math.floor(Date.now() / 60000) * 60000),
-					sender: {
-						id: profile.id,
-						displayName: profile.display_name || profile.full_name || "",
-					},
-					channelId: channelId || null,
-					channelName: channelName || null,
-					conversationId: conversationId || null,
-					recipientName: recipientName || null,
-				},
-				chainMessages: latestMessage
-					? [
-							{
-								content: contentToSend,
-								timestamp: new Date(
-									Math.floor(
-										new Date(latestMessage.created_at).getTime() / 60000,
-									) * 60000,
-								),
-								sender: {
-									id: latestMessage.user_id,
-									displayName: profile.display_name || profile.full_name || "",
-								},
-								channelId: channelId || null,
-								channelName: channelName || null,
-								conversationId: conversationId || null,
-								recipientName: recipientName || null,
-							},
-						]
-					: [],
-			};
-			*/
-
-			// Create the message in the database
-			const message = await createMessage({
-				content: contentToSend,
+			await scheduleMessage({
+				content,
 				channelId,
 				conversationId,
 				parentId,
+				mentions,
+				files,
+				sendAt: sendAt.toISOString(),
 			});
 
-			// Upload any pending files
-			if (pendingFiles.length > 0) {
-				console.log("[MessageInput] Uploading files...");
-				for (const file of pendingFiles) {
-					try {
-						await uploadFile(file, message.id);
-					} catch (error) {
-						console.error("[MessageInput] Failed to upload file:", error);
-						setError(
-							error instanceof Error ? error.message : "Failed to upload file",
-						);
-					}
-				}
-				setPendingFiles([]);
-			}
+			setContent("");
+			setMentions([]);
+			setMentionQuery(null);
+			setPendingFiles([]);
+			toast({
+				title: "Message scheduled",
+				description: `It'll be sent ${format(sendAt, "EEEE d MMMM 'at' HH:mm")}.`,
+			});
 		} catch (error) {
-			console.error("[MessageInput] Error sending message:", error);
-			setContent(content); // Restore content on error
+			console.error("[MessageInput] Error scheduling message:", error);
 			setError(
-				error instanceof Error ? error.message : "Failed to send message",
+				error instanceof Error ? error.message : "Failed to schedule message",
 			);
 		} finally {
-			setIsSubmitting(false);
+			setIsScheduling(false);
 		}
 	};
 
 	const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+		if (mentionSuggestions.length > 0) {
+			if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+				e.preventDefault();
+				const step = e.key === "ArrowDown" ? 1 : -1;
+				setActiveSuggestion(
+					(index) =>
+						(index + step + mentionSuggestions.length) %
+						mentionSuggestions.length,
+				);
+				return;
+			}
+			if (e.key === "Enter" || e.key === "Tab") {
+				e.preventDefault();
+				selectMention(mentionSuggestions[activeSuggestion]);
+				return;
+			}
+			if (e.key === "Escape") {
+				e.preventDefault();
+				setMentionQuery(null);
+				return;
+			}
+		}
+
 		if (e.key === "Enter" && !e.shiftKey) {
 			e.preventDefault();
 			handleSubmit(e as unknown as React.FormEvent);
@@ -335,6 +489,12 @@ export function MessageInput({
 		<>
 			{error && <Alert message={error} onDismiss={() => setError(null)} />}
 			<form onSubmit={handleSubmit} className="relative" {...getRootProps()}>
+				<MentionSuggestions
+					suggestions={mentionSuggestions}
+					activeIndex={activeSuggestion}
+					onSelect={selectMention}
+					onActiveIndexChange={setActiveSuggestion}
+				/>
 				<div
 					ref={containerRef}
 					className={`min-h-[144px] max-h-[50vh] border-t border-custom-ui-medium relative bg-custom-background-secondary ${
@@ -441,6 +601,13 @@ export function MessageInput({
 								>
 									<Upload className="h-4 w-4" />
 								</Button>
+								<ScheduleSendButton
+									disabled={
+										isScheduling ||
+										(!content.trim() && pendingFiles.length === 0)
+									}
+									onSchedule={handleSchedule}
+								/>
 								<input
 									ref={fileInputRef}
 									type="file"
@@ -476,8 +643,13 @@ export function MessageInput({
 						<Textarea
 							ref={textareaRef}
 							value={content}
-							onChange={(e) => setContent(e.target.value)}
+							onChange={(e) => {
+								setContent(e.target.value);
+								updateMentionQuery(e.target);
+							}}
 							onKeyDown={handleKeyDown}
+							onClick={(e) => updateMentionQuery(e.currentTarget)}
+							onBlur={() => setMentionQuery(null)}
 							placeholder={`Message ${channelId ? "#general" : "User"}`}
 							className="flex-1 resize-none bg-custom-background border border-custom-ui-faint p-2 focus:border-2 focus:border-custom-ui-strong outline-none ring-0 focus:ring-0 focus-visible:ring-0 focus-visible:ring-offset-0 text-custom-text placeholder:text-custom-text-muted rounded-md"
 						/>
@@ -1,8 +1,20 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState, useMemo, memo } from "react";
+import {
+	Fragment,
+	useCallback,
+	useEffect,
+	useLayoutEffect,
+	useRef,
+	useState,
+	useMemo,
+	memo,
+} from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
 import { createClient } from "@/utils/supabase/client";
-import { useMessageCache } from "./MessageCache";
+import { fetchMessagePage } from "@/utils/messageQueries";
+import { getContainerKey, useMessageCache } from "./MessageCache";
+import { useMessageOutbox, withPendingMessages } from "./MessageOutbox";
 import type { Message, MessageGroup } from "@/types/message";
 import type { ProfileWithId } from "@/types/profile";
 import { MessageContent } from "./MessageContent";
@@ -11,6 +23,14 @@ import { UserAvatar } from "../ui/UserAvatar";
 import { Button } from "@/components/ui/button";
 import { ListEnd } from "lucide-react";
 import { ThreadRepliesIndicator } from "./ThreadRepliesIndicator";
+import { MessageActions } from "./MessageActions";
+import { MessageDeleteDialog } from "./MessageDeleteDialog";
+import { MessageReactions } from "./MessageReactions";
+import { addReaction, removeReaction } from "@/app/actions/reactions";
+import { useCurrentUserId } from "@/hooks/useCurrentUserId";
+import { useCanModerateChannel } from "@/hooks/useCanModerateChannel";
+import { useReadMarker } from "@/hooks/useReadMarker";
+import { useIndexingMessageIds } from "@/hooks/useIndexingMessageIds";
 
 function debounce<T extends (...args: unknown[]) => void>(
 	fn: T,
@@ -59,8 +79,13 @@ async function fetchReplyProfiles(userIds: string[]) {
 /**
  * Group consecutive messages from the same user
  * into "chains". So if userA sends 3 in a row, that becomes 1 chain.
+ * A chain is also split at `breakBeforeId`, so the "New messages" divider
+ * can sit between two of its messages.
  */
-function groupConsecutiveMessages(messages: Message[]): MessageGroup[] {
+function groupConsecutiveMessages(
+	messages: Message[],
+	breakBeforeId?: string | null,
+): MessageGroup[] {
 	if (!messages.length) return [];
 
 	const groups: MessageGroup[] = [];
@@ -77,7 +102,7 @@ function groupConsecutiveMessages(messages: Message[]): MessageGroup[] {
 		const m = messages[i];
 		if (!m.profile || !m.profile.id) continue;
 
-		if (m.profile.id === currentGroup.userId) {
+		if (m.profile.id === currentGroup.userId && m.id !== breakBeforeId) {
 			currentGroup.messages.push(m);
 		} else {
 			groups.push(currentGroup);
@@ -92,9 +117,24 @@ function groupConsecutiveMessages(messages: Message[]): MessageGroup[] {
 	return groups;
 }
 
+// Messages still in the outbox can't be replied to or acted on yet
+function isUnsent(message: Message) {
+	return message.status === "sending" || message.status === "failed";
+}
+
 // Static ref that persists across all instances
 const INITIAL_LOAD_DONE = { current: false };
 
+// How close to the top the main view gets before older messages load
+const LOAD_OLDER_THRESHOLD_PX = 400;
+
+// Pages of older messages loaded looking for a linked message before giving
+// up on it, as it may have been deleted or be somewhere the view can't show
+const MAX_HIGHLIGHT_PAGES = 20;
+
+// Height assumed for a chain until it's been rendered and measured
+const ESTIMATED_CHAIN_HEIGHT = 96;
+
 export function MessageList({
 	channelId,
 	parentId,
@@ -102,6 +142,7 @@ export function MessageList({
 	onThreadClick,
 	isMainView,
 	highlightedMessageId,
+	onLastReadAtLoad,
 }: {
 	channelId?: string;
 	parentId?: string;
@@ -109,22 +150,100 @@ export function MessageList({
 	onThreadClick?: (messageId: string) => void;
 	isMainView?: boolean;
 	highlightedMessageId?: string;
+	// Where the user had read up to when the main view was opened
+	onLastReadAtLoad?: (lastReadAt: string | null) => void;
 }) {
-	const { getChannelMessages, updateChannelMessages } = useMessageCache();
+	const {
+		getMessages,
+		hasOlderMessages,
+		updateMessages,
+		loadContainer,
+		loadOlderMessages,
+		releaseContainer,
+	} = useMessageCache();
+	// Channels and conversations are cached alike
+	const containerKey = getContainerKey({ channelId, conversationId });
+	const currentUserId = useCurrentUserId();
+	const canModerate = useCanModerateChannel(channelId);
 	const [isInitialLoad, setIsInitialLoad] = useState(true);
 	const [isLoading, setIsLoading] = useState(false);
 	const [profilesMap, setProfilesMap] = useState<Record<string, ProfileWithId>>(
 		{},
 	);
+	const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+	const [scrollMargin, setScrollMargin] = useState(0);
 	const messagesEndRef = useRef<HTMLDivElement>(null);
-	const prevChannelIdRef = useRef<string | undefined>(undefined);
+	const listRef = useRef<HTMLDivElement>(null);
+	// The main view scrolls itself so it can be virtualised
+	const scrollRef = useRef<HTMLDivElement>(null);
+	const virtualListRef = useRef<HTMLDivElement>(null);
+	// Distance from the bottom before older messages were added, restored
+	// once they render so the view doesn't jump
+	const restoreFromBottomRef = useRef<number | null>(null);
+	const scrolledToMessageIdRef = useRef<string | null>(null);
+	// The linked message being paged back to, and how many pages it's taken
+	const highlightSearchRef = useRef<{ key: string; pages: number } | null>(
+		null,
+	);
+	const prevContainerKeyRef = useRef<string | null>(null);
 	const lastLoggedStateRef = useRef<string>("");
 
-	// Get messages from cache
+	const indexingMessageIds = useIndexingMessageIds(currentUserId);
+
+	const { pendingMessages } = useMessageOutbox();
+
+	// Get messages from cache, with the user's own still being sent, and
+	// marking those that are still being embedded
 	const messages = useMemo(() => {
-		return channelId ? getChannelMessages(channelId, parentId) : [];
-	}, [channelId, getChannelMessages, parentId]);
+		const cached = containerKey
+			? withPendingMessages(
+					getMessages(containerKey, parentId),
+					pendingMessages,
+					{
+						channelId,
+						conversationId,
+						parentId,
+					},
+				)
+			: [];
+		if (!indexingMessageIds.size) return cached;
+
+		return cached.map((message) =>
+			!message.status && indexingMessageIds.has(message.id)
+				? { ...message, status: "embedding" as const }
+				: message,
+		);
+	}, [
+		containerKey,
+		getMessages,
+		pendingMessages,
+		channelId,
+		conversationId,
+		parentId,
+		indexingMessageIds,
+	]);
 	const hasMessages = messages.length > 0;
+	const hasOlder =
+		!!isMainView &&
+		!parentId &&
+		!!containerKey &&
+		hasOlderMessages(containerKey);
+	const hasHighlightedMessage =
+		!!highlightedMessageId &&
+		messages.some((message) => message.id === highlightedMessageId);
+	const { firstUnreadId, lastReadAt } = useReadMarker({
+		channelId,
+		conversationId,
+		messages,
+		currentUserId,
+		enabled: isMainView,
+	});
+
+	useEffect(() => {
+		if (lastReadAt !== undefined) {
+			onLastReadAtLoad?.(lastReadAt);
+		}
+	}, [lastReadAt, onLastReadAtLoad]);
 
 	// Update profiles map whenever messages change
 	useEffect(() => {
@@ -136,12 +255,15 @@ export function MessageList({
 			if (m.profile?.id) {
 				map[m.profile.id] = m.profile;
 			}
-			// Collect unique reply user IDs
+			// Collect unique reply and reaction user IDs
 			if (m.reply_user_ids) {
 				for (const id of m.reply_user_ids) {
 					replyUserIds.add(id);
 				}
 			}
+			for (const reaction of m.reactions || []) {
+				replyUserIds.add(reaction.user_id);
+			}
 		}
 
 		// Set initial map with author profiles
@@ -160,59 +282,189 @@ export function MessageList({
 
 	// Group messages into chains
 	const messageGroups = useMemo(() => {
-		return groupConsecutiveMessages(messages);
-	}, [messages]);
+		return groupConsecutiveMessages(messages, firstUnreadId);
+	}, [messages, firstUnreadId]);
+
+	// Only the chains on screen are rendered in the main view; threads are
+	// short enough to render whole
+	const virtualizer = useVirtualizer({
+		count: isMainView ? messageGroups.length : 0,
+		getScrollElement: () => scrollRef.current,
+		estimateSize: () => ESTIMATED_CHAIN_HEIGHT,
+		overscan: 6,
+		scrollMargin,
+		getItemKey: (index) => messageGroups[index]?.messages[0]?.id ?? index,
+	});
+
+	// The list starts below the padding at the top of the scroller
+	useLayoutEffect(() => {
+		if (virtualListRef.current) {
+			setScrollMargin(virtualListRef.current.offsetTop);
+		}
+	}, [isMainView, hasMessages]);
 
 	// Ensure we scroll to bottom only on new messages or initial load
 	const scrollToBottom = useCallback(() => {
-		messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-	}, []);
+		if (isMainView) {
+			virtualizer.scrollToIndex(messageGroups.length - 1, { align: "end" });
+		} else {
+			messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+		}
+	}, [isMainView, virtualizer, messageGroups.length]);
+
+	const loadOlder = useCallback(async () => {
+		const scroller = scrollRef.current;
+		if (!containerKey || !scroller || !hasOlder || isLoadingOlder) return;
+
+		restoreFromBottomRef.current = scroller.scrollHeight - scroller.scrollTop;
+		setIsLoadingOlder(true);
+		try {
+			await loadOlderMessages(containerKey);
+		} catch (error) {
+			console.error("[MessageList] Failed to load older messages:", error);
+			restoreFromBottomRef.current = null;
+		} finally {
+			setIsLoadingOlder(false);
+		}
+	}, [containerKey, hasOlder, isLoadingOlder, loadOlderMessages]);
+
+	// Keep the same messages in view once older ones are added above them
+	const firstMessageId = messages[0]?.id;
+	useLayoutEffect(() => {
+		const scroller = scrollRef.current;
+		const fromBottom = restoreFromBottomRef.current;
+		if (!firstMessageId || !scroller || fromBottom === null) return;
+
+		restoreFromBottomRef.current = null;
+		scroller.scrollTop = scroller.scrollHeight - fromBottom;
+	}, [firstMessageId]);
+
+	const handleScroll = () => {
+		if (
+			scrollRef.current &&
+			scrollRef.current.scrollTop < LOAD_OLDER_THRESHOLD_PX
+		) {
+			loadOlder();
+		}
+	};
+
+	// Keep loading while the messages don't fill the view, as there's
+	// nothing to scroll, and for a while when a linked message hasn't turned up
+	useEffect(() => {
+		const scroller = scrollRef.current;
+		if (!scroller || !hasOlder || isLoadingOlder || isLoading) return;
+
+		if (scroller.scrollHeight <= scroller.clientHeight) {
+			loadOlder();
+			return;
+		}
+		if (!highlightedMessageId || hasHighlightedMessage) return;
+
+		const key = `${containerKey}:${highlightedMessageId}`;
+		const search = highlightSearchRef.current;
+		const pages = search?.key === key ? search.pages : 0;
+		if (pages < MAX_HIGHLIGHT_PAGES) {
+			highlightSearchRef.current = { key, pages: pages + 1 };
+			loadOlder();
+		}
+	}, [
+		containerKey,
+		hasOlder,
+		isLoadingOlder,
+		isLoading,
+		messages.length,
+		highlightedMessageId,
+		hasHighlightedMessage,
+		loadOlder,
+	]);
+
+	// Trim the channel or conversation back to its newest page once it's left
+	useEffect(() => {
+		if (!isMainView || !containerKey) return;
+
+		return () => {
+			restoreFromBottomRef.current = null;
+			releaseContainer(containerKey);
+		};
+	}, [isMainView, containerKey, releaseContainer]);
 
 	// Only log cache status when it changes
 	useEffect(() => {
-		if (!channelId) return;
+		if (!containerKey) return;
 
-		const currentState = `${channelId}-${messages.length}-${isLoading}`;
+		const currentState = `${containerKey}-${messages.length}-${isLoading}`;
 		if (currentState !== lastLoggedStateRef.current) {
 			lastLoggedStateRef.current = currentState;
 
 			const status = isLoading ? "loading" : hasMessages ? "ready" : "empty";
 			console.log("[MessageList] Status:", {
-				channel: channelId,
+				container: containerKey,
 				messages: hasMessages ? messages.length : "none",
 				status,
 				cached: hasMessages,
 				initialLoadDone: INITIAL_LOAD_DONE.current,
 			});
 		}
-	}, [channelId, messages.length, isLoading, hasMessages]);
+	}, [containerKey, messages.length, isLoading, hasMessages]);
 
 	// Track when messages are actually ready to view
 	useEffect(() => {
-		if (messages.length > 0 && !isLoading && channelId) {
-			const isChannelSwitch = channelId !== prevChannelIdRef.current;
+		if (messages.length > 0 && !isLoading && containerKey) {
+			const isSwitch = containerKey !== prevContainerKeyRef.current;
 			console.log("[MessageList] Ready to view:", {
-				channel: channelId,
+				container: containerKey,
 				messages: messages.length,
-				fromCache: hasMessages && !isChannelSwitch,
+				fromCache: hasMessages && !isSwitch,
 			});
 		}
-	}, [messages.length, isLoading, channelId, hasMessages]);
+	}, [messages.length, isLoading, containerKey, hasMessages]);
 
 	// Initial load scroll
 	useEffect(() => {
 		if (isInitialLoad && messages.length > 0) {
-			console.log("[MessageList] First messages loaded, scrolling to bottom");
-			scrollToBottom();
+			// A linked message gets scrolled to below instead
+			if (!hasHighlightedMessage) {
+				console.log("[MessageList] First messages loaded, scrolling to bottom");
+				scrollToBottom();
+			}
 			setIsInitialLoad(false);
 		}
-	}, [isInitialLoad, messages.length, scrollToBottom]);
+	}, [isInitialLoad, messages.length, scrollToBottom, hasHighlightedMessage]);
+
+	// Bring the highlighted message into view once it has loaded
+	useEffect(() => {
+		if (
+			!hasHighlightedMessage ||
+			scrolledToMessageIdRef.current === highlightedMessageId
+		) {
+			return;
+		}
+
+		scrolledToMessageIdRef.current = highlightedMessageId ?? null;
+		if (isMainView) {
+			const index = messageGroups.findIndex((chain) =>
+				chain.messages.some((m) => m.id === highlightedMessageId),
+			);
+			virtualizer.scrollToIndex(index, { align: "center" });
+			return;
+		}
+
+		listRef.current
+			?.querySelector(`[data-message-id="${highlightedMessageId}"]`)
+			?.scrollIntoView({ block: "nearest" });
+	}, [
+		hasHighlightedMessage,
+		highlightedMessageId,
+		isMainView,
+		messageGroups,
+		virtualizer,
+	]);
 
 	// Fetch messages if needed
 	useEffect(() => {
-		if (!channelId) return;
+		if (!containerKey) return;
 
-		const isChannelSwitch = channelId !== prevChannelIdRef.current;
+		const isChannelSwitch = containerKey !== prevContainerKeyRef.current;
 		const needsInitialLoad = !INITIAL_LOAD_DONE.current;
 
 		// Only fetch if:
@@ -224,17 +476,17 @@ export function MessageList({
 			if (hasMessages && isChannelSwitch) {
 				console.log(
 					"[MessageList] Using cached messages for channel switch:",
-					channelId,
+					containerKey,
 				);
 			}
 			return;
 		}
 
-		prevChannelIdRef.current = channelId;
+		prevContainerKeyRef.current = containerKey;
 
-		async function fetchMessages() {
+		async function fetchMessages(key: string) {
 			console.log("[MessageList] Fetching messages:", {
-				channel: channelId,
+				container: key,
 				reason: needsInitialLoad
 					? "first time load"
 					: "channel switch - not cached",
@@ -242,75 +494,44 @@ export function MessageList({
 
 			setIsLoading(true);
 			try {
-				const query = supabase
-					.from("messages")
-					.select(
-						`*,
-						profile:profiles (
-							id,
-							full_name,
-							display_name,
-							avatar_url,
-							avatar_color,
-							avatar_cache
-						),
-						files (
-							id,
-							file_type,
-							file_name,
-							file_size,
-							file_url,
-							caption,
-							description
-						),
-						reply_count,
-						reply_user_ids`,
-					)
-					.order("created_at", { ascending: true });
-
-				if (channelId) {
-					query.eq("channel_id", channelId);
-				} else if (conversationId) {
-					query.eq("conversation_id", conversationId);
-				}
-
-				if (parentId) {
-					query.eq("parent_id", parentId);
-				} else if (isMainView) {
-					query.is("parent_id", null);
-				}
-
-				const { data, error } = await query;
-
-				if (error) {
-					console.error("[MessageList] Failed to load messages:", error);
-				} else if (data && channelId) {
+				if (!parentId) {
+					// The main view opens on the newest page
+					await loadContainer(key);
+				} else {
+					const { messages: data } = await fetchMessagePage(supabase, {
+						channelId,
+						conversationId,
+						parentId,
+					});
 					console.log("[MessageList] Database returned:", {
-						channel: channelId,
+						container: key,
 						messages: data.length,
 					});
-					updateChannelMessages(channelId, data as Message[], parentId);
-
-					if (needsInitialLoad) {
-						INITIAL_LOAD_DONE.current = true;
-						console.log(
-							"[MessageList] First load complete, starting background prefetch",
-						);
-					}
+					updateMessages(key, data, parentId);
+				}
+
+				if (needsInitialLoad) {
+					INITIAL_LOAD_DONE.current = true;
+					console.log(
+						"[MessageList] First load complete, starting background prefetch",
+					);
 				}
+			} catch (error) {
+				console.error("[MessageList] Failed to load messages:", error);
 			} finally {
 				setIsLoading(false);
 			}
 		}
 
-		fetchMessages();
+		fetchMessages(containerKey);
 	}, [
+		containerKey,
 		channelId,
+		conversationId,
 		hasMessages,
 		parentId,
-		isMainView,
-		updateChannelMessages,
-		conversationId,
+		updateMessages,
+		loadContainer,
 	]);
 
 	if (isLoading && !hasMessages) {
@@ -321,21 +542,73 @@ export function MessageList({
 		);
 	}
 
+	const renderChain = (chain: MessageGroup, dividerClassName: string) => (
+		<>
+			{chain.messages[0]?.id === firstUnreadId && (
+				<div className={`flex items-center gap-3 ${dividerClassName}`}>
+					<div className="flex-1 border-t border-custom-accent" />
+					<span className="text-xs font-medium text-custom-accent">
+						New messages
+					</span>
+				</div>
+			)}
+			<ChainGroup
+				chain={chain}
+				onThreadClick={onThreadClick}
+				showThreadButton={isMainView}
+				highlightedMessageId={highlightedMessageId}
+				profiles={profilesMap}
+				currentUserId={currentUserId}
+				canModerate={canModerate}
+			/>
+		</>
+	);
+
+	if (isMainView) {
+		return (
+			<div
+				ref={scrollRef}
+				onScroll={handleScroll}
+				className="relative h-full overflow-y-auto overflow-x-hidden"
+			>
+				<div ref={listRef} className="px-8 pt-7 pb-10">
+					{/* Fixed height so showing it doesn't move the messages */}
+					<div className="h-6 text-center text-xs text-custom-text-tertiary">
+						{isLoadingOlder && "Loading earlier messages..."}
+					</div>
+					<div
+						ref={virtualListRef}
+						className="relative w-full"
+						style={{ height: virtualizer.getTotalSize() }}
+					>
+						{virtualizer.getVirtualItems().map((item) => (
+							<div
+								key={item.key}
+								data-index={item.index}
+								ref={virtualizer.measureElement}
+								className="absolute left-0 top-0 w-full pb-4"
+								style={{
+									transform: `translateY(${item.start - scrollMargin}px)`,
+								}}
+							>
+								{renderChain(messageGroups[item.index], "mb-3")}
+							</div>
+						))}
+					</div>
+				</div>
+			</div>
+		);
+	}
+
 	return (
 		<div
-			className={`flex flex-col gap-4 overflow-x-hidden ${
-				isMainView ? "px-8 pt-7 pb-10" : "px-4 pt-3 pb-10"
-			}`}
+			ref={listRef}
+			className="flex flex-col gap-4 overflow-x-hidden px-4 pt-3 pb-10"
 		>
 			{messageGroups.map((chain, i) => (
-				<ChainGroup
-					key={`${chain.userId}-${i}`}
-					chain={chain}
-					onThreadClick={onThreadClick}
-					showThreadButton={isMainView}
-					highlightedMessageId={highlightedMessageId}
-					profiles={profilesMap}
-				/>
+				<Fragment key={`${chain.userId}-${i}`}>
+					{renderChain(chain, "-my-1")}
+				</Fragment>
 			))}
 			<div ref={messagesEndRef} />
 		</div>
@@ -348,12 +621,16 @@ const ChainGroup = memo(function ChainGroup({
 	showThreadButton,
 	highlightedMessageId,
 	profiles,
+	currentUserId,
+	canModerate,
 }: {
 	chain: { userId: string; messages: Message[] };
 	onThreadClick?: (messageId: string) => void;
 	showThreadButton?: boolean;
 	highlightedMessageId?: string;
 	profiles: Record<string, ProfileWithId>;
+	currentUserId: string | null;
+	canModerate: boolean;
 }) {
 	const firstMessage = chain.messages[0];
 	const showChainLine = chain.messages.length > 1;
@@ -362,6 +639,64 @@ const ChainGroup = memo(function ChainGroup({
 		height: 0,
 	});
 	const [hoveredMessageId, setHoveredMessageId] = useState<string | null>(null);
+	const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+	const [deletingMessage, setDeletingMessage] = useState<Message | null>(null);
+	const [pickerMessageId, setPickerMessageId] = useState<string | null>(null);
+	const isOwnChain = !!currentUserId && chain.userId === currentUserId;
+	const { retry, discard } = useMessageOutbox();
+
+	const toggleReaction = async (
+		message: Message,
+		emoji: string,
+		hasReacted: boolean,
+	) => {
+		try {
+			if (hasReacted) {
+				await removeReaction(message.id, emoji);
+			} else {
+				await addReaction(message.id, emoji);
+			}
+		} catch (error) {
+			console.error("[ChainGroup] Failed to toggle reaction:", error);
+		}
+	};
+
+	const hasReacted = (message: Message, emoji: string) =>
+		!!message.reactions?.some(
+			(r) => r.emoji === emoji && r.user_id === currentUserId,
+		);
+
+	const renderActions = (message: Message) => {
+		// Keep the toolbar mounted while its picker is open, even once the
+		// pointer has moved off the row and into the popover
+		const isPickerOpen = pickerMessageId === message.id;
+		if (
+			(hoveredMessageId !== message.id && !isPickerOpen) ||
+			editingMessageId === message.id ||
+			message.deleted_at ||
+			isUnsent(message)
+		) {
+			return null;
+		}
+
+		return (
+			<MessageActions
+				onReact={(emoji) =>
+					toggleReaction(message, emoji, hasReacted(message, emoji))
+				}
+				isPickerOpen={isPickerOpen}
+				onPickerOpenChange={(open) =>
+					setPickerMessageId(open ? message.id : null)
+				}
+				onEdit={isOwnChain ? () => setEditingMessageId(message.id) : undefined}
+				onDelete={
+					isOwnChain || canModerate
+						? () => setDeletingMessage(message)
+						: undefined
+				}
+			/>
+		);
+	};
 	const chainRef = useRef<HTMLDivElement>(null);
 	const resizeObserverRef = useRef<ResizeObserver | null>(null);
 
@@ -416,12 +751,26 @@ const ChainGroup = memo(function ChainGroup({
 		};
 	}, [showChainLine, updateLineHeight, firstMessage?.profile]);
 
+	const renderReactions = (message: Message) => {
+		if (message.deleted_at || !message.reactions?.length) return null;
+
+		return (
+			<MessageReactions
+				reactions={message.reactions}
+				currentUserId={currentUserId}
+				profiles={profiles}
+				onToggle={(emoji, reacted) => toggleReaction(message, emoji, reacted)}
+			/>
+		);
+	};
+
 	if (!firstMessage?.profile) return null;
 
 	return (
 		<div ref={chainRef} className="space-y-0.5 relative">
 			{/* First message row (with avatar) */}
 			<div
+				data-message-id={firstMessage.id}
 				className="group relative flex items-start gap-4 py-0.5 px-8 -mx-8 transition-colors"
 				onMouseEnter={() => setHoveredMessageId(firstMessage.id)}
 				onMouseLeave={() => setHoveredMessageId(null)}
@@ -440,6 +789,7 @@ const ChainGroup = memo(function ChainGroup({
 					} transition-opacity pointer-events-none`}
 					style={{ backgroundColor: "var(--hover-bg)" }}
 				/>
+				{renderActions(firstMessage)}
 				{/* Avatar with chain line */}
 				<div className="relative w-10 flex-shrink-0">
 					<UserAvatar
@@ -471,7 +821,14 @@ const ChainGroup = memo(function ChainGroup({
 						/>
 					</div>
 					<div className="relative">
-						<MessageContent message={firstMessage} />
+						<MessageContent
+							message={firstMessage}
+							isEditing={editingMessageId === firstMessage.id}
+							onEditEnd={() => setEditingMessageId(null)}
+							onRetry={() => retry(firstMessage.id)}
+							onDiscard={() => discard(firstMessage.id)}
+						/>
+						{renderReactions(firstMessage)}
 						{showThreadButton &&
 							onThreadClick &&
 							firstMessage.reply_count > 0 && (
@@ -486,6 +843,7 @@ const ChainGroup = memo(function ChainGroup({
 						{showThreadButton &&
 							onThreadClick &&
 							!firstMessage.reply_count &&
+							!isUnsent(firstMessage) &&
 							hoveredMessageId === firstMessage.id &&
 							highlightedMessageId !== firstMessage.id && (
 								<div
@@ -514,6 +872,7 @@ const ChainGroup = memo(function ChainGroup({
 				return (
 					<div
 						key={message.id}
+						data-message-id={message.id}
 						data-last-message={isLast ? true : undefined}
 						className="group relative py-0.5 px-8 -mx-8 transition-colors"
 						onMouseEnter={() => setHoveredMessageId(message.id)}
@@ -533,12 +892,20 @@ const ChainGroup = memo(function ChainGroup({
 							} transition-opacity pointer-events-none`}
 							style={{ backgroundColor: "var(--hover-bg)" }}
 						/>
+						{renderActions(message)}
 						<div className="ml-[3.5rem]">
 							<div className="absolute left-[3.5rem] top-0 bottom-0 -translate-x-1/2 flex items-center pr-2 opacity-0 group-hover:opacity-100">
 								<MessageTimestamp timestamp={message.created_at} hideColon />
 							</div>
 							<div className="relative">
-								<MessageContent message={message} />
+								<MessageContent
+									message={message}
+									isEditing={editingMessageId === message.id}
+									onEditEnd={() => setEditingMessageId(null)}
+									onRetry={() => retry(message.id)}
+									onDiscard={() => discard(message.id)}
+								/>
+								{renderReactions(message)}
 								{showThreadButton &&
 									onThreadClick &&
 									message.reply_count > 0 && (
@@ -553,6 +920,7 @@ const ChainGroup = memo(function ChainGroup({
 								{showThreadButton &&
 									onThreadClick &&
 									!message.reply_count &&
+									!isUnsent(message) &&
 									hoveredMessageId === message.id &&
 									highlightedMessageId !== message.id && (
 										<div
@@ -576,6 +944,12 @@ const ChainGroup = memo(function ChainGroup({
 					</div>
 				);
 			})}
+			<MessageDeleteDialog
+				message={deletingMessage}
+				onOpenChange={(open) => {
+					if (!open) setDeletingMessage(null);
+				}}
+			/>
 		</div>
 	);
 });
@@ -0,0 +1,349 @@
+"use client";
+
+import {
+	createContext,
+	useCallback,
+	useContext,
+	useEffect,
+	useMemo,
+	useRef,
+	useState,
+} from "react";
+import { createClient } from "@/utils/supabase/client";
+import { createMessage } from "@/app/actions/message";
+import { useFileUpload } from "@/hooks/useFileUpload";
+import {
+	deleteOutboxEntry,
+	listOutboxEntries,
+	saveOutboxEntry,
+	type OutboxEntry,
+} from "@/utils/outbox";
+import type { Message } from "@/types/message";
+import type { MessageMention } from "@/types/mention";
+import { useMessageCache } from "./MessageCache";
+
+const supabase = createClient();
+
+export interface OutboxDraft {
+	content: string;
+	channelId?: string;
+	conversationId?: string;
+	parentId?: string;
+	mentions: MessageMention[];
+	files: File[];
+}
+
+interface MessageOutboxContextType {
+	// Messages still being sent, or that failed to, as they'll look once
+	// they're saved
+	pendingMessages: Message[];
+	send: (draft: OutboxDraft) => Promise<void>;
+	retry: (messageId: string) => void;
+	discard: (messageId: string) => void;
+}
+
+const MessageOutboxContext = createContext<MessageOutboxContextType | null>(
+	null,
+);
+
+export function useMessageOutbox() {
+	const context = useContext(MessageOutboxContext);
+	if (!context) {
+		throw new Error(
+			"useMessageOutbox must be used within a MessageOutboxProvider",
+		);
+	}
+	return context;
+}
+
+// An outbox entry as a message, so it can be shown like one
+function toMessage(entry: OutboxEntry, profile: Message["profile"]): Message {
+	return {
+		id: entry.id,
+		channel_id: entry.channelId ?? null,
+		conversation_id: entry.conversationId ?? null,
+		parent_id: entry.parentId ?? null,
+		user_id: entry.userId,
+		content: entry.content,
+		created_at: entry.createdAt,
+		context: null,
+		embedding: null,
+		embedding_provider: null,
+		embedding_model: null,
+		embedding_version: null,
+		edited_at: null,
+		deleted_at: null,
+		extras_changed_at: null,
+		mentions: entry.mentions,
+		profile,
+		reply_count: 0,
+		reply_user_ids: [],
+		files: [],
+		reactions: [],
+		status: entry.status,
+		error: entry.error,
+	};
+}
+
+// Whether a send failed to reach the server at all, rather than the server
+// turning it down. Requests that can't be made reject with a TypeError.
+function isNetworkError(error: unknown) {
+	return !navigator.onLine || error instanceof TypeError;
+}
+
+/**
+ * Show pending messages in a list: saved messages whose files are still
+ * uploading take their status, and ones not saved yet are added at the end.
+ */
+export function withPendingMessages(
+	messages: Message[],
+	pendingMessages: Message[],
+	{
+		channelId,
+		conversationId,
+		parentId,
+	}: { channelId?: string; conversationId?: string; parentId?: string },
+): Message[] {
+	const pending = pendingMessages.filter(
+		(m) =>
+			(channelId
+				? m.channel_id === channelId
+				: m.conversation_id === conversationId) &&
+			m.parent_id === (parentId ?? null),
+	);
+	if (!pending.length) return messages;
+
+	const pendingById = new Map(pending.map((m) => [m.id, m]));
+	const merged = messages.map((m) => {
+		const match = pendingById.get(m.id);
+		if (!match) return m;
+		pendingById.delete(m.id);
+		return { ...m, status: match.status, error: match.error };
+	});
+
+	return [...merged, ...pendingById.values()];
+}
+
+/**
+ * Sends messages on the user's behalf. A message shows straight away under
+ * the id it'll be saved with, and the realtime insert takes its place once
+ * it arrives. Anything that fails stays in the outbox, across reloads, to
+ * be retried by hand, or when the connection comes back if that's what
+ * stopped it.
+ */
+export function MessageOutboxProvider({
+	children,
+}: { children: React.ReactNode }) {
+	const [entries, setEntries] = useState<OutboxEntry[]>([]);
+	const [profile, setProfile] = useState<Message["profile"] | null>(null);
+	const entriesRef = useRef(entries);
+	entriesRef.current = entries;
+	const profileRef = useRef(profile);
+	profileRef.current = profile;
+	const { addSentMessage } = useMessageCache();
+	const inFlightRef = useRef(new Set<string>());
+
+	const { uploadFile } = useFileUpload({
+		maxSizeMB: 50,
+		allowedTypes: ["image/*", "video/*", "audio/*", "application/pdf"],
+	});
+	const uploadFileRef = useRef(uploadFile);
+	uploadFileRef.current = uploadFile;
+
+	// Keep the outbox in IndexedDB too. If that's unavailable it still works
+	// for as long as the page is open.
+	const storeEntry = useCallback(async (entry: OutboxEntry) => {
+		setEntries((prev) =>
+			prev.some((e) => e.id === entry.id)
+				? prev.map((e) => (e.id === entry.id ? entry : e))
+				: [...prev, entry],
+		);
+		try {
+			await saveOutboxEntry(entry);
+		} catch (error) {
+			console.error("[MessageOutbox] Failed to store message:", error);
+		}
+	}, []);
+
+	const removeEntry = useCallback(async (messageId: string) => {
+		setEntries((prev) => prev.filter((e) => e.id !== messageId));
+		try {
+			await deleteOutboxEntry(messageId);
+		} catch (error) {
+			console.error("[MessageOutbox] Failed to remove message:", error);
+		}
+	}, []);
+
+	const deliver = useCallback(
+		async (pending: OutboxEntry) => {
+			if (inFlightRef.current.has(pending.id)) return;
+			inFlightRef.current.add(pending.id);
+
+			let entry: OutboxEntry = {
+				...pending,
+				status: "sending",
+				error: undefined,
+				rejected: undefined,
+			};
+			try {
+				await storeEntry(entry);
+
+				if (!entry.created) {
+					await createMessage({
+						id: entry.id,
+						content: entry.content,
+						channelId: entry.channelId,
+						conversationId: entry.conversationId,
+						parentId: entry.parentId,
+						mentions: entry.mentions,
+					});
+					entry = { ...entry, created: true };
+					await storeEntry(entry);
+
+					// Bridge the gap until the realtime insert arrives
+					if (profileRef.current) {
+						addSentMessage({
+							...toMessage(entry, profileRef.current),
+							status: "sent",
+						});
+					}
+				}
+
+				for (const file of pending.files) {
+					await uploadFileRef.current(file, entry.id);
+					entry = { ...entry, files: entry.files.filter((f) => f !== file) };
+					await storeEntry(entry);
+				}
+
+				await removeEntry(entry.id);
+			} catch (error) {
+				console.error("[MessageOutbox] Failed to send message:", error);
+				await storeEntry({
+					...entry,
+					status: "failed",
+					error:
+						error instanceof Error ? error.message : "Failed to send message",
+					rejected: !isNetworkError(error),
+				});
+			} finally {
+				inFlightRef.current.delete(pending.id);
+			}
+		},
+		[storeEntry, removeEntry, addSentMessage],
+	);
+
+	// Pick up what was left waiting before the page was last closed
+	useEffect(() => {
+		let isMounted = true;
+
+		async function loadOutbox() {
+			const {
+				data: { user },
+			} = await supabase.auth.getUser();
+			if (!user) return;
+
+			const { data: profile } = await supabase
+				.from("profiles")
+				.select(
+					"id, full_name, display_name, avatar_url, avatar_color, avatar_cache",
+				)
+				.eq("id", user.id)
+				.single();
+
+			let stored: OutboxEntry[] = [];
+			try {
+				stored = await listOutboxEntries(user.id);
+			} catch (error) {
+				console.error("[MessageOutbox] Failed to load outbox:", error);
+			}
+			if (!isMounted) return;
+
+			setProfile(profile);
+			setEntries((prev) => [
+				...stored.filter((entry) => !prev.some((e) => e.id === entry.id)),
+				...prev,
+			]);
+
+			// Sends cut short by a reload carry on; failed ones wait for a retry
+			for (const entry of stored) {
+				if (entry.status === "sending") {
+					deliver(entry);
+				}
+			}
+		}
+
+		loadOutbox();
+
+		return () => {
+			isMounted = false;
+		};
+	}, [deliver]);
+
+	// Retry what failed for want of a connection once it's back
+	useEffect(() => {
+		const retryFailed = () => {
+			for (const entry of entriesRef.current) {
+				if (entry.status === "failed" && !entry.rejected) {
+					deliver(entry);
+				}
+			}
+		};
+
+		window.addEventListener("online", retryFailed);
+		return () => window.removeEventListener("online", retryFailed);
+	}, [deliver]);
+
+	const send = useCallback(
+		async (draft: OutboxDraft) => {
+			const {
+				data: { user },
+			} = await supabase.auth.getUser();
+			if (!user) {
+				throw new Error("Not authenticated");
+			}
+
+			deliver({
+				...draft,
+				id: crypto.randomUUID(),
+				userId: user.id,
+				created: false,
+				status: "sending",
+				createdAt: new Date().toISOString(),
+			});
+		},
+		[deliver],
+	);
+
+	const retry = useCallback(
+		(messageId: string) => {
+			const entry = entriesRef.current.find((e) => e.id === messageId);
+			if (entry) {
+				deliver(entry);
+			}
+		},
+		[deliver],
+	);
+
+	// Give up on a message. If it was saved and only its files are left,
+	// the message stays and the files are dropped.
+	const discard = useCallback(
+		(messageId: string) => {
+			if (inFlightRef.current.has(messageId)) return;
+			removeEntry(messageId);
+		},
+		[removeEntry],
+	);
+
+	const pendingMessages = useMemo<Message[]>(
+		() => (profile ? entries.map((entry) => toMessage(entry, profile)) : []),
+		[entries, profile],
+	);
+
+	const value = { pendingMessages, send, retry, discard };
+
+	return (
+		<MessageOutboxContext.Provider value={value}>
+			{children}
+		</MessageOutboxContext.Provider>
+	);
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useMemo } from "react";
+import type { DatabaseMessageReaction } from "@/types/message";
+import type { ProfileWithId } from "@/types/profile";
+
+interface MessageReactionsProps {
+	reactions: DatabaseMessageReaction[];
+	currentUserId: string | null;
+	profiles: Record<string, ProfileWithId>;
+	onToggle: (emoji: string, hasReacted: boolean) => void;
+}
+
+/**
+ * Reaction pills under a message, one per emoji in the order they were first used.
+ */
+export function MessageReactions({
+	reactions,
+	currentUserId,
+	profiles,
+	onToggle,
+}: MessageReactionsProps) {
+	const groups = useMemo(() => {
+		const byEmoji = new Map<string, string[]>();
+		const sorted = [...reactions].sort((a, b) =>
+			a.created_at.localeCompare(b.created_at),
+		);
+		for (const reaction of sorted) {
+			const userIds = byEmoji.get(reaction.emoji) || [];
+			userIds.push(reaction.user_id);
+			byEmoji.set(reaction.emoji, userIds);
+		}
+		return Array.from(byEmoji, ([emoji, userIds]) => ({ emoji, userIds }));
+	}, [reactions]);
+
+	if (!groups.length) return null;
+
+	const getName = (userId: string) => {
+		if (userId === currentUserId) return "You";
+		const profile = profiles[userId];
+		return profile?.display_name || profile?.full_name || "Unknown User";
+	};
+
+	return (
+		<div className="flex flex-wrap gap-1 mt-1">
+			{groups.map(({ emoji, userIds }) => {
+				const hasReacted = !!currentUserId && userIds.includes(currentUserId);
+				return (
+					<button
+						key={emoji}
+						type="button"
+						onClick={() => onToggle(emoji, hasReacted)}
+						title={`${userIds.map(getName).join(", ")} reacted with ${emoji}`}
+						className={`flex items-center gap-1 h-6 px-1.5 rounded-full border text-xs transition-colors ${
+							hasReacted
+								? "border-custom-accent bg-custom-accent/10 text-custom-text"
+								: "border-custom-ui-medium bg-custom-ui-faint text-custom-text-secondary hover:border-custom-ui-strong"
+						}`}
+					>
+						<span className="text-sm leading-none">{emoji}</span>
+						<span>{userIds.length}</span>
+					</button>
+				);
+			})}
+		</div>
+	);
+}
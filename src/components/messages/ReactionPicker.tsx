@@ -0,0 +1,98 @@
+"use client";
+
+import { SmilePlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+
+const EMOJI_GROUPS: { label: string; emojis: string[] }[] = [
+	{
+		label: "Frequently used",
+		emojis: ["👍", "❤️", "😂", "🎉", "👀", "🙏", "✅", "🔥"],
+	},
+	{
+		label: "Smileys",
+		emojis: [
+			"😀",
+			"😄",
+			"😊",
+			"😍",
+			"🤔",
+			"😅",
+			"😮",
+			"😢",
+			"😡",
+			"🥳",
+			"😎",
+			"🙃",
+		],
+	},
+	{
+		label: "Gestures",
+		emojis: ["👎", "👏", "🙌", "💪", "👋", "🤝", "✌️", "👌"],
+	},
+	{
+		label: "Symbols",
+		emojis: ["💯", "⭐", "❌", "⚠️", "❓", "💡", "🚀", "📌"],
+	},
+];
+
+interface ReactionPickerProps {
+	onSelect: (emoji: string) => void;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+export function ReactionPicker({
+	onSelect,
+	open,
+	onOpenChange,
+}: ReactionPickerProps) {
+	return (
+		<Popover open={open} onOpenChange={onOpenChange}>
+			<PopoverTrigger asChild>
+				<Button
+					type="button"
+					variant="ghost"
+					size="icon"
+					title="Add reaction"
+					className="h-7 w-7 text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+				>
+					<SmilePlus className="h-3.5 w-3.5" />
+				</Button>
+			</PopoverTrigger>
+			<PopoverContent
+				className="w-72 p-2 bg-custom-background border border-custom-ui-medium rounded-md shadow-sm"
+				align="end"
+			>
+				<div className="space-y-2">
+					{EMOJI_GROUPS.map((group) => (
+						<div key={group.label}>
+							<h4 className="px-1 mb-1 text-xs font-medium text-custom-text-secondary">
+								{group.label}
+							</h4>
+							<div className="grid grid-cols-8 gap-0.5">
+								{group.emojis.map((emoji) => (
+									<button
+										key={emoji}
+										type="button"
+										onClick={() => {
+											onSelect(emoji);
+											onOpenChange(false);
+										}}
+										className="h-8 w-8 rounded-md text-lg leading-none hover:bg-custom-ui-faint"
+									>
+										{emoji}
+									</button>
+								))}
+							</div>
+						</div>
+					))}
+				</div>
+			</PopoverContent>
+		</Popover>
+	);
+}
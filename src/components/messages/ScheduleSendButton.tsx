@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { Clock } from "lucide-react";
+import { addDays, format, nextMonday, set } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+
+// Suggested times are at the start of the working day
+const START_OF_DAY = { hours: 9, minutes: 0, seconds: 0, milliseconds: 0 };
+
+interface ScheduleSendButtonProps {
+	disabled: boolean;
+	onSchedule: (sendAt: Date) => void;
+}
+
+/**
+ * The "Schedule message" button in the message input. Picks when to send
+ * what's been written: tomorrow or next Monday morning, or any time.
+ */
+export function ScheduleSendButton({
+	disabled,
+	onSchedule,
+}: ScheduleSendButtonProps) {
+	const [open, setOpen] = useState(false);
+	const [custom, setCustom] = useState("");
+
+	const schedule = (sendAt: Date) => {
+		setOpen(false);
+		setCustom("");
+		onSchedule(sendAt);
+	};
+
+	const handleCustomSubmit = (e: React.FormEvent) => {
+		// The popover renders outside the message form, but React events still
+		// bubble to it
+		e.preventDefault();
+		e.stopPropagation();
+		if (custom) {
+			schedule(new Date(custom));
+		}
+	};
+
+	const tomorrow = set(addDays(new Date(), 1), START_OF_DAY);
+	const monday = set(nextMonday(new Date()), START_OF_DAY);
+	const optionClassName =
+		"w-full rounded-md px-2 py-1.5 text-left text-sm text-custom-text hover:bg-custom-ui-faint";
+
+	return (
+		<Popover open={open} onOpenChange={setOpen}>
+			<PopoverTrigger asChild>
+				<Button
+					type="button"
+					variant="ghost"
+					size="sm"
+					disabled={disabled}
+					title="Schedule message"
+					className="text-custom-text hover:bg-custom-ui-medium hover:text-custom-text"
+				>
+					<Clock className="h-4 w-4" />
+				</Button>
+			</PopoverTrigger>
+			<PopoverContent
+				className="w-72 p-2 bg-custom-background border border-custom-ui-medium rounded-md shadow-sm"
+				align="start"
+				side="top"
+				sideOffset={4}
+			>
+				<h4 className="px-2 py-1 text-xs font-medium text-custom-text-secondary">
+					Schedule message
+				</h4>
+				<button
+					type="button"
+					className={optionClassName}
+					onClick={() => schedule(tomorrow)}
+				>
+					Tomorrow at {format(tomorrow, "HH:mm")}
+				</button>
+				<button
+					type="button"
+					className={optionClassName}
+					onClick={() => schedule(monday)}
+				>
+					Monday, {format(monday, "d MMM")} at {format(monday, "HH:mm")}
+				</button>
+
+				<form
+					onSubmit={handleCustomSubmit}
+					className="mt-2 space-y-2 border-t border-custom-ui-medium px-2 pt-3"
+				>
+					<div className="space-y-1">
+						<Label
+							htmlFor="schedule-send-at"
+							className="text-xs text-custom-text-secondary"
+						>
+							Custom time
+						</Label>
+						<Input
+							id="schedule-send-at"
+							type="datetime-local"
+							value={custom}
+							min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+							onChange={(e) => setCustom(e.target.value)}
+							className="bg-custom-background border-custom-ui-medium text-custom-text"
+						/>
+					</div>
+					<Button
+						type="submit"
+						size="sm"
+						disabled={!custom}
+						className="w-full bg-custom-accent text-white hover:bg-custom-accent/90"
+					>
+						Schedule
+					</Button>
+				</form>
+			</PopoverContent>
+		</Popover>
+	);
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { RefreshCw, Sparkles, X } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { ChatReply } from "@/components/ChatReply";
+import type { MessageSummary } from "@/types/summary";
+
+interface SummaryCardProps {
+	// null while the summary is being written
+	summary: MessageSummary | null;
+	onClose: () => void;
+}
+
+function describeRange(summary: MessageSummary) {
+	const since = summary.since
+		? format(new Date(summary.since), "d MMM, HH:mm")
+		: null;
+	const until = summary.until
+		? format(new Date(summary.until), "d MMM, HH:mm")
+		: null;
+
+	if (since && until) return `${since} – ${until}`;
+	if (since) return `Since ${since}`;
+	if (until) return `Until ${until}`;
+	return null;
+}
+
+/**
+ * A catch-up summary, with its [n] citations linking back to the key
+ * messages it was written from.
+ */
+export function SummaryCard({ summary, onClose }: SummaryCardProps) {
+	const range = summary ? describeRange(summary) : null;
+
+	return (
+		<div className="shrink-0 m-4 rounded-md border border-custom-ui-strong bg-custom-background-secondary p-4 text-sm">
+			<div className="flex items-center justify-between gap-2">
+				<div className="flex items-center gap-2 min-w-0 text-custom-text-secondary">
+					<Sparkles className="h-4 w-4 shrink-0" />
+					<span className="font-medium text-custom-text">Summary</span>
+					{summary && (
+						<span className="truncate text-xs">
+							{summary.messageCount}{" "}
+							{summary.messageCount === 1 ? "message" : "messages"}
+							{range && ` · ${range}`}
+						</span>
+					)}
+				</div>
+				<Button
+					variant="ghost"
+					size="icon"
+					onClick={onClose}
+					className="h-6 w-6 shrink-0 text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+				>
+					<X className="h-4 w-4" />
+				</Button>
+			</div>
+
+			<div className="mt-3 max-h-80 overflow-y-auto">
+				{summary ? (
+					<ChatReply
+						content={summary.content}
+						sources={summary.sources}
+						citations={summary.citations}
+					/>
+				) : (
+					<div className="flex items-center gap-2 text-custom-text-secondary">
+						<RefreshCw className="h-4 w-4 animate-spin" />
+						Catching you up...
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -1,18 +1,26 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
+import { useParams } from "next/navigation";
 import { createClient } from "@/utils/supabase/client";
 import type { Message } from "@/types/message";
 import { MessageContent } from "./MessageContent";
 import { MessageTimestamp } from "./MessageTimestamp";
 import { UserAvatar } from "../ui/UserAvatar";
 import { Button } from "@/components/ui/button";
-import { X, ListEnd } from "lucide-react";
+import { X, ListEnd, Sparkles } from "lucide-react";
 import { MessageList } from "./MessageList";
 import { MessageInput } from "./MessageInput";
+import { SummaryCard } from "./SummaryCard";
+import { getContainerKey, useMessageCache } from "./MessageCache";
+import { useToast } from "@/hooks/use-toast";
+import { summarizeThread } from "@/app/actions/summaries";
+import { THREAD_MESSAGE_SELECT } from "@/utils/messageQueries";
+import type { MessageSummary } from "@/types/summary";
 
 interface ThreadPanelProps {
 	selectedMessageId: string | null;
+	highlightedMessageId?: string;
 	channelId?: string;
 	conversationId?: string;
 	onClose: () => void;
@@ -20,12 +28,20 @@ interface ThreadPanelProps {
 
 export function ThreadPanel({
 	selectedMessageId,
+	highlightedMessageId,
 	channelId,
 	conversationId,
 	onClose,
 }: ThreadPanelProps) {
 	const supabase = createClient();
+	const { getMessages } = useMessageCache();
 	const [parentMessage, setParentMessage] = useState<Message | null>(null);
+	const [showSummary, setShowSummary] = useState(false);
+	const [summary, setSummary] = useState<MessageSummary | null>(null);
+	// Only the summary of the thread on screen is shown
+	const summaryForRef = useRef<string | null>(null);
+	const { workspaceSlug } = useParams<{ workspaceSlug: string }>();
+	const { toast } = useToast();
 	const [width, setWidth] = useState(400);
 	const [isResizing, setIsResizing] = useState(false);
 	const isResizingRef = useRef(false);
@@ -37,28 +53,7 @@ export function ThreadPanel({
 		async function fetchParent() {
 			const { data, error } = await supabase
 				.from("messages")
-				.select(
-					`
-            *,
-            profile:profiles (
-              id,
-              full_name,
-              display_name,
-              avatar_url,
-              avatar_color,
-              avatar_cache
-            ),
-            files (
-              id,
-              file_type,
-              file_name,
-              file_size,
-              file_url
-            ),
-            reply_count,
-            reply_user_ids
-          `,
-				)
+				.select(THREAD_MESSAGE_SELECT)
 				.eq("id", selectedMessageId)
 				.single();
 
@@ -75,6 +70,44 @@ export function ThreadPanel({
 		};
 	}, [selectedMessageId, supabase]);
 
+	useEffect(() => {
+		summaryForRef.current = null;
+		setShowSummary(false);
+		setSummary(null);
+	}, [selectedMessageId]);
+
+	const handleSummarize = async () => {
+		if (!selectedMessageId) return;
+
+		summaryForRef.current = selectedMessageId;
+		setSummary(null);
+		setShowSummary(true);
+
+		try {
+			const result = await summarizeThread({
+				parentId: selectedMessageId,
+				workspaceSlug,
+			});
+			if (summaryForRef.current === selectedMessageId) {
+				setSummary(result);
+			}
+		} catch (error) {
+			if (summaryForRef.current !== selectedMessageId) return;
+			setShowSummary(false);
+			toast({
+				title: "Error",
+				description:
+					error instanceof Error ? error.message : "Failed to summarize",
+				variant: "destructive",
+			});
+		}
+	};
+
+	const handleCloseSummary = () => {
+		summaryForRef.current = null;
+		setShowSummary(false);
+	};
+
 	useEffect(() => {
 		const handleMouseMove = (e: MouseEvent) => {
 			if (!isResizingRef.current) return;
@@ -121,6 +154,13 @@ export function ThreadPanel({
 		return null;
 	}
 
+	// Prefer the cached copy of the parent so realtime edits show up here too
+	const containerKey = getContainerKey({ channelId, conversationId });
+	const cachedParent = containerKey
+		? getMessages(containerKey).find((m) => m.id === selectedMessageId)
+		: undefined;
+	const displayedParent = cachedParent ?? parentMessage;
+
 	return (
 		<>
 			{/* Resizer handle */}
@@ -147,41 +187,56 @@ export function ThreadPanel({
 						<ListEnd className="h-4 w-4 text-custom-text-secondary -scale-x-100" />
 						<span className="font-medium text-custom-text">Thread</span>
 					</div>
-					<Button
-						variant="ghost"
-						size="icon"
-						onClick={onClose}
-						className="text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
-					>
-						<X className="h-4 w-4" />
-					</Button>
+					<div className="flex items-center">
+						<Button
+							variant="ghost"
+							size="icon"
+							title="Summarize thread"
+							onClick={handleSummarize}
+							className="text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+						>
+							<Sparkles className="h-4 w-4" />
+						</Button>
+						<Button
+							variant="ghost"
+							size="icon"
+							onClick={onClose}
+							className="text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+						>
+							<X className="h-4 w-4" />
+						</Button>
+					</div>
 				</div>
 
 				{/* Scrollable Container for Parent Message and Replies */}
 				<div className="flex-1 overflow-y-auto min-h-0">
+					{showSummary && (
+						<SummaryCard summary={summary} onClose={handleCloseSummary} />
+					)}
+
 					{/* Parent Message */}
-					{parentMessage && (
+					{displayedParent && (
 						<div className="p-4 border-b border-custom-ui-medium">
 							<div className="flex items-start gap-3">
 								<UserAvatar
-									fullName={parentMessage.profile?.full_name || "User"}
-									displayName={parentMessage.profile?.display_name}
-									avatarUrl={parentMessage.profile?.avatar_url}
-									avatarCache={parentMessage.profile?.avatar_cache}
+									fullName={displayedParent.profile?.full_name || "User"}
+									displayName={displayedParent.profile?.display_name}
+									avatarUrl={displayedParent.profile?.avatar_url}
+									avatarCache={displayedParent.profile?.avatar_cache}
 									avatarColor={
-										parentMessage.profile?.avatar_color || "rgb(20, 148, 132)"
+										displayedParent.profile?.avatar_color || "rgb(20, 148, 132)"
 									}
 									size="md"
 								/>
 								<div className="flex-1 min-w-0">
 									<div className="flex items-baseline gap-2">
 										<span className="font-semibold text-custom-text">
-											{parentMessage.profile?.display_name ||
-												parentMessage.profile?.full_name}
+											{displayedParent.profile?.display_name ||
+												displayedParent.profile?.full_name}
 										</span>
-										<MessageTimestamp timestamp={parentMessage.created_at} />
+										<MessageTimestamp timestamp={displayedParent.created_at} />
 									</div>
-									<MessageContent message={parentMessage} />
+									<MessageContent message={displayedParent} />
 								</div>
 							</div>
 						</div>
@@ -193,6 +248,7 @@ export function ThreadPanel({
 							channelId={channelId}
 							conversationId={conversationId}
 							parentId={selectedMessageId}
+							highlightedMessageId={highlightedMessageId}
 						/>
 					</div>
 				</div>
@@ -0,0 +1,70 @@
+"use client";
+
+import { UserAvatar } from "@/components/ui/UserAvatar";
+import { cn } from "@/lib/utils";
+import type { ProfileDisplay } from "@/types/profile";
+
+interface GroupAvatarProps {
+	profiles: ProfileDisplay[];
+	size?: "xs" | "sm" | "md";
+	className?: string;
+}
+
+// Outer box, and the two overlapping avatars inside it
+const sizeClasses = {
+	xs: { box: "h-6 w-6", avatar: "h-4 w-4 rounded-[4px] text-[8px]" },
+	sm: { box: "h-8 w-8", avatar: "h-5 w-5 rounded-[5px] text-[10px]" },
+	md: { box: "h-10 w-10", avatar: "h-6 w-6 rounded-[6px] text-xs" },
+};
+
+/**
+ * Avatar for a DM: the other person's avatar, or for a group the first two
+ * participants overlapping diagonally.
+ */
+export function GroupAvatar({
+	profiles,
+	size = "sm",
+	className,
+}: GroupAvatarProps) {
+	if (profiles.length < 2) {
+		const profile = profiles[0];
+		return (
+			<UserAvatar
+				fullName={profile?.full_name || "User"}
+				displayName={profile?.display_name}
+				avatarUrl={profile?.avatar_url}
+				avatarCache={profile?.avatar_cache}
+				avatarColor={profile?.avatar_color}
+				size={size}
+				className={className}
+			/>
+		);
+	}
+
+	const [first, second] = profiles;
+	const classes = sizeClasses[size];
+
+	return (
+		<div className={cn("relative shrink-0", classes.box, className)}>
+			<UserAvatar
+				fullName={first.full_name}
+				displayName={first.display_name}
+				avatarUrl={first.avatar_url}
+				avatarCache={first.avatar_cache}
+				avatarColor={first.avatar_color}
+				className={cn("absolute top-0 left-0", classes.avatar)}
+			/>
+			<UserAvatar
+				fullName={second.full_name}
+				displayName={second.display_name}
+				avatarUrl={second.avatar_url}
+				avatarCache={second.avatar_cache}
+				avatarColor={second.avatar_color}
+				className={cn(
+					"absolute bottom-0 right-0 ring-2 ring-custom-background-secondary",
+					classes.avatar,
+				)}
+			/>
+		</div>
+	);
+}
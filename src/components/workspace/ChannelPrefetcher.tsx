@@ -1,9 +1,15 @@
 "use client";
 
-import { useEffect, useRef } from "react";
+import { useCallback, useEffect, useRef } from "react";
 import { createClient } from "@/utils/supabase/client";
 import type { ChannelBasic } from "@/types/channel";
-import { useMessageCache } from "@/components/messages/MessageCache";
+import {
+	MAX_CACHED_CONTAINERS,
+	channelKey,
+	conversationKey,
+	useMessageCache,
+} from "@/components/messages/MessageCache";
+import { useRealtimeEvents } from "./WorkspaceRealtime";
 
 interface ChannelPrefetcherProps {
 	workspaceId: string;
@@ -13,9 +19,18 @@ interface ChannelPrefetcherProps {
 	) => void;
 }
 
+const supabase = createClient();
+
 // Debounce time in milliseconds
 const DEBOUNCE_TIME = 5000;
 
+// Most recently active DMs prefetched alongside channels; channels get the
+// rest of the cache
+const PREFETCHED_CONVERSATIONS = 5;
+
+// Recent messages looked through to find the most recently active DMs
+const RECENT_CONVERSATION_MESSAGES = 100;
+
 export function ChannelPrefetcher({
 	workspaceId,
 	onChannelsLoaded,
@@ -24,183 +39,157 @@ export function ChannelPrefetcher({
 		undefined,
 	);
 	const lastFetchRef = useRef<number>(0);
-	const { updateChannelMessages } = useMessageCache();
+	const { prefetchContainer } = useMessageCache();
+
+	// Core fetch logic without debounce check
+	const fetchChannels = useCallback(async () => {
+		async function prefetchMessages(containerKey: string) {
+			console.log("[Background] Preparing messages for:", containerKey);
+
+			try {
+				await prefetchContainer(containerKey);
+				console.log("[Background] Ready:", containerKey);
+			} catch (error) {
+				console.error("[Background] Failed to prepare:", containerKey, error);
+			}
+		}
 
-	useEffect(() => {
-		const supabase = createClient();
+		console.log("[Background] Getting list of available channels...");
 
-		// Add event listener for immediate channel updates
-		const handleChannelUpdate = (event: CustomEvent) => {
-			const { joinedChannels, unjoinedChannels } = event.detail;
-			onChannelsLoaded(joinedChannels, unjoinedChannels);
-		};
+		// Get current user
+		const {
+			data: { user },
+		} = await supabase.auth.getUser();
+		if (!user) return;
 
-		window.addEventListener(
-			"updateChannels",
-			handleChannelUpdate as EventListener,
-		);
+		// Get all channels
+		const { data: allChannels, error: channelsError } = await supabase
+			.from("channels")
+			.select("id, name, slug, description, is_private")
+			.eq("workspace_id", workspaceId)
+			.order("name");
 
-		async function prefetchChannelMessages(channelId: string) {
-			console.log("[Background] Preparing messages for channel:", channelId);
-
-			const { data, error } = await supabase
-				.from("messages")
-				.select(
-					`*,
-					profile:profiles (
-						id,
-						full_name,
-						display_name,
-						avatar_url,
-						avatar_color,
-						avatar_cache
-					),
-					files (
-						id,
-						file_type,
-						file_name,
-						file_size,
-						file_url,
-						caption,
-						description
-					)`,
-				)
-				.eq("channel_id", channelId)
-				.is("parent_id", null)
-				.order("created_at", { ascending: true });
-
-			if (error) {
-				console.error("[Background] Failed to prepare channel:", channelId);
-				return;
-			}
+		if (channelsError) {
+			console.error("[Background] Failed to get channel list:", channelsError);
+			return;
+		}
 
-			if (data) {
-				console.log("[Background] Channel ready:", {
-					channel: channelId,
-					messageCount: data.length,
-				});
-				updateChannelMessages(channelId, data);
-			}
+		// Get joined channels
+		const { data: joinedChannelIds, error: membershipError } = await supabase
+			.from("channel_members")
+			.select("channel_id")
+			.eq("user_id", user.id);
+
+		if (membershipError) {
+			console.error(
+				"[Background] Failed to get joined channels:",
+				membershipError,
+			);
+			return;
 		}
 
-		// Core fetch logic without debounce check
-		async function fetchChannels() {
-			console.log("[Background] Getting list of available channels...");
-
-			// Get current user
-			const {
-				data: { user },
-			} = await supabase.auth.getUser();
-			if (!user) return;
-
-			// Get all channels
-			const { data: allChannels, error: channelsError } = await supabase
-				.from("channels")
-				.select("id, name, slug, description")
-				.eq("workspace_id", workspaceId)
-				.order("name");
-
-			if (channelsError) {
-				console.error(
-					"[Background] Failed to get channel list:",
-					channelsError,
-				);
-				return;
-			}
+		if (allChannels) {
+			const joinedIds = new Set(joinedChannelIds?.map((m) => m.channel_id));
+			const joinedChannels = allChannels.filter((c) => joinedIds.has(c.id));
+			const unjoinedChannels = allChannels.filter((c) => !joinedIds.has(c.id));
 
-			// Get joined channels
-			const { data: joinedChannelIds, error: membershipError } = await supabase
-				.from("channel_members")
-				.select("channel_id")
-				.eq("user_id", user.id);
-
-			if (membershipError) {
-				console.error(
-					"[Background] Failed to get joined channels:",
-					membershipError,
-				);
-				return;
-			}
+			console.log("[Background] Found channels:", {
+				joined: joinedChannels.length,
+				available: unjoinedChannels.length,
+			});
+
+			onChannelsLoaded(joinedChannels, unjoinedChannels);
 
-			if (allChannels) {
-				const joinedIds = new Set(joinedChannelIds?.map((m) => m.channel_id));
-				const joinedChannels = allChannels.filter((c) => joinedIds.has(c.id));
-				const unjoinedChannels = allChannels.filter(
-					(c) => !joinedIds.has(c.id),
-				);
-
-				console.log("[Background] Found channels:", {
-					joined: joinedChannels.length,
-					available: unjoinedChannels.length,
-				});
-
-				onChannelsLoaded(joinedChannels, unjoinedChannels);
-
-				// After loading channels, prefetch messages for joined channels
-				if (joinedChannels.length > 0) {
-					console.log(
-						"[Background] Preparing messages for all joined channels...",
-					);
-					for (const channel of joinedChannels) {
-						await prefetchChannelMessages(channel.id);
-					}
-					console.log("[Background] ✨ All channels ready!");
+			// After loading channels, prefetch messages for joined channels
+			if (joinedChannels.length > 0) {
+				console.log("[Background] Preparing messages for joined channels...");
+				// Only as many as the cache keeps, newest page each
+				for (const channel of joinedChannels.slice(
+					0,
+					MAX_CACHED_CONTAINERS - PREFETCHED_CONVERSATIONS,
+				)) {
+					await prefetchMessages(channelKey(channel.id));
 				}
+				console.log("[Background] ✨ All channels ready!");
 			}
 		}
 
-		// Debounced version for regular updates
-		async function debouncedFetchChannels() {
-			const now = Date.now();
-			if (now - lastFetchRef.current < DEBOUNCE_TIME) {
-				return;
-			}
-			lastFetchRef.current = now;
-			await fetchChannels();
+		// Then the DMs with the latest messages, so switching to them is
+		// just as quick
+		const { data: participations } = await supabase
+			.from("conversation_participants")
+			.select("conversation_id, conversations!inner(workspace_id)")
+			.eq("user_id", user.id)
+			.eq("conversations.workspace_id", workspaceId);
+		const conversationIds = (participations ?? []).map(
+			(p) => p.conversation_id as string,
+		);
+		if (!conversationIds.length) return;
+
+		const { data: recentMessages, error: recentError } = await supabase
+			.from("messages")
+			.select("conversation_id")
+			.in("conversation_id", conversationIds)
+			.order("created_at", { ascending: false })
+			.limit(RECENT_CONVERSATION_MESSAGES);
+
+		if (recentError) {
+			console.error("[Background] Failed to get recent DMs:", recentError);
+			return;
 		}
 
-		// Initial fetch
+		const recentIds = Array.from(
+			new Set((recentMessages ?? []).map((m) => m.conversation_id as string)),
+		).slice(0, PREFETCHED_CONVERSATIONS);
+		for (const conversationId of recentIds) {
+			await prefetchMessages(conversationKey(conversationId));
+		}
+	}, [workspaceId, onChannelsLoaded, prefetchContainer]);
+
+	// Debounced version for regular updates
+	const debouncedFetchChannels = useCallback(async () => {
+		const now = Date.now();
+		if (now - lastFetchRef.current < DEBOUNCE_TIME) {
+			return;
+		}
+		lastFetchRef.current = now;
+		await fetchChannels();
+	}, [fetchChannels]);
+
+	useRealtimeEvents("channels", () => {
+		// Clear any existing timeout
+		if (timeoutRef.current) {
+			clearTimeout(timeoutRef.current);
+		}
+		// Set a new timeout to debounce the fetch
+		timeoutRef.current = setTimeout(() => {
+			console.log("[Background] Channel list changed, updating...");
+			debouncedFetchChannels();
+		}, DEBOUNCE_TIME);
+	});
+
+	useRealtimeEvents("channel_members", () => {
+		// For membership changes, update immediately without debounce
+		console.log(
+			"[Background] Channel membership changed, updating immediately...",
+		);
 		fetchChannels();
+	});
 
-		// Set up subscription for real-time updates
-		const channelSubscription = supabase
-			.channel("channel-changes")
-			.on(
-				"postgres_changes",
-				{
-					event: "*",
-					schema: "public",
-					table: "channels",
-					filter: `workspace_id=eq.${workspaceId}`,
-				},
-				() => {
-					// Clear any existing timeout
-					if (timeoutRef.current) {
-						clearTimeout(timeoutRef.current);
-					}
-					// Set a new timeout to debounce the fetch
-					timeoutRef.current = setTimeout(() => {
-						console.log("[Background] Channel list changed, updating...");
-						debouncedFetchChannels();
-					}, DEBOUNCE_TIME);
-				},
-			)
-			.on(
-				"postgres_changes",
-				{
-					event: "*",
-					schema: "public",
-					table: "channel_members",
-				},
-				() => {
-					// For membership changes, update immediately without debounce
-					console.log(
-						"[Background] Channel membership changed, updating immediately...",
-					);
-					fetchChannels();
-				},
-			)
-			.subscribe();
+	useEffect(() => {
+		// Add event listener for immediate channel updates
+		const handleChannelUpdate = (event: CustomEvent) => {
+			const { joinedChannels, unjoinedChannels } = event.detail;
+			onChannelsLoaded(joinedChannels, unjoinedChannels);
+		};
+
+		window.addEventListener(
+			"updateChannels",
+			handleChannelUpdate as EventListener,
+		);
+
+		// Initial fetch
+		fetchChannels();
 
 		return () => {
 			// Clean up event listener
@@ -213,11 +202,8 @@ export function ChannelPrefetcher({
 			if (timeoutRef.current) {
 				clearTimeout(timeoutRef.current);
 			}
-
-			// Unsubscribe from realtime updates
-			channelSubscription.unsubscribe();
 		};
-	}, [workspaceId, onChannelsLoaded, updateChannelMessages]);
+	}, [onChannelsLoaded, fetchChannels]);
 
 	return null; // This is a utility component, it doesn't render anything
 }
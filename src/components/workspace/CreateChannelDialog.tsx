@@ -31,6 +31,7 @@ export function CreateChannelDialog({
 }: CreateChannelDialogProps) {
 	const [channelName, setChannelName] = useState("");
 	const [description, setDescription] = useState("");
+	const [isPrivate, setIsPrivate] = useState(false);
 	const [isLoading, setIsLoading] = useState(false);
 	const [open, setOpen] = useState(false);
 	const { toast } = useToast();
@@ -53,10 +54,12 @@ export function CreateChannelDialog({
 				workspaceId,
 				channelName,
 				description,
+				isPrivate,
 			);
 			setOpen(false);
 			setChannelName("");
 			setDescription("");
+			setIsPrivate(false);
 			// Redirect to the new channel
 			router.push(`/workspace/${workspaceSlug}/channel/${newChannel.slug}`);
 		} catch (error: unknown) {
@@ -124,6 +127,22 @@ export function CreateChannelDialog({
 								disabled={isLoading}
 							/>
 						</div>
+						<div className="flex items-start gap-2">
+							<input
+								id="is-private"
+								type="checkbox"
+								checked={isPrivate}
+								onChange={(e) => setIsPrivate(e.target.checked)}
+								className="mt-1 accent-custom-accent"
+								disabled={isLoading}
+							/>
+							<Label htmlFor="is-private" className="text-custom-text">
+								Make private
+								<span className="block mt-1 font-normal text-custom-text-secondary">
+									Only people you invite can see or join this channel.
+								</span>
+							</Label>
+						</div>
 					</div>
 					<DialogFooter>
 						<Button
@@ -5,6 +5,7 @@ import {
 	Dialog,
 	DialogContent,
 	DialogDescription,
+	DialogFooter,
 	DialogHeader,
 	DialogTitle,
 	DialogTrigger,
@@ -14,7 +15,7 @@ import { createClient } from "@/utils/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useRouter } from "next/navigation";
 import { UserAvatar } from "@/components/ui/UserAvatar";
-import { RefreshCw } from "lucide-react";
+import { Check, RefreshCw } from "lucide-react";
 import type { ProfileWithId } from "@/types/profile";
 
 type UserProfile = ProfileWithId;
@@ -31,6 +32,9 @@ export function CreateDirectMessageDialog({
 	trigger,
 }: CreateDirectMessageDialogProps) {
 	const [availableUsers, setAvailableUsers] = useState<UserProfile[]>([]);
+	const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+	// Other user id -> their existing one-to-one DM with the current user
+	const [existingDMs, setExistingDMs] = useState<Record<string, string>>({});
 	const [isLoading, setIsLoading] = useState(false);
 	const [open, setOpen] = useState(false);
 	const { toast } = useToast();
@@ -109,43 +113,33 @@ export function CreateDirectMessageDialog({
 			}
 			console.log("[loadAvailableUsers] existingDMs =>", existingDMs);
 
-			// 4) Build list of user IDs already in a DM with current user
-			const existingDMUserIds = new Set<string>();
+			// 4) Map users already in a DM with current user to that DM, so
+			// picking just them reopens it
+			const existingDMsByUserId: Record<string, string> = {};
 			if (existingDMs) {
 				for (const dm of existingDMs) {
 					for (const participant of dm.conversation_participants) {
 						if (participant.user_id !== user.id) {
-							existingDMUserIds.add(participant.user_id);
+							existingDMsByUserId[participant.user_id] = dm.id;
 						}
 					}
 				}
 			}
 			console.log(
 				"[loadAvailableUsers] existingDMUserIds =>",
-				Array.from(existingDMUserIds),
+				Object.keys(existingDMsByUserId),
 			);
 
-			// 5) Fetch profiles of members who are not the current user & not already in a DM
+			// 5) Fetch profiles of members who are not the current user
 			console.log(
-				"[loadAvailableUsers] Fetching profiles, excluding current user & existing DM participants.",
+				"[loadAvailableUsers] Fetching profiles, excluding current user.",
 			);
-			const dmUserIdsArray = Array.from(existingDMUserIds);
-
-			// Construct a base query
-			let query = supabase
+			const { data: profiles, error: profilesError } = await supabase
 				.from("profiles")
 				.select("id, full_name, display_name, avatar_url, avatar_cache")
 				.in("id", memberIds)
-				.neq("id", user.id);
-
-			// Only apply "not.in" if there are items to exclude
-			if (dmUserIdsArray.length > 0) {
-				query = query.filter("id", "not.in", dmUserIdsArray);
-			}
-
-			query = query.order("full_name");
-
-			const { data: profiles, error: profilesError } = await query;
+				.neq("id", user.id)
+				.order("full_name");
 
 			if (profilesError) {
 				console.error(
@@ -160,6 +154,7 @@ export function CreateDirectMessageDialog({
 			);
 
 			setAvailableUsers(profiles || []);
+			setExistingDMs(existingDMsByUserId);
 		} catch (error) {
 			console.error("[loadAvailableUsers] Unexpected error:", error);
 			toast({
@@ -175,25 +170,44 @@ export function CreateDirectMessageDialog({
 
 	useEffect(() => {
 		if (open) {
+			setSelectedUserIds([]);
 			loadAvailableUsers();
 		}
 	}, [open, loadAvailableUsers]);
 
-	const startConversation = async (otherUserId: string) => {
+	const toggleUser = (userId: string) => {
+		setSelectedUserIds((current) =>
+			current.includes(userId)
+				? current.filter((id) => id !== userId)
+				: [...current, userId],
+		);
+	};
+
+	const startConversation = async () => {
+		if (!selectedUserIds.length) return;
+
 		setIsLoading(true);
 		console.log(
-			"[startConversation] Attempting with otherUserId =>",
-			otherUserId,
+			"[startConversation] Attempting with selectedUserIds =>",
+			selectedUserIds,
 		);
 		try {
-			// Call the SECURITY DEFINER function
-			const { data: conversationId, error } = await supabase.rpc(
-				"create_direct_message",
-				{
-					workspace_id_param: workspaceId,
-					other_user_id_param: otherUserId,
-				},
-			);
+			const isGroup = selectedUserIds.length > 1;
+			const existingDMId = isGroup ? null : existingDMs[selectedUserIds[0]];
+
+			// Call the SECURITY DEFINER function (group creation reuses an
+			// existing group with the same people)
+			const { data: conversationId, error } = existingDMId
+				? { data: existingDMId, error: null }
+				: isGroup
+					? await supabase.rpc("create_group_conversation", {
+							p_workspace_id: workspaceId,
+							p_user_ids: selectedUserIds,
+						})
+					: await supabase.rpc("create_direct_message", {
+							workspace_id_param: workspaceId,
+							other_user_id_param: selectedUserIds[0],
+						});
 
 			if (error) {
 				console.error(
@@ -243,7 +257,7 @@ export function CreateDirectMessageDialog({
 						Start Direct Message
 					</DialogTitle>
 					<DialogDescription className="text-custom-text-secondary">
-						Choose a workspace member to start a direct message conversation.
+						Choose one or more workspace members to start a conversation with.
 					</DialogDescription>
 				</DialogHeader>
 
@@ -252,31 +266,51 @@ export function CreateDirectMessageDialog({
 						<RefreshCw className="w-4 h-4 animate-spin text-custom-text-secondary" />
 					</div>
 				) : (
-					<div className="space-y-1">
-						{availableUsers.map((user) => {
-							const displayName = user.display_name || user.full_name;
+					<>
+						<div className="space-y-1 max-h-[360px] overflow-y-auto">
+							{availableUsers.map((user) => {
+								const displayName = user.display_name || user.full_name;
+								const isSelected = selectedUserIds.includes(user.id);
 
-							return (
-								<button
-									key={user.id}
-									onClick={() => startConversation(user.id)}
-									className="w-full flex items-center gap-3 px-3 py-2 rounded-md hover:bg-custom-ui-faint text-left"
-									type="button"
-								>
-									<UserAvatar
-										fullName={user.full_name}
-										displayName={user.display_name}
-										avatarUrl={user.avatar_url}
-										avatarCache={user.avatar_cache}
-										size="sm"
-									/>
-									<span className="text-sm text-custom-text">
-										{displayName}
-									</span>
-								</button>
-							);
-						})}
-					</div>
+								return (
+									<button
+										key={user.id}
+										onClick={() => toggleUser(user.id)}
+										className={`w-full flex items-center gap-3 px-3 py-2 rounded-md hover:bg-custom-ui-faint text-left ${
+											isSelected ? "bg-custom-ui-faint" : ""
+										}`}
+										type="button"
+										aria-pressed={isSelected}
+									>
+										<UserAvatar
+											fullName={user.full_name}
+											displayName={user.display_name}
+											avatarUrl={user.avatar_url}
+											avatarCache={user.avatar_cache}
+											size="sm"
+										/>
+										<span className="text-sm text-custom-text">
+											{displayName}
+										</span>
+										{isSelected && (
+											<Check className="ml-auto h-4 w-4 text-custom-accent" />
+										)}
+									</button>
+								);
+							})}
+						</div>
+						<DialogFooter>
+							<Button
+								onClick={startConversation}
+								className="bg-custom-accent text-white hover:bg-custom-accent/90"
+								disabled={!selectedUserIds.length}
+							>
+								{selectedUserIds.length > 1
+									? `Start group with ${selectedUserIds.length} people`
+									: "Start conversation"}
+							</Button>
+						</DialogFooter>
+					</>
 				)}
 			</DialogContent>
 		</Dialog>
@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MessageTimestamp } from "@/components/messages/MessageTimestamp";
+import { MentionText } from "@/components/messages/MentionText";
+import { deleteDraft } from "@/app/actions/drafts";
+import { useCurrentUserId } from "@/hooks/useCurrentUserId";
+import { buildComposeHref } from "@/utils/messageLinks";
+import { saveDraftFiles } from "@/utils/drafts";
+import { useRealtimeEvents } from "./WorkspaceRealtime";
+import type { DraftWithLocation } from "@/types/draft";
+
+interface DraftsListProps {
+	workspaceSlug: string;
+	drafts: DraftWithLocation[];
+}
+
+function describeLocation(draft: DraftWithLocation) {
+	const place = draft.channel
+		? `#${draft.channel.name}`
+		: draft.conversationName || "a direct message";
+	return draft.parent_id ? `Thread in ${place}` : place;
+}
+
+export function DraftsList({
+	workspaceSlug,
+	drafts: initialDrafts,
+}: DraftsListProps) {
+	const [drafts, setDrafts] = useState(initialDrafts);
+	const router = useRouter();
+	const userId = useCurrentUserId();
+
+	useEffect(() => {
+		setDrafts(initialDrafts);
+	}, [initialDrafts]);
+
+	// Drafts saved or sent elsewhere, including on another device
+	useRealtimeEvents("message_drafts", () => router.refresh());
+
+	const handleDelete = async (draft: DraftWithLocation) => {
+		setDrafts((prev) => prev.filter((d) => d.id !== draft.id));
+		try {
+			await deleteDraft(draft.id);
+			if (userId) {
+				await saveDraftFiles(userId, draft.draft_key, []);
+			}
+		} catch (error) {
+			console.error("[DraftsList] Failed to delete draft:", error);
+			setDrafts(initialDrafts);
+		}
+	};
+
+	if (!drafts.length) {
+		return (
+			<div className="flex items-center justify-center h-full text-custom-text-secondary">
+				No drafts. Anything you start typing and haven&apos;t sent shows up
+				here.
+			</div>
+		);
+	}
+
+	return (
+		<ul className="divide-y divide-custom-ui-faint">
+			{drafts.map((draft) => (
+				<li key={draft.id} className="group relative">
+					<Link
+						href={buildComposeHref(workspaceSlug, draft)}
+						className="block px-8 py-4 pr-16 hover:bg-custom-ui-faint"
+					>
+						<div className="flex items-baseline gap-2 text-sm">
+							<span className="font-semibold text-custom-text truncate">
+								{describeLocation(draft)}
+							</span>
+							<MessageTimestamp
+								timestamp={draft.updated_at}
+								className="ml-auto shrink-0 text-custom-text-tertiary"
+							/>
+						</div>
+						<p className="mt-1 text-custom-text whitespace-pre-wrap break-words line-clamp-3">
+							<MentionText content={draft.content} mentions={draft.mentions} />
+						</p>
+					</Link>
+					<Button
+						variant="ghost"
+						size="icon"
+						title="Delete draft"
+						onClick={() => handleDelete(draft)}
+						className="absolute right-4 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+					>
+						<Trash2 className="h-4 w-4" />
+					</Button>
+				</li>
+			))}
+		</ul>
+	);
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+import { markMentionsRead } from "@/app/actions/mentions";
+import { UserAvatar } from "@/components/ui/UserAvatar";
+import { MessageTimestamp } from "@/components/messages/MessageTimestamp";
+import { MentionText } from "@/components/messages/MentionText";
+import { buildMessageHref } from "@/utils/messageLinks";
+import type { MentionWithMessage } from "@/types/mention";
+
+interface MentionsInboxProps {
+	workspaceId: string;
+	workspaceSlug: string;
+	mentions: MentionWithMessage[];
+}
+
+const MENTION_TYPE_LABELS: Record<MentionWithMessage["mention_type"], string> =
+	{
+		user: "mentioned you",
+		channel: "mentioned @channel",
+		here: "mentioned @here",
+	};
+
+export function MentionsInbox({
+	workspaceId,
+	workspaceSlug,
+	mentions,
+}: MentionsInboxProps) {
+	// Opening the inbox counts as reading it
+	useEffect(() => {
+		if (!mentions.some((mention) => !mention.read_at)) return;
+
+		markMentionsRead(workspaceId).catch((error) => {
+			console.error("[MentionsInbox] Failed to mark mentions read:", error);
+		});
+	}, [workspaceId, mentions]);
+
+	if (!mentions.length) {
+		return (
+			<div className="flex items-center justify-center h-full text-custom-text-secondary">
+				Nobody has mentioned you yet
+			</div>
+		);
+	}
+
+	return (
+		<ul className="divide-y divide-custom-ui-faint">
+			{mentions.map((mention) => {
+				const author = mention.message?.profile;
+				const authorName =
+					author?.display_name || author?.full_name || "Unknown User";
+				const href = buildMessageHref(workspaceSlug, {
+					id: mention.message_id,
+					parent_id: mention.message?.parent_id ?? null,
+					conversation_id: mention.conversation_id,
+					channel: mention.channel,
+				});
+
+				return (
+					<li key={mention.id}>
+						<Link
+							href={href}
+							className={`flex items-start gap-3 px-8 py-4 hover:bg-custom-ui-faint ${
+								mention.read_at ? "" : "bg-custom-ui-faint/50"
+							}`}
+						>
+							<UserAvatar
+								fullName={author?.full_name || "User"}
+								displayName={author?.display_name}
+								avatarUrl={author?.avatar_url}
+								avatarCache={author?.avatar_cache}
+								avatarColor={author?.avatar_color}
+								size="md"
+							/>
+							<div className="flex-1 min-w-0">
+								<div className="flex items-baseline gap-2 text-sm">
+									<span className="font-semibold text-custom-text">
+										{authorName}
+									</span>
+									<span className="text-custom-text-secondary">
+										{MENTION_TYPE_LABELS[mention.mention_type]} in{" "}
+										{mention.channel
+											? `#${mention.channel.name}`
+											: "a direct message"}
+										{mention.message?.parent_id ? " (thread)" : ""}
+									</span>
+									<MessageTimestamp
+										timestamp={mention.created_at}
+										className="ml-auto text-custom-text-tertiary"
+									/>
+								</div>
+								<p className="mt-1 text-custom-text whitespace-pre-wrap break-words line-clamp-3">
+									<MentionText
+										content={mention.message?.content || ""}
+										mentions={mention.message?.mentions}
+									/>
+								</p>
+							</div>
+						</Link>
+					</li>
+				);
+			})}
+		</ul>
+	);
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useCallback } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import {
+	useDueReminders,
+	type ReminderWithMessage,
+} from "@/hooks/useDueReminders";
+import { markReminderDelivered } from "@/app/actions/reminders";
+import { buildMessageHref } from "@/utils/messageLinks";
+
+/**
+ * Shows the user's reminders as notifications when they fall due.
+ */
+export function ReminderNotifier({ workspaceId }: { workspaceId: string }) {
+	const { toast } = useToast();
+	const router = useRouter();
+	const { workspaceSlug } = useParams<{ workspaceSlug: string }>();
+
+	const handleDue = useCallback(
+		(reminder: ReminderWithMessage) => {
+			const href = reminder.message
+				? buildMessageHref(workspaceSlug, reminder.message)
+				: null;
+
+			toast({
+				title: "Reminder",
+				description: reminder.note,
+				duration: Number.POSITIVE_INFINITY,
+				action: href ? (
+					<ToastAction altText="View message" onClick={() => router.push(href)}>
+						View message
+					</ToastAction>
+				) : undefined,
+			});
+
+			markReminderDelivered(reminder.id).catch((error) => {
+				console.error("[ReminderNotifier] Failed to mark delivered:", error);
+			});
+		},
+		[router, toast, workspaceSlug],
+	);
+
+	useDueReminders(workspaceId, handleDue);
+
+	return null;
+}
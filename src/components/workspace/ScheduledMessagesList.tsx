@@ -0,0 +1,257 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { Paperclip, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert } from "@/components/ui/Alert";
+import { MentionText } from "@/components/messages/MentionText";
+import {
+	cancelScheduledMessage,
+	updateScheduledMessage,
+} from "@/app/actions/scheduledMessages";
+import { buildComposeHref } from "@/utils/messageLinks";
+import { useRealtimeEvents } from "./WorkspaceRealtime";
+import type { ScheduledMessageWithLocation } from "@/types/scheduledMessage";
+
+interface ScheduledMessagesListProps {
+	workspaceSlug: string;
+	scheduledMessages: ScheduledMessageWithLocation[];
+}
+
+function describeLocation(scheduled: ScheduledMessageWithLocation) {
+	const place = scheduled.channel
+		? `#${scheduled.channel.name}`
+		: scheduled.conversationName || "a direct message";
+	return scheduled.parent_id ? `Thread in ${place}` : place;
+}
+
+function describeStatus(scheduled: ScheduledMessageWithLocation) {
+	if (scheduled.published_at) {
+		return scheduled.status === "failed"
+			? `Sent, but attachments failed: ${scheduled.last_error || "unknown error"}`
+			: "Sent, attaching files...";
+	}
+	if (scheduled.status === "sending") return "Sending...";
+	if (scheduled.status === "failed") {
+		return `Failed to send: ${scheduled.last_error || "unknown error"}`;
+	}
+	return `Sends ${format(new Date(scheduled.send_at), "EEE d MMM 'at' HH:mm")}`;
+}
+
+function ScheduledMessageItem({
+	workspaceSlug,
+	scheduled,
+	onError,
+	onCancel,
+}: {
+	workspaceSlug: string;
+	scheduled: ScheduledMessageWithLocation;
+	onError: (message: string) => void;
+	onCancel: (id: string) => void;
+}) {
+	const [isEditing, setIsEditing] = useState(false);
+	const [content, setContent] = useState(scheduled.content);
+	const [sendAt, setSendAt] = useState("");
+	const [isSaving, setIsSaving] = useState(false);
+	// Already posted, or being posted
+	const isLocked = scheduled.status === "sending" || !!scheduled.published_at;
+
+	const startEditing = () => {
+		setContent(scheduled.content);
+		// A failed message needs a new time; otherwise keep the one it had
+		setSendAt(
+			scheduled.status === "failed"
+				? ""
+				: format(new Date(scheduled.send_at), "yyyy-MM-dd'T'HH:mm"),
+		);
+		setIsEditing(true);
+	};
+
+	const handleSave = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setIsSaving(true);
+		try {
+			await updateScheduledMessage({
+				id: scheduled.id,
+				content,
+				sendAt: new Date(sendAt).toISOString(),
+			});
+			setIsEditing(false);
+		} catch (error) {
+			console.error("[ScheduledMessagesList] Failed to update:", error);
+			onError(
+				error instanceof Error
+					? error.message
+					: "Failed to update scheduled message",
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	if (isEditing) {
+		return (
+			<form onSubmit={handleSave} className="px-8 py-4 space-y-2">
+				<div className="text-sm font-semibold text-custom-text">
+					{describeLocation(scheduled)}
+				</div>
+				<Textarea
+					value={content}
+					onChange={(e) => setContent(e.target.value)}
+					className="min-h-[80px] bg-custom-background border border-custom-ui-faint text-custom-text"
+				/>
+				<div className="flex items-center gap-2">
+					<Input
+						type="datetime-local"
+						value={sendAt}
+						min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+						onChange={(e) => setSendAt(e.target.value)}
+						className="w-56 bg-custom-background border-custom-ui-medium text-custom-text"
+					/>
+					<Button
+						type="button"
+						variant="ghost"
+						size="sm"
+						onClick={() => setIsEditing(false)}
+						className="ml-auto text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+					>
+						Cancel
+					</Button>
+					<Button
+						type="submit"
+						size="sm"
+						disabled={isSaving || !sendAt}
+						className="bg-custom-accent text-white hover:bg-custom-accent/90"
+					>
+						Save
+					</Button>
+				</div>
+			</form>
+		);
+	}
+
+	return (
+		<div className="group relative">
+			<Link
+				href={buildComposeHref(workspaceSlug, scheduled)}
+				className="block px-8 py-4 pr-24 hover:bg-custom-ui-faint"
+			>
+				<div className="flex items-baseline gap-2 text-sm">
+					<span className="font-semibold text-custom-text truncate">
+						{describeLocation(scheduled)}
+					</span>
+					<span
+						className={`ml-auto shrink-0 ${
+							scheduled.status === "failed"
+								? "text-red-500"
+								: "text-custom-text-tertiary"
+						}`}
+					>
+						{describeStatus(scheduled)}
+					</span>
+				</div>
+				<p className="mt-1 text-custom-text whitespace-pre-wrap break-words line-clamp-3">
+					<MentionText
+						content={scheduled.content}
+						mentions={scheduled.mentions}
+					/>
+				</p>
+				{scheduled.files.length > 0 && (
+					<div className="mt-1 flex items-center gap-1 text-xs text-custom-text-secondary">
+						<Paperclip className="h-3 w-3" />
+						{scheduled.files.length === 1
+							? scheduled.files[0].name
+							: `${scheduled.files.length} attachments`}
+					</div>
+				)}
+			</Link>
+			{!isLocked && (
+				<div className="absolute right-4 top-1/2 -translate-y-1/2 flex gap-1 opacity-0 group-hover:opacity-100">
+					<Button
+						variant="ghost"
+						size="icon"
+						title="Edit or reschedule"
+						onClick={startEditing}
+						className="text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+					>
+						<Pencil className="h-4 w-4" />
+					</Button>
+					<Button
+						variant="ghost"
+						size="icon"
+						title="Cancel scheduled message"
+						onClick={() => onCancel(scheduled.id)}
+						className="text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+					>
+						<Trash2 className="h-4 w-4" />
+					</Button>
+				</div>
+			)}
+		</div>
+	);
+}
+
+export function ScheduledMessagesList({
+	workspaceSlug,
+	scheduledMessages: initialScheduledMessages,
+}: ScheduledMessagesListProps) {
+	const [scheduledMessages, setScheduledMessages] = useState(
+		initialScheduledMessages,
+	);
+	const [error, setError] = useState<string | null>(null);
+	const router = useRouter();
+
+	useEffect(() => {
+		setScheduledMessages(initialScheduledMessages);
+	}, [initialScheduledMessages]);
+
+	// Edits, and messages going out, including from another tab
+	useRealtimeEvents("scheduled_messages", () => router.refresh());
+
+	const handleCancel = async (id: string) => {
+		setScheduledMessages((prev) => prev.filter((s) => s.id !== id));
+		try {
+			await cancelScheduledMessage(id);
+		} catch (error) {
+			console.error("[ScheduledMessagesList] Failed to cancel:", error);
+			setScheduledMessages(initialScheduledMessages);
+			setError(
+				error instanceof Error
+					? error.message
+					: "Failed to cancel scheduled message",
+			);
+		}
+	};
+
+	if (!scheduledMessages.length) {
+		return (
+			<div className="flex items-center justify-center h-full text-custom-text-secondary">
+				No scheduled messages. Use the clock in the message box to send one
+				later.
+			</div>
+		);
+	}
+
+	return (
+		<>
+			{error && <Alert message={error} onDismiss={() => setError(null)} />}
+			<ul className="divide-y divide-custom-ui-faint">
+				{scheduledMessages.map((scheduled) => (
+					<li key={scheduled.id}>
+						<ScheduledMessageItem
+							workspaceSlug={workspaceSlug}
+							scheduled={scheduled}
+							onError={setError}
+							onCancel={handleCancel}
+						/>
+					</li>
+				))}
+			</ul>
+		</>
+	);
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { startWorkspaceReindex } from "@/app/actions/reindex";
+import { createClient } from "@/utils/supabase/client";
+import { useRealtimeEvents } from "@/components/workspace/WorkspaceRealtime";
+import type { ReindexRun } from "@/types/workspace";
+
+const supabase = createClient();
+
+function ProgressRow({
+	label,
+	done,
+	total,
+}: {
+	label: string;
+	done: number;
+	total: number;
+}) {
+	const percent = total ? Math.min(100, Math.round((done / total) * 100)) : 100;
+
+	return (
+		<div className="space-y-1">
+			<div className="flex justify-between text-xs text-custom-text-secondary">
+				<span>{label}</span>
+				<span>
+					{Math.min(done, total)} / {total}
+				</span>
+			</div>
+			<div className="h-1.5 rounded-full bg-custom-ui-faint overflow-hidden">
+				<div
+					className="h-full bg-custom-accent transition-[width]"
+					style={{ width: `${percent}%` }}
+				/>
+			</div>
+		</div>
+	);
+}
+
+/**
+ * Rebuild the workspace's search embeddings and follow the latest run's
+ * progress. Only workspace admins can see runs (RLS), so everyone else
+ * gets nothing rendered.
+ */
+export function SearchIndexSettings({ workspaceId }: { workspaceId: string }) {
+	const [isAdmin, setIsAdmin] = useState(false);
+	const [run, setRun] = useState<ReindexRun | null>(null);
+	const [isStarting, setIsStarting] = useState(false);
+	const { toast } = useToast();
+
+	const loadLatestRun = useCallback(async () => {
+		const { data, error } = await supabase
+			.from("reindex_runs")
+			.select("*")
+			.eq("workspace_id", workspaceId)
+			.order("created_at", { ascending: false })
+			.limit(1)
+			.maybeSingle();
+
+		if (error) {
+			console.error("[SearchIndexSettings] Failed to load reindex run:", error);
+			return;
+		}
+
+		setRun(data);
+	}, [workspaceId]);
+
+	useEffect(() => {
+		let isMounted = true;
+
+		async function load() {
+			const {
+				data: { user },
+			} = await supabase.auth.getUser();
+			if (!user) return;
+
+			const { data: membership } = await supabase
+				.from("workspace_members")
+				.select("role")
+				.eq("workspace_id", workspaceId)
+				.eq("user_id", user.id)
+				.single();
+
+			const canManage =
+				membership?.role === "owner" || membership?.role === "admin";
+			if (!isMounted || !canManage) return;
+
+			setIsAdmin(true);
+			await loadLatestRun();
+		}
+
+		load();
+
+		return () => {
+			isMounted = false;
+		};
+	}, [workspaceId, loadLatestRun]);
+
+	useRealtimeEvents("reindex_runs", () => {
+		if (isAdmin) {
+			loadLatestRun();
+		}
+	});
+
+	const handleStart = async () => {
+		setIsStarting(true);
+		try {
+			setRun(await startWorkspaceReindex(workspaceId));
+		} catch (error) {
+			toast({
+				title: "Error",
+				description:
+					error instanceof Error ? error.message : "Failed to start reindex",
+				variant: "destructive",
+			});
+		} finally {
+			setIsStarting(false);
+		}
+	};
+
+	if (!isAdmin) return null;
+
+	const isActive = run?.status === "pending" || run?.status === "running";
+
+	return (
+		<div className="pt-6 mt-6 border-t border-custom-ui-medium">
+			<h3 className="text-sm font-medium text-custom-text mb-2">
+				Search Index
+			</h3>
+			<p className="text-sm text-custom-text-secondary mb-4">
+				Rebuild embeddings for messages and files that are missing or were made
+				with an older model. Runs in the background and resumes if interrupted.
+			</p>
+
+			{run && (
+				<div className="space-y-3 mb-4">
+					<ProgressRow
+						label="Messages"
+						done={run.messages_done}
+						total={run.messages_total}
+					/>
+					<ProgressRow
+						label="Files"
+						done={run.files_done}
+						total={run.files_total}
+					/>
+					<p className="text-xs text-custom-text-secondary">
+						{isActive
+							? "Reindexing…"
+							: `Finished ${new Date(run.finished_at ?? run.updated_at).toLocaleString()}`}
+						{run.error_count > 0 &&
+							` · ${run.error_count} failed${run.last_error ? ` (${run.last_error})` : ""}`}
+					</p>
+				</div>
+			)}
+
+			<Button
+				onClick={handleStart}
+				variant="outline"
+				className="border-custom-ui-medium hover:bg-custom-ui-faint text-custom-text"
+				disabled={isActive || isStarting}
+			>
+				<RefreshCw
+					className={`w-4 h-4 mr-2 ${isActive || isStarting ? "animate-spin" : ""}`}
+				/>
+				{isActive ? "Reindexing" : "Rebuild search index"}
+			</Button>
+		</div>
+	);
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import Link from "next/link";
+import { UserAvatar } from "@/components/ui/UserAvatar";
+import { MessageTimestamp } from "@/components/messages/MessageTimestamp";
+import { buildMessageHref } from "@/utils/messageLinks";
+import { getSearchTerms, type ParsedSearchQuery } from "@/utils/searchQuery";
+import type { MessageSearchResult } from "@/types/search";
+
+interface SearchResultsProps {
+	workspaceSlug: string;
+	query: ParsedSearchQuery;
+	results: MessageSearchResult[];
+	hasQuery: boolean;
+}
+
+const SNIPPET_LENGTH = 240;
+
+function escapeRegExp(value: string) {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Up to SNIPPET_LENGTH characters of the message around the first search
+ * term, split into plain and matching parts.
+ */
+function buildSnippet(content: string, terms: string[]) {
+	const pattern = terms.length
+		? new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi")
+		: null;
+
+	let text = content;
+	if (content.length > SNIPPET_LENGTH) {
+		const firstMatch = pattern ? content.search(pattern) : -1;
+		const start = Math.max(0, firstMatch - SNIPPET_LENGTH / 3);
+		text = `${start > 0 ? "…" : ""}${content.slice(start, start + SNIPPET_LENGTH)}${
+			start + SNIPPET_LENGTH < content.length ? "…" : ""
+		}`;
+	}
+
+	if (!pattern) return [{ text, isMatch: false }];
+
+	// With a capture group, split puts the matches at odd indexes
+	return text
+		.split(pattern)
+		.map((part, i) => ({ text: part, isMatch: i % 2 === 1 }))
+		.filter((part) => part.text);
+}
+
+export function SearchResults({
+	workspaceSlug,
+	query,
+	results,
+	hasQuery,
+}: SearchResultsProps) {
+	if (!hasQuery) {
+		return (
+			<div className="flex items-center justify-center h-full text-custom-text-secondary">
+				Search for messages in this workspace
+			</div>
+		);
+	}
+
+	if (!results.length) {
+		return (
+			<div className="flex items-center justify-center h-full text-custom-text-secondary">
+				No messages found
+			</div>
+		);
+	}
+
+	const terms = getSearchTerms(query.text);
+
+	return (
+		<ul className="divide-y divide-custom-ui-faint">
+			{results.map((result) => {
+				const authorName =
+					result.profile?.display_name ||
+					result.profile?.full_name ||
+					"Unknown User";
+
+				return (
+					<li key={result.id}>
+						<Link
+							href={buildMessageHref(workspaceSlug, result)}
+							className="flex items-start gap-3 px-8 py-4 hover:bg-custom-ui-faint"
+						>
+							<UserAvatar
+								fullName={result.profile?.full_name || "User"}
+								displayName={result.profile?.display_name}
+								avatarUrl={result.profile?.avatar_url}
+								avatarCache={result.profile?.avatar_cache}
+								avatarColor={result.profile?.avatar_color}
+								size="md"
+							/>
+							<div className="flex-1 min-w-0">
+								<div className="flex items-baseline gap-2 text-sm">
+									<span className="font-semibold text-custom-text">
+										{authorName}
+									</span>
+									<span className="text-custom-text-secondary">
+										in{" "}
+										{result.channel
+											? `#${result.channel.name}`
+											: "a direct message"}
+										{result.parent_id ? " (thread)" : ""}
+									</span>
+									<MessageTimestamp
+										timestamp={result.created_at}
+										className="ml-auto text-custom-text-tertiary"
+									/>
+								</div>
+								<p className="mt-1 text-custom-text whitespace-pre-wrap break-words line-clamp-3">
+									{buildSnippet(result.content, terms).map((part, i) =>
+										part.isMatch ? (
+											<mark
+												key={i}
+												className="bg-custom-accent/20 text-custom-text rounded-sm"
+											>
+												{part.text}
+											</mark>
+										) : (
+											part.text
+										),
+									)}
+								</p>
+							</div>
+						</Link>
+					</li>
+				);
+			})}
+		</ul>
+	);
+}
@@ -9,20 +9,96 @@ import { CreateChannelDialog } from "./CreateChannelDialog";
 import { WorkspaceSettingsDialog } from "./WorkspaceSettingsDialog";
 import { CreateDirectMessageDialog } from "./CreateDirectMessageDialog";
 import { UserAvatar } from "@/components/ui/UserAvatar";
+import { GroupAvatar } from "@/components/ui/GroupAvatar";
 import { ChannelPrefetcher } from "./ChannelPrefetcher";
+import { useRealtimeEvents } from "./WorkspaceRealtime";
 import type { ProfileDisplay } from "@/types/profile";
 import type {
 	ConversationWithParticipants,
-	ConversationWithParticipant,
+	ConversationWithOthers,
 } from "@/types/conversation";
 import type { ChannelBasic } from "@/types/channel";
 import type { WorkspaceBasic } from "@/types/workspace";
 import { UnjoinedChannels } from "./UnjoinedChannels";
+import { useUnreadMentionCount } from "@/hooks/useUnreadMentionCount";
+import { useUnreadCounts } from "@/hooks/useUnreadCounts";
+import { useDraftLocations } from "@/hooks/useDraftLocations";
+import { markAllAsRead } from "@/app/actions/unread";
+import { getConversationName } from "@/utils/conversation";
+import { AtSign, CheckCheck, Clock, Lock, Pencil } from "lucide-react";
+
+// How often to refresh profiles.last_seen, which @here uses to find who's online
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
 
 type ConversationResponse = ConversationWithParticipants;
-type Conversation = ConversationWithParticipant;
+type Conversation = ConversationWithOthers;
 type UserProfile = ProfileDisplay;
 
+const CONVERSATION_SELECT = `
+	id,
+	type,
+	conversation_participants!inner (
+		user_id,
+		profiles!inner (
+			full_name,
+			display_name,
+			avatar_url,
+			avatar_color,
+			avatar_cache
+		)
+	)
+`;
+
+/**
+ * Keep only the other participants of each DM and group DM, dropping
+ * conversations with nobody else left in them.
+ */
+function toConversationsWithOthers(
+	conversations: ConversationResponse[] | null,
+	userId: string,
+): Conversation[] {
+	return (
+		conversations
+			?.map((conv) => ({
+				id: conv.id,
+				type: conv.type,
+				participants: conv.conversation_participants.filter(
+					(p) => p.user_id !== userId,
+				),
+			}))
+			.filter((conv) => conv.participants.length > 0) || []
+	);
+}
+
+/**
+ * What's waiting in a channel or DM: a pencil for an unsent draft, and the
+ * unread count.
+ */
+function SidebarBadges({
+	unreadCount,
+	hasDraft,
+}: {
+	unreadCount: number;
+	hasDraft: boolean;
+}) {
+	if (!unreadCount && !hasDraft) return null;
+
+	return (
+		<span className="ml-auto flex shrink-0 items-center gap-1.5 pl-2">
+			{hasDraft && (
+				<span title="Draft">
+					<Pencil className="h-3.5 w-3.5 text-custom-text-tertiary" />
+				</span>
+			)}
+			{unreadCount > 0 && (
+				<span className="rounded-full bg-custom-accent px-1.5 text-xs font-medium text-white">
+					{unreadCount}
+				</span>
+			)}
+		</span>
+	);
+}
+
 export function Sidebar({ workspaceId }: { workspaceId: string }) {
 	const [workspace, setWorkspace] = useState<WorkspaceBasic | null>(null);
 	const [joinedChannels, setJoinedChannels] = useState<ChannelBasic[]>([]);
@@ -32,6 +108,9 @@ export function Sidebar({ workspaceId }: { workspaceId: string }) {
 	const supabase = createClient();
 	const router = useRouter();
 	const pathname = usePathname();
+	const unreadMentionCount = useUnreadMentionCount(workspaceId);
+	const unreadCounts = useUnreadCounts(workspaceId);
+	const drafts = useDraftLocations(workspaceId);
 
 	const handleChannelsLoaded = useCallback(
 		(joined: ChannelBasic[], unjoined: ChannelBasic[]) => {
@@ -56,38 +135,16 @@ export function Sidebar({ workspaceId }: { workspaceId: string }) {
 				.eq("id", workspaceId)
 				.single();
 
-			// Load conversations
+			// Load conversations (DMs and group DMs)
 			const { data: conversations } = await supabase
 				.from("conversations")
-				.select(`
-					id,
-					conversation_participants!inner (
-						user_id,
-						profiles!inner (
-							full_name,
-							display_name,
-							avatar_url,
-							avatar_cache
-						)
-					)
-				`)
-				.eq("workspace_id", workspaceId)
-				.eq("type", "direct");
-
-			// Transform conversations to get other participant
-			const transformedConversations =
-				(conversations as ConversationResponse[] | null)
-					?.map((conv) => {
-						const otherParticipant = conv.conversation_participants.find(
-							(p) => p.user_id !== user.id,
-						);
-						if (!otherParticipant) return null;
-						return {
-							id: conv.id,
-							participant: otherParticipant,
-						};
-					})
-					.filter((conv): conv is Conversation => conv !== null) || [];
+				.select(CONVERSATION_SELECT)
+				.eq("workspace_id", workspaceId);
+
+			const transformedConversations = toConversationsWithOthers(
+				conversations as ConversationResponse[] | null,
+				user.id,
+			);
 
 			// Load user profile
 			const { data: profile } = await supabase
@@ -99,63 +156,73 @@ export function Sidebar({ workspaceId }: { workspaceId: string }) {
 			setWorkspace(workspace);
 			setConversations(transformedConversations || []);
 			setProfile(profile);
-
-			// Subscribe to conversation changes
-			const conversationSubscription = supabase
-				.channel("conversation-changes")
-				.on(
-					"postgres_changes",
-					{
-						event: "*",
-						schema: "public",
-						table: "conversations",
-						filter: `workspace_id=eq.${workspaceId}`,
-					},
-					async () => {
-						const { data: updatedConversations } = await supabase
-							.from("conversations")
-							.select(`
-								id,
-								conversation_participants!inner (
-									user_id,
-									profiles!inner (
-										full_name,
-										display_name,
-										avatar_url,
-										avatar_cache
-									)
-								)
-							`)
-							.eq("workspace_id", workspaceId)
-							.eq("type", "direct");
-
-						const transformedConversations =
-							(updatedConversations as ConversationResponse[] | null)
-								?.map((conv) => {
-									const otherParticipant = conv.conversation_participants.find(
-										(p) => p.user_id !== user.id,
-									);
-									if (!otherParticipant) return null;
-									return {
-										id: conv.id,
-										participant: otherParticipant,
-									};
-								})
-								.filter((conv): conv is Conversation => conv !== null) || [];
-
-						setConversations(transformedConversations);
-					},
-				)
-				.subscribe();
-
-			return () => {
-				conversationSubscription.unsubscribe();
-			};
 		}
 
 		loadInitialData();
 	}, [workspaceId, supabase]);
 
+	// Reload conversations when they change, including on being added to or
+	// removed from a group
+	const reloadConversations = async () => {
+		const {
+			data: { user },
+		} = await supabase.auth.getUser();
+		if (!user) return;
+
+		const { data: updatedConversations } = await supabase
+			.from("conversations")
+			.select(CONVERSATION_SELECT)
+			.eq("workspace_id", workspaceId);
+
+		setConversations(
+			toConversationsWithOthers(
+				updatedConversations as ConversationResponse[] | null,
+				user.id,
+			),
+		);
+	};
+	useRealtimeEvents("conversations", reloadConversations);
+	useRealtimeEvents("conversation_participants", reloadConversations);
+
+	// Keep last_seen fresh while the workspace is open
+	useEffect(() => {
+		async function touchLastSeen() {
+			const {
+				data: { user },
+			} = await supabase.auth.getUser();
+			if (!user) return;
+
+			await supabase
+				.from("profiles")
+				.update({ last_seen: new Date().toISOString() })
+				.eq("id", user.id);
+		}
+
+		touchLastSeen();
+		const interval = setInterval(touchLastSeen, LAST_SEEN_INTERVAL_MS);
+		return () => clearInterval(interval);
+	}, [supabase]);
+
+	const mentionsUrl = `/workspace/${workspace?.slug}/mentions`;
+	const isMentionsActive = pathname === mentionsUrl;
+	const draftsUrl = `/workspace/${workspace?.slug}/drafts`;
+	const isDraftsActive = pathname === draftsUrl;
+	const scheduledUrl = `/workspace/${workspace?.slug}/scheduled`;
+	const isScheduledActive = pathname === scheduledUrl;
+	const hasUnread =
+		joinedChannels.some((channel) => unreadCounts.channels[channel.id] > 0) ||
+		conversations.some(
+			(conversation) => unreadCounts.conversations[conversation.id] > 0,
+		);
+
+	const handleMarkAllAsRead = async () => {
+		try {
+			await markAllAsRead(workspaceId);
+		} catch (error) {
+			console.error("[Sidebar] Failed to mark all as read:", error);
+		}
+	};
+
 	return (
 		<div className="w-64 bg-custom-background-secondary border-r border-custom-ui-medium flex flex-col">
 			{/* Workspace Header */}
@@ -172,15 +239,110 @@ export function Sidebar({ workspaceId }: { workspaceId: string }) {
 
 			{/* Channels Section */}
 			<div className="flex-1 p-4 mt-6">
+				<nav className="space-y-1 mb-6">
+					<Link
+						href={mentionsUrl}
+						className={`flex items-center px-2 py-1 text-sm rounded-md hover:bg-custom-ui-faint group ${
+							isMentionsActive ? "bg-custom-ui-faint" : ""
+						}`}
+					>
+						<AtSign
+							className={`h-4 w-4 ${
+								isMentionsActive
+									? "text-custom-text-secondary"
+									: "text-custom-text-tertiary"
+							} group-hover:text-custom-text-secondary`}
+						/>
+						<span
+							className={`ml-2 ${
+								isMentionsActive || unreadMentionCount > 0
+									? "text-custom-text"
+									: "text-custom-text-secondary"
+							} ${unreadMentionCount > 0 ? "font-semibold" : ""} group-hover:text-custom-text`}
+						>
+							Mentions
+						</span>
+						{unreadMentionCount > 0 && (
+							<span className="ml-auto rounded-full bg-custom-accent px-1.5 text-xs font-medium text-white">
+								{unreadMentionCount}
+							</span>
+						)}
+					</Link>
+					<Link
+						href={draftsUrl}
+						className={`flex items-center px-2 py-1 text-sm rounded-md hover:bg-custom-ui-faint group ${
+							isDraftsActive ? "bg-custom-ui-faint" : ""
+						}`}
+					>
+						<Pencil
+							className={`h-4 w-4 ${
+								isDraftsActive
+									? "text-custom-text-secondary"
+									: "text-custom-text-tertiary"
+							} group-hover:text-custom-text-secondary`}
+						/>
+						<span
+							className={`ml-2 ${
+								isDraftsActive
+									? "text-custom-text"
+									: "text-custom-text-secondary"
+							} group-hover:text-custom-text`}
+						>
+							Drafts
+						</span>
+						{drafts.count > 0 && (
+							<span className="ml-auto text-xs text-custom-text-tertiary">
+								{drafts.count}
+							</span>
+						)}
+					</Link>
+					<Link
+						href={scheduledUrl}
+						className={`flex items-center px-2 py-1 text-sm rounded-md hover:bg-custom-ui-faint group ${
+							isScheduledActive ? "bg-custom-ui-faint" : ""
+						}`}
+					>
+						<Clock
+							className={`h-4 w-4 ${
+								isScheduledActive
+									? "text-custom-text-secondary"
+									: "text-custom-text-tertiary"
+							} group-hover:text-custom-text-secondary`}
+						/>
+						<span
+							className={`ml-2 ${
+								isScheduledActive
+									? "text-custom-text"
+									: "text-custom-text-secondary"
+							} group-hover:text-custom-text`}
+						>
+							Scheduled
+						</span>
+					</Link>
+				</nav>
+
 				<div className="flex items-center justify-between mb-3">
 					<h2 className="font-medium text-sm text-custom-text-secondary">
 						Channels
 					</h2>
-					<div className="scale-125">
-						<CreateChannelDialog
-							workspaceId={workspaceId}
-							workspaceSlug={workspace?.slug || ""}
-						/>
+					<div className="flex items-center gap-1">
+						{hasUnread && (
+							<Button
+								variant="ghost"
+								size="icon"
+								onClick={handleMarkAllAsRead}
+								title="Mark all as read"
+								className="h-6 w-6 text-custom-text-secondary hover:text-custom-text hover:bg-custom-ui-faint"
+							>
+								<CheckCheck className="h-4 w-4" />
+							</Button>
+						)}
+						<div className="scale-125">
+							<CreateChannelDialog
+								workspaceId={workspaceId}
+								workspaceSlug={workspace?.slug || ""}
+							/>
+						</div>
 					</div>
 				</div>
 				<nav className="space-y-1">
@@ -188,6 +350,9 @@ export function Sidebar({ workspaceId }: { workspaceId: string }) {
 						const channelUrl = `/workspace/${workspace?.slug}/channel/${channel.slug}?channelId=${channel.id}&channelName=${encodeURIComponent(channel.name)}${channel.description ? `&description=${encodeURIComponent(channel.description)}` : ""}&isMember=true`;
 						const basePath = `/workspace/${workspace?.slug}/channel/${channel.slug}`;
 						const isActive = pathname === basePath;
+						const unreadCount = isActive
+							? 0
+							: unreadCounts.channels[channel.id] || 0;
 
 						return (
 							<Link
@@ -197,22 +362,38 @@ export function Sidebar({ workspaceId }: { workspaceId: string }) {
 									isActive ? "bg-custom-ui-faint" : ""
 								}`}
 							>
+								{channel.is_private ? (
+									<Lock
+										className={`h-3.5 w-3.5 ${
+											isActive
+												? "text-custom-text-secondary"
+												: "text-custom-text-tertiary"
+										} group-hover:text-custom-text-secondary`}
+									/>
+								) : (
+									<span
+										className={`${
+											isActive
+												? "text-custom-text-secondary"
+												: "text-custom-text-tertiary"
+										} group-hover:text-custom-text-secondary`}
+									>
+										#
+									</span>
+								)}
 								<span
-									className={`${
-										isActive
-											? "text-custom-text-secondary"
-											: "text-custom-text-tertiary"
-									} group-hover:text-custom-text-secondary`}
-								>
-									#
-								</span>
-								<span
-									className={`ml-2 ${
-										isActive ? "text-custom-text" : "text-custom-text-secondary"
-									} group-hover:text-custom-text`}
+									className={`ml-2 truncate ${
+										isActive || unreadCount > 0
+											? "text-custom-text"
+											: "text-custom-text-secondary"
+									} ${unreadCount > 0 ? "font-semibold" : ""} group-hover:text-custom-text`}
 								>
 									{channel.name}
 								</span>
+								<SidebarBadges
+									unreadCount={unreadCount}
+									hasDraft={!isActive && drafts.channels.has(channel.id)}
+								/>
 							</Link>
 						);
 					})}
@@ -239,11 +420,14 @@ export function Sidebar({ workspaceId }: { workspaceId: string }) {
 					</div>
 					<nav className="space-y-1">
 						{conversations.map((conversation) => {
-							const displayName =
-								conversation.participant.profiles.display_name ||
-								conversation.participant.profiles.full_name;
+							const displayName = getConversationName(
+								conversation.participants,
+							);
 							const conversationUrl = `/workspace/${workspace?.slug}/conversation/${conversation.id}`;
 							const isActive = pathname === conversationUrl;
+							const unreadCount = isActive
+								? 0
+								: unreadCounts.conversations[conversation.id] || 0;
 
 							return (
 								<Link
@@ -253,15 +437,22 @@ export function Sidebar({ workspaceId }: { workspaceId: string }) {
 										isActive ? "bg-custom-ui-faint" : ""
 									}`}
 								>
-									<UserAvatar
-										fullName={conversation.participant.profiles.full_name}
-										displayName={conversation.participant.profiles.display_name}
-										avatarUrl={conversation.participant.profiles.avatar_url}
-										avatarCache={conversation.participant.profiles.avatar_cache}
+									<GroupAvatar
+										profiles={conversation.participants.map((p) => p.profiles)}
 										size="sm"
 										className="mr-2"
 									/>
-									<span className="truncate">{displayName}</span>
+									<span
+										className={`truncate ${unreadCount > 0 ? "font-semibold text-custom-text" : ""}`}
+									>
+										{displayName}
+									</span>
+									<SidebarBadges
+										unreadCount={unreadCount}
+										hasDraft={
+											!isActive && drafts.conversations.has(conversation.id)
+										}
+									/>
 								</Link>
 							);
 						})}
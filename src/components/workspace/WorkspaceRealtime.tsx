@@ -0,0 +1,290 @@
+"use client";
+
+import {
+	createContext,
+	useCallback,
+	useContext,
+	useEffect,
+	useRef,
+	useState,
+} from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { createClient } from "@/utils/supabase/client";
+
+const supabase = createClient();
+
+// Changes to a table arriving this close together are handed over as one
+// batch, so a burst of messages costs one refetch rather than one each
+const BATCH_DELAY_MS = 150;
+
+// Realtime `in` filters accept at most this many values
+const MAX_FILTER_VALUES = 100;
+
+export type RealtimeTable =
+	| "messages"
+	| "channels"
+	| "channel_members"
+	| "conversations"
+	| "conversation_participants"
+	| "message_drafts"
+	| "scheduled_messages"
+	| "mentions"
+	| "embedding_jobs"
+	| "reminders"
+	| "reindex_runs";
+
+type RealtimeRow = Record<string, unknown>;
+type RealtimeBatchHandler = (
+	events: RealtimePostgresChangesPayload<RealtimeRow>[],
+) => void;
+
+// What the subscription covers: the user's own rows, and the channels and
+// conversations they belong to in this workspace
+interface RealtimeScope {
+	userId: string;
+	channelIds: string[];
+	conversationIds: string[];
+}
+
+interface WorkspaceRealtimeContextType {
+	subscribe: (
+		table: RealtimeTable,
+		handler: RealtimeBatchHandler,
+	) => () => void;
+}
+
+const WorkspaceRealtimeContext =
+	createContext<WorkspaceRealtimeContextType | null>(null);
+
+function chunkIds(ids: string[]): string[][] {
+	const chunks: string[][] = [];
+	for (let i = 0; i < ids.length; i += MAX_FILTER_VALUES) {
+		chunks.push(ids.slice(i, i + MAX_FILTER_VALUES));
+	}
+	return chunks;
+}
+
+function sameScope(a: RealtimeScope, b: RealtimeScope) {
+	return (
+		a.userId === b.userId &&
+		a.channelIds.join(",") === b.channelIds.join(",") &&
+		a.conversationIds.join(",") === b.conversationIds.join(",")
+	);
+}
+
+/**
+ * One realtime channel per workspace, shared by everything in it. Messages
+ * are only received for the channels and conversations the user has joined,
+ * and the subscription follows along as they join and leave. Each table's
+ * changes are delivered to subscribers in batches.
+ */
+export function WorkspaceRealtimeProvider({
+	workspaceId,
+	children,
+}: {
+	workspaceId: string;
+	children: React.ReactNode;
+}) {
+	const [scope, setScope] = useState<RealtimeScope | null>(null);
+	const handlersRef = useRef(
+		new Map<RealtimeTable, Set<RealtimeBatchHandler>>(),
+	);
+	const queuesRef = useRef(
+		new Map<RealtimeTable, RealtimePostgresChangesPayload<RealtimeRow>[]>(),
+	);
+	const timersRef = useRef(
+		new Map<RealtimeTable, ReturnType<typeof setTimeout>>(),
+	);
+
+	const subscribe = useCallback(
+		(table: RealtimeTable, handler: RealtimeBatchHandler) => {
+			const handlers = handlersRef.current.get(table) ?? new Set();
+			handlers.add(handler);
+			handlersRef.current.set(table, handlers);
+
+			return () => {
+				handlers.delete(handler);
+			};
+		},
+		[],
+	);
+
+	const enqueue = useCallback(
+		(
+			table: RealtimeTable,
+			payload: RealtimePostgresChangesPayload<RealtimeRow>,
+		) => {
+			const queue = queuesRef.current.get(table) ?? [];
+			queue.push(payload);
+			queuesRef.current.set(table, queue);
+			if (timersRef.current.has(table)) return;
+
+			timersRef.current.set(
+				table,
+				setTimeout(() => {
+					const events = queuesRef.current.get(table) ?? [];
+					queuesRef.current.delete(table);
+					timersRef.current.delete(table);
+					for (const handler of handlersRef.current.get(table) ?? []) {
+						handler(events);
+					}
+				}, BATCH_DELAY_MS),
+			);
+		},
+		[],
+	);
+
+	// Work out what to listen to, again whenever the user's memberships change
+	useEffect(() => {
+		let isMounted = true;
+
+		async function loadScope() {
+			const {
+				data: { user },
+			} = await supabase.auth.getUser();
+			if (!user) return;
+
+			const [
+				{ data: channels, error: channelsError },
+				{ data: conversations, error: conversationsError },
+			] = await Promise.all([
+				supabase
+					.from("channel_members")
+					.select("channel_id, channels!inner(workspace_id)")
+					.eq("user_id", user.id)
+					.eq("channels.workspace_id", workspaceId),
+				supabase
+					.from("conversation_participants")
+					.select("conversation_id, conversations!inner(workspace_id)")
+					.eq("user_id", user.id)
+					.eq("conversations.workspace_id", workspaceId),
+			]);
+
+			if (channelsError || conversationsError) {
+				console.error(
+					"[WorkspaceRealtime] Failed to load memberships:",
+					channelsError ?? conversationsError,
+				);
+				return;
+			}
+			if (!isMounted) return;
+
+			const next: RealtimeScope = {
+				userId: user.id,
+				channelIds: (channels ?? []).map((m) => m.channel_id).sort(),
+				conversationIds: (conversations ?? [])
+					.map((p) => p.conversation_id)
+					.sort(),
+			};
+			setScope((prev) => (prev && sameScope(prev, next) ? prev : next));
+		}
+
+		loadScope();
+		const unsubscribeChannels = subscribe("channel_members", loadScope);
+		const unsubscribeConversations = subscribe(
+			"conversation_participants",
+			loadScope,
+		);
+
+		return () => {
+			isMounted = false;
+			unsubscribeChannels();
+			unsubscribeConversations();
+		};
+	}, [workspaceId, subscribe]);
+
+	useEffect(() => {
+		if (!scope) return;
+
+		let channel = supabase.channel(`workspace-changes-${workspaceId}`);
+		const listen = (table: RealtimeTable, filter?: string) => {
+			channel = channel.on(
+				"postgres_changes",
+				{ event: "*", schema: "public", table, filter },
+				(payload: RealtimePostgresChangesPayload<RealtimeRow>) =>
+					enqueue(table, payload),
+			);
+		};
+
+		for (const ids of chunkIds(scope.channelIds)) {
+			listen("messages", `channel_id=in.(${ids.join(",")})`);
+		}
+		for (const ids of chunkIds(scope.conversationIds)) {
+			listen("messages", `conversation_id=in.(${ids.join(",")})`);
+			// Others joining and leaving the user's group conversations
+			listen(
+				"conversation_participants",
+				`conversation_id=in.(${ids.join(",")})`,
+			);
+		}
+		// Deletes can't be filtered, so they aren't listened to. A message is
+		// tombstoned before it's deleted, and changes to its files and
+		// reactions bump extras_changed_at, so both arrive as updates above.
+		listen("channels", `workspace_id=eq.${workspaceId}`);
+		listen("conversations", `workspace_id=eq.${workspaceId}`);
+		listen("channel_members", `user_id=eq.${scope.userId}`);
+		listen("conversation_participants", `user_id=eq.${scope.userId}`);
+		listen("message_drafts", `user_id=eq.${scope.userId}`);
+		listen("scheduled_messages", `user_id=eq.${scope.userId}`);
+		listen("mentions", `user_id=eq.${scope.userId}`);
+		listen("embedding_jobs", `user_id=eq.${scope.userId}`);
+		listen("reminders", `user_id=eq.${scope.userId}`);
+		// Only admins can see runs (RLS), so only they receive these
+		listen("reindex_runs", `workspace_id=eq.${workspaceId}`);
+
+		channel.subscribe();
+
+		return () => {
+			channel.unsubscribe();
+		};
+	}, [workspaceId, scope, enqueue]);
+
+	// Drop anything still waiting when leaving the workspace
+	useEffect(() => {
+		const timers = timersRef.current;
+		const queues = queuesRef.current;
+		return () => {
+			for (const timer of timers.values()) {
+				clearTimeout(timer);
+			}
+			timers.clear();
+			queues.clear();
+		};
+	}, []);
+
+	return (
+		<WorkspaceRealtimeContext.Provider value={{ subscribe }}>
+			{children}
+		</WorkspaceRealtimeContext.Provider>
+	);
+}
+
+/**
+ * Receive batches of changes to a table from the workspace's realtime
+ * channel. The handler can change on every render without resubscribing.
+ */
+export function useRealtimeEvents<T extends RealtimeRow>(
+	table: RealtimeTable,
+	handler: (events: RealtimePostgresChangesPayload<T>[]) => void,
+) {
+	const context = useContext(WorkspaceRealtimeContext);
+	if (!context) {
+		throw new Error(
+			"useRealtimeEvents must be used within a WorkspaceRealtimeProvider",
+		);
+	}
+
+	const handlerRef = useRef(handler);
+	handlerRef.current = handler;
+	const { subscribe } = context;
+
+	useEffect(
+		() =>
+			subscribe(table, (events) =>
+				handlerRef.current(
+					events as unknown as RealtimePostgresChangesPayload<T>[],
+				),
+			),
+		[subscribe, table],
+	);
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+	useParams,
+	usePathname,
+	useRouter,
+	useSearchParams,
+} from "next/navigation";
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+
+export function WorkspaceSearchBar() {
+	const router = useRouter();
+	const pathname = usePathname();
+	const searchParams = useSearchParams();
+	const { workspaceSlug } = useParams<{ workspaceSlug: string }>();
+	const searchPath = `/workspace/${workspaceSlug}/search`;
+	const currentQuery =
+		pathname === searchPath ? searchParams.get("q") || "" : "";
+	const [query, setQuery] = useState(currentQuery);
+
+	// Keep the box in step with the results page, and clear it elsewhere
+	useEffect(() => {
+		setQuery(currentQuery);
+	}, [currentQuery]);
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!query.trim()) return;
+
+		router.push(`${searchPath}?q=${encodeURIComponent(query.trim())}`);
+	};
+
+	return (
+		<form onSubmit={handleSubmit} className="relative w-full max-w-xl">
+			<Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-custom-text-tertiary" />
+			<Input
+				type="search"
+				value={query}
+				onChange={(e) => setQuery(e.target.value)}
+				placeholder="Search messages (from:@name in:#channel has:file before:2024-03-01)"
+				className="pl-9 bg-custom-background-secondary border-custom-ui-medium text-custom-text placeholder:text-custom-text-tertiary"
+			/>
+		</form>
+	);
+}
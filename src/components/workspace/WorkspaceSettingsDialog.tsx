@@ -14,6 +14,7 @@ import { createClient } from "@/utils/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { generateWorkspaceInvite } from "@/app/actions/workspace";
 import type { WorkspaceWithInvite } from "@/types/workspace";
+import { SearchIndexSettings } from "./SearchIndexSettings";
 
 export function WorkspaceSettingsDialog({
 	workspaceId,
@@ -185,6 +186,8 @@ export function WorkspaceSettingsDialog({
 						</div>
 					)}
 				</div>
+
+				{open && <SearchIndexSettings workspaceId={workspaceId} />}
 			</DialogContent>
 		</Dialog>
 	);
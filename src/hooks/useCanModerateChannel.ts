@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import { createClient } from "@/utils/supabase/client";
+
+const supabase = createClient();
+
+/**
+ * Whether the signed-in user is a channel admin or a workspace owner/admin,
+ * i.e. can delete other people's messages in the channel.
+ */
+export function useCanModerateChannel(channelId?: string) {
+	const [canModerate, setCanModerate] = useState(false);
+
+	useEffect(() => {
+		if (!channelId) {
+			setCanModerate(false);
+			return;
+		}
+
+		let isMounted = true;
+
+		supabase
+			.rpc("can_moderate_channel", { p_channel_id: channelId })
+			.then(({ data, error }) => {
+				if (error) {
+					console.error("[useCanModerateChannel] Failed to check role:", error);
+				}
+				if (isMounted) {
+					setCanModerate(!!data);
+				}
+			});
+
+		return () => {
+			isMounted = false;
+		};
+	}, [channelId]);
+
+	return canModerate;
+}
@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+import { createClient } from "@/utils/supabase/client";
+
+const supabase = createClient();
+
+/**
+ * Returns the signed-in user's ID, or null until it has been resolved.
+ */
+export function useCurrentUserId() {
+	const [userId, setUserId] = useState<string | null>(null);
+
+	useEffect(() => {
+		let isMounted = true;
+
+		supabase.auth.getUser().then(({ data: { user } }) => {
+			if (isMounted) {
+				setUserId(user?.id ?? null);
+			}
+		});
+
+		return () => {
+			isMounted = false;
+		};
+	}, []);
+
+	return userId;
+}
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useState } from "react";
+import { createClient } from "@/utils/supabase/client";
+import { useRealtimeEvents } from "@/components/workspace/WorkspaceRealtime";
+
+const supabase = createClient();
+
+export interface DraftLocations {
+	// Channels and conversations with a draft in them or one of their threads
+	channels: Set<string>;
+	conversations: Set<string>;
+	count: number;
+}
+
+const NO_DRAFTS: DraftLocations = {
+	channels: new Set(),
+	conversations: new Set(),
+	count: 0,
+};
+
+/**
+ * Where the signed-in user has unsent drafts in a workspace, kept live as
+ * they're saved here or on another device.
+ */
+export function useDraftLocations(workspaceId: string) {
+	const [locations, setLocations] = useState<DraftLocations>(NO_DRAFTS);
+
+	const loadDrafts = useCallback(async () => {
+		const {
+			data: { user },
+		} = await supabase.auth.getUser();
+		if (!user) return;
+
+		const { data, error } = await supabase
+			.from("message_drafts")
+			.select("channel_id, conversation_id")
+			.eq("user_id", user.id)
+			.eq("workspace_id", workspaceId);
+
+		if (error) {
+			console.error("[useDraftLocations] Failed to load drafts:", error);
+			return;
+		}
+
+		const next: DraftLocations = {
+			channels: new Set(),
+			conversations: new Set(),
+			count: data?.length ?? 0,
+		};
+		for (const draft of data ?? []) {
+			if (draft.channel_id) {
+				next.channels.add(draft.channel_id);
+			} else if (draft.conversation_id) {
+				next.conversations.add(draft.conversation_id);
+			}
+		}
+
+		setLocations(next);
+	}, [workspaceId]);
+
+	useEffect(() => {
+		loadDrafts();
+	}, [loadDrafts]);
+
+	useRealtimeEvents("message_drafts", loadDrafts);
+
+	return locations;
+}
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef } from "react";
+import { createClient } from "@/utils/supabase/client";
+import { useRealtimeEvents } from "@/components/workspace/WorkspaceRealtime";
+import type { Reminder } from "@/types/reminder";
+
+const supabase = createClient();
+
+// Reminders are checked this often, so they fire at most this late
+const CHECK_INTERVAL_MS = 15_000;
+
+export interface ReminderWithMessage extends Reminder {
+	message: {
+		id: string;
+		parent_id: string | null;
+		conversation_id: string | null;
+		channel: { slug: string } | null;
+	} | null;
+}
+
+/**
+ * Calls onDue for each of the signed-in user's reminders in a workspace once
+ * it falls due, including ones that fell due while the app was closed.
+ * Pending reminders are kept live through realtime, so ones set in another
+ * tab (or by Slucky) are picked up straight away.
+ */
+export function useDueReminders(
+	workspaceId: string,
+	onDue: (reminder: ReminderWithMessage) => void,
+) {
+	const onDueRef = useRef(onDue);
+	onDueRef.current = onDue;
+	const pendingRef = useRef<ReminderWithMessage[]>([]);
+	const firedRef = useRef(new Set<string>());
+
+	const checkDue = useCallback(() => {
+		const now = Date.now();
+		for (const reminder of pendingRef.current) {
+			if (
+				!firedRef.current.has(reminder.id) &&
+				new Date(reminder.remind_at).getTime() <= now
+			) {
+				firedRef.current.add(reminder.id);
+				onDueRef.current(reminder);
+			}
+		}
+	}, []);
+
+	const loadPending = useCallback(async () => {
+		const { data, error } = await supabase
+			.from("reminders")
+			.select(`
+				*,
+				message:messages (
+					id,
+					parent_id,
+					conversation_id,
+					channel:channels (
+						slug
+					)
+				)
+			`)
+			.eq("workspace_id", workspaceId)
+			.is("delivered_at", null)
+			.order("remind_at", { ascending: true });
+
+		if (error) {
+			console.error("[useDueReminders] Failed to load reminders:", error);
+			return;
+		}
+
+		pendingRef.current = (data ?? []) as unknown as ReminderWithMessage[];
+		checkDue();
+	}, [workspaceId, checkDue]);
+
+	useEffect(() => {
+		loadPending();
+		const interval = setInterval(checkDue, CHECK_INTERVAL_MS);
+
+		return () => {
+			clearInterval(interval);
+		};
+	}, [loadPending, checkDue]);
+
+	useRealtimeEvents("reminders", loadPending);
+}
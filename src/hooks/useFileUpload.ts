@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { attachFileToMessage } from "@/app/actions/files";
+import type { ScheduledFile } from "@/types/scheduledMessage";
 
 interface UploadOptions {
 	maxSizeMB?: number;
@@ -45,62 +46,58 @@ export const useFileUpload = (options: UploadOptions = {}) => {
 		}
 	};
 
-	const uploadFile = async (file: File, messageId: string) => {
-		const uploadId = `${messageId}-${file.name}`;
-
-		try {
-			// Set initial state
-			setUploadProgress((prev) => ({
-				...prev,
-				[uploadId]: { progress: 0, state: "preparing" },
-			}));
-
-			// Validate file
-			validateFile(file);
-
-			// Get presigned URL
-			const response = await fetch("/api/s3-presign", {
-				method: "POST",
-				body: JSON.stringify({
-					fileName: file.name,
-					fileType: file.type,
-				}),
-			});
-
-			if (!response.ok) {
-				throw new Error("Failed to get upload URL");
-			}
-
-			const { url, key, error } = await response.json();
-			if (error) throw new Error(error);
-			if (!url || !key) throw new Error("Invalid response from server");
-
-			// Upload to S3 with progress tracking
-			setUploadProgress((prev) => ({
-				...prev,
-				[uploadId]: { progress: 0, state: "uploading" },
-			}));
+	// Validate a file and put it in S3, returning its key
+	const putFile = async (file: File, uploadId: string) => {
+		// Set initial state
+		setUploadProgress((prev) => ({
+			...prev,
+			[uploadId]: { progress: 0, state: "preparing" },
+		}));
+
+		// Validate file
+		validateFile(file);
+
+		// Get presigned URL
+		const response = await fetch("/api/s3-presign", {
+			method: "POST",
+			body: JSON.stringify({
+				fileName: file.name,
+				fileType: file.type,
+			}),
+		});
+
+		if (!response.ok) {
+			throw new Error("Failed to get upload URL");
+		}
 
-			const uploadResponse = await fetch(url, {
-				method: "PUT",
-				body: file,
-				headers: {
-					"Content-Type": file.type,
-				},
-			});
+		const { url, key, error } = await response.json();
+		if (error) throw new Error(error);
+		if (!url || !key) throw new Error("Invalid response from server");
+
+		// Upload to S3 with progress tracking
+		setUploadProgress((prev) => ({
+			...prev,
+			[uploadId]: { progress: 0, state: "uploading" },
+		}));
+
+		const uploadResponse = await fetch(url, {
+			method: "PUT",
+			body: file,
+			headers: {
+				"Content-Type": file.type,
+			},
+		});
+
+		if (!uploadResponse.ok) {
+			throw new Error("Failed to upload file");
+		}
 
-			if (!uploadResponse.ok) {
-				throw new Error("Failed to upload file");
-			}
+		return key as string;
+	};
 
-			// Create file record in database using server action
-			await attachFileToMessage(
-				messageId,
-				key,
-				file.name,
-				file.type,
-				file.size,
-			);
+	const trackUpload = async <T>(uploadId: string, run: () => Promise<T>) => {
+		try {
+			const result = await run();
 
 			// Update progress to done
 			setUploadProgress((prev) => ({
@@ -108,7 +105,7 @@ export const useFileUpload = (options: UploadOptions = {}) => {
 				[uploadId]: { progress: 100, state: "done" },
 			}));
 
-			return key;
+			return result;
 		} catch (error) {
 			console.error("Upload error:", error);
 			setUploadProgress((prev) => ({
@@ -123,8 +120,40 @@ export const useFileUpload = (options: UploadOptions = {}) => {
 		}
 	};
 
+	const uploadFile = (file: File, messageId: string) => {
+		const uploadId = `${messageId}-${file.name}`;
+
+		return trackUpload(uploadId, async () => {
+			const key = await putFile(file, uploadId);
+
+			// Create file record in database using server action
+			await attachFileToMessage(
+				messageId,
+				key,
+				file.name,
+				file.type,
+				file.size,
+			);
+
+			return key;
+		});
+	};
+
+	// Upload a file now to attach to a message later, e.g. a scheduled one
+	const stageFile = (file: File): Promise<ScheduledFile> => {
+		const uploadId = `staged-${file.name}-${file.size}`;
+
+		return trackUpload(uploadId, async () => ({
+			key: await putFile(file, uploadId),
+			name: file.name,
+			type: file.type,
+			size: file.size,
+		}));
+	};
+
 	return {
 		uploadFile,
+		stageFile,
 		uploadProgress,
 	};
 };
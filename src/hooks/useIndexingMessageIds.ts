@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from "react";
+import { createClient } from "@/utils/supabase/client";
+import { useRealtimeEvents } from "@/components/workspace/WorkspaceRealtime";
+
+const supabase = createClient();
+
+const EMPTY_IDS = new Set<string>();
+
+/**
+ * Ids of the signed-in user's messages that are queued for or in the middle
+ * of embedding, so they can show as "indexing" until search can find them.
+ * Follows embedding_jobs in realtime.
+ */
+export function useIndexingMessageIds(userId: string | null) {
+	const [messageIds, setMessageIds] = useState<Set<string>>(EMPTY_IDS);
+
+	const loadJobs = useCallback(async () => {
+		if (!userId) return;
+
+		const { data, error } = await supabase
+			.from("embedding_jobs")
+			.select("message_ids")
+			.eq("user_id", userId)
+			.in("status", ["pending", "processing"]);
+
+		if (error) {
+			console.error("[useIndexingMessageIds] Failed to load jobs:", error);
+			return;
+		}
+
+		setMessageIds(
+			new Set((data ?? []).flatMap((job) => job.message_ids as string[])),
+		);
+	}, [userId]);
+
+	useEffect(() => {
+		loadJobs();
+	}, [loadJobs]);
+
+	useRealtimeEvents("embedding_jobs", loadJobs);
+
+	return messageIds;
+}
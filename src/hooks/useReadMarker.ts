@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from "react";
+import { markAsRead } from "@/app/actions/unread";
+import type { Message } from "@/types/message";
+
+/**
+ * Marks a channel or conversation read while it's on screen, and returns the
+ * id of the first message that was unread when it was opened, for the "New
+ * messages" divider, along with where the user had read up to before.
+ * Both stay put until the user navigates away, even though the container is
+ * marked read straight away.
+ */
+export function useReadMarker({
+	channelId,
+	conversationId,
+	messages,
+	currentUserId,
+	enabled = true,
+}: {
+	channelId?: string;
+	conversationId?: string;
+	messages: Message[];
+	currentUserId: string | null;
+	enabled?: boolean;
+}) {
+	const containerKey = enabled ? (channelId ?? conversationId) : undefined;
+	// undefined until the previous read position has loaded
+	const [lastReadAt, setLastReadAt] = useState<string | null | undefined>();
+	const [firstUnreadId, setFirstUnreadId] = useState<string | null>(null);
+	const placedForRef = useRef<string | undefined>(undefined);
+	const markedMessageIdRef = useRef<string | undefined>(undefined);
+	const latestMessageId = messages[messages.length - 1]?.id;
+
+	// 1) Opening the container: remember where we'd read up to, then mark it read
+	useEffect(() => {
+		if (!containerKey) return;
+
+		let isMounted = true;
+		setLastReadAt(undefined);
+		setFirstUnreadId(null);
+		placedForRef.current = undefined;
+
+		markAsRead({ channelId, conversationId })
+			.then((previousReadAt) => {
+				if (isMounted) {
+					setLastReadAt(previousReadAt);
+				}
+			})
+			.catch((error) => {
+				console.error("[useReadMarker] Failed to mark as read:", error);
+			});
+
+		return () => {
+			isMounted = false;
+		};
+	}, [containerKey, channelId, conversationId]);
+
+	// 2) Place the divider once, against the messages that were there on open
+	useEffect(() => {
+		if (
+			!containerKey ||
+			lastReadAt === undefined ||
+			!messages.length ||
+			placedForRef.current === containerKey
+		) {
+			return;
+		}
+
+		placedForRef.current = containerKey;
+		// Opening already marked everything up to here as read
+		markedMessageIdRef.current = messages[messages.length - 1]?.id;
+		const readAt = lastReadAt ? new Date(lastReadAt).getTime() : null;
+		const firstUnread =
+			readAt === null
+				? undefined
+				: messages.find(
+						(message) =>
+							new Date(message.created_at).getTime() > readAt &&
+							message.user_id !== currentUserId &&
+							!message.deleted_at,
+					);
+		setFirstUnreadId(firstUnread?.id ?? null);
+	}, [containerKey, lastReadAt, messages, currentUserId]);
+
+	// 3) Keep it read as new messages arrive, or when the tab comes back into view
+	useEffect(() => {
+		if (!containerKey || lastReadAt === undefined) return;
+
+		function markIfVisible() {
+			if (document.visibilityState !== "visible") return;
+
+			markAsRead({ channelId, conversationId }).catch((error) => {
+				console.error("[useReadMarker] Failed to mark as read:", error);
+			});
+		}
+
+		if (latestMessageId && latestMessageId !== markedMessageIdRef.current) {
+			markedMessageIdRef.current = latestMessageId;
+			markIfVisible();
+		}
+
+		document.addEventListener("visibilitychange", markIfVisible);
+		return () => {
+			document.removeEventListener("visibilitychange", markIfVisible);
+		};
+	}, [containerKey, lastReadAt, latestMessageId, channelId, conversationId]);
+
+	return { firstUnreadId, lastReadAt };
+}
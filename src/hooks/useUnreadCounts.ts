@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from "react";
+import { createClient } from "@/utils/supabase/client";
+import { useRealtimeEvents } from "@/components/workspace/WorkspaceRealtime";
+
+const supabase = createClient();
+
+export interface UnreadCounts {
+	channels: Record<string, number>;
+	conversations: Record<string, number>;
+}
+
+const EMPTY_COUNTS: UnreadCounts = { channels: {}, conversations: {} };
+
+/**
+ * Unread message counts for every channel and conversation the signed-in
+ * user belongs to in a workspace. Reloads when messages arrive or when the
+ * user's read position changes, including from another tab.
+ */
+export function useUnreadCounts(workspaceId: string) {
+	const [counts, setCounts] = useState<UnreadCounts>(EMPTY_COUNTS);
+
+	const loadCounts = useCallback(async () => {
+		const { data, error } = await supabase.rpc("get_unread_counts", {
+			p_workspace_id: workspaceId,
+		});
+
+		if (error) {
+			console.error("[useUnreadCounts] Failed to load counts:", error);
+			return;
+		}
+
+		const next: UnreadCounts = { channels: {}, conversations: {} };
+		for (const row of data ?? []) {
+			if (row.channel_id) {
+				next.channels[row.channel_id] = Number(row.unread_count);
+			} else if (row.conversation_id) {
+				next.conversations[row.conversation_id] = Number(row.unread_count);
+			}
+		}
+
+		setCounts(next);
+	}, [workspaceId]);
+
+	useEffect(() => {
+		loadCounts();
+	}, [loadCounts]);
+
+	// Changes arrive in batches, so a burst of messages or read updates only
+	// triggers one reload. Messages are only heard from channels and
+	// conversations the user belongs to.
+	useRealtimeEvents("messages", loadCounts);
+	useRealtimeEvents("channel_members", loadCounts);
+	useRealtimeEvents("conversation_participants", loadCounts);
+
+	return counts;
+}
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from "react";
+import { createClient } from "@/utils/supabase/client";
+import { useRealtimeEvents } from "@/components/workspace/WorkspaceRealtime";
+
+const supabase = createClient();
+
+/**
+ * Number of unread mentions for the signed-in user in a workspace, kept live
+ * through realtime changes to their inbox.
+ */
+export function useUnreadMentionCount(workspaceId: string) {
+	const [count, setCount] = useState(0);
+
+	const loadCount = useCallback(async () => {
+		const { count, error } = await supabase
+			.from("mentions")
+			.select("id", { count: "exact", head: true })
+			.eq("workspace_id", workspaceId)
+			.is("read_at", null);
+
+		if (error) {
+			console.error("[useUnreadMentionCount] Failed to load count:", error);
+			return;
+		}
+
+		setCount(count ?? 0);
+	}, [workspaceId]);
+
+	useEffect(() => {
+		loadCount();
+	}, [loadCount]);
+
+	useRealtimeEvents("mentions", loadCount);
+
+	return count;
+}
@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { createClient } from "@/utils/supabase/client";
+import type { ProfileWithId } from "@/types/profile";
+
+const supabase = createClient();
+
+/**
+ * Profiles of everyone in the current workspace (from the route's workspaceSlug).
+ */
+export function useWorkspaceMembers() {
+	const { workspaceSlug } = useParams<{ workspaceSlug: string }>();
+	const [members, setMembers] = useState<ProfileWithId[]>([]);
+
+	useEffect(() => {
+		if (!workspaceSlug) return;
+
+		let isMounted = true;
+
+		supabase
+			.from("workspace_members")
+			.select(`
+				workspaces!inner (
+					slug
+				),
+				profile:profiles (
+					id,
+					full_name,
+					display_name,
+					avatar_url,
+					avatar_color,
+					avatar_cache
+				)
+			`)
+			.eq("workspaces.slug", workspaceSlug)
+			.then(({ data, error }) => {
+				if (error) {
+					console.error("[useWorkspaceMembers] Failed to load members:", error);
+					return;
+				}
+				if (!isMounted) return;
+
+				const profiles = (data || [])
+					.map((row) => row.profile as unknown as ProfileWithId | null)
+					.filter((profile): profile is ProfileWithId => !!profile)
+					.sort((a, b) =>
+						(a.display_name || a.full_name).localeCompare(
+							b.display_name || b.full_name,
+						),
+					);
+				setMembers(profiles);
+			});
+
+		return () => {
+			isMounted = false;
+		};
+	}, [workspaceSlug]);
+
+	return members;
+}
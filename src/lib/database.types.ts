@@ -1,4 +1,6 @@
 import type { Profile } from "@/types/profile";
+import type { MessageMention } from "@/types/mention";
+import type { ScheduledFile } from "@/types/scheduledMessage";
 
 export type Json =
 	| string
@@ -49,6 +51,7 @@ export interface Database {
 					description: string | null;
 					created_by: string | null;
 					created_at: string;
+					is_private: boolean;
 				};
 				Insert: {
 					id?: string;
@@ -58,6 +61,7 @@ export interface Database {
 					description?: string | null;
 					created_by?: string | null;
 					created_at?: string;
+					is_private?: boolean;
 				};
 				Update: {
 					id?: string;
@@ -67,6 +71,7 @@ export interface Database {
 					description?: string | null;
 					created_by?: string | null;
 					created_at?: string;
+					is_private?: boolean;
 				};
 			};
 			channel_members: {
@@ -183,6 +188,13 @@ export interface Database {
 					parent_id: string | null;
 					context: string | null;
 					embedding: number[] | null;
+					embedding_provider: string | null;
+					embedding_model: string | null;
+					embedding_version: number | null;
+					edited_at: string | null;
+					deleted_at: string | null;
+					extras_changed_at: string | null;
+					mentions: MessageMention[];
 					profiles?: {
 						id: string;
 						full_name: string;
@@ -201,6 +213,13 @@ export interface Database {
 					parent_id?: string | null;
 					context?: string | null;
 					embedding?: number[] | null;
+					embedding_provider?: string | null;
+					embedding_model?: string | null;
+					embedding_version?: number | null;
+					edited_at?: string | null;
+					deleted_at?: string | null;
+					extras_changed_at?: string | null;
+					mentions?: MessageMention[];
 				};
 				Update: {
 					id?: string;
@@ -212,15 +231,482 @@ export interface Database {
 					parent_id?: string | null;
 					context?: string | null;
 					embedding?: number[] | null;
+					embedding_provider?: string | null;
+					embedding_model?: string | null;
+					embedding_version?: number | null;
+					edited_at?: string | null;
+					deleted_at?: string | null;
+					extras_changed_at?: string | null;
+					mentions?: MessageMention[];
+				};
+			};
+			embedding_jobs: {
+				Row: {
+					id: string;
+					message_id: string;
+					message_ids: string[];
+					user_id: string;
+					chain_key: string;
+					status: "pending" | "processing" | "done" | "failed";
+					attempts: number;
+					max_attempts: number;
+					run_at: string;
+					locked_at: string | null;
+					last_error: string | null;
+					created_at: string;
+					updated_at: string;
+				};
+				Insert: {
+					id?: string;
+					message_id: string;
+					message_ids?: string[];
+					user_id: string;
+					chain_key: string;
+					status?: "pending" | "processing" | "done" | "failed";
+					attempts?: number;
+					max_attempts?: number;
+					run_at?: string;
+					locked_at?: string | null;
+					last_error?: string | null;
+					created_at?: string;
+					updated_at?: string;
+				};
+				Update: {
+					status?: "pending" | "processing" | "done" | "failed";
+					attempts?: number;
+					run_at?: string;
+					locked_at?: string | null;
+					last_error?: string | null;
+					updated_at?: string;
+				};
+			};
+			message_edits: {
+				Row: {
+					id: string;
+					message_id: string;
+					user_id: string | null;
+					previous_content: string;
+					edited_at: string;
+				};
+				Insert: {
+					id?: string;
+					message_id: string;
+					user_id?: string | null;
+					previous_content: string;
+					edited_at?: string;
+				};
+				Update: {
+					id?: string;
+					message_id?: string;
+					user_id?: string | null;
+					previous_content?: string;
+					edited_at?: string;
+				};
+			};
+			message_reactions: {
+				Row: {
+					message_id: string;
+					user_id: string;
+					emoji: string;
+					created_at: string;
+				};
+				Insert: {
+					message_id: string;
+					user_id: string;
+					emoji: string;
+					created_at?: string;
+				};
+				Update: {
+					message_id?: string;
+					user_id?: string;
+					emoji?: string;
+					created_at?: string;
+				};
+			};
+			reindex_runs: {
+				Row: {
+					id: string;
+					workspace_id: string;
+					created_by: string | null;
+					status: "pending" | "running" | "completed";
+					embedding_provider: string;
+					embedding_model: string;
+					embedding_version: number;
+					phase: "messages" | "files";
+					cursor_created_at: string | null;
+					cursor_id: string | null;
+					messages_total: number;
+					messages_done: number;
+					files_total: number;
+					files_done: number;
+					error_count: number;
+					last_error: string | null;
+					locked_at: string | null;
+					created_at: string;
+					updated_at: string;
+					finished_at: string | null;
+				};
+				Insert: {
+					id?: string;
+					workspace_id: string;
+					created_by?: string | null;
+					status?: "pending" | "running" | "completed";
+					embedding_provider: string;
+					embedding_model: string;
+					embedding_version: number;
+					phase?: "messages" | "files";
+					cursor_created_at?: string | null;
+					cursor_id?: string | null;
+					messages_total?: number;
+					messages_done?: number;
+					files_total?: number;
+					files_done?: number;
+					error_count?: number;
+					last_error?: string | null;
+					locked_at?: string | null;
+					created_at?: string;
+					updated_at?: string;
+					finished_at?: string | null;
+				};
+				Update: {
+					status?: "pending" | "running" | "completed";
+					embedding_provider?: string;
+					embedding_model?: string;
+					embedding_version?: number;
+					phase?: "messages" | "files";
+					cursor_created_at?: string | null;
+					cursor_id?: string | null;
+					messages_total?: number;
+					messages_done?: number;
+					files_total?: number;
+					files_done?: number;
+					error_count?: number;
+					last_error?: string | null;
+					locked_at?: string | null;
+					updated_at?: string;
+					finished_at?: string | null;
+				};
+			};
+			mentions: {
+				Row: {
+					id: string;
+					message_id: string;
+					user_id: string;
+					mentioned_by: string | null;
+					workspace_id: string;
+					channel_id: string | null;
+					conversation_id: string | null;
+					mention_type: "user" | "channel" | "here";
+					created_at: string;
+					read_at: string | null;
+				};
+				Insert: {
+					id?: string;
+					message_id: string;
+					user_id: string;
+					mentioned_by?: string | null;
+					workspace_id: string;
+					channel_id?: string | null;
+					conversation_id?: string | null;
+					mention_type: "user" | "channel" | "here";
+					created_at?: string;
+					read_at?: string | null;
+				};
+				Update: {
+					read_at?: string | null;
+				};
+			};
+			reminders: {
+				Row: {
+					id: string;
+					user_id: string;
+					workspace_id: string;
+					message_id: string | null;
+					note: string;
+					remind_at: string;
+					created_at: string;
+					delivered_at: string | null;
+				};
+				Insert: {
+					id?: string;
+					user_id: string;
+					workspace_id: string;
+					message_id?: string | null;
+					note: string;
+					remind_at: string;
+					created_at?: string;
+					delivered_at?: string | null;
+				};
+				Update: {
+					note?: string;
+					remind_at?: string;
+					delivered_at?: string | null;
+				};
+			};
+			assistant_messages: {
+				Row: {
+					id: string;
+					session_id: string;
+					role: "user" | "assistant";
+					content: string;
+					sources: Json;
+					citations: Json;
+					actions: Json;
+					created_at: string;
+				};
+				Insert: {
+					id?: string;
+					session_id: string;
+					role: "user" | "assistant";
+					content?: string;
+					sources?: Json;
+					citations?: Json;
+					actions?: Json;
+					created_at?: string;
+				};
+				Update: {
+					content?: string;
+					sources?: Json;
+					citations?: Json;
+					actions?: Json;
+				};
+			};
+			assistant_sessions: {
+				Row: {
+					id: string;
+					user_id: string;
+					workspace_id: string | null;
+					title: string;
+					created_at: string;
+					updated_at: string;
+				};
+				Insert: {
+					id?: string;
+					user_id: string;
+					workspace_id?: string | null;
+					title: string;
+					created_at?: string;
+					updated_at?: string;
+				};
+				Update: {
+					title?: string;
+					updated_at?: string;
+				};
+			};
+			context_summaries: {
+				Row: {
+					id: string;
+					channel_id: string | null;
+					conversation_id: string | null;
+					summary: string;
+					summarized_until: string | null;
+					message_count: number;
+					created_at: string;
+					updated_at: string;
+				};
+				Insert: {
+					id?: string;
+					channel_id?: string | null;
+					conversation_id?: string | null;
+					summary?: string;
+					summarized_until?: string | null;
+					message_count?: number;
+					created_at?: string;
+					updated_at?: string;
+				};
+				Update: {
+					summary?: string;
+					summarized_until?: string | null;
+					message_count?: number;
+					updated_at?: string;
+				};
+			};
+			message_drafts: {
+				Row: {
+					id: string;
+					user_id: string;
+					workspace_id: string;
+					channel_id: string | null;
+					conversation_id: string | null;
+					parent_id: string | null;
+					draft_key: string;
+					content: string;
+					mentions: MessageMention[];
+					updated_at: string;
+				};
+				Insert: {
+					id?: string;
+					user_id: string;
+					workspace_id: string;
+					channel_id?: string | null;
+					conversation_id?: string | null;
+					parent_id?: string | null;
+					draft_key: string;
+					content: string;
+					mentions?: MessageMention[];
+					updated_at?: string;
+				};
+				Update: {
+					content?: string;
+					mentions?: MessageMention[];
+					updated_at?: string;
+				};
+			};
+			scheduled_messages: {
+				Row: {
+					id: string;
+					user_id: string;
+					workspace_id: string;
+					channel_id: string | null;
+					conversation_id: string | null;
+					parent_id: string | null;
+					content: string;
+					mentions: MessageMention[];
+					files: ScheduledFile[];
+					send_at: string;
+					status: "scheduled" | "sending" | "sent" | "failed";
+					attempts: number;
+					max_attempts: number;
+					locked_at: string | null;
+					last_error: string | null;
+					published_at: string | null;
+					sent_at: string | null;
+					created_at: string;
+					updated_at: string;
+				};
+				Insert: {
+					id?: string;
+					user_id: string;
+					workspace_id: string;
+					channel_id?: string | null;
+					conversation_id?: string | null;
+					parent_id?: string | null;
+					content?: string;
+					mentions?: MessageMention[];
+					files?: ScheduledFile[];
+					send_at: string;
+					status?: "scheduled" | "sending" | "sent" | "failed";
+					attempts?: number;
+					max_attempts?: number;
+					locked_at?: string | null;
+					last_error?: string | null;
+					published_at?: string | null;
+					sent_at?: string | null;
+					created_at?: string;
+					updated_at?: string;
+				};
+				Update: {
+					content?: string;
+					mentions?: MessageMention[];
+					files?: ScheduledFile[];
+					send_at?: string;
+					status?: "scheduled" | "sending" | "sent" | "failed";
+					attempts?: number;
+					locked_at?: string | null;
+					last_error?: string | null;
+					published_at?: string | null;
+					sent_at?: string | null;
+					updated_at?: string;
 				};
 			};
 		};
 		Functions: {
+			add_conversation_participants: {
+				Args: {
+					p_conversation_id: string;
+					p_user_ids: string[];
+				};
+				Returns: undefined;
+			};
+			can_moderate_channel: {
+				Args: {
+					p_channel_id: string;
+				};
+				Returns: boolean;
+			};
+			claim_embedding_jobs: {
+				Args: {
+					p_limit?: number;
+					p_lock_timeout?: string;
+				};
+				Returns: Database["public"]["Tables"]["embedding_jobs"]["Row"][];
+			};
+			claim_reindex_run: {
+				Args: {
+					p_lock_timeout?: string;
+				};
+				Returns: Database["public"]["Tables"]["reindex_runs"]["Row"][];
+			};
+			claim_scheduled_messages: {
+				Args: {
+					p_limit?: number;
+					p_lock_timeout?: string;
+				};
+				Returns: Database["public"]["Tables"]["scheduled_messages"]["Row"][];
+			};
+			complete_embedding_job: {
+				Args: {
+					p_job_id: string;
+				};
+				Returns: undefined;
+			};
+			create_group_conversation: {
+				Args: {
+					p_workspace_id: string;
+					p_user_ids: string[];
+				};
+				Returns: string;
+			};
+			enqueue_embedding_job: {
+				Args: {
+					p_message_id: string;
+					p_delay_seconds?: number;
+				};
+				Returns: string;
+			};
+			fail_embedding_job: {
+				Args: {
+					p_job_id: string;
+					p_error: string;
+				};
+				Returns: undefined;
+			};
+			get_unread_counts: {
+				Args: {
+					p_workspace_id: string;
+				};
+				Returns: {
+					channel_id: string | null;
+					conversation_id: string | null;
+					unread_count: number;
+				}[];
+			};
+			mark_container_read: {
+				Args: {
+					p_channel_id: string | null;
+					p_conversation_id: string | null;
+				};
+				Returns: string | null;
+			};
+			mark_workspace_read: {
+				Args: {
+					p_workspace_id: string;
+				};
+				Returns: undefined;
+			};
 			match_messages: {
 				Args: {
 					query_embedding: number[];
 					match_threshold: number;
 					match_count: number;
+					p_embedding_provider: string;
+					p_embedding_model: string;
+					p_workspace_id?: string | null;
+					p_channel_id?: string | null;
+					p_conversation_id?: string | null;
+					p_user_id?: string | null;
+					p_after?: string | null;
+					p_before?: string | null;
 				};
 				Returns: {
 					id: string;
@@ -229,9 +715,100 @@ export interface Database {
 					user_id: string;
 					content: string;
 					context: string | null;
+					formatted_chain: string | null;
+					parent_id: string | null;
+					created_at: string;
 					similarity: number;
 				}[];
 			};
+			reindex_file_batch: {
+				Args: {
+					p_workspace_id: string;
+					p_embedding_provider: string;
+					p_embedding_model: string;
+					p_embedding_version: number;
+					p_after_created_at?: string | null;
+					p_after_id?: string | null;
+					p_limit?: number | null;
+				};
+				Returns: {
+					id: string;
+					created_at: string;
+					message_id: string;
+					file_name: string;
+					file_type: string;
+					file_url: string;
+				}[];
+			};
+			reindex_message_batch: {
+				Args: {
+					p_workspace_id: string;
+					p_embedding_provider: string;
+					p_embedding_model: string;
+					p_embedding_version: number;
+					p_after_created_at?: string | null;
+					p_after_id?: string | null;
+					p_limit?: number | null;
+				};
+				Returns: {
+					id: string;
+					created_at: string;
+				}[];
+			};
+			remove_conversation_participant: {
+				Args: {
+					p_conversation_id: string;
+					p_user_id: string;
+				};
+				Returns: undefined;
+			};
+			search_messages: {
+				Args: {
+					p_workspace_id: string;
+					p_query?: string | null;
+					p_query_embedding?: number[] | null;
+					p_embedding_provider?: string | null;
+					p_embedding_model?: string | null;
+					p_channel_id?: string | null;
+					p_conversation_id?: string | null;
+					p_user_id?: string | null;
+					p_after?: string | null;
+					p_before?: string | null;
+					p_has_file?: boolean;
+					p_match_count?: number;
+				};
+				Returns: {
+					id: string;
+					conversation_id: string | null;
+					channel_id: string | null;
+					user_id: string;
+					content: string;
+					parent_id: string | null;
+					created_at: string;
+					score: number;
+				}[];
+			};
+			start_workspace_reindex: {
+				Args: {
+					p_workspace_id: string;
+					p_embedding_provider: string;
+					p_embedding_model: string;
+					p_embedding_version: number;
+				};
+				Returns: Database["public"]["Tables"]["reindex_runs"]["Row"];
+			};
+			tombstone_message: {
+				Args: {
+					p_message_id: string;
+				};
+				Returns: undefined;
+			};
+			unused_upload_keys: {
+				Args: {
+					p_keys: string[];
+				};
+				Returns: string[];
+			};
 		};
 	};
 }
@@ -19,6 +19,7 @@ export interface ChannelBasic {
 	name: string;
 	slug: string;
 	description?: string | null;
+	is_private?: boolean;
 }
 
 // Type for channel with member info
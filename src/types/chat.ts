@@ -0,0 +1,90 @@
+import type { Database } from "@/lib/database.types";
+
+// A workspace message Slucky was given to answer from. `index` is the
+// number it's cited by, e.g. [2].
+export interface ChatSource {
+	index: number;
+	id: string;
+	href: string;
+	content: string;
+	created_at: string;
+	sender_name: string;
+	channel_name: string | null;
+	// How close a search result was to the question; summaries cite
+	// messages without one
+	similarity?: number;
+}
+
+// A source the reply actually cited
+export interface ChatCitation {
+	index: number;
+	messageId: string;
+}
+
+// A change Slucky wants to make. Nothing happens until the user confirms
+// it, and then it runs with their own permissions.
+export type ChatAction =
+	| {
+			id: string;
+			type: "send_message";
+			content: string;
+			channelId?: string;
+			conversationId?: string;
+			parentId?: string;
+			// Where it will be posted, for the confirmation card, e.g. "#general"
+			destination: string;
+	  }
+	| {
+			id: string;
+			type: "create_channel";
+			workspaceId: string;
+			name: string;
+			description?: string;
+			isPrivate: boolean;
+	  }
+	| {
+			id: string;
+			type: "set_reminder";
+			workspaceId: string;
+			note: string;
+			remindAt: string;
+			messageId?: string;
+	  };
+
+export interface ChatActionResult {
+	summary: string;
+	href?: string;
+}
+
+export type ChatActionStatus = "pending" | "running" | "done" | "cancelled";
+
+// An action as saved with the reply that proposed it
+export type ChatActionRecord = ChatAction & {
+	status: ChatActionStatus;
+	result?: ChatActionResult;
+};
+
+export type ChatSession =
+	Database["public"]["Tables"]["assistant_sessions"]["Row"];
+
+// A saved message in a Slucky session
+export interface ChatSessionMessage {
+	id: string;
+	role: "user" | "assistant";
+	content: string;
+	sources: ChatSource[];
+	citations: ChatCitation[];
+	actions: ChatActionRecord[];
+	created_at: string;
+}
+
+// streamChat sends the session and the id the reply is saved under, then
+// the sources, then the reply as it's generated, then the citations found
+// in the finished reply. Sources are sent again whenever a search adds to
+// them, and actions as Slucky proposes them.
+export type ChatStreamEvent =
+	| { type: "session"; session: ChatSession; messageId: string }
+	| { type: "sources"; sources: ChatSource[] }
+	| { type: "text"; content: string }
+	| { type: "action"; action: ChatAction }
+	| { type: "citations"; citations: ChatCitation[] };
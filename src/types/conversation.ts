@@ -14,11 +14,14 @@ export interface ConversationParticipant {
 // Type for API responses that include all participants
 export interface ConversationWithParticipants {
 	id: string;
+	type: DatabaseConversation["type"];
 	conversation_participants: ConversationParticipant[];
 }
 
-// Type for UI display with single participant (for DMs)
-export interface ConversationWithParticipant {
+// Type for UI display: everyone in the conversation except the current user
+// (one person for a DM, two or more for a group)
+export interface ConversationWithOthers {
 	id: string;
-	participant: ConversationParticipant;
+	type: DatabaseConversation["type"];
+	participants: ConversationParticipant[];
 }
@@ -0,0 +1,15 @@
+import type { Database } from "@/lib/database.types";
+
+export type MessageDraft =
+	Database["public"]["Tables"]["message_drafts"]["Row"];
+
+// Entry in the drafts view, with where the draft is being written
+export interface DraftWithLocation extends MessageDraft {
+	channel: {
+		id: string;
+		name: string;
+		slug: string;
+	} | null;
+	// The other participants' names, for a DM or group DM
+	conversationName: string | null;
+}
@@ -0,0 +1,33 @@
+import type { Database } from "@/lib/database.types";
+
+// A mention stored on messages.mentions. Content keeps the plain "@Name"
+// text; user mentions record who that name referred to when it was sent.
+export type MessageMention =
+	| { type: "user"; userId: string; name: string }
+	| { type: "channel" }
+	| { type: "here" };
+
+export type DatabaseMention = Database["public"]["Tables"]["mentions"]["Row"];
+
+// Inbox entry with the message and where it was sent
+export interface MentionWithMessage extends DatabaseMention {
+	message: {
+		id: string;
+		content: string;
+		parent_id: string | null;
+		mentions: MessageMention[];
+		profile: {
+			id: string;
+			full_name: string;
+			display_name: string | null;
+			avatar_url: string | null;
+			avatar_color: string | null;
+			avatar_cache: string | null;
+		} | null;
+	} | null;
+	channel: {
+		id: string;
+		name: string;
+		slug: string;
+	} | null;
+}
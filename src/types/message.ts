@@ -3,6 +3,10 @@ import type { ProfileDisplay } from "./profile";
 
 export type DatabaseFile = Database["public"]["Tables"]["files"]["Row"];
 export type DatabaseMessage = Database["public"]["Tables"]["messages"]["Row"];
+export type DatabaseMessageEdit =
+	Database["public"]["Tables"]["message_edits"]["Row"];
+export type DatabaseMessageReaction =
+	Database["public"]["Tables"]["message_reactions"]["Row"];
 
 export type MessageStatus =
 	| "sending"
@@ -18,6 +22,7 @@ export interface Message extends Omit<DatabaseMessage, "files" | "profiles"> {
 	reply_count: number;
 	reply_user_ids: string[];
 	files: DatabaseFile[];
+	reactions: DatabaseMessageReaction[];
 	status?: MessageStatus;
 	error?: string;
 }
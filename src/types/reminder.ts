@@ -0,0 +1,3 @@
+import type { Database } from "@/lib/database.types";
+
+export type Reminder = Database["public"]["Tables"]["reminders"]["Row"];
@@ -0,0 +1,24 @@
+import type { Database } from "@/lib/database.types";
+
+// An attachment uploaded when the message was scheduled, attached to the
+// message once it's sent
+export interface ScheduledFile {
+	key: string;
+	name: string;
+	type: string;
+	size: number;
+}
+
+export type ScheduledMessage =
+	Database["public"]["Tables"]["scheduled_messages"]["Row"];
+
+// Entry in the scheduled messages view, with where it'll be sent
+export interface ScheduledMessageWithLocation extends ScheduledMessage {
+	channel: {
+		id: string;
+		name: string;
+		slug: string;
+	} | null;
+	// The other participants' names, for a DM or group DM
+	conversationName: string | null;
+}
@@ -0,0 +1,18 @@
+import type { ProfileWithId } from "./profile";
+
+// A message found by workspace search, with who sent it and where
+export interface MessageSearchResult {
+	id: string;
+	content: string;
+	created_at: string;
+	channel_id: string | null;
+	conversation_id: string | null;
+	parent_id: string | null;
+	score: number;
+	profile: ProfileWithId | null;
+	channel: {
+		id: string;
+		name: string;
+		slug: string;
+	} | null;
+}
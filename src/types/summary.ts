@@ -0,0 +1,12 @@
+import type { ChatCitation, ChatSource } from "@/types/chat";
+
+// A catch-up summary of part of a channel, or of a thread. `sources` are
+// the messages it cites, numbered as they are in `content`.
+export interface MessageSummary {
+	content: string;
+	sources: ChatSource[];
+	citations: ChatCitation[];
+	messageCount: number;
+	since: string | null;
+	until: string | null;
+}
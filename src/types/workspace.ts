@@ -36,3 +36,6 @@ export interface WorkspaceWithMembers extends WorkspaceBasic {
 		profile: ProfileDisplay;
 	}[];
 }
+
+// A rebuild of a workspace's search embeddings (see reindex_runs)
+export type ReindexRun = Database["public"]["Tables"]["reindex_runs"]["Row"];
@@ -0,0 +1,52 @@
+import type { ChatCitation, ChatSource } from "@/types/chat";
+
+const CITATION_PATTERN = /\[(\d+)\]/g;
+
+/**
+ * The sources a reply cites with [n] markers, in order of first citation.
+ * Numbers that don't match a source are ignored.
+ */
+export function extractCitations(
+	text: string,
+	sources: ChatSource[],
+): ChatCitation[] {
+	const citations: ChatCitation[] = [];
+
+	for (const match of text.matchAll(CITATION_PATTERN)) {
+		const index = Number(match[1]);
+		const source = sources.find((s) => s.index === index);
+		if (source && !citations.some((c) => c.index === index)) {
+			citations.push({ index, messageId: source.id });
+		}
+	}
+
+	return citations;
+}
+
+export type CitationPart =
+	| { type: "text"; text: string }
+	| { type: "citation"; index: number };
+
+/**
+ * Split a reply into text and [n] markers so the markers can be rendered as
+ * footnote links.
+ */
+export function splitCitations(text: string): CitationPart[] {
+	const parts: CitationPart[] = [];
+	let lastIndex = 0;
+
+	for (const match of text.matchAll(CITATION_PATTERN)) {
+		const start = match.index ?? 0;
+		if (start > lastIndex) {
+			parts.push({ type: "text", text: text.slice(lastIndex, start) });
+		}
+		parts.push({ type: "citation", index: Number(match[1]) });
+		lastIndex = start + match[0].length;
+	}
+
+	if (lastIndex < text.length) {
+		parts.push({ type: "text", text: text.slice(lastIndex) });
+	}
+
+	return parts;
+}
@@ -0,0 +1,16 @@
+import type { ConversationParticipant } from "@/types/conversation";
+
+/**
+ * Display name for a DM or group DM from the other participants, e.g.
+ * "Ana", or "Ana, Ben and Cleo" for a group.
+ */
+export function getConversationName(participants: ConversationParticipant[]) {
+	const names = participants.map(
+		(participant) =>
+			participant.profiles.display_name || participant.profiles.full_name,
+	);
+
+	if (names.length === 0) return "Just you";
+	if (names.length === 1) return names[0];
+	return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
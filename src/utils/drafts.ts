@@ -0,0 +1,67 @@
+import { DRAFT_FILES_STORE, withStore } from "./localDb";
+
+export interface DraftLocation {
+	channelId?: string;
+	conversationId?: string;
+	parentId?: string;
+}
+
+/**
+ * Names where a draft is written, e.g. "channel:<id>" or
+ * "conversation:<id>/thread:<parentId>". Each user has at most one draft
+ * per key.
+ */
+export function getDraftKey({
+	channelId,
+	conversationId,
+	parentId,
+}: DraftLocation): string | null {
+	const container = channelId
+		? `channel:${channelId}`
+		: conversationId
+			? `conversation:${conversationId}`
+			: null;
+	if (!container) return null;
+	return parentId ? `${container}/thread:${parentId}` : container;
+}
+
+// Attachments waiting on a draft. Files aren't uploaded until the message
+// is sent, so these stay in the browser they were added in.
+interface DraftFilesEntry {
+	key: string;
+	files: File[];
+}
+
+// Other users signing in on the same browser keep their own
+function draftFilesKey(userId: string, draftKey: string) {
+	return `${userId}/${draftKey}`;
+}
+
+export async function loadDraftFiles(
+	userId: string,
+	draftKey: string,
+): Promise<File[]> {
+	const entry = await withStore<DraftFilesEntry | undefined>(
+		DRAFT_FILES_STORE,
+		"readonly",
+		(store) => store.get(draftFilesKey(userId, draftKey)),
+	);
+	return entry?.files ?? [];
+}
+
+export async function saveDraftFiles(
+	userId: string,
+	draftKey: string,
+	files: File[],
+) {
+	const key = draftFilesKey(userId, draftKey);
+	if (files.length) {
+		await withStore(DRAFT_FILES_STORE, "readwrite", (store) =>
+			store.put({ key, files }),
+		);
+	} else {
+		await withStore(DRAFT_FILES_STORE, "readwrite", (store) =>
+			store.delete(key),
+		);
+	}
+}
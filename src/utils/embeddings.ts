@@ -1,27 +1,189 @@
 import { VoyageAIClient } from "voyageai";
 import type { EmbedResponse } from "voyageai/api/types";
+import OpenAI from "openai";
+
+export type EmbeddingInputType = "query" | "document";
+
+export interface EmbeddingProvider {
+	// Recorded on every embedding alongside the model; vectors from a
+	// different provider or model are never compared
+	name: "voyage" | "openai" | "local";
+	model: string;
+	embed(inputs: string[], inputType?: EmbeddingInputType): Promise<number[][]>;
+}
+
+// Matches the vector(1024) columns on messages and files. Every provider
+// has to produce vectors of this size.
+export const EMBEDDING_DIMENSIONS = 1024;
+
+// Bump when the text we embed changes shape, then reindex so old and new
+// embeddings don't mix.
+export const EMBEDDING_VERSION = 1;
+
+function createVoyageProvider(): EmbeddingProvider {
+	const model = "voyage-3-large";
+
+	return {
+		name: "voyage",
+		model,
+		async embed(inputs, inputType) {
+			if (!process.env.VOYAGE_API_KEY) {
+				throw new Error("VOYAGE_API_KEY environment variable is not set");
+			}
+
+			const client = new VoyageAIClient({ apiKey: process.env.VOYAGE_API_KEY });
+			const result: EmbedResponse = await client.embed({
+				input: inputs,
+				model,
+				inputType,
+			});
+
+			return (result.data ?? []).map((d) => d.embedding as number[]);
+		},
+	};
+}
+
+function createOpenAIProvider(): EmbeddingProvider {
+	const model = "text-embedding-3-small";
+
+	return {
+		name: "openai",
+		model,
+		async embed(inputs) {
+			if (!process.env.OPENAI_API_KEY) {
+				throw new Error("OPENAI_API_KEY environment variable is not set");
+			}
+
+			const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+			const result = await client.embeddings.create({
+				model,
+				input: inputs,
+				dimensions: EMBEDDING_DIMENSIONS,
+			});
+
+			return result.data.map((d) => d.embedding);
+		},
+	};
+}
+
+// 32-bit FNV-1a
+function hashFeature(feature: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < feature.length; i++) {
+		hash ^= feature.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+/**
+ * Deterministic embedding that runs offline: words, word pairs and
+ * character trigrams are hashed into the vector (the "hashing trick") and
+ * the result is normalised. Much weaker than a trained model, but texts that
+ * share words land close together, which is enough for development and tests.
+ */
+function embedLocally(text: string): number[] {
+	const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+	const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+	const addFeature = (feature: string, weight: number) => {
+		const hash = hashFeature(feature);
+		// The top bit picks the sign, so collisions tend to cancel out
+		const sign = hash & 0x80000000 ? -1 : 1;
+		vector[hash % EMBEDDING_DIMENSIONS] += sign * weight;
+	};
+
+	words.forEach((word, i) => {
+		addFeature(`w:${word}`, 1);
+		if (i > 0) {
+			addFeature(`b:${words[i - 1]} ${word}`, 0.5);
+		}
+		const padded = `#${word}#`;
+		for (let j = 0; j + 3 <= padded.length; j++) {
+			addFeature(`t:${padded.slice(j, j + 3)}`, 0.25);
+		}
+	});
+
+	const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+	if (!norm) {
+		// Cosine distance is undefined for a zero vector
+		vector[0] = 1;
+		return vector;
+	}
+
+	return vector.map((value) => value / norm);
+}
+
+function createLocalProvider(): EmbeddingProvider {
+	return {
+		name: "local",
+		model: `hashing-${EMBEDDING_DIMENSIONS}`,
+		async embed(inputs) {
+			return inputs.map(embedLocally);
+		},
+	};
+}
+
+let provider: EmbeddingProvider | null = null;
+
+/**
+ * The embedding backend chosen by EMBEDDING_PROVIDER: "voyage" (the
+ * default), "openai" or "local".
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+	if (provider) return provider;
+
+	const name = process.env.EMBEDDING_PROVIDER || "voyage";
+	switch (name) {
+		case "voyage":
+			provider = createVoyageProvider();
+			break;
+		case "openai":
+			provider = createOpenAIProvider();
+			break;
+		case "local":
+			provider = createLocalProvider();
+			break;
+		default:
+			throw new Error(`Unknown EMBEDDING_PROVIDER "${name}"`);
+	}
+
+	return provider;
+}
+
+/**
+ * Columns to store next to a new embedding, recording what produced it.
+ */
+export function getEmbeddingMetadata() {
+	const { name, model } = getEmbeddingProvider();
+
+	return {
+		embedding_provider: name,
+		embedding_model: model,
+		embedding_version: EMBEDDING_VERSION,
+	};
+}
 
 export async function generateEmbeddings(
 	inputs: string[],
-	input_type?: "query" | "document",
+	input_type?: EmbeddingInputType,
 ): Promise<number[][]> {
-	if (!process.env.VOYAGE_API_KEY) {
-		throw new Error("VOYAGE_API_KEY environment variable is not set");
-	}
+	const embeddingProvider = getEmbeddingProvider();
 
 	try {
-		const client = new VoyageAIClient({ apiKey: process.env.VOYAGE_API_KEY });
-		const result: EmbedResponse = await client.embed({
-			input: inputs,
-			model: "voyage-3-large",
-			inputType: input_type,
-		});
-
-		if (!result.data?.length) {
+		const embeddings = await embeddingProvider.embed(inputs, input_type);
+
+		if (!embeddings.length) {
 			throw new Error("No embeddings returned");
 		}
 
-		return result.data.map((d) => d.embedding as number[]);
+		if (embeddings.some((e) => e.length !== EMBEDDING_DIMENSIONS)) {
+			throw new Error(
+				`${embeddingProvider.name} returned embeddings that aren't ${EMBEDDING_DIMENSIONS}-dimensional`,
+			);
+		}
+
+		return embeddings;
 	} catch (error) {
 		console.error("Error generating embeddings:", error);
 		throw new Error("Failed to generate embeddings");
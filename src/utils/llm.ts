@@ -0,0 +1,587 @@
+import {
+	GoogleGenerativeAI,
+	type Content,
+	type FunctionDeclarationSchema,
+	type Part,
+} from "@google/generative-ai";
+import { GoogleAIFileManager, FileState } from "@google/generative-ai/server";
+import OpenAI from "openai";
+import { readFileSync } from "node:fs";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+export type LlmProviderName = "openai" | "gemini" | "fake";
+
+export type LlmCapability =
+	| "chat"
+	| "stream"
+	| "tools"
+	| "vision"
+	| "audio"
+	| "video";
+
+// Each feature picks its own provider and model, see getLlm
+export type LlmFeature = "chat" | "context" | "media" | "summary";
+
+export interface LlmToolCall {
+	id: string;
+	name: string;
+	arguments: Record<string, unknown>;
+}
+
+export type LlmMessage =
+	| { role: "system" | "user"; content: string }
+	| { role: "assistant"; content: string; toolCalls?: LlmToolCall[] }
+	| { role: "tool"; toolCallId: string; name: string; content: string };
+
+// A function the model may call; `parameters` is a JSON schema
+export interface LlmTool {
+	name: string;
+	description: string;
+	parameters: {
+		type: "object";
+		properties: Record<string, unknown>;
+		required?: string[];
+	};
+}
+
+export interface LlmToolReply {
+	content: string;
+	toolCalls: LlmToolCall[];
+}
+
+export interface LlmOptions {
+	temperature?: number;
+	maxTokens?: number;
+}
+
+export interface LlmMedia {
+	data: Buffer;
+	mimeType: string;
+	name: string;
+}
+
+/**
+ * An uploaded image, audio or video file that can be asked several
+ * questions. Always dispose it so the provider can drop its copy.
+ */
+export interface LlmMediaSession {
+	ask(prompt: string): Promise<string>;
+	dispose(): Promise<void>;
+}
+
+export interface LlmProvider {
+	name: LlmProviderName;
+	capabilities: LlmCapability[];
+	complete(
+		model: string,
+		messages: LlmMessage[],
+		options?: LlmOptions,
+	): Promise<string>;
+	stream(
+		model: string,
+		messages: LlmMessage[],
+		options?: LlmOptions,
+	): AsyncIterable<string>;
+	// Either answers or asks for tools to be called; run them, add the
+	// results as tool messages and call again
+	completeWithTools(
+		model: string,
+		messages: LlmMessage[],
+		tools: LlmTool[],
+		options?: LlmOptions,
+	): Promise<LlmToolReply>;
+	openMedia(model: string, media: LlmMedia): Promise<LlmMediaSession>;
+}
+
+export interface LlmSelection {
+	provider: LlmProvider;
+	model: string;
+}
+
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+	openai: "gpt-4o-mini",
+	gemini: "gemini-2.0-flash-exp", // This model came out late 2024, don't change!!
+	fake: "fake",
+};
+
+const FEATURE_DEFAULTS: Record<LlmFeature, LlmProviderName> = {
+	chat: "openai",
+	context: "openai",
+	media: "gemini",
+	summary: "openai",
+};
+
+export function getMediaCapability(mimeType: string): LlmCapability {
+	if (mimeType.startsWith("audio/")) return "audio";
+	if (mimeType.startsWith("video/")) return "video";
+	return "vision";
+}
+
+function toOpenAIMessages(
+	messages: LlmMessage[],
+): OpenAI.Chat.ChatCompletionMessageParam[] {
+	return messages.map((message) => {
+		if (message.role === "tool") {
+			return {
+				role: "tool",
+				tool_call_id: message.toolCallId,
+				content: message.content,
+			};
+		}
+		if (message.role === "assistant" && message.toolCalls?.length) {
+			return {
+				role: "assistant",
+				content: message.content || null,
+				tool_calls: message.toolCalls.map((call) => ({
+					id: call.id,
+					type: "function",
+					function: {
+						name: call.name,
+						arguments: JSON.stringify(call.arguments),
+					},
+				})),
+			};
+		}
+		return { role: message.role, content: message.content };
+	});
+}
+
+function parseToolArguments(json: string): Record<string, unknown> {
+	try {
+		const parsed = JSON.parse(json);
+		return parsed && typeof parsed === "object" ? parsed : {};
+	} catch {
+		return {};
+	}
+}
+
+function createOpenAIProvider(apiKey: string): LlmProvider {
+	const client = new OpenAI({ apiKey });
+
+	return {
+		name: "openai",
+		capabilities: ["chat", "stream", "tools", "vision"],
+		async complete(model, messages, options) {
+			const response = await client.chat.completions.create({
+				model,
+				messages: toOpenAIMessages(messages),
+				temperature: options?.temperature,
+				max_tokens: options?.maxTokens,
+			});
+
+			return response.choices[0]?.message?.content?.trim() || "";
+		},
+		async completeWithTools(model, messages, tools, options) {
+			const response = await client.chat.completions.create({
+				model,
+				messages: toOpenAIMessages(messages),
+				tools: tools.map((tool) => ({ type: "function", function: tool })),
+				temperature: options?.temperature,
+				max_tokens: options?.maxTokens,
+			});
+			const message = response.choices[0]?.message;
+
+			return {
+				content: message?.content?.trim() || "",
+				toolCalls: (message?.tool_calls ?? []).map((call) => ({
+					id: call.id,
+					name: call.function.name,
+					arguments: parseToolArguments(call.function.arguments),
+				})),
+			};
+		},
+		async *stream(model, messages, options) {
+			const response = await client.chat.completions.create({
+				model,
+				messages: toOpenAIMessages(messages),
+				temperature: options?.temperature,
+				max_tokens: options?.maxTokens,
+				stream: true,
+			});
+
+			for await (const chunk of response) {
+				const content = chunk.choices[0]?.delta?.content;
+				if (content) yield content;
+			}
+		},
+		async openMedia(model, media) {
+			if (getMediaCapability(media.mimeType) !== "vision") {
+				throw new Error(`OpenAI can't read ${media.mimeType} files`);
+			}
+
+			const url = `data:${media.mimeType};base64,${media.data.toString("base64")}`;
+
+			return {
+				async ask(prompt) {
+					const response = await client.chat.completions.create({
+						model,
+						messages: [
+							{
+								role: "user",
+								content: [
+									{ type: "image_url", image_url: { url } },
+									{ type: "text", text: prompt },
+								],
+							},
+						],
+					});
+
+					return response.choices[0]?.message?.content?.trim() || "";
+				},
+				async dispose() {},
+			};
+		},
+	};
+}
+
+function toGeminiRequest(messages: LlmMessage[]) {
+	const systemInstruction = messages
+		.filter((message) => message.role === "system")
+		.map((message) => message.content)
+		.join("\n\n");
+	const contents: Content[] = [];
+
+	for (const message of messages) {
+		if (message.role === "system") continue;
+
+		if (message.role === "tool") {
+			const part: Part = {
+				functionResponse: {
+					name: message.name,
+					response: { content: message.content },
+				},
+			};
+			// Gemini wants all the results for one turn together
+			const previous = contents[contents.length - 1];
+			if (previous?.role === "function") {
+				previous.parts.push(part);
+			} else {
+				contents.push({ role: "function", parts: [part] });
+			}
+			continue;
+		}
+
+		const parts: Part[] = message.content ? [{ text: message.content }] : [];
+		if (message.role === "assistant") {
+			for (const call of message.toolCalls ?? []) {
+				parts.push({ functionCall: { name: call.name, args: call.arguments } });
+			}
+		}
+		contents.push({
+			role: message.role === "assistant" ? "model" : "user",
+			parts,
+		});
+	}
+
+	return { systemInstruction: systemInstruction || undefined, contents };
+}
+
+function createGeminiProvider(apiKey: string): LlmProvider {
+	const genAI = new GoogleGenerativeAI(apiKey);
+	const fileManager = new GoogleAIFileManager(apiKey);
+
+	const getModel = (
+		model: string,
+		systemInstruction?: string,
+		options?: LlmOptions,
+		tools?: LlmTool[],
+	) =>
+		genAI.getGenerativeModel({
+			model,
+			systemInstruction,
+			tools: tools && [
+				{
+					functionDeclarations: tools.map((tool) => ({
+						...tool,
+						parameters: tool.parameters as FunctionDeclarationSchema,
+					})),
+				},
+			],
+			generationConfig: {
+				temperature: options?.temperature,
+				maxOutputTokens: options?.maxTokens,
+			},
+		});
+
+	// Audio and video go through the file API; Gemini needs a file on disk.
+	// It's written under a fresh directory and a name of our own, as the
+	// upload's name can't be trusted as a path.
+	async function uploadMedia(media: LlmMedia) {
+		const tempDir = await mkdtemp(join(tmpdir(), "gemini-"));
+		try {
+			const tempFilePath = join(tempDir, randomUUID());
+			await writeFile(tempFilePath, media.data);
+			const uploadResult = await fileManager.uploadFile(tempFilePath, {
+				mimeType: media.mimeType,
+				displayName: media.name,
+			});
+
+			// Wait for processing
+			let file = await fileManager.getFile(uploadResult.file.name);
+			while (file.state === FileState.PROCESSING) {
+				await new Promise((resolve) => setTimeout(resolve, 10_000));
+				file = await fileManager.getFile(uploadResult.file.name);
+			}
+
+			if (file.state === FileState.FAILED) {
+				await fileManager.deleteFile(file.name).catch(() => {});
+				throw new Error(`Gemini failed to process ${media.name}`);
+			}
+
+			return file;
+		} finally {
+			await rm(tempDir, { recursive: true, force: true }).catch((error) => {
+				console.error("[gemini] Error cleaning up temp file:", error);
+			});
+		}
+	}
+
+	return {
+		name: "gemini",
+		capabilities: ["chat", "stream", "tools", "vision", "audio", "video"],
+		async complete(model, messages, options) {
+			const { systemInstruction, contents } = toGeminiRequest(messages);
+			const result = await getModel(
+				model,
+				systemInstruction,
+				options,
+			).generateContent({ contents });
+
+			return result.response.text().trim();
+		},
+		async completeWithTools(model, messages, tools, options) {
+			const { systemInstruction, contents } = toGeminiRequest(messages);
+			const result = await getModel(
+				model,
+				systemInstruction,
+				options,
+				tools,
+			).generateContent({ contents });
+			const toolCalls = result.response.functionCalls() ?? [];
+
+			return {
+				// text() throws when the reply is only function calls
+				content: toolCalls.length ? "" : result.response.text().trim(),
+				toolCalls: toolCalls.map((call, i) => ({
+					// Gemini doesn't give calls ids; results are matched by name
+					id: `${call.name}-${i}`,
+					name: call.name,
+					arguments: call.args as Record<string, unknown>,
+				})),
+			};
+		},
+		async *stream(model, messages, options) {
+			const { systemInstruction, contents } = toGeminiRequest(messages);
+			const result = await getModel(
+				model,
+				systemInstruction,
+				options,
+			).generateContentStream({ contents });
+
+			for await (const chunk of result.stream) {
+				const text = chunk.text();
+				if (text) yield text;
+			}
+		},
+		async openMedia(model, media) {
+			const generativeModel = getModel(model);
+
+			if (getMediaCapability(media.mimeType) === "vision") {
+				const part: Part = {
+					inlineData: {
+						data: media.data.toString("base64"),
+						mimeType: media.mimeType,
+					},
+				};
+
+				return {
+					async ask(prompt) {
+						const result = await generativeModel.generateContent([
+							part,
+							prompt,
+						]);
+						return result.response.text().trim();
+					},
+					async dispose() {},
+				};
+			}
+
+			const file = await uploadMedia(media);
+			const part: Part = {
+				fileData: { fileUri: file.uri, mimeType: file.mimeType },
+			};
+
+			return {
+				async ask(prompt) {
+					const result = await generativeModel.generateContent([
+						{ text: prompt },
+						part,
+					]);
+					return result.response.text().trim();
+				},
+				async dispose() {
+					try {
+						await fileManager.deleteFile(file.name);
+					} catch (error) {
+						// Gemini expires uploads after two days anyway
+						console.error("[gemini] Error deleting uploaded file:", error);
+					}
+				},
+			};
+		},
+	};
+}
+
+export interface FakeLlmStep {
+	// Only answer prompts containing this text; steps without one answer
+	// anything
+	match?: string;
+	response: string;
+	// Tools to call instead of answering, when the caller offers tools
+	toolCalls?: { name: string; arguments: Record<string, unknown> }[];
+}
+
+let fakeScript: FakeLlmStep[] | null = null;
+
+function getFakeScript(): FakeLlmStep[] {
+	if (!fakeScript) {
+		fakeScript = process.env.LLM_FAKE_SCRIPT
+			? JSON.parse(readFileSync(process.env.LLM_FAKE_SCRIPT, "utf8"))
+			: [];
+	}
+	return fakeScript as FakeLlmStep[];
+}
+
+/**
+ * Replace the fake provider's script. Each prompt takes the first step that
+ * matches it, and each step answers once. Prompts with no step left get a
+ * canned reply that echoes the prompt.
+ */
+export function setFakeLlmScript(steps: FakeLlmStep[]) {
+	fakeScript = [...steps];
+}
+
+function nextFakeStep(prompt: string): FakeLlmStep {
+	const script = getFakeScript();
+	const index = script.findIndex(
+		(step) => !step.match || prompt.includes(step.match),
+	);
+	if (index !== -1) {
+		return script.splice(index, 1)[0];
+	}
+
+	const firstLine = prompt.trim().split("\n")[0] ?? "";
+	return { response: `Fake reply to: ${firstLine.slice(0, 100)}` };
+}
+
+function fakeRespond(prompt: string): string {
+	return nextFakeStep(prompt).response;
+}
+
+function createFakeProvider(): LlmProvider {
+	const lastUserMessage = (messages: LlmMessage[]) =>
+		messages.findLast((message) => message.role === "user")?.content ?? "";
+
+	return {
+		name: "fake",
+		capabilities: ["chat", "stream", "tools", "vision", "audio", "video"],
+		async complete(_model, messages) {
+			return fakeRespond(lastUserMessage(messages));
+		},
+		async completeWithTools(_model, messages) {
+			const step = nextFakeStep(lastUserMessage(messages));
+
+			return {
+				content: step.toolCalls?.length ? "" : step.response,
+				toolCalls: (step.toolCalls ?? []).map((call, i) => ({
+					id: `fake-${i}`,
+					...call,
+				})),
+			};
+		},
+		async *stream(_model, messages) {
+			const response = fakeRespond(lastUserMessage(messages));
+			// Word by word, so the UI still sees more than one chunk
+			for (const word of response.match(/\S+\s*/g) ?? []) {
+				yield word;
+			}
+		},
+		async openMedia(_model, media) {
+			return {
+				async ask(prompt) {
+					return fakeRespond(`${prompt}\n[${media.name}]`);
+				},
+				async dispose() {},
+			};
+		},
+	};
+}
+
+const providers = new Map<LlmProviderName, LlmProvider | null>();
+
+// null when the provider isn't configured, e.g. its API key is missing
+function getProvider(name: LlmProviderName): LlmProvider | null {
+	if (!providers.has(name)) {
+		let provider: LlmProvider | null = null;
+		if (name === "openai" && process.env.OPENAI_API_KEY) {
+			provider = createOpenAIProvider(process.env.OPENAI_API_KEY);
+		} else if (name === "gemini" && process.env.GOOGLE_API_KEY) {
+			provider = createGeminiProvider(process.env.GOOGLE_API_KEY);
+		} else if (name === "fake") {
+			provider = createFakeProvider();
+		}
+		providers.set(name, provider);
+	}
+
+	return providers.get(name) ?? null;
+}
+
+function parseProviderName(name: string, variable: string): LlmProviderName {
+	if (name === "openai" || name === "gemini" || name === "fake") {
+		return name;
+	}
+	throw new Error(`Unknown ${variable} "${name}"`);
+}
+
+const warned = new Set<string>();
+
+/**
+ * The provider and model to use for a feature, or null when that feature
+ * has no provider with the capability it needs; callers carry on without
+ * it. Configured per feature with LLM_<FEATURE>_PROVIDER and
+ * LLM_<FEATURE>_MODEL, falling back to LLM_PROVIDER and then the defaults
+ * (OpenAI for chat, context and summaries, Gemini for media).
+ */
+export function getLlm(
+	feature: LlmFeature,
+	capability: LlmCapability,
+): LlmSelection | null {
+	const prefix = `LLM_${feature.toUpperCase()}`;
+	const providerVariable = process.env[`${prefix}_PROVIDER`]
+		? `${prefix}_PROVIDER`
+		: "LLM_PROVIDER";
+	const providerName = parseProviderName(
+		process.env[providerVariable] || FEATURE_DEFAULTS[feature],
+		providerVariable,
+	);
+	const provider = getProvider(providerName);
+
+	if (!provider?.capabilities.includes(capability)) {
+		const key = `${feature}:${capability}`;
+		if (!warned.has(key)) {
+			warned.add(key);
+			console.warn(
+				`[getLlm] No ${capability} support for ${feature}: ${providerName} is ${provider ? "missing that capability" : "not configured"}`,
+			);
+		}
+		return null;
+	}
+
+	return {
+		provider,
+		model: process.env[`${prefix}_MODEL`] || DEFAULT_MODELS[providerName],
+	};
+}
@@ -0,0 +1,52 @@
+// Named for the outbox it first held. Version 1 had only the outbox; version
+// 2 added draft attachments. Upgrading keeps what's waiting in the outbox.
+const DB_NAME = "sluck-outbox";
+const DB_VERSION = 2;
+
+// Messages waiting to be sent, see outbox.ts
+export const OUTBOX_STORE = "messages";
+// Attachments on unsent drafts, see drafts.ts
+export const DRAFT_FILES_STORE = "draft_files";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openLocalDb(): Promise<IDBDatabase> {
+	if (!dbPromise) {
+		dbPromise = new Promise((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+			request.onupgradeneeded = (event) => {
+				const db = request.result;
+				if (event.oldVersion < 1) {
+					db.createObjectStore(OUTBOX_STORE, { keyPath: "id" });
+				}
+				if (event.oldVersion < 2) {
+					db.createObjectStore(DRAFT_FILES_STORE, { keyPath: "key" });
+				}
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+		// Let a later call try again, e.g. once private browsing ends
+		dbPromise.catch(() => {
+			dbPromise = null;
+		});
+	}
+	return dbPromise;
+}
+
+/**
+ * Run one request against a store in the browser's IndexedDB, for what has
+ * to survive a reload but can't wait on the server.
+ */
+export async function withStore<T>(
+	storeName: string,
+	mode: IDBTransactionMode,
+	run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+	const db = await openLocalDb();
+	return new Promise((resolve, reject) => {
+		const request = run(db.transaction(storeName, mode).objectStore(storeName));
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
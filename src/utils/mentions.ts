@@ -0,0 +1,117 @@
+import type { MessageMention } from "@/types/mention";
+
+export const MENTION_KEYWORDS = ["channel", "here"] as const;
+
+export type MentionSegment =
+	| { type: "text"; text: string }
+	| { type: "mention"; text: string; mention: MessageMention };
+
+function escapeRegExp(value: string) {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * The text a mention appears as in message content, without the "@".
+ */
+export function getMentionLabel(mention: MessageMention) {
+	return mention.type === "user" ? mention.name : mention.type;
+}
+
+/**
+ * Matches "@label" as a whole token, so "@Matt" doesn't match inside
+ * "email@Matt" or "@Matthew".
+ */
+function mentionPattern(labels: string[], flags = "g") {
+	return new RegExp(
+		`(?<![\\w@])@(${labels.map(escapeRegExp).join("|")})(?![\\w])`,
+		flags,
+	);
+}
+
+/**
+ * Clean up client-supplied mentions before storing them: drop malformed
+ * entries, duplicates and mentions whose text was deleted from the content,
+ * and pick up @channel/@here typed by hand.
+ */
+export function normalizeMentions(
+	content: string,
+	mentions: unknown,
+): MessageMention[] {
+	const result: MessageMention[] = [];
+	const seenUserIds = new Set<string>();
+
+	for (const mention of Array.isArray(mentions) ? mentions : []) {
+		if (
+			mention?.type === "user" &&
+			typeof mention.userId === "string" &&
+			typeof mention.name === "string" &&
+			mention.name.trim() &&
+			!seenUserIds.has(mention.userId) &&
+			mentionPattern([mention.name], "").test(content)
+		) {
+			seenUserIds.add(mention.userId);
+			result.push({
+				type: "user",
+				userId: mention.userId,
+				name: mention.name,
+			});
+		}
+	}
+
+	for (const keyword of MENTION_KEYWORDS) {
+		if (mentionPattern([keyword], "").test(content)) {
+			result.push({ type: keyword });
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Split content into plain text and mention segments for rendering.
+ */
+export function splitByMentions(
+	content: string,
+	mentions: MessageMention[] | null | undefined,
+): MentionSegment[] {
+	if (!mentions?.length) return [{ type: "text", text: content }];
+
+	const byLabel = new Map<string, MessageMention>();
+	for (const mention of mentions) {
+		byLabel.set(getMentionLabel(mention), mention);
+	}
+
+	// Longest first so "@Matt Stanbrell" wins over "@Matt"
+	const labels = Array.from(byLabel.keys()).sort((a, b) => b.length - a.length);
+	const segments: MentionSegment[] = [];
+	let lastIndex = 0;
+
+	for (const match of content.matchAll(mentionPattern(labels))) {
+		const mention = byLabel.get(match[1]);
+		if (!mention || match.index === undefined) continue;
+
+		if (match.index > lastIndex) {
+			segments.push({
+				type: "text",
+				text: content.slice(lastIndex, match.index),
+			});
+		}
+		segments.push({ type: "mention", text: match[0], mention });
+		lastIndex = match.index + match[0].length;
+	}
+
+	if (lastIndex < content.length) {
+		segments.push({ type: "text", text: content.slice(lastIndex) });
+	}
+
+	return segments;
+}
+
+/**
+ * The partial name being typed after an "@" right before the caret, or null
+ * if the caret isn't in a mention.
+ */
+export function getMentionQuery(textBeforeCaret: string): string | null {
+	const match = textBeforeCaret.match(/(?:^|\s)@([^\s@]*)$/);
+	return match ? match[1] : null;
+}
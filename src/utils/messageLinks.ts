@@ -0,0 +1,52 @@
+interface MessageLocation {
+	id: string;
+	parent_id: string | null;
+	conversation_id: string | null;
+	channel: { slug: string } | null;
+}
+
+/**
+ * Link that opens a message's channel or conversation scrolled to it. Thread
+ * replies link to their parent with the thread open.
+ */
+export function buildMessageHref(
+	workspaceSlug: string,
+	message: MessageLocation,
+): string {
+	const base = message.channel
+		? `/workspace/${workspaceSlug}/channel/${message.channel.slug}`
+		: `/workspace/${workspaceSlug}/conversation/${message.conversation_id}`;
+
+	const params = new URLSearchParams({
+		message: message.parent_id ?? message.id,
+	});
+	if (message.parent_id) {
+		params.set("reply", message.id);
+	}
+
+	return `${base}?${params.toString()}`;
+}
+
+/**
+ * Link back to where a draft or scheduled message is being written. Ones in
+ * a thread open the thread with its parent highlighted.
+ */
+export function buildComposeHref(
+	workspaceSlug: string,
+	location: {
+		parent_id: string | null;
+		conversation_id: string | null;
+		channel: { slug: string } | null;
+	},
+): string {
+	const base = location.channel
+		? `/workspace/${workspaceSlug}/channel/${location.channel.slug}`
+		: `/workspace/${workspaceSlug}/conversation/${location.conversation_id}`;
+	if (!location.parent_id) return base;
+
+	const params = new URLSearchParams({
+		message: location.parent_id,
+		reply: location.parent_id,
+	});
+	return `${base}?${params.toString()}`;
+}
@@ -0,0 +1,126 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Message } from "@/types/message";
+
+// Columns for showing a message with its author, files and reactions, as
+// the thread panel shows a thread's parent. Also used by Slucky's get_thread
+// tool so it reads threads the same way.
+export const THREAD_MESSAGE_SELECT = `
+	*,
+	profile:profiles (
+		id,
+		full_name,
+		display_name,
+		avatar_url,
+		avatar_color,
+		avatar_cache
+	),
+	files (
+		id,
+		file_type,
+		file_name,
+		file_size,
+		file_url
+	),
+	reactions:message_reactions (
+		message_id,
+		user_id,
+		emoji,
+		created_at
+	),
+	reply_count,
+	reply_user_ids
+`;
+
+// Columns for a message in a list: its author, files with their captions,
+// reactions and thread summary
+export const MESSAGE_LIST_SELECT = `
+	*,
+	profile:profiles (
+		id,
+		full_name,
+		display_name,
+		avatar_url,
+		avatar_color,
+		avatar_cache
+	),
+	files (
+		id,
+		file_type,
+		file_name,
+		file_size,
+		file_url,
+		caption,
+		description
+	),
+	reactions:message_reactions (
+		message_id,
+		user_id,
+		emoji,
+		created_at
+	),
+	reply_count,
+	reply_user_ids
+`;
+
+// Top-level messages per page; a channel opens on its newest page and loads
+// older ones as the user scrolls up
+export const MESSAGE_PAGE_SIZE = 50;
+
+/**
+ * A page of a channel's or conversation's top-level messages, oldest first.
+ * Without `before` it's the newest page, otherwise the page just older than
+ * that message; `hasOlder` says whether there's anything before it. Threads
+ * are short, so a thread's replies come back whole.
+ */
+export async function fetchMessagePage(
+	supabase: SupabaseClient,
+	{
+		channelId,
+		conversationId,
+		parentId,
+		before,
+	}: {
+		channelId?: string;
+		conversationId?: string;
+		parentId?: string;
+		before?: Pick<Message, "id" | "created_at">;
+	},
+): Promise<{ messages: Message[]; hasOlder: boolean }> {
+	let query = supabase.from("messages").select(MESSAGE_LIST_SELECT);
+
+	if (channelId) {
+		query = query.eq("channel_id", channelId);
+	} else if (conversationId) {
+		query = query.eq("conversation_id", conversationId);
+	}
+
+	if (parentId) {
+		const { data, error } = await query
+			.eq("parent_id", parentId)
+			.order("created_at", { ascending: true });
+		if (error) throw error;
+		return { messages: data as Message[], hasOlder: false };
+	}
+
+	query = query.is("parent_id", null);
+	if (before) {
+		// Keyset on (created_at, id) so messages sharing a timestamp aren't
+		// skipped or repeated across pages
+		query = query.or(
+			`created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`,
+		);
+	}
+
+	// One extra row tells us whether there's another page
+	const { data, error } = await query
+		.order("created_at", { ascending: false })
+		.order("id", { ascending: false })
+		.limit(MESSAGE_PAGE_SIZE + 1);
+	if (error) throw error;
+
+	const rows = data as Message[];
+	return {
+		messages: rows.slice(0, MESSAGE_PAGE_SIZE).reverse(),
+		hasOlder: rows.length > MESSAGE_PAGE_SIZE,
+	};
+}
@@ -1,5 +1,6 @@
 import { createClient } from "@/utils/supabase/server";
-import OpenAI from "openai";
+import { getLlm, type LlmSelection } from "@/utils/llm";
+import type { SupabaseClient } from "@supabase/supabase-js";
 
 /**
  * Minimal interface for a user profile
@@ -13,6 +14,15 @@ type ProfileResponse = {
 // Export the one hour constant used in other files
 export const ONE_HOUR_MS = 60 * 60 * 1000;
 
+// Messages context generation sees as they are; anything older is only
+// seen through the rolling summary
+const RECENT_WINDOW_SIZE = 30;
+
+// Messages folded into the rolling summary per model call, and calls per
+// run, so a long backlog is caught up over several runs
+const SUMMARY_BATCH_SIZE = 100;
+const MAX_SUMMARY_BATCHES = 5;
+
 /**
  * Format a timestamp for display
  */
@@ -35,20 +45,75 @@ export function formatTimestamp(date: Date, includeDate = true): string {
 	});
 }
 
+/**
+ * Narrows the history to part of a channel or conversation
+ */
+export interface MessageHistoryOptions {
+	since?: string;
+	until?: string;
+	// Only this thread: the message itself and its replies
+	parentId?: string;
+	// Exclusive bounds, for picking up where an earlier read left off
+	after?: string;
+	before?: string;
+	// At most this many messages: the earliest, or with `latest` the most
+	// recent
+	limit?: number;
+	latest?: boolean;
+	// Prefix each message with its position, e.g. [3], so a model can refer
+	// back to it
+	numbered?: boolean;
+}
+
+/**
+ * A message included in a formatted history. With `numbered`, message n in
+ * the text is messages[n - 1].
+ */
+export interface HistoryMessage {
+	id: string;
+	parent_id: string | null;
+	conversation_id: string | null;
+	content: string;
+	created_at: string;
+	sender_name: string;
+}
+
 /**
  * Get the entire message history for a channel or conversation in chronological order,
  * replicating the snippet in the giant file that merges "profiles" and "files."
+ * Background jobs pass their own client since there's no user session.
  */
 export async function getFormattedMessageHistory(
 	channelId: string | null,
 	conversationId: string | null,
+	supabaseClient?: SupabaseClient,
+	options: MessageHistoryOptions = {},
 ): Promise<string> {
+	const { history } = await getMessageHistory(
+		channelId,
+		conversationId,
+		supabaseClient,
+		options,
+	);
+	return history;
+}
+
+/**
+ * getMessageHistory - the formatted history along with the messages in it,
+ * for callers that need to link back to them
+ */
+export async function getMessageHistory(
+	channelId: string | null,
+	conversationId: string | null,
+	supabaseClient?: SupabaseClient,
+	options: MessageHistoryOptions = {},
+): Promise<{ history: string; messages: HistoryMessage[] }> {
 	console.log(
 		`[getFormattedMessageHistory] Starting for ${channelId ? "channel" : "conversation"} ID: ${channelId || conversationId}`,
 	);
 
-	const supabase = await createClient();
-	const { data: messages, error } = await supabase
+	const supabase = supabaseClient ?? (await createClient());
+	let query = supabase
 		.from("messages")
 		.select(`
       id,
@@ -56,6 +121,7 @@ export async function getFormattedMessageHistory(
       created_at,
       channel_id,
       conversation_id,
+      parent_id,
       user_id,
       profile:profiles!user_id (
         id,
@@ -73,18 +139,45 @@ export async function getFormattedMessageHistory(
 			channelId ? "channel_id" : "conversation_id",
 			channelId || conversationId,
 		)
-		.order("created_at", { ascending: true });
+		.is("deleted_at", null);
+
+	if (options.since) {
+		query = query.gte("created_at", options.since);
+	}
+	if (options.until) {
+		query = query.lte("created_at", options.until);
+	}
+	if (options.after) {
+		query = query.gt("created_at", options.after);
+	}
+	if (options.before) {
+		query = query.lt("created_at", options.before);
+	}
+	if (options.parentId) {
+		query = query.or(
+			`id.eq.${options.parentId},parent_id.eq.${options.parentId}`,
+		);
+	}
+
+	query = query.order("created_at", { ascending: !options.latest });
+	if (options.limit) {
+		query = query.limit(options.limit);
+	}
+
+	const { data, error } = await query;
+	// The latest messages come newest first
+	const messages = options.latest ? data?.slice().reverse() : data;
 
 	if (error) {
 		console.error(
 			"[getFormattedMessageHistory] Error fetching messages:",
 			error,
 		);
-		return "";
+		return { history: "", messages: [] };
 	}
 	if (!messages || !messages.length) {
 		console.log("[getFormattedMessageHistory] No messages found");
-		return "";
+		return { history: "", messages: [] };
 	}
 
 	console.log(`[getFormattedMessageHistory] Found ${messages.length} messages`);
@@ -103,9 +196,9 @@ export async function getFormattedMessageHistory(
 			? `Channel: ${channelData.name}`
 			: "Channel: (unknown)";
 	} else if (conversationId) {
-		// Attempt to fetch DM recipient
+		// Attempt to fetch DM recipient(s); group DMs have several
 		const firstMsgUserId = messages[0].user_id;
-		const { data: participant } = await supabase
+		const { data: participants } = await supabase
 			.from("conversation_participants")
 			.select(`
         profile:profiles!user_id (
@@ -115,23 +208,36 @@ export async function getFormattedMessageHistory(
         )
       `)
 			.eq("conversation_id", conversationId)
-			.neq("user_id", firstMsgUserId)
-			.single();
+			.neq("user_id", firstMsgUserId);
 
-		const p = participant?.profile as unknown as ProfileResponse;
-		const recipientName = p?.display_name || p?.full_name || "Unknown User";
-		heading = `Direct Message Recipient: ${recipientName}`;
+		const recipientNames = (participants || []).map((participant) => {
+			const p = participant.profile as unknown as ProfileResponse;
+			return p?.display_name || p?.full_name || "Unknown User";
+		});
+		heading =
+			recipientNames.length > 1
+				? `Group Message Recipients: ${recipientNames.join(", ")}`
+				: `Direct Message Recipient: ${recipientNames[0] || "Unknown User"}`;
 	}
 
 	const lines: string[] = [];
 	if (heading) lines.push(heading);
 
 	let currentDate: string | null = null;
+	const included: HistoryMessage[] = [];
 
 	for (const msg of messages) {
 		const sender = msg.profile as unknown as ProfileResponse;
 		const senderName =
 			sender?.display_name || sender?.full_name || "Unknown User";
+		included.push({
+			id: msg.id,
+			parent_id: msg.parent_id,
+			conversation_id: msg.conversation_id,
+			content: msg.content,
+			created_at: msg.created_at,
+			sender_name: senderName,
+		});
 
 		const dt = new Date(msg.created_at);
 		const dateStr = dt.toLocaleDateString("en-GB", {
@@ -147,8 +253,9 @@ export async function getFormattedMessageHistory(
 		}
 
 		// Write the message
+		const number = options.numbered ? `[${included.length}] ` : "";
 		lines.push(
-			`[${senderName}, ${formatTimestamp(dt, false)}]: ${msg.content}`,
+			`${number}[${senderName}, ${formatTimestamp(dt, false)}]: ${msg.content}`,
 		);
 
 		// If there are files
@@ -178,31 +285,184 @@ export async function getFormattedMessageHistory(
 
 	const formattedHistory = lines.join("\n");
 	console.log("[Message History]:\n", formattedHistory);
-	return formattedHistory;
+	return { history: formattedHistory, messages: included };
+}
+
+// Fold a batch of messages into a running summary
+async function updateSummary(
+	llm: LlmSelection,
+	summary: string,
+	batch: string,
+): Promise<string> {
+	return llm.provider.complete(
+		llm.model,
+		[
+			{
+				role: "system",
+				content:
+					"You maintain a running summary of a chat channel, used as background when describing new messages.",
+			},
+			{
+				role: "user",
+				content: `
+<summary>
+${summary || "(nothing yet)"}
+</summary>
+
+<new_messages>
+${batch}
+</new_messages>
+
+Rewrite the summary to take in the new messages. Keep who is involved, the topics, decisions and open questions; leave out small talk. Stay under 300 words.
+Return only the summary, no extraneous text.
+`,
+			},
+		],
+		{ temperature: 0.3, maxTokens: 500 },
+	);
 }
 
 /**
- * getContextualInformation - calls GPT-4o-mini to derive a brief snippet of context
- * for future semantic search, exactly as the giant file does.
+ * getRollingContext - what context generation needs to know about a
+ * message's surroundings: the most recent messages up to it, and a stored
+ * summary of the channel or conversation before them. The summary is brought
+ * up to date here, folding in only the messages that have dropped out of
+ * the recent window since it was last updated.
  */
-const openai = new OpenAI({
-	apiKey: process.env.OPENAI_API_KEY,
-});
+export async function getRollingContext(
+	channelId: string | null,
+	conversationId: string | null,
+	upTo: string,
+	supabase: SupabaseClient,
+): Promise<{ summary: string; recentHistory: string }> {
+	const { history: recentHistory, messages: recent } = await getMessageHistory(
+		channelId,
+		conversationId,
+		supabase,
+		{ until: upTo, limit: RECENT_WINDOW_SIZE, latest: true },
+	);
+
+	// The window already holds everything said so far
+	if (recent.length < RECENT_WINDOW_SIZE) {
+		return { summary: "", recentHistory };
+	}
+
+	const windowStart = recent[0].created_at;
+	const column = channelId ? "channel_id" : "conversation_id";
+	const containerId = channelId ?? conversationId;
 
+	const { data: stored } = await supabase
+		.from("context_summaries")
+		.select("summary, summarized_until, message_count")
+		.eq(column, containerId)
+		.maybeSingle();
+
+	let summary: string = stored?.summary ?? "";
+	let summarizedUntil: string | null = stored?.summarized_until ?? null;
+	let messageCount: number = stored?.message_count ?? 0;
+
+	// An older message being re-embedded: the summary already covers what
+	// came after it, so it would describe the future
+	if (
+		summarizedUntil &&
+		new Date(summarizedUntil).getTime() >= new Date(windowStart).getTime()
+	) {
+		return { summary: "", recentHistory };
+	}
+
+	const llm = getLlm("context", "chat");
+	if (!llm) {
+		return { summary, recentHistory };
+	}
+
+	let exists = !!stored;
+	for (let i = 0; i < MAX_SUMMARY_BATCHES; i++) {
+		const { history: batch, messages } = await getMessageHistory(
+			channelId,
+			conversationId,
+			supabase,
+			{
+				after: summarizedUntil ?? undefined,
+				before: windowStart,
+				limit: SUMMARY_BATCH_SIZE,
+			},
+		);
+		if (!messages.length) break;
+
+		let updated: string;
+		try {
+			updated = await updateSummary(llm, summary, batch);
+		} catch (error) {
+			console.error("[getRollingContext] Failed to update summary:", error);
+			break;
+		}
+
+		const next = {
+			summary: updated,
+			summarized_until: messages[messages.length - 1].created_at,
+			message_count: messageCount + messages.length,
+		};
+
+		// Only move the summary on from where this run found it; if another
+		// worker got there first, keep theirs
+		let saved: boolean;
+		if (exists) {
+			let update = supabase
+				.from("context_summaries")
+				.update({ ...next, updated_at: new Date().toISOString() })
+				.eq(column, containerId);
+			update = summarizedUntil
+				? update.eq("summarized_until", summarizedUntil)
+				: update.is("summarized_until", null);
+			const { data, error } = await update.select("id");
+			saved = !error && !!data?.length;
+		} else {
+			const { error } = await supabase
+				.from("context_summaries")
+				.insert({ [column]: containerId, ...next });
+			saved = !error;
+			exists = true;
+		}
+
+		summary = next.summary;
+		summarizedUntil = next.summarized_until;
+		messageCount = next.message_count;
+
+		if (!saved || messages.length < SUMMARY_BATCH_SIZE) break;
+	}
+
+	return { summary, recentHistory };
+}
+
+/**
+ * getContextualInformation - asks the context model to derive a brief snippet
+ * of context for future semantic search, from the recent history around the
+ * chunk and a summary of what came before it. Returns an empty string when
+ * no model is configured or the call fails.
+ */
 export async function getContextualInformation(
-	completeHistory: string,
+	recentHistory: string,
 	chunk: string,
+	summary = "",
 ): Promise<string> {
 	console.log("[getContextualInformation] Starting context generation");
 	console.log(
-		"[getContextualInformation] Complete history length:",
-		completeHistory.length,
+		"[getContextualInformation] Recent history length:",
+		recentHistory.length,
 	);
+	console.log("[getContextualInformation] Summary length:", summary.length);
 	console.log("[getContextualInformation] Chunk length:", chunk.length);
 
-	const prompt = `
+	const summaryBlock = summary
+		? `
+<earlier_summary>
+${summary}
+</earlier_summary>
+`
+		: "";
+	const prompt = `${summaryBlock}
 <conversation>
-${completeHistory}
+${recentHistory}
 </conversation>
 
 <chunk>
@@ -213,10 +473,15 @@ Please provide a brief (1-2 sentences) context summarizing the chunk's relevance
 Return only the context, no extraneous text.
 `;
 
+	const llm = getLlm("context", "chat");
+	if (!llm) {
+		return "";
+	}
+
 	try {
-		const response = await openai.chat.completions.create({
-			model: "gpt-4o-mini",
-			messages: [
+		const context = await llm.provider.complete(
+			llm.model,
+			[
 				{
 					role: "system",
 					content:
@@ -227,11 +492,8 @@ Return only the context, no extraneous text.
 					content: prompt,
 				},
 			],
-			temperature: 0.3,
-			max_tokens: 100,
-		});
-
-		const context = response.choices[0].message?.content?.trim() || "";
+			{ temperature: 0.3, maxTokens: 100 },
+		);
 		console.log("[Contextual Information]:\n", context);
 		return context;
 	} catch (error) {
@@ -0,0 +1,53 @@
+import type { MessageMention } from "@/types/mention";
+import { OUTBOX_STORE, withStore } from "./localDb";
+
+/**
+ * A message waiting to be sent, kept in IndexedDB so it survives going
+ * offline and reloading the page. Attachments are stored as the Files
+ * themselves until they've been uploaded.
+ */
+export interface OutboxEntry {
+	// The id the message is created with
+	id: string;
+	// Who wrote it; other users signing in on the same browser leave it be
+	userId: string;
+	content: string;
+	channelId?: string;
+	conversationId?: string;
+	parentId?: string;
+	mentions: MessageMention[];
+	// Attachments not yet uploaded
+	files: File[];
+	// Whether the message itself has been saved, leaving only its files
+	created: boolean;
+	status: "sending" | "failed";
+	error?: string;
+	// The server turned it down (e.g. no longer a member), so coming back
+	// online won't help; it waits for the user to retry or discard it
+	rejected?: boolean;
+	createdAt: string;
+}
+
+/**
+ * Everything a user still has waiting to be sent, oldest first.
+ */
+export async function listOutboxEntries(
+	userId: string,
+): Promise<OutboxEntry[]> {
+	const entries = await withStore<OutboxEntry[]>(
+		OUTBOX_STORE,
+		"readonly",
+		(store) => store.getAll(),
+	);
+	return entries
+		.filter((entry) => entry.userId === userId)
+		.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function saveOutboxEntry(entry: OutboxEntry) {
+	await withStore(OUTBOX_STORE, "readwrite", (store) => store.put(entry));
+}
+
+export async function deleteOutboxEntry(id: string) {
+	await withStore(OUTBOX_STORE, "readwrite", (store) => store.delete(id));
+}
@@ -0,0 +1,75 @@
+import {
+	S3Client,
+	DeleteObjectsCommand,
+	GetObjectCommand,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+/**
+ * Create an S3 client from the AWS_S3_* environment variables.
+ */
+export function createS3Client() {
+	const region = process.env.AWS_S3_REGION;
+	const accessKeyId = process.env.AWS_S3_ACCESS_KEY_ID;
+	const secretAccessKey = process.env.AWS_S3_SECRET_ACCESS_KEY;
+
+	if (!region || !accessKeyId || !secretAccessKey) {
+		throw new Error("Missing required AWS configuration");
+	}
+
+	return new S3Client({
+		region,
+		credentials: {
+			accessKeyId,
+			secretAccessKey,
+		},
+	});
+}
+
+/**
+ * A short-lived URL to download an uploaded object, for handing media to a
+ * model.
+ */
+export async function getS3DownloadUrl(
+	key: string,
+	expiresIn = 60,
+): Promise<string> {
+	const bucketName = process.env.AWS_S3_BUCKET_NAME;
+	if (!bucketName) {
+		throw new Error("Missing required AWS configuration");
+	}
+
+	return getSignedUrl(
+		createS3Client(),
+		new GetObjectCommand({ Bucket: bucketName, Key: key }),
+		{ expiresIn },
+	);
+}
+
+/**
+ * Delete uploaded objects from the bucket by key.
+ */
+export async function deleteS3Objects(keys: string[]): Promise<void> {
+	if (!keys.length) return;
+
+	const bucketName = process.env.AWS_S3_BUCKET_NAME;
+	if (!bucketName) {
+		throw new Error("Missing required AWS configuration");
+	}
+
+	const s3Client = createS3Client();
+	const result = await s3Client.send(
+		new DeleteObjectsCommand({
+			Bucket: bucketName,
+			Delete: {
+				Objects: keys.map((key) => ({ Key: key })),
+				Quiet: true,
+			},
+		}),
+	);
+
+	if (result.Errors?.length) {
+		console.error("[deleteS3Objects] Failed to delete objects:", result.Errors);
+		throw new Error("Failed to delete files from storage");
+	}
+}
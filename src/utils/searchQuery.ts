@@ -0,0 +1,80 @@
+// Search box text split into free text and operators, e.g.
+// `deploy from:@ana in:#ops has:file after:2024-03-01`
+export interface ParsedSearchQuery {
+	text: string;
+	from?: string;
+	in?: string;
+	hasFile: boolean;
+	before?: string;
+	after?: string;
+}
+
+const TOKEN_PATTERN = /(\w+):(?:"([^"]*)"|(\S+))|"[^"]*"|\S+/g;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: string) {
+	return (
+		DATE_PATTERN.test(value) &&
+		!Number.isNaN(new Date(`${value}T00:00:00Z`).getTime())
+	);
+}
+
+/**
+ * Pull `from:`, `in:`, `has:file`, `before:` and `after:` out of a search.
+ * Values can be quoted (`from:"Ana Lopez"`); anything that isn't a
+ * recognised operator stays in the free text.
+ */
+export function parseSearchQuery(raw: string): ParsedSearchQuery {
+	const parsed: ParsedSearchQuery = { text: "", hasFile: false };
+	const textParts: string[] = [];
+
+	for (const match of raw.matchAll(TOKEN_PATTERN)) {
+		const [token, operator, quotedValue, plainValue] = match;
+		const value = (quotedValue ?? plainValue ?? "").trim();
+
+		switch (operator?.toLowerCase()) {
+			case "from":
+				if (value.replace(/^@/, "")) {
+					parsed.from = value.replace(/^@/, "");
+					continue;
+				}
+				break;
+			case "in":
+				if (value.replace(/^#/, "")) {
+					parsed.in = value.replace(/^#/, "");
+					continue;
+				}
+				break;
+			case "has":
+				if (/^files?$/i.test(value)) {
+					parsed.hasFile = true;
+					continue;
+				}
+				break;
+			case "before":
+			case "after":
+				if (isValidDate(value)) {
+					parsed[operator.toLowerCase() as "before" | "after"] = value;
+					continue;
+				}
+				break;
+		}
+
+		textParts.push(token);
+	}
+
+	parsed.text = textParts.join(" ");
+	return parsed;
+}
+
+/**
+ * Lowercased words from the free text, for highlighting matches. Excluded
+ * words (`-word`) and websearch keywords are left out.
+ */
+export function getSearchTerms(text: string): string[] {
+	return text
+		.split(/\s+/)
+		.filter((word) => word && !word.startsWith("-"))
+		.map((word) => word.replace(/^["']+|["'.,!?;:]+$/g, "").toLowerCase())
+		.filter((word) => word.length > 1 && word !== "or");
+}
@@ -0,0 +1,24 @@
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * Service-role client for background work that has no user session, like
+ * the embedding worker. It bypasses RLS, so never use it on behalf of a user.
+ */
+export function createAdminClient() {
+	if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+		throw new Error(
+			"SUPABASE_SERVICE_ROLE_KEY environment variable is not set",
+		);
+	}
+
+	return createClient(
+		process.env.NEXT_PUBLIC_SUPABASE_URL!,
+		process.env.SUPABASE_SERVICE_ROLE_KEY,
+		{
+			auth: {
+				persistSession: false,
+				autoRefreshToken: false,
+			},
+		},
+	);
+}
@@ -0,0 +1,55 @@
+-- Track when a message was last edited
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ;
+
+-- Keep the previous versions of edited messages
+CREATE TABLE IF NOT EXISTS message_edits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  previous_content TEXT NOT NULL,
+  edited_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS message_edits_message_id_idx
+ON message_edits(message_id, edited_at DESC);
+
+ALTER TABLE message_edits ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can read the message can read its edit history
+CREATE POLICY "Users can read edits of messages they can read"
+ON message_edits FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM messages
+    WHERE messages.id = message_edits.message_id
+      AND (
+        (channel_id IN (
+          SELECT channel_id
+          FROM channel_members
+          WHERE user_id = auth.uid()
+        ))
+        OR
+        (conversation_id IN (
+          SELECT conversation_id
+          FROM conversation_participants
+          WHERE user_id = auth.uid()
+        ))
+      )
+  )
+);
+
+-- Only the author of a message can record an edit for it
+CREATE POLICY "Users can record edits of their own messages"
+ON message_edits FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1
+    FROM messages
+    WHERE messages.id = message_edits.message_id
+      AND messages.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,116 @@
+-- Deleted messages that still have thread replies are kept as tombstones
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Channel admins and workspace owners/admins can moderate a channel
+CREATE OR REPLACE FUNCTION can_moderate_channel(p_channel_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM channel_members
+    WHERE channel_id = p_channel_id
+      AND user_id = auth.uid()
+      AND role = 'admin'
+  )
+  OR EXISTS (
+    SELECT 1
+    FROM channels c
+    JOIN workspace_members wm ON wm.workspace_id = c.workspace_id
+    WHERE c.id = p_channel_id
+      AND wm.user_id = auth.uid()
+      AND wm.role IN ('owner', 'admin')
+  );
+$$;
+
+-- Moderators can delete and tombstone messages in their channels. The UPDATE
+-- policy also lets the deleting moderator re-embed the rest of the author's chain.
+CREATE POLICY "Moderators can delete channel messages"
+ON messages FOR DELETE
+TO authenticated
+USING (channel_id IS NOT NULL AND can_moderate_channel(channel_id));
+
+CREATE POLICY "Moderators can update channel messages"
+ON messages FOR UPDATE
+TO authenticated
+USING (channel_id IS NOT NULL AND can_moderate_channel(channel_id))
+WITH CHECK (channel_id IS NOT NULL AND can_moderate_channel(channel_id));
+
+-- Files and edit history go away with the message
+CREATE POLICY "Users can delete files for messages they can delete"
+ON files FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM messages
+    WHERE messages.id = files.message_id
+      AND (
+        messages.user_id = auth.uid()
+        OR (messages.channel_id IS NOT NULL AND can_moderate_channel(messages.channel_id))
+      )
+  )
+);
+
+CREATE POLICY "Users can delete edits of messages they can delete"
+ON message_edits FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM messages
+    WHERE messages.id = message_edits.message_id
+      AND (
+        messages.user_id = auth.uid()
+        OR (messages.channel_id IS NOT NULL AND can_moderate_channel(messages.channel_id))
+      )
+  )
+);
+
+-- Keep the parent's thread info in sync when a reply is deleted, and drop
+-- tombstoned parents once their last reply is gone
+CREATE OR REPLACE FUNCTION update_parent_thread_info_on_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  remaining_replies INTEGER;
+BEGIN
+  IF OLD.parent_id IS NOT NULL THEN
+    SELECT COUNT(*) INTO remaining_replies
+    FROM messages
+    WHERE parent_id = OLD.parent_id;
+
+    UPDATE messages
+    SET
+      reply_count = remaining_replies,
+      reply_user_ids = ARRAY(
+        SELECT r.user_id
+        FROM messages r
+        WHERE r.parent_id = OLD.parent_id
+          AND r.user_id IS NOT NULL
+        GROUP BY r.user_id
+        ORDER BY MAX(r.created_at) DESC
+        LIMIT 3
+      )
+    WHERE id = OLD.parent_id;
+
+    IF remaining_replies = 0 THEN
+      DELETE FROM messages
+      WHERE id = OLD.parent_id
+        AND deleted_at IS NOT NULL;
+    END IF;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER update_thread_info_on_delete_trigger
+AFTER DELETE ON messages
+FOR EACH ROW
+EXECUTE FUNCTION update_parent_thread_info_on_delete();
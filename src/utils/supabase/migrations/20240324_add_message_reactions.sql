@@ -0,0 +1,74 @@
+-- Emoji reactions on messages, one row per (message, user, emoji)
+CREATE TABLE IF NOT EXISTS message_reactions (
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 32),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id, emoji)
+);
+
+CREATE INDEX IF NOT EXISTS message_reactions_message_id_idx
+ON message_reactions(message_id, created_at);
+
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can read the message can see its reactions
+CREATE POLICY "Users can read reactions on messages they can read"
+ON message_reactions FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM messages
+    WHERE messages.id = message_reactions.message_id
+      AND (
+        (channel_id IN (
+          SELECT channel_id
+          FROM channel_members
+          WHERE user_id = auth.uid()
+        ))
+        OR
+        (conversation_id IN (
+          SELECT conversation_id
+          FROM conversation_participants
+          WHERE user_id = auth.uid()
+        ))
+      )
+  )
+);
+
+-- Users can react as themselves to messages they can read (but not tombstones)
+CREATE POLICY "Users can add their own reactions"
+ON message_reactions FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1
+    FROM messages
+    WHERE messages.id = message_reactions.message_id
+      AND messages.deleted_at IS NULL
+      AND (
+        (channel_id IN (
+          SELECT channel_id
+          FROM channel_members
+          WHERE user_id = auth.uid()
+        ))
+        OR
+        (conversation_id IN (
+          SELECT conversation_id
+          FROM conversation_participants
+          WHERE user_id = auth.uid()
+        ))
+      )
+  )
+);
+
+CREATE POLICY "Users can remove their own reactions"
+ON message_reactions FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Realtime: the primary key covers every column clients need, so DELETE
+-- events (which only carry the old row's key) are enough to merge
+ALTER PUBLICATION supabase_realtime ADD TABLE message_reactions;
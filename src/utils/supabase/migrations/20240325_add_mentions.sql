@@ -0,0 +1,138 @@
+-- Structured mentions on each message, e.g.
+--   [{"type": "user", "userId": "...", "name": "Matt"}, {"type": "channel"}, {"type": "here"}]
+-- The content keeps the plain "@Matt" text; this records who it refers to.
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS mentions JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Per-user inbox of everything that pinged them
+CREATE TABLE IF NOT EXISTS mentions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  mentioned_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  channel_id UUID REFERENCES channels(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE,
+  mention_type TEXT NOT NULL CHECK (mention_type IN ('user', 'channel', 'here')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  read_at TIMESTAMPTZ,
+  CONSTRAINT unique_mention_per_message UNIQUE (message_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS mentions_inbox_idx
+ON mentions(user_id, workspace_id, created_at DESC);
+
+ALTER TABLE mentions ENABLE ROW LEVEL SECURITY;
+
+-- Inbox rows are written by the trigger below; users only read and mark their own
+CREATE POLICY "Users can read their own mentions"
+ON mentions FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their own mentions as read"
+ON mentions FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- Keep the inbox in sync with messages.mentions. @channel pings every member,
+-- @here only members seen in the last 10 minutes, and nobody is pinged by
+-- their own message or by a container they can't read.
+CREATE OR REPLACE FUNCTION sync_message_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  mentioned_user_ids UUID[];
+  has_channel BOOLEAN;
+  has_here BOOLEAN;
+  target_ids UUID[];
+  message_workspace_id UUID;
+BEGIN
+  IF NEW.deleted_at IS NOT NULL THEN
+    DELETE FROM mentions WHERE message_id = NEW.id;
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(array_agg((m->>'userId')::uuid), '{}')
+  INTO mentioned_user_ids
+  FROM jsonb_array_elements(NEW.mentions) m
+  WHERE m->>'type' = 'user';
+
+  has_channel := NEW.mentions @> '[{"type": "channel"}]'::jsonb;
+  has_here := NEW.mentions @> '[{"type": "here"}]'::jsonb;
+
+  SELECT COALESCE(array_agg(DISTINCT members.user_id), '{}')
+  INTO target_ids
+  FROM (
+    SELECT cm.user_id, p.last_seen
+    FROM channel_members cm
+    JOIN profiles p ON p.id = cm.user_id
+    WHERE cm.channel_id = NEW.channel_id
+    UNION ALL
+    SELECT cp.user_id, p.last_seen
+    FROM conversation_participants cp
+    JOIN profiles p ON p.id = cp.user_id
+    WHERE cp.conversation_id = NEW.conversation_id
+  ) members
+  WHERE members.user_id IS DISTINCT FROM NEW.user_id
+    AND (
+      members.user_id = ANY(mentioned_user_ids)
+      OR has_channel
+      OR (has_here AND members.last_seen > now() - interval '10 minutes')
+    );
+
+  -- Edits can remove mentions
+  DELETE FROM mentions
+  WHERE message_id = NEW.id
+    AND NOT (user_id = ANY(target_ids));
+
+  IF array_length(target_ids, 1) IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(
+    (SELECT workspace_id FROM channels WHERE id = NEW.channel_id),
+    (SELECT workspace_id FROM conversations WHERE id = NEW.conversation_id)
+  )
+  INTO message_workspace_id;
+
+  INSERT INTO mentions (
+    message_id,
+    user_id,
+    mentioned_by,
+    workspace_id,
+    channel_id,
+    conversation_id,
+    mention_type,
+    created_at
+  )
+  SELECT
+    NEW.id,
+    target.user_id,
+    NEW.user_id,
+    message_workspace_id,
+    NEW.channel_id,
+    NEW.conversation_id,
+    CASE
+      WHEN target.user_id = ANY(mentioned_user_ids) THEN 'user'
+      WHEN has_channel THEN 'channel'
+      ELSE 'here'
+    END,
+    NEW.created_at
+  FROM unnest(target_ids) AS target(user_id)
+  ON CONFLICT (message_id, user_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_message_mentions_trigger
+AFTER INSERT OR UPDATE OF mentions, deleted_at ON messages
+FOR EACH ROW
+EXECUTE FUNCTION sync_message_mentions();
+
+-- Let the sidebar badge update live
+ALTER PUBLICATION supabase_realtime ADD TABLE mentions;
@@ -0,0 +1,113 @@
+-- The old per-user helpers took any user id and treated a NULL last_read_at
+-- as "nothing unread"; replace them with one workspace-scoped function for
+-- the signed-in user.
+DROP FUNCTION IF EXISTS get_channel_unread_counts(UUID);
+DROP FUNCTION IF EXISTS get_conversation_unread_counts(UUID);
+
+-- Unread top-level messages from other people in every channel and
+-- conversation the user belongs to. Never-read containers count from when
+-- the user joined.
+CREATE OR REPLACE FUNCTION get_unread_counts(p_workspace_id UUID)
+RETURNS TABLE (
+  channel_id UUID,
+  conversation_id UUID,
+  unread_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT cm.channel_id, NULL::uuid, COUNT(m.id)
+  FROM channel_members cm
+  JOIN channels c ON c.id = cm.channel_id
+  LEFT JOIN messages m ON m.channel_id = cm.channel_id
+    AND m.parent_id IS NULL
+    AND m.deleted_at IS NULL
+    AND m.user_id <> auth.uid()
+    AND m.created_at > COALESCE(cm.last_read_at, cm.joined_at)
+  WHERE cm.user_id = auth.uid()
+    AND c.workspace_id = p_workspace_id
+  GROUP BY cm.channel_id
+
+  UNION ALL
+
+  SELECT NULL::uuid, cp.conversation_id, COUNT(m.id)
+  FROM conversation_participants cp
+  JOIN conversations c ON c.id = cp.conversation_id
+  LEFT JOIN messages m ON m.conversation_id = cp.conversation_id
+    AND m.parent_id IS NULL
+    AND m.deleted_at IS NULL
+    AND m.user_id <> auth.uid()
+    AND m.created_at > COALESCE(cp.last_read_at, cp.joined_at)
+  WHERE cp.user_id = auth.uid()
+    AND c.workspace_id = p_workspace_id
+  GROUP BY cp.conversation_id;
+$$;
+
+-- Mark a channel or conversation read for the signed-in user and return
+-- where they had read up to before, so the client can place its "New
+-- messages" divider. Only last_read_at is touched, so membership rows
+-- don't need a general UPDATE policy.
+CREATE OR REPLACE FUNCTION mark_container_read(
+  p_channel_id UUID,
+  p_conversation_id UUID
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous_read_at TIMESTAMPTZ;
+BEGIN
+  IF p_channel_id IS NOT NULL THEN
+    SELECT COALESCE(last_read_at, joined_at)
+    INTO previous_read_at
+    FROM channel_members
+    WHERE channel_id = p_channel_id
+      AND user_id = auth.uid()
+    FOR UPDATE;
+
+    UPDATE channel_members
+    SET last_read_at = now()
+    WHERE channel_id = p_channel_id
+      AND user_id = auth.uid();
+  ELSIF p_conversation_id IS NOT NULL THEN
+    SELECT COALESCE(last_read_at, joined_at)
+    INTO previous_read_at
+    FROM conversation_participants
+    WHERE conversation_id = p_conversation_id
+      AND user_id = auth.uid()
+    FOR UPDATE;
+
+    UPDATE conversation_participants
+    SET last_read_at = now()
+    WHERE conversation_id = p_conversation_id
+      AND user_id = auth.uid();
+  END IF;
+
+  RETURN previous_read_at;
+END;
+$$;
+
+-- "Mark all as read" for every channel and conversation in a workspace
+CREATE OR REPLACE FUNCTION mark_workspace_read(p_workspace_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE channel_members cm
+  SET last_read_at = now()
+  FROM channels c
+  WHERE c.id = cm.channel_id
+    AND c.workspace_id = p_workspace_id
+    AND cm.user_id = auth.uid();
+
+  UPDATE conversation_participants cp
+  SET last_read_at = now()
+  FROM conversations c
+  WHERE c.id = cp.conversation_id
+    AND c.workspace_id = p_workspace_id
+    AND cp.user_id = auth.uid();
+$$;
@@ -0,0 +1,144 @@
+-- Group DMs: conversations of type 'group' with three or more participants.
+-- Starting a group with the same people as an existing one reopens it.
+CREATE OR REPLACE FUNCTION create_group_conversation(
+  p_workspace_id UUID,
+  p_user_ids UUID[]
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  participant_ids UUID[];
+  existing_conversation_id UUID;
+  new_conversation_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT array_agg(DISTINCT id ORDER BY id)
+  INTO participant_ids
+  FROM unnest(array_append(p_user_ids, auth.uid())) AS ids(id)
+  WHERE id IS NOT NULL;
+
+  IF array_length(participant_ids, 1) < 3 THEN
+    RAISE EXCEPTION 'Group conversations need at least three participants';
+  END IF;
+
+  IF (
+    SELECT COUNT(*)
+    FROM workspace_members
+    WHERE workspace_id = p_workspace_id
+      AND user_id = ANY(participant_ids)
+  ) <> array_length(participant_ids, 1) THEN
+    RAISE EXCEPTION 'All participants must be workspace members';
+  END IF;
+
+  SELECT c.id
+  INTO existing_conversation_id
+  FROM conversations c
+  WHERE c.workspace_id = p_workspace_id
+    AND c.type = 'group'
+    AND (
+      SELECT array_agg(cp.user_id ORDER BY cp.user_id)
+      FROM conversation_participants cp
+      WHERE cp.conversation_id = c.id
+    ) = participant_ids
+  ORDER BY c.created_at
+  LIMIT 1;
+
+  IF existing_conversation_id IS NOT NULL THEN
+    RETURN existing_conversation_id;
+  END IF;
+
+  INSERT INTO conversations (workspace_id, type)
+  VALUES (p_workspace_id, 'group')
+  RETURNING id INTO new_conversation_id;
+
+  INSERT INTO conversation_participants (conversation_id, user_id)
+  SELECT new_conversation_id, id
+  FROM unnest(participant_ids) AS ids(id);
+
+  RETURN new_conversation_id;
+END;
+$$;
+
+-- Any participant of a group conversation can add other workspace members.
+-- One-to-one DMs stay fixed; adding people to one starts a new group instead.
+CREATE OR REPLACE FUNCTION add_conversation_participants(
+  p_conversation_id UUID,
+  p_user_ids UUID[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  conversation_workspace_id UUID;
+BEGIN
+  IF NOT user_in_conversation(auth.uid(), p_conversation_id) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  SELECT workspace_id
+  INTO conversation_workspace_id
+  FROM conversations
+  WHERE id = p_conversation_id
+    AND type = 'group';
+
+  IF conversation_workspace_id IS NULL THEN
+    RAISE EXCEPTION 'Participants can only be added to group conversations';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(p_user_ids) AS ids(id)
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM workspace_members wm
+      WHERE wm.workspace_id = conversation_workspace_id
+        AND wm.user_id = ids.id
+    )
+  ) THEN
+    RAISE EXCEPTION 'All participants must be workspace members';
+  END IF;
+
+  INSERT INTO conversation_participants (conversation_id, user_id)
+  SELECT p_conversation_id, id
+  FROM unnest(p_user_ids) AS ids(id)
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+END;
+$$;
+
+-- Any participant of a group conversation can remove someone, including
+-- themselves (leaving the conversation).
+CREATE OR REPLACE FUNCTION remove_conversation_participant(
+  p_conversation_id UUID,
+  p_user_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT user_in_conversation(auth.uid(), p_conversation_id) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM conversations
+    WHERE id = p_conversation_id
+      AND type = 'group'
+  ) THEN
+    RAISE EXCEPTION 'Participants can only be removed from group conversations';
+  END IF;
+
+  DELETE FROM conversation_participants
+  WHERE conversation_id = p_conversation_id
+    AND user_id = p_user_id;
+END;
+$$;
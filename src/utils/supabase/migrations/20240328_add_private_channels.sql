@@ -0,0 +1,137 @@
+-- Private channels are only visible to their members (and whoever created
+-- them); everyone else in the workspace can't see their name, members,
+-- messages, files or embeddings.
+ALTER TABLE channels ADD COLUMN IF NOT EXISTS is_private BOOLEAN NOT NULL DEFAULT false;
+
+-- Membership check that channel and channel_members policies can share
+-- without recursing into channel_members' own RLS
+CREATE OR REPLACE FUNCTION public.user_in_channel(
+  _user_id uuid,
+  _channel_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+SET row_security = off
+AS $$
+BEGIN
+  RETURN EXISTS(
+    SELECT 1
+    FROM channel_members
+    WHERE channel_id = _channel_id
+      AND user_id = _user_id
+  );
+END;
+$$;
+
+DROP POLICY IF EXISTS "Members can view channels" ON channels;
+CREATE POLICY "Members can view channels"
+ON channels FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM workspace_members
+    WHERE workspace_id = channels.workspace_id
+      AND user_id = auth.uid()
+  )
+  AND (
+    NOT is_private
+    OR created_by = auth.uid()
+    OR user_in_channel(auth.uid(), id)
+  )
+);
+
+-- Member lists follow channel visibility
+DROP POLICY IF EXISTS "Members can view channel members" ON channel_members;
+CREATE POLICY "Members can view channel members"
+ON channel_members FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM channels c
+    WHERE c.id = channel_members.channel_id
+  )
+);
+
+-- Anyone in the workspace can join a public channel; private channels are
+-- invite-only, so only channel moderators can add people to them (or add
+-- anyone to a public one)
+DROP POLICY IF EXISTS "Members can join channels" ON channel_members;
+CREATE POLICY "Members can join channels"
+ON channel_members FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1
+    FROM channels c
+    JOIN workspace_members wm ON wm.workspace_id = c.workspace_id
+    WHERE c.id = channel_members.channel_id
+      AND wm.user_id = channel_members.user_id
+  )
+  AND (
+    (
+      user_id = auth.uid()
+      AND EXISTS (
+        SELECT 1
+        FROM channels c
+        WHERE c.id = channel_members.channel_id
+          AND (NOT c.is_private OR c.created_by = auth.uid())
+      )
+    )
+    OR can_moderate_channel(channel_id)
+  )
+);
+
+-- Members can leave; channel moderators can remove anyone
+CREATE POLICY "Members can leave and moderators can remove members"
+ON channel_members FOR DELETE
+TO authenticated
+USING (
+  user_id = auth.uid()
+  OR can_moderate_channel(channel_id)
+);
+
+-- Semantic search runs as the caller, so RLS already limits it to messages
+-- they can read; the explicit membership check keeps private channels out
+-- even if it is ever called with elevated privileges.
+CREATE OR REPLACE FUNCTION public.match_messages(
+  query_embedding vector,
+  match_threshold double precision,
+  match_count integer
+)
+RETURNS TABLE(
+  id uuid,
+  conversation_id uuid,
+  channel_id uuid,
+  user_id uuid,
+  content text,
+  context text,
+  similarity double precision
+)
+LANGUAGE sql
+STABLE
+AS $function$
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.channel_id,
+    m.user_id,
+    m.content,
+    m.context,
+    1 - (m.embedding <=> query_embedding) AS similarity
+  FROM messages m
+  WHERE 1 - (m.embedding <=> query_embedding) > match_threshold
+    AND m.deleted_at IS NULL
+    AND (
+      (m.channel_id IS NOT NULL AND user_in_channel(auth.uid(), m.channel_id))
+      OR (
+        m.conversation_id IS NOT NULL
+        AND user_in_conversation(auth.uid(), m.conversation_id)
+      )
+    )
+  ORDER BY (m.embedding <=> query_embedding)
+  LIMIT match_count;
+$function$;
@@ -0,0 +1,64 @@
+-- Scope semantic search: results are always limited to messages the caller
+-- can read, and can be narrowed to a workspace, channel, conversation,
+-- author and date range. Also returns created_at, parent_id and
+-- formatted_chain, which callers previously had to guess.
+DROP FUNCTION IF EXISTS public.match_messages(vector, double precision, integer);
+
+CREATE OR REPLACE FUNCTION public.match_messages(
+  query_embedding vector,
+  match_threshold double precision,
+  match_count integer,
+  p_workspace_id uuid DEFAULT NULL,
+  p_channel_id uuid DEFAULT NULL,
+  p_conversation_id uuid DEFAULT NULL,
+  p_user_id uuid DEFAULT NULL,
+  p_after timestamptz DEFAULT NULL,
+  p_before timestamptz DEFAULT NULL
+)
+RETURNS TABLE(
+  id uuid,
+  conversation_id uuid,
+  channel_id uuid,
+  user_id uuid,
+  content text,
+  context text,
+  formatted_chain text,
+  parent_id uuid,
+  created_at timestamptz,
+  similarity double precision
+)
+LANGUAGE sql
+STABLE
+AS $function$
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.channel_id,
+    m.user_id,
+    m.content,
+    m.context,
+    m.formatted_chain,
+    m.parent_id,
+    m.created_at,
+    1 - (m.embedding <=> query_embedding) AS similarity
+  FROM messages m
+  LEFT JOIN channels c ON c.id = m.channel_id
+  LEFT JOIN conversations cv ON cv.id = m.conversation_id
+  WHERE 1 - (m.embedding <=> query_embedding) > match_threshold
+    AND m.deleted_at IS NULL
+    AND (
+      (m.channel_id IS NOT NULL AND user_in_channel(auth.uid(), m.channel_id))
+      OR (
+        m.conversation_id IS NOT NULL
+        AND user_in_conversation(auth.uid(), m.conversation_id)
+      )
+    )
+    AND (p_workspace_id IS NULL OR COALESCE(c.workspace_id, cv.workspace_id) = p_workspace_id)
+    AND (p_channel_id IS NULL OR m.channel_id = p_channel_id)
+    AND (p_conversation_id IS NULL OR m.conversation_id = p_conversation_id)
+    AND (p_user_id IS NULL OR m.user_id = p_user_id)
+    AND (p_after IS NULL OR m.created_at >= p_after)
+    AND (p_before IS NULL OR m.created_at < p_before)
+  ORDER BY (m.embedding <=> query_embedding)
+  LIMIT match_count;
+$function$;
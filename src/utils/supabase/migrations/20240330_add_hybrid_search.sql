@@ -0,0 +1,122 @@
+-- Keyword search over message content, blended with match_messages' vector
+-- similarity using reciprocal rank fusion.
+CREATE INDEX IF NOT EXISTS messages_content_fts_idx
+ON messages USING GIN (to_tsvector('english', content));
+
+CREATE OR REPLACE FUNCTION public.search_messages(
+  p_workspace_id uuid,
+  p_query text DEFAULT NULL,
+  p_query_embedding vector DEFAULT NULL,
+  p_channel_id uuid DEFAULT NULL,
+  p_conversation_id uuid DEFAULT NULL,
+  p_user_id uuid DEFAULT NULL,
+  p_after timestamptz DEFAULT NULL,
+  p_before timestamptz DEFAULT NULL,
+  p_has_file boolean DEFAULT false,
+  p_match_count integer DEFAULT 20
+)
+RETURNS TABLE(
+  id uuid,
+  conversation_id uuid,
+  channel_id uuid,
+  user_id uuid,
+  content text,
+  parent_id uuid,
+  created_at timestamptz,
+  score double precision
+)
+LANGUAGE sql
+STABLE
+AS $function$
+  WITH filtered AS (
+    SELECT m.*
+    FROM messages m
+    LEFT JOIN channels c ON c.id = m.channel_id
+    LEFT JOIN conversations cv ON cv.id = m.conversation_id
+    WHERE m.deleted_at IS NULL
+      AND (
+        (m.channel_id IS NOT NULL AND user_in_channel(auth.uid(), m.channel_id))
+        OR (
+          m.conversation_id IS NOT NULL
+          AND user_in_conversation(auth.uid(), m.conversation_id)
+        )
+      )
+      AND COALESCE(c.workspace_id, cv.workspace_id) = p_workspace_id
+      AND (p_channel_id IS NULL OR m.channel_id = p_channel_id)
+      AND (p_conversation_id IS NULL OR m.conversation_id = p_conversation_id)
+      AND (p_user_id IS NULL OR m.user_id = p_user_id)
+      AND (p_after IS NULL OR m.created_at >= p_after)
+      AND (p_before IS NULL OR m.created_at < p_before)
+      AND (
+        NOT p_has_file
+        OR EXISTS (SELECT 1 FROM files f WHERE f.message_id = m.id)
+      )
+  ),
+  keyword AS (
+    SELECT
+      m.id,
+      row_number() OVER (
+        ORDER BY ts_rank_cd(to_tsvector('english', m.content), q) DESC, m.created_at DESC
+      ) AS position
+    FROM filtered m, websearch_to_tsquery('english', p_query) q
+    WHERE COALESCE(p_query, '') <> ''
+      AND to_tsvector('english', m.content) @@ q
+    ORDER BY position
+    LIMIT p_match_count * 2
+  ),
+  semantic AS (
+    SELECT
+      mm.id,
+      row_number() OVER (ORDER BY mm.similarity DESC) AS position
+    FROM match_messages(
+      p_query_embedding,
+      0.3,
+      p_match_count * 2,
+      p_workspace_id,
+      p_channel_id,
+      p_conversation_id,
+      p_user_id,
+      p_after,
+      p_before
+    ) mm
+    WHERE p_query_embedding IS NOT NULL
+      AND (
+        NOT p_has_file
+        OR EXISTS (SELECT 1 FROM files f WHERE f.message_id = mm.id)
+      )
+  ),
+  -- Filters without any search text list the newest matching messages
+  recent AS (
+    SELECT
+      m.id,
+      row_number() OVER (ORDER BY m.created_at DESC) AS position
+    FROM filtered m
+    WHERE COALESCE(p_query, '') = ''
+    ORDER BY position
+    LIMIT p_match_count
+  ),
+  fused AS (
+    SELECT ranked.id, SUM(1.0 / (60 + ranked.position)) AS score
+    FROM (
+      SELECT * FROM keyword
+      UNION ALL
+      SELECT * FROM semantic
+      UNION ALL
+      SELECT * FROM recent
+    ) ranked
+    GROUP BY ranked.id
+  )
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.channel_id,
+    m.user_id,
+    m.content,
+    m.parent_id,
+    m.created_at,
+    fused.score::double precision
+  FROM fused
+  JOIN messages m ON m.id = fused.id
+  ORDER BY fused.score DESC, m.created_at DESC
+  LIMIT p_match_count;
+$function$;
@@ -0,0 +1,197 @@
+-- Persisted queue for (re-)embedding message chains, replacing the
+-- in-process setTimeout that was lost on restarts and serverless.
+CREATE TABLE IF NOT EXISTS embedding_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE, -- Chain anchor to embed
+  message_ids UUID[] NOT NULL DEFAULT '{}', -- Every message folded into this job, for status lookups
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE, -- Author of the chain
+  chain_key TEXT NOT NULL, -- author:channel-or-conversation, used to collapse bursts
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'done', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS embedding_jobs_due_idx
+ON embedding_jobs (run_at)
+WHERE status IN ('pending', 'processing');
+
+CREATE INDEX IF NOT EXISTS embedding_jobs_pending_chain_idx
+ON embedding_jobs (chain_key)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS embedding_jobs_user_idx
+ON embedding_jobs (user_id, status);
+
+ALTER TABLE embedding_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Authors can see how indexing of their own messages is going; all writes go
+-- through the functions below
+CREATE POLICY "Users can view their own embedding jobs"
+ON embedding_jobs FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE embedding_jobs;
+
+-- Queue a chain for embedding after p_delay_seconds. A pending job for the
+-- same author and channel/conversation whose anchor is within the hour is
+-- reused, so a burst of messages becomes one job for its newest message.
+CREATE OR REPLACE FUNCTION public.enqueue_embedding_job(
+  p_message_id uuid,
+  p_delay_seconds integer DEFAULT 0
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message messages%ROWTYPE;
+  v_chain_key TEXT;
+  v_job_id uuid;
+BEGIN
+  SELECT * INTO v_message FROM messages WHERE id = p_message_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF NOT (
+    (v_message.channel_id IS NOT NULL AND user_in_channel(auth.uid(), v_message.channel_id))
+    OR (
+      v_message.conversation_id IS NOT NULL
+      AND user_in_conversation(auth.uid(), v_message.conversation_id)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to index this message';
+  END IF;
+
+  v_chain_key := v_message.user_id || ':' || COALESCE(v_message.channel_id, v_message.conversation_id);
+
+  UPDATE embedding_jobs j
+  SET
+    message_id = CASE
+      WHEN v_message.created_at >= anchor.created_at THEN v_message.id
+      ELSE j.message_id
+    END,
+    message_ids = CASE
+      WHEN v_message.id = ANY(j.message_ids) THEN j.message_ids
+      ELSE array_append(j.message_ids, v_message.id)
+    END,
+    run_at = GREATEST(j.run_at, NOW() + make_interval(secs => p_delay_seconds)),
+    updated_at = NOW()
+  FROM messages anchor
+  WHERE anchor.id = j.message_id
+    AND j.status = 'pending'
+    AND j.chain_key = v_chain_key
+    AND v_message.created_at BETWEEN anchor.created_at - INTERVAL '1 hour'
+      AND anchor.created_at + INTERVAL '1 hour'
+  RETURNING j.id INTO v_job_id;
+
+  IF v_job_id IS NULL THEN
+    INSERT INTO embedding_jobs (message_id, message_ids, user_id, chain_key, run_at)
+    VALUES (
+      v_message.id,
+      ARRAY[v_message.id],
+      v_message.user_id,
+      v_chain_key,
+      NOW() + make_interval(secs => p_delay_seconds)
+    )
+    RETURNING id INTO v_job_id;
+  END IF;
+
+  RETURN v_job_id;
+END;
+$$;
+
+-- Claim up to p_limit due jobs for a worker. Jobs stuck in 'processing' past
+-- p_lock_timeout (a worker died mid-job) are retried, or dead-lettered if
+-- they have no attempts left. Finished jobs are pruned after a day.
+CREATE OR REPLACE FUNCTION public.claim_embedding_jobs(
+  p_limit integer DEFAULT 10,
+  p_lock_timeout interval DEFAULT INTERVAL '5 minutes'
+)
+RETURNS SETOF embedding_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM embedding_jobs
+  WHERE status = 'done'
+    AND updated_at < NOW() - INTERVAL '1 day';
+
+  UPDATE embedding_jobs
+  SET status = 'failed',
+      locked_at = NULL,
+      last_error = COALESCE(last_error, 'Timed out'),
+      updated_at = NOW()
+  WHERE status = 'processing'
+    AND locked_at < NOW() - p_lock_timeout
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE embedding_jobs j
+  SET status = 'processing',
+      locked_at = NOW(),
+      attempts = j.attempts + 1,
+      updated_at = NOW()
+  WHERE j.id IN (
+    SELECT id
+    FROM embedding_jobs
+    WHERE (status = 'pending' AND run_at <= NOW())
+       OR (status = 'processing' AND locked_at < NOW() - p_lock_timeout)
+    ORDER BY run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_embedding_job(p_job_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE embedding_jobs
+  SET status = 'done',
+      locked_at = NULL,
+      last_error = NULL,
+      updated_at = NOW()
+  WHERE id = p_job_id;
+$$;
+
+-- Retry with exponential backoff (30s, 1m, 2m, 4m, ...) until the job runs
+-- out of attempts, then leave it as 'failed' for inspection
+CREATE OR REPLACE FUNCTION public.fail_embedding_job(
+  p_job_id uuid,
+  p_error text
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE embedding_jobs
+  SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'pending' END,
+      run_at = NOW() + make_interval(secs => 30 * power(2, GREATEST(attempts - 1, 0))),
+      locked_at = NULL,
+      last_error = p_error,
+      updated_at = NOW()
+  WHERE id = p_job_id;
+$$;
+
+-- Only the worker (service role) runs the queue
+REVOKE EXECUTE ON FUNCTION public.claim_embedding_jobs(integer, interval) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_embedding_job(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_embedding_job(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_embedding_jobs(integer, interval) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_embedding_job(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_embedding_job(uuid, text) TO service_role;
@@ -0,0 +1,254 @@
+-- 20240320 declared messages.embedding as vector(1536), but voyage-3-large
+-- (and the schema doc) use 1024 dimensions. Embeddings of the wrong size
+-- can't be compared with queries anyway, so drop them for a reindex to
+-- rebuild.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM pg_attribute
+    WHERE attrelid = 'public.messages'::regclass
+      AND attname = 'embedding'
+      AND atttypmod <> 1024
+  ) THEN
+    UPDATE messages SET embedding = NULL WHERE embedding IS NOT NULL;
+    ALTER TABLE messages ALTER COLUMN embedding TYPE vector(1024);
+  END IF;
+END;
+$$;
+
+-- Which model (and which version of our chunk format) produced each
+-- embedding, so stale ones can be found and rebuilt
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS embedding_version INTEGER;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS embedding_version INTEGER;
+
+-- One rebuild of a workspace's message and file embeddings. The worker
+-- walks messages then files in (created_at, id) order, saving its cursor
+-- after every batch so a run picks up where it left off.
+CREATE TABLE IF NOT EXISTS reindex_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed')),
+  embedding_model TEXT NOT NULL, -- Target model; rows embedded with anything else are rebuilt
+  embedding_version INTEGER NOT NULL,
+  phase TEXT NOT NULL DEFAULT 'messages' CHECK (phase IN ('messages', 'files')),
+  cursor_created_at TIMESTAMPTZ, -- Last row processed in the current phase
+  cursor_id UUID,
+  messages_total INTEGER NOT NULL DEFAULT 0,
+  messages_done INTEGER NOT NULL DEFAULT 0,
+  files_total INTEGER NOT NULL DEFAULT 0,
+  files_done INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  locked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  finished_at TIMESTAMPTZ
+);
+
+-- At most one unfinished run per workspace
+CREATE UNIQUE INDEX IF NOT EXISTS reindex_runs_active_idx
+ON reindex_runs (workspace_id)
+WHERE status IN ('pending', 'running');
+
+ALTER TABLE reindex_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Workspace admins can view reindex runs"
+ON reindex_runs FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM workspace_members
+    WHERE workspace_id = reindex_runs.workspace_id
+      AND user_id = auth.uid()
+      AND role IN ('owner', 'admin')
+  )
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE reindex_runs;
+
+-- Messages a run needs to embed: chain anchors (the author's last message
+-- before an hour-long gap, which is where a chain's embedding lives) that
+-- have no embedding or one from another model/version
+CREATE OR REPLACE FUNCTION public.reindex_message_batch(
+  p_workspace_id uuid,
+  p_embedding_model text,
+  p_embedding_version integer,
+  p_after_created_at timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT NULL
+)
+RETURNS TABLE(id uuid, created_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.id, m.created_at
+  FROM messages m
+  LEFT JOIN channels c ON c.id = m.channel_id
+  LEFT JOIN conversations cv ON cv.id = m.conversation_id
+  WHERE COALESCE(c.workspace_id, cv.workspace_id) = p_workspace_id
+    AND m.deleted_at IS NULL
+    AND (
+      m.embedding IS NULL
+      OR m.embedding_model IS DISTINCT FROM p_embedding_model
+      OR m.embedding_version IS DISTINCT FROM p_embedding_version
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM messages later
+      WHERE later.user_id = m.user_id
+        AND later.channel_id IS NOT DISTINCT FROM m.channel_id
+        AND later.conversation_id IS NOT DISTINCT FROM m.conversation_id
+        AND later.deleted_at IS NULL
+        AND later.created_at > m.created_at
+        AND later.created_at <= m.created_at + INTERVAL '1 hour'
+    )
+    AND (
+      p_after_created_at IS NULL
+      OR (m.created_at, m.id) > (p_after_created_at, p_after_id)
+    )
+  ORDER BY m.created_at, m.id
+  LIMIT p_limit;
+$$;
+
+-- Image, audio and video attachments a run needs to re-process
+CREATE OR REPLACE FUNCTION public.reindex_file_batch(
+  p_workspace_id uuid,
+  p_embedding_model text,
+  p_embedding_version integer,
+  p_after_created_at timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT NULL
+)
+RETURNS TABLE(
+  id uuid,
+  created_at timestamptz,
+  message_id uuid,
+  file_name text,
+  file_type text,
+  file_url text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT f.id, f.created_at, f.message_id, f.file_name, f.file_type, f.file_url
+  FROM files f
+  JOIN messages m ON m.id = f.message_id
+  LEFT JOIN channels c ON c.id = m.channel_id
+  LEFT JOIN conversations cv ON cv.id = m.conversation_id
+  WHERE COALESCE(c.workspace_id, cv.workspace_id) = p_workspace_id
+    AND (
+      f.file_type LIKE 'image/%'
+      OR f.file_type LIKE 'audio/%'
+      OR f.file_type LIKE 'video/%'
+    )
+    AND (
+      f.embedding IS NULL
+      OR f.embedding_model IS DISTINCT FROM p_embedding_model
+      OR f.embedding_version IS DISTINCT FROM p_embedding_version
+    )
+    AND (
+      p_after_created_at IS NULL
+      OR (f.created_at, f.id) > (p_after_created_at, p_after_id)
+    )
+  ORDER BY f.created_at, f.id
+  LIMIT p_limit;
+$$;
+
+-- Start a run for a workspace (owners and admins only). If one is already
+-- in progress, that run is returned instead.
+CREATE OR REPLACE FUNCTION public.start_workspace_reindex(
+  p_workspace_id uuid,
+  p_embedding_model text,
+  p_embedding_version integer
+)
+RETURNS reindex_runs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run reindex_runs;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM workspace_members
+    WHERE workspace_id = p_workspace_id
+      AND user_id = auth.uid()
+      AND role IN ('owner', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only workspace admins can rebuild the search index';
+  END IF;
+
+  SELECT * INTO v_run
+  FROM reindex_runs
+  WHERE workspace_id = p_workspace_id
+    AND status IN ('pending', 'running');
+
+  IF FOUND THEN
+    RETURN v_run;
+  END IF;
+
+  INSERT INTO reindex_runs (
+    workspace_id,
+    created_by,
+    embedding_model,
+    embedding_version,
+    messages_total,
+    files_total
+  )
+  VALUES (
+    p_workspace_id,
+    auth.uid(),
+    p_embedding_model,
+    p_embedding_version,
+    (SELECT COUNT(*) FROM reindex_message_batch(p_workspace_id, p_embedding_model, p_embedding_version)),
+    (SELECT COUNT(*) FROM reindex_file_batch(p_workspace_id, p_embedding_model, p_embedding_version))
+  )
+  RETURNING * INTO v_run;
+
+  RETURN v_run;
+END;
+$$;
+
+-- Claim the oldest unfinished run for a worker. A run whose worker died is
+-- claimable again once its lock is older than p_lock_timeout.
+CREATE OR REPLACE FUNCTION public.claim_reindex_run(
+  p_lock_timeout interval DEFAULT INTERVAL '5 minutes'
+)
+RETURNS SETOF reindex_runs
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE reindex_runs r
+  SET status = 'running',
+      locked_at = NOW(),
+      updated_at = NOW()
+  WHERE r.id = (
+    SELECT id
+    FROM reindex_runs
+    WHERE status IN ('pending', 'running')
+      AND (locked_at IS NULL OR locked_at < NOW() - p_lock_timeout)
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING r.*;
+$$;
+
+-- Batches and claims are for the worker (service role) only
+REVOKE EXECUTE ON FUNCTION public.reindex_message_batch(uuid, text, integer, timestamptz, uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reindex_file_batch(uuid, text, integer, timestamptz, uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_reindex_run(interval) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reindex_message_batch(uuid, text, integer, timestamptz, uuid, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reindex_file_batch(uuid, text, integer, timestamptz, uuid, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_reindex_run(interval) TO service_role;
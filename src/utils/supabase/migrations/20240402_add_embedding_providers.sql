@@ -0,0 +1,372 @@
+-- Embeddings can now come from Voyage, OpenAI or a local hashing backend.
+-- Record which one produced each vector and only ever compare a query with
+-- vectors from the same provider and model.
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS embedding_provider TEXT;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS embedding_provider TEXT;
+
+-- Everything embedded so far came from Voyage. Rows from before model
+-- tracking keep a NULL version, so a reindex still rebuilds them.
+UPDATE messages
+SET embedding_provider = 'voyage',
+    embedding_model = COALESCE(embedding_model, 'voyage-3-large')
+WHERE embedding IS NOT NULL
+  AND embedding_provider IS NULL;
+
+UPDATE files
+SET embedding_provider = 'voyage',
+    embedding_model = COALESCE(embedding_model, 'voyage-3-large')
+WHERE embedding IS NOT NULL
+  AND embedding_provider IS NULL;
+
+ALTER TABLE reindex_runs ADD COLUMN IF NOT EXISTS embedding_provider TEXT NOT NULL DEFAULT 'voyage';
+ALTER TABLE reindex_runs ALTER COLUMN embedding_provider DROP DEFAULT;
+
+-- match_messages now requires the provider and model of the query embedding
+DROP FUNCTION IF EXISTS public.match_messages(vector, double precision, integer, uuid, uuid, uuid, uuid, timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.match_messages(
+  query_embedding vector,
+  match_threshold double precision,
+  match_count integer,
+  p_embedding_provider text,
+  p_embedding_model text,
+  p_workspace_id uuid DEFAULT NULL,
+  p_channel_id uuid DEFAULT NULL,
+  p_conversation_id uuid DEFAULT NULL,
+  p_user_id uuid DEFAULT NULL,
+  p_after timestamptz DEFAULT NULL,
+  p_before timestamptz DEFAULT NULL
+)
+RETURNS TABLE(
+  id uuid,
+  conversation_id uuid,
+  channel_id uuid,
+  user_id uuid,
+  content text,
+  context text,
+  formatted_chain text,
+  parent_id uuid,
+  created_at timestamptz,
+  similarity double precision
+)
+LANGUAGE sql
+STABLE
+AS $function$
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.channel_id,
+    m.user_id,
+    m.content,
+    m.context,
+    m.formatted_chain,
+    m.parent_id,
+    m.created_at,
+    1 - (m.embedding <=> query_embedding) AS similarity
+  FROM messages m
+  LEFT JOIN channels c ON c.id = m.channel_id
+  LEFT JOIN conversations cv ON cv.id = m.conversation_id
+  WHERE 1 - (m.embedding <=> query_embedding) > match_threshold
+    AND m.deleted_at IS NULL
+    AND m.embedding_provider = p_embedding_provider
+    AND m.embedding_model = p_embedding_model
+    AND (
+      (m.channel_id IS NOT NULL AND user_in_channel(auth.uid(), m.channel_id))
+      OR (
+        m.conversation_id IS NOT NULL
+        AND user_in_conversation(auth.uid(), m.conversation_id)
+      )
+    )
+    AND (p_workspace_id IS NULL OR COALESCE(c.workspace_id, cv.workspace_id) = p_workspace_id)
+    AND (p_channel_id IS NULL OR m.channel_id = p_channel_id)
+    AND (p_conversation_id IS NULL OR m.conversation_id = p_conversation_id)
+    AND (p_user_id IS NULL OR m.user_id = p_user_id)
+    AND (p_after IS NULL OR m.created_at >= p_after)
+    AND (p_before IS NULL OR m.created_at < p_before)
+  ORDER BY (m.embedding <=> query_embedding)
+  LIMIT match_count;
+$function$;
+
+-- search_messages passes them through to match_messages
+DROP FUNCTION IF EXISTS public.search_messages(uuid, text, vector, uuid, uuid, uuid, timestamptz, timestamptz, boolean, integer);
+
+CREATE OR REPLACE FUNCTION public.search_messages(
+  p_workspace_id uuid,
+  p_query text DEFAULT NULL,
+  p_query_embedding vector DEFAULT NULL,
+  p_embedding_provider text DEFAULT NULL,
+  p_embedding_model text DEFAULT NULL,
+  p_channel_id uuid DEFAULT NULL,
+  p_conversation_id uuid DEFAULT NULL,
+  p_user_id uuid DEFAULT NULL,
+  p_after timestamptz DEFAULT NULL,
+  p_before timestamptz DEFAULT NULL,
+  p_has_file boolean DEFAULT false,
+  p_match_count integer DEFAULT 20
+)
+RETURNS TABLE(
+  id uuid,
+  conversation_id uuid,
+  channel_id uuid,
+  user_id uuid,
+  content text,
+  parent_id uuid,
+  created_at timestamptz,
+  score double precision
+)
+LANGUAGE sql
+STABLE
+AS $function$
+  WITH filtered AS (
+    SELECT m.*
+    FROM messages m
+    LEFT JOIN channels c ON c.id = m.channel_id
+    LEFT JOIN conversations cv ON cv.id = m.conversation_id
+    WHERE m.deleted_at IS NULL
+      AND (
+        (m.channel_id IS NOT NULL AND user_in_channel(auth.uid(), m.channel_id))
+        OR (
+          m.conversation_id IS NOT NULL
+          AND user_in_conversation(auth.uid(), m.conversation_id)
+        )
+      )
+      AND COALESCE(c.workspace_id, cv.workspace_id) = p_workspace_id
+      AND (p_channel_id IS NULL OR m.channel_id = p_channel_id)
+      AND (p_conversation_id IS NULL OR m.conversation_id = p_conversation_id)
+      AND (p_user_id IS NULL OR m.user_id = p_user_id)
+      AND (p_after IS NULL OR m.created_at >= p_after)
+      AND (p_before IS NULL OR m.created_at < p_before)
+      AND (
+        NOT p_has_file
+        OR EXISTS (SELECT 1 FROM files f WHERE f.message_id = m.id)
+      )
+  ),
+  keyword AS (
+    SELECT
+      m.id,
+      row_number() OVER (
+        ORDER BY ts_rank_cd(to_tsvector('english', m.content), q) DESC, m.created_at DESC
+      ) AS position
+    FROM filtered m, websearch_to_tsquery('english', p_query) q
+    WHERE COALESCE(p_query, '') <> ''
+      AND to_tsvector('english', m.content) @@ q
+    ORDER BY position
+    LIMIT p_match_count * 2
+  ),
+  semantic AS (
+    SELECT
+      mm.id,
+      row_number() OVER (ORDER BY mm.similarity DESC) AS position
+    FROM match_messages(
+      p_query_embedding,
+      0.3,
+      p_match_count * 2,
+      p_embedding_provider,
+      p_embedding_model,
+      p_workspace_id,
+      p_channel_id,
+      p_conversation_id,
+      p_user_id,
+      p_after,
+      p_before
+    ) mm
+    WHERE p_query_embedding IS NOT NULL
+      AND (
+        NOT p_has_file
+        OR EXISTS (SELECT 1 FROM files f WHERE f.message_id = mm.id)
+      )
+  ),
+  -- Filters without any search text list the newest matching messages
+  recent AS (
+    SELECT
+      m.id,
+      row_number() OVER (ORDER BY m.created_at DESC) AS position
+    FROM filtered m
+    WHERE COALESCE(p_query, '') = ''
+    ORDER BY position
+    LIMIT p_match_count
+  ),
+  fused AS (
+    SELECT ranked.id, SUM(1.0 / (60 + ranked.position)) AS score
+    FROM (
+      SELECT * FROM keyword
+      UNION ALL
+      SELECT * FROM semantic
+      UNION ALL
+      SELECT * FROM recent
+    ) ranked
+    GROUP BY ranked.id
+  )
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.channel_id,
+    m.user_id,
+    m.content,
+    m.parent_id,
+    m.created_at,
+    fused.score::double precision
+  FROM fused
+  JOIN messages m ON m.id = fused.id
+  ORDER BY fused.score DESC, m.created_at DESC
+  LIMIT p_match_count;
+$function$;
+
+-- Reindexing treats an embedding from another provider as stale too
+DROP FUNCTION IF EXISTS public.start_workspace_reindex(uuid, text, integer);
+DROP FUNCTION IF EXISTS public.reindex_message_batch(uuid, text, integer, timestamptz, uuid, integer);
+DROP FUNCTION IF EXISTS public.reindex_file_batch(uuid, text, integer, timestamptz, uuid, integer);
+
+CREATE OR REPLACE FUNCTION public.reindex_message_batch(
+  p_workspace_id uuid,
+  p_embedding_provider text,
+  p_embedding_model text,
+  p_embedding_version integer,
+  p_after_created_at timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT NULL
+)
+RETURNS TABLE(id uuid, created_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.id, m.created_at
+  FROM messages m
+  LEFT JOIN channels c ON c.id = m.channel_id
+  LEFT JOIN conversations cv ON cv.id = m.conversation_id
+  WHERE COALESCE(c.workspace_id, cv.workspace_id) = p_workspace_id
+    AND m.deleted_at IS NULL
+    AND (
+      m.embedding IS NULL
+      OR m.embedding_provider IS DISTINCT FROM p_embedding_provider
+      OR m.embedding_model IS DISTINCT FROM p_embedding_model
+      OR m.embedding_version IS DISTINCT FROM p_embedding_version
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM messages later
+      WHERE later.user_id = m.user_id
+        AND later.channel_id IS NOT DISTINCT FROM m.channel_id
+        AND later.conversation_id IS NOT DISTINCT FROM m.conversation_id
+        AND later.deleted_at IS NULL
+        AND later.created_at > m.created_at
+        AND later.created_at <= m.created_at + INTERVAL '1 hour'
+    )
+    AND (
+      p_after_created_at IS NULL
+      OR (m.created_at, m.id) > (p_after_created_at, p_after_id)
+    )
+  ORDER BY m.created_at, m.id
+  LIMIT p_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reindex_file_batch(
+  p_workspace_id uuid,
+  p_embedding_provider text,
+  p_embedding_model text,
+  p_embedding_version integer,
+  p_after_created_at timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT NULL
+)
+RETURNS TABLE(
+  id uuid,
+  created_at timestamptz,
+  message_id uuid,
+  file_name text,
+  file_type text,
+  file_url text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT f.id, f.created_at, f.message_id, f.file_name, f.file_type, f.file_url
+  FROM files f
+  JOIN messages m ON m.id = f.message_id
+  LEFT JOIN channels c ON c.id = m.channel_id
+  LEFT JOIN conversations cv ON cv.id = m.conversation_id
+  WHERE COALESCE(c.workspace_id, cv.workspace_id) = p_workspace_id
+    AND (
+      f.file_type LIKE 'image/%'
+      OR f.file_type LIKE 'audio/%'
+      OR f.file_type LIKE 'video/%'
+    )
+    AND (
+      f.embedding IS NULL
+      OR f.embedding_provider IS DISTINCT FROM p_embedding_provider
+      OR f.embedding_model IS DISTINCT FROM p_embedding_model
+      OR f.embedding_version IS DISTINCT FROM p_embedding_version
+    )
+    AND (
+      p_after_created_at IS NULL
+      OR (f.created_at, f.id) > (p_after_created_at, p_after_id)
+    )
+  ORDER BY f.created_at, f.id
+  LIMIT p_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION public.start_workspace_reindex(
+  p_workspace_id uuid,
+  p_embedding_provider text,
+  p_embedding_model text,
+  p_embedding_version integer
+)
+RETURNS reindex_runs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run reindex_runs;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM workspace_members
+    WHERE workspace_id = p_workspace_id
+      AND user_id = auth.uid()
+      AND role IN ('owner', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only workspace admins can rebuild the search index';
+  END IF;
+
+  SELECT * INTO v_run
+  FROM reindex_runs
+  WHERE workspace_id = p_workspace_id
+    AND status IN ('pending', 'running');
+
+  IF FOUND THEN
+    RETURN v_run;
+  END IF;
+
+  INSERT INTO reindex_runs (
+    workspace_id,
+    created_by,
+    embedding_provider,
+    embedding_model,
+    embedding_version,
+    messages_total,
+    files_total
+  )
+  VALUES (
+    p_workspace_id,
+    auth.uid(),
+    p_embedding_provider,
+    p_embedding_model,
+    p_embedding_version,
+    (SELECT COUNT(*) FROM reindex_message_batch(p_workspace_id, p_embedding_provider, p_embedding_model, p_embedding_version)),
+    (SELECT COUNT(*) FROM reindex_file_batch(p_workspace_id, p_embedding_provider, p_embedding_model, p_embedding_version))
+  )
+  RETURNING * INTO v_run;
+
+  RETURN v_run;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reindex_message_batch(uuid, text, text, integer, timestamptz, uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reindex_file_batch(uuid, text, text, integer, timestamptz, uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reindex_message_batch(uuid, text, text, integer, timestamptz, uuid, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reindex_file_batch(uuid, text, text, integer, timestamptz, uuid, integer) TO service_role;
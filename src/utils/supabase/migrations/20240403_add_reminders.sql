@@ -0,0 +1,51 @@
+-- Personal reminders, e.g. set by asking Slucky "remind me tomorrow at 9 to
+-- reply to Ana". Delivered in the app as a notification when they fall due.
+CREATE TABLE IF NOT EXISTS reminders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES messages(id) ON DELETE SET NULL, -- Optional message the reminder is about
+  note TEXT NOT NULL,
+  remind_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  delivered_at TIMESTAMPTZ -- Set once the user has been notified
+);
+
+CREATE INDEX IF NOT EXISTS reminders_pending_idx
+ON reminders(user_id, workspace_id, remind_at)
+WHERE delivered_at IS NULL;
+
+ALTER TABLE reminders ENABLE ROW LEVEL SECURITY;
+
+-- Reminders are private to the person who set them
+CREATE POLICY "Users can read their own reminders"
+ON reminders FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can set reminders in their workspaces"
+ON reminders FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1
+    FROM workspace_members
+    WHERE workspace_id = reminders.workspace_id
+      AND user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their own reminders"
+ON reminders FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own reminders"
+ON reminders FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- New reminders get scheduled in open tabs straight away
+ALTER PUBLICATION supabase_realtime ADD TABLE reminders;
@@ -0,0 +1,68 @@
+-- Slucky conversations, kept per user and workspace so they survive closing
+-- the tab and can be resumed later
+CREATE TABLE IF NOT EXISTS assistant_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE, -- NULL when started outside a workspace
+  title TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS assistant_sessions_user_idx
+ON assistant_sessions(user_id, workspace_id, updated_at DESC);
+
+CREATE TABLE IF NOT EXISTS assistant_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES assistant_sessions(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL DEFAULT '',
+  sources JSONB NOT NULL DEFAULT '[]'::jsonb, -- Messages the reply could cite, see ChatSource
+  citations JSONB NOT NULL DEFAULT '[]'::jsonb, -- Sources the reply did cite
+  actions JSONB NOT NULL DEFAULT '[]'::jsonb, -- Proposed changes and whether they were confirmed
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS assistant_messages_session_idx
+ON assistant_messages(session_id, created_at);
+
+ALTER TABLE assistant_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE assistant_messages ENABLE ROW LEVEL SECURITY;
+
+-- Sessions are private to the person chatting
+CREATE POLICY "Users can manage their own assistant sessions"
+ON assistant_sessions FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (
+  user_id = auth.uid()
+  AND (
+    workspace_id IS NULL
+    OR EXISTS (
+      SELECT 1
+      FROM workspace_members
+      WHERE workspace_id = assistant_sessions.workspace_id
+        AND user_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can manage messages in their own assistant sessions"
+ON assistant_messages FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM assistant_sessions
+    WHERE id = assistant_messages.session_id
+      AND user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1
+    FROM assistant_sessions
+    WHERE id = assistant_messages.session_id
+      AND user_id = auth.uid()
+  )
+);
@@ -0,0 +1,27 @@
+-- Rolling summary of each channel and conversation, kept up to date by the
+-- embedding worker so context generation doesn't need the whole history
+CREATE TABLE IF NOT EXISTS context_summaries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id UUID REFERENCES channels(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE,
+  summary TEXT NOT NULL DEFAULT '',
+  summarized_until TIMESTAMPTZ, -- created_at of the newest message folded in
+  message_count INTEGER NOT NULL DEFAULT 0, -- Messages folded in so far
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT context_summaries_container_check CHECK (
+    (channel_id IS NOT NULL AND conversation_id IS NULL) OR
+    (channel_id IS NULL AND conversation_id IS NOT NULL)
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS context_summaries_channel_idx
+ON context_summaries (channel_id)
+WHERE channel_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS context_summaries_conversation_idx
+ON context_summaries (conversation_id)
+WHERE conversation_id IS NOT NULL;
+
+-- Only the embedding worker reads and writes these, with the service role
+ALTER TABLE context_summaries ENABLE ROW LEVEL SECURITY;
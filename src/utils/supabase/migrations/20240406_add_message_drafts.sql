@@ -0,0 +1,42 @@
+-- Unsent messages, one per channel, conversation and thread, kept on the
+-- server so they follow the user between devices
+CREATE TABLE IF NOT EXISTS message_drafts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  channel_id UUID REFERENCES channels(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES messages(id) ON DELETE CASCADE, -- Set for a reply in a thread
+  draft_key TEXT NOT NULL, -- Where the draft is written, see getDraftKey
+  content TEXT NOT NULL,
+  mentions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT message_drafts_container_check CHECK (
+    (channel_id IS NOT NULL AND conversation_id IS NULL) OR
+    (channel_id IS NULL AND conversation_id IS NOT NULL)
+  ),
+  CONSTRAINT message_drafts_user_key UNIQUE (user_id, draft_key)
+);
+
+CREATE INDEX IF NOT EXISTS message_drafts_workspace_idx
+ON message_drafts(user_id, workspace_id, updated_at DESC);
+
+ALTER TABLE message_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Drafts are private to the person writing them
+CREATE POLICY "Users can manage their own drafts"
+ON message_drafts FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1
+    FROM workspace_members
+    WHERE workspace_id = message_drafts.workspace_id
+      AND user_id = auth.uid()
+  )
+);
+
+-- Drafts saved on one device show up in the others' sidebars
+ALTER PUBLICATION supabase_realtime ADD TABLE message_drafts;
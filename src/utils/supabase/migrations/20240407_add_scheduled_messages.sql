@@ -0,0 +1,132 @@
+-- Messages written now to be sent later, e.g. an announcement timed for the
+-- start of someone's working day. The scheduler posts each one as its author
+-- once send_at has passed.
+CREATE TABLE IF NOT EXISTS scheduled_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(), -- Also the id of the message it's sent as
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  channel_id UUID REFERENCES channels(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES messages(id) ON DELETE CASCADE, -- Set for a reply in a thread
+  content TEXT NOT NULL DEFAULT '',
+  mentions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  files JSONB NOT NULL DEFAULT '[]'::jsonb, -- Uploaded attachments still to be attached, see ScheduledFile
+  send_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  locked_at TIMESTAMPTZ, -- When the scheduler claimed it
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT scheduled_messages_container_check CHECK (
+    (channel_id IS NOT NULL AND conversation_id IS NULL) OR
+    (channel_id IS NULL AND conversation_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS scheduled_messages_due_idx
+ON scheduled_messages(send_at)
+WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS scheduled_messages_user_idx
+ON scheduled_messages(user_id, workspace_id, send_at);
+
+ALTER TABLE scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+-- Scheduled messages are private to their author until they're sent
+CREATE POLICY "Users can read their own scheduled messages"
+ON scheduled_messages FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can schedule messages where they can post"
+ON scheduled_messages FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND status = 'scheduled'
+  AND EXISTS (
+    SELECT 1
+    FROM workspace_members
+    WHERE workspace_id = scheduled_messages.workspace_id
+      AND user_id = auth.uid()
+  )
+  AND (
+    (channel_id IS NOT NULL AND user_in_channel(auth.uid(), channel_id))
+    OR (
+      conversation_id IS NOT NULL
+      AND user_in_conversation(auth.uid(), conversation_id)
+    )
+  )
+);
+
+-- Once the scheduler has picked a message up it can no longer be changed
+CREATE POLICY "Users can edit their own unsent scheduled messages"
+ON scheduled_messages FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid() AND status IN ('scheduled', 'failed'))
+WITH CHECK (user_id = auth.uid() AND status = 'scheduled');
+
+CREATE POLICY "Users can cancel their own unsent scheduled messages"
+ON scheduled_messages FOR DELETE
+TO authenticated
+USING (user_id = auth.uid() AND status IN ('scheduled', 'failed'));
+
+-- Claim up to p_limit due messages for the scheduler. Messages stuck in
+-- 'sending' past p_lock_timeout (the scheduler died mid-send) are retried,
+-- or marked failed if they have no attempts left. Sent ones are pruned
+-- after a week.
+CREATE OR REPLACE FUNCTION public.claim_scheduled_messages(
+  p_limit integer DEFAULT 20,
+  p_lock_timeout interval DEFAULT INTERVAL '5 minutes'
+)
+RETURNS SETOF scheduled_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM scheduled_messages
+  WHERE status = 'sent'
+    AND sent_at < NOW() - INTERVAL '7 days';
+
+  UPDATE scheduled_messages
+  SET status = 'failed',
+      locked_at = NULL,
+      last_error = COALESCE(last_error, 'Timed out'),
+      updated_at = NOW()
+  WHERE status = 'sending'
+    AND locked_at < NOW() - p_lock_timeout
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE scheduled_messages s
+  SET status = 'sending',
+      locked_at = NOW(),
+      attempts = s.attempts + 1,
+      updated_at = NOW()
+  WHERE s.id IN (
+    SELECT id
+    FROM scheduled_messages
+    WHERE (status = 'scheduled' AND send_at <= NOW())
+       OR (status = 'sending' AND locked_at < NOW() - p_lock_timeout)
+    ORDER BY send_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING s.*;
+END;
+$$;
+
+-- Only the scheduler (service role) sends them
+REVOKE EXECUTE ON FUNCTION public.claim_scheduled_messages(integer, interval) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_scheduled_messages(integer, interval) TO service_role;
+
+-- Open tabs see their scheduled messages go out
+ALTER PUBLICATION supabase_realtime ADD TABLE scheduled_messages;
+
+-- The scheduler queues embeddings for the messages it sends as the service
+-- role, which enqueue_embedding_job allows from
+-- 20240410_pick_one_pending_embedding_job
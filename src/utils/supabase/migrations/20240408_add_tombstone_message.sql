@@ -0,0 +1,47 @@
+-- Moderators could update any column of other people's messages in their
+-- channels. Tombstoning now goes through tombstone_message instead, which
+-- only clears what the message said.
+DROP POLICY IF EXISTS "Moderators can update channel messages" ON messages;
+
+-- Tombstone a message that still has thread replies: mark it deleted and
+-- clear its content, mentions, embedding, attachments and edit history,
+-- leaving the rest as it was. Its author or a moderator of its channel can
+-- do this.
+CREATE OR REPLACE FUNCTION public.tombstone_message(p_message_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message messages%ROWTYPE;
+BEGIN
+  SELECT * INTO v_message FROM messages WHERE id = p_message_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF v_message.user_id IS DISTINCT FROM auth.uid() AND NOT (
+    v_message.channel_id IS NOT NULL AND can_moderate_channel(v_message.channel_id)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to delete this message';
+  END IF;
+
+  DELETE FROM message_edits WHERE message_id = p_message_id;
+  DELETE FROM files WHERE message_id = p_message_id;
+
+  UPDATE messages
+  SET content = '',
+      deleted_at = NOW(),
+      edited_at = NULL,
+      mentions = '[]'::jsonb,
+      embedding = NULL,
+      context = NULL,
+      formatted_chain = NULL
+  WHERE id = p_message_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.tombstone_message(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.tombstone_message(uuid) TO authenticated;
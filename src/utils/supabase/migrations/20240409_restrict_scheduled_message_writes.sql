@@ -0,0 +1,74 @@
+-- Clients could write any S3 key into a scheduled message's files, and reset
+-- its attempts or status. They can now only set what scheduleMessage and
+-- updateScheduledMessage do, and only attach their own uploads.
+
+-- Whether every attachment is one of the user's own uploads
+CREATE OR REPLACE FUNCTION public.scheduled_files_owned_by(
+  p_files jsonb,
+  p_user_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_files) AS f
+    WHERE NOT COALESCE(starts_with(f->>'key', 'uploads/' || p_user_id || '/'), false)
+  );
+$$;
+
+REVOKE INSERT, UPDATE ON scheduled_messages FROM authenticated;
+GRANT INSERT (user_id, workspace_id, channel_id, conversation_id, parent_id, content, mentions, files, send_at)
+ON scheduled_messages TO authenticated;
+GRANT UPDATE (content, mentions, send_at, updated_at)
+ON scheduled_messages TO authenticated;
+
+DROP POLICY IF EXISTS "Users can schedule messages where they can post" ON scheduled_messages;
+CREATE POLICY "Users can schedule messages where they can post"
+ON scheduled_messages FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND status = 'scheduled'
+  AND scheduled_files_owned_by(files, auth.uid())
+  AND EXISTS (
+    SELECT 1
+    FROM workspace_members
+    WHERE workspace_id = scheduled_messages.workspace_id
+      AND user_id = auth.uid()
+  )
+  AND (
+    (channel_id IS NOT NULL AND user_in_channel(auth.uid(), channel_id))
+    OR (
+      conversation_id IS NOT NULL
+      AND user_in_conversation(auth.uid(), conversation_id)
+    )
+  )
+);
+
+-- Editing or rescheduling a message starts it afresh, so a failed one is
+-- tried again with all its attempts
+CREATE OR REPLACE FUNCTION public.reset_rescheduled_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.mentions IS DISTINCT FROM OLD.mentions
+    OR NEW.send_at IS DISTINCT FROM OLD.send_at
+  THEN
+    NEW.status := 'scheduled';
+    NEW.attempts := 0;
+    NEW.locked_at := NULL;
+    NEW.last_error := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reset_rescheduled_message_trigger ON scheduled_messages;
+CREATE TRIGGER reset_rescheduled_message_trigger
+BEFORE UPDATE ON scheduled_messages
+FOR EACH ROW
+EXECUTE FUNCTION reset_rescheduled_message();
@@ -0,0 +1,90 @@
+-- More than one pending job can match a message (two sends racing to insert
+-- one, or an edit re-queueing an older anchor), which made the UPDATE ...
+-- INTO below fail with "query returned more than one row". The newest
+-- matching job is now locked and reused, and the others run as they are.
+--
+-- The service role can now queue any message too: the scheduler (20240407)
+-- posts scheduled messages without a user session.
+
+-- Queue a chain for embedding after p_delay_seconds. A pending job for the
+-- same author and channel/conversation whose anchor is within the hour is
+-- reused, so a burst of messages becomes one job for its newest message.
+CREATE OR REPLACE FUNCTION public.enqueue_embedding_job(
+  p_message_id uuid,
+  p_delay_seconds integer DEFAULT 0
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message messages%ROWTYPE;
+  v_chain_key TEXT;
+  v_job_id uuid;
+BEGIN
+  SELECT * INTO v_message FROM messages WHERE id = p_message_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  -- The service role queues for messages it posts on a user's behalf, like
+  -- scheduled messages
+  IF COALESCE(auth.role(), '') <> 'service_role' AND NOT (
+    (v_message.channel_id IS NOT NULL AND user_in_channel(auth.uid(), v_message.channel_id))
+    OR (
+      v_message.conversation_id IS NOT NULL
+      AND user_in_conversation(auth.uid(), v_message.conversation_id)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to index this message';
+  END IF;
+
+  v_chain_key := v_message.user_id || ':' || COALESCE(v_message.channel_id, v_message.conversation_id);
+
+  UPDATE embedding_jobs j
+  SET
+    message_id = CASE
+      WHEN v_message.created_at >= anchor.created_at THEN v_message.id
+      ELSE j.message_id
+    END,
+    message_ids = CASE
+      WHEN v_message.id = ANY(j.message_ids) THEN j.message_ids
+      ELSE array_append(j.message_ids, v_message.id)
+    END,
+    run_at = GREATEST(j.run_at, NOW() + make_interval(secs => p_delay_seconds)),
+    updated_at = NOW()
+  FROM messages anchor
+  WHERE anchor.id = j.message_id
+    -- Checked again in case a worker claimed it while we waited for the lock
+    AND j.status = 'pending'
+    AND j.id = (
+      SELECT pending.id
+      FROM embedding_jobs pending
+      JOIN messages pending_anchor ON pending_anchor.id = pending.message_id
+      WHERE pending.status = 'pending'
+        AND pending.chain_key = v_chain_key
+        AND v_message.created_at BETWEEN pending_anchor.created_at - INTERVAL '1 hour'
+          AND pending_anchor.created_at + INTERVAL '1 hour'
+      ORDER BY pending_anchor.created_at DESC
+      LIMIT 1
+      FOR UPDATE OF pending
+    )
+  RETURNING j.id INTO v_job_id;
+
+  IF v_job_id IS NULL THEN
+    INSERT INTO embedding_jobs (message_id, message_ids, user_id, chain_key, run_at)
+    VALUES (
+      v_message.id,
+      ARRAY[v_message.id],
+      v_message.user_id,
+      v_chain_key,
+      NOW() + make_interval(secs => p_delay_seconds)
+    )
+    RETURNING id INTO v_job_id;
+  END IF;
+
+  RETURN v_job_id;
+END;
+$$;
@@ -0,0 +1,21 @@
+-- deleteMessage checked whether other messages still used an upload through
+-- the caller's RLS, and deleted attachments before the message itself. It
+-- now removes the message first and asks this function what's left unused.
+
+-- Which of p_keys no files row refers to any more, so their S3 objects can
+-- go. Runs as definer: the caller can't see files in DMs and private
+-- channels they aren't in, and would take a key still used there as unused.
+CREATE OR REPLACE FUNCTION public.unused_upload_keys(p_keys text[])
+RETURNS SETOF text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT key
+  FROM unnest(p_keys) AS key
+  WHERE NOT EXISTS (SELECT 1 FROM files WHERE files.file_url = key);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.unused_upload_keys(text[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.unused_upload_keys(text[]) TO authenticated;
@@ -0,0 +1,23 @@
+-- The scheduler posts a message before attaching its files. If attaching
+-- failed, the message went back to 'scheduled' or 'failed' while already in
+-- the channel, and its author could still edit it (which never reached the
+-- posted message) or cancel it (deleting uploads still to be attached).
+-- published_at records that it's been posted, after which it's locked.
+ALTER TABLE scheduled_messages
+ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ;
+
+DROP POLICY IF EXISTS "Users can edit their own unsent scheduled messages" ON scheduled_messages;
+DROP POLICY IF EXISTS "Users can cancel their own unsent scheduled messages" ON scheduled_messages;
+
+-- Once the scheduler has picked a message up it can no longer be changed,
+-- nor once it's been posted, even if some attachments are still to come
+CREATE POLICY "Users can edit their own unsent scheduled messages"
+ON scheduled_messages FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid() AND status IN ('scheduled', 'failed') AND published_at IS NULL)
+WITH CHECK (user_id = auth.uid() AND status = 'scheduled');
+
+CREATE POLICY "Users can cancel their own unsent scheduled messages"
+ON scheduled_messages FOR DELETE
+TO authenticated
+USING (user_id = auth.uid() AND status IN ('scheduled', 'failed') AND published_at IS NULL);
@@ -0,0 +1,41 @@
+-- Every client received every workspace's file and reaction changes, and
+-- the ids of every deleted message. Clients now only listen to messages in
+-- their own channels and conversations, and deleteMessage tombstones a
+-- message before removing it so the removal reaches them as an UPDATE.
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS extras_changed_at TIMESTAMPTZ;
+
+ALTER PUBLICATION supabase_realtime DROP TABLE files;
+ALTER PUBLICATION supabase_realtime DROP TABLE message_reactions;
+
+DROP TRIGGER IF EXISTS touch_message_on_file_change ON files;
+DROP TRIGGER IF EXISTS touch_message_on_reaction_change ON message_reactions;
+
+-- Realtime can't filter DELETE events, and files and reactions have no
+-- channel to filter the rest by. Instead of publishing them, a change to
+-- either bumps its message's extras_changed_at, which reaches clients as an
+-- UPDATE through their channel-scoped subscription to messages. Files only
+-- count when what's shown changes, not when they're re-embedded.
+CREATE OR REPLACE FUNCTION public.touch_message_extras()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE messages
+  SET extras_changed_at = NOW()
+  WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.message_id ELSE NEW.message_id END;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER touch_message_on_file_change
+AFTER INSERT OR DELETE OR UPDATE OF caption, description ON files
+FOR EACH ROW
+EXECUTE FUNCTION touch_message_extras();
+
+CREATE TRIGGER touch_message_on_reaction_change
+AFTER INSERT OR DELETE ON message_reactions
+FOR EACH ROW
+EXECUTE FUNCTION touch_message_extras();